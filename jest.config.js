@@ -0,0 +1,38 @@
+/** @type {import('jest').Config} */
+const moduleNameMapper = {
+  '^@treza/sdk$': '<rootDir>/src/index.ts',
+  '^@treza/sdk/attestation$': '<rootDir>/src/attestation/index.ts',
+  '^@treza/sdk/testing$': '<rootDir>/src/testing/index.ts',
+};
+
+module.exports = {
+  projects: [
+    {
+      displayName: 'sdk',
+      preset: 'ts-jest',
+      testEnvironment: 'node',
+      roots: ['<rootDir>/src'],
+      testMatch: ['**/*.test.ts'],
+      moduleNameMapper,
+    },
+    {
+      displayName: 'mcp',
+      testEnvironment: 'node',
+      roots: ['<rootDir>/packages/mcp/src'],
+      testMatch: ['**/*.test.ts'],
+      transform: {
+        '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/packages/mcp/tsconfig.json' }],
+      },
+    },
+    {
+      displayName: 'cli',
+      testEnvironment: 'node',
+      roots: ['<rootDir>/packages/cli/src'],
+      testMatch: ['**/*.test.ts'],
+      transform: {
+        '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/packages/cli/tsconfig.json' }],
+      },
+      moduleNameMapper,
+    },
+  ],
+};
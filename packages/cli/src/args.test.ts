@@ -0,0 +1,81 @@
+import {
+  UsageError,
+  flag,
+  intOption,
+  keyValueOption,
+  listOption,
+  parseCommandArgs,
+  parseSince,
+  requiredOption,
+  requiredPositional,
+  stringOption,
+} from './args';
+
+describe('parseCommandArgs', () => {
+  it('parses command options together with the global options', () => {
+    const { positionals, values } = parseCommandArgs(
+      ['enc_1', '-o', 'json', '--wallet', '0xabc', '--follow', '--type', 'ecs'],
+      { follow: { type: 'boolean' }, type: { type: 'string' } }
+    );
+
+    expect(positionals).toEqual(['enc_1']);
+    expect(stringOption(values, 'output')).toBe('json');
+    expect(stringOption(values, 'wallet')).toBe('0xabc');
+    expect(flag(values, 'follow')).toBe(true);
+    expect(stringOption(values, 'type')).toBe('ecs');
+  });
+
+  it('rejects unknown options and missing values as usage errors', () => {
+    expect(() => parseCommandArgs(['--nope'])).toThrow(UsageError);
+    expect(() => parseCommandArgs(['--profile'])).toThrow(UsageError);
+  });
+});
+
+describe('option values', () => {
+  it('splits repeated list options on commas', () => {
+    const { values } = parseCommandArgs(
+      ['--status', 'FAILED, PAUSED', '--status', 'DEPLOYED'],
+      { status: { type: 'string', multiple: true } }
+    );
+
+    expect(listOption(values, 'status')).toEqual(['FAILED', 'PAUSED', 'DEPLOYED']);
+    expect(listOption(values, 'region')).toBeUndefined();
+  });
+
+  it('accepts only non-negative integers for integer options', () => {
+    expect(intOption({ limit: '20' }, 'limit')).toBe(20);
+    expect(intOption({}, 'limit')).toBeUndefined();
+    expect(() => intOption({ limit: '-1' }, 'limit')).toThrow('--limit must be a non-negative integer');
+    expect(() => intOption({ limit: '2.5' }, 'limit')).toThrow(UsageError);
+  });
+
+  it('converts numbers and booleans in key=value pairs', () => {
+    expect(keyValueOption({ config: ['cpuCount=2', 'debug=true', 'image=nginx:1.25', 'tag=v1=2'] }, 'config')).toEqual({
+      cpuCount: 2,
+      debug: true,
+      image: 'nginx:1.25',
+      tag: 'v1=2',
+    });
+    expect(() => keyValueOption({ config: ['=2'] }, 'config')).toThrow('--config expects key=value, got "=2"');
+  });
+
+  it('names the missing option or argument', () => {
+    expect(() => requiredOption({}, 'name')).toThrow('Missing required option --name');
+    expect(() => requiredPositional([], 0, 'enclave-id')).toThrow('Missing required argument <enclave-id>');
+  });
+});
+
+describe('parseSince', () => {
+  const now = Date.parse('2025-01-01T12:00:00Z');
+
+  it('reads durations relative to now', () => {
+    expect(parseSince('30s', now).toISOString()).toBe('2025-01-01T11:59:30.000Z');
+    expect(parseSince('2h', now).toISOString()).toBe('2025-01-01T10:00:00.000Z');
+    expect(parseSince('1d', now).toISOString()).toBe('2024-12-31T12:00:00.000Z');
+  });
+
+  it('reads dates and rejects anything else', () => {
+    expect(parseSince('2024-06-01T00:00:00Z', now).toISOString()).toBe('2024-06-01T00:00:00.000Z');
+    expect(() => parseSince('yesterday', now)).toThrow(UsageError);
+  });
+});
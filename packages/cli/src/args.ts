@@ -0,0 +1,161 @@
+import { parseArgs } from 'util';
+
+/**
+ * Command-line parsing for the treza CLI, on top of Node's `util.parseArgs`.
+ */
+
+export interface OptionSpec {
+  type: 'string' | 'boolean';
+  short?: string;
+  multiple?: boolean;
+}
+
+export type OptionSpecs = Record<string, OptionSpec>;
+
+export type OptionValues = Record<string, string | boolean | Array<string | boolean> | undefined>;
+
+export interface ParsedArgs {
+  positionals: string[];
+  values: OptionValues;
+}
+
+/**
+ * The command line could not be understood; exits with EXIT_CODES.USAGE
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/** Options every command accepts */
+export const GLOBAL_OPTIONS: OptionSpecs = {
+  profile: { type: 'string', short: 'p' },
+  output: { type: 'string', short: 'o' },
+  wallet: { type: 'string', short: 'w' },
+  'base-url': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+};
+
+/**
+ * Parse a command's arguments together with the global options
+ */
+export function parseCommandArgs(args: string[], options: OptionSpecs = {}): ParsedArgs {
+  try {
+    const { positionals, values } = parseArgs({
+      args,
+      options: { ...GLOBAL_OPTIONS, ...options },
+      allowPositionals: true,
+      strict: true,
+    });
+    return { positionals, values: values as OptionValues };
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+/**
+ * String option value
+ */
+export function stringOption(values: OptionValues, name: string): string | undefined {
+  const value = values[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Boolean flag value
+ */
+export function flag(values: OptionValues, name: string): boolean {
+  return values[name] === true;
+}
+
+/**
+ * Values of a repeatable option, also split on commas: `--status FAILED,PAUSED --status DEPLOYED`
+ */
+export function listOption(values: OptionValues, name: string): string[] | undefined {
+  const value = values[name];
+  if (value === undefined) return undefined;
+  return ([] as Array<string | boolean>)
+    .concat(value)
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Integer option value
+ */
+export function intOption(values: OptionValues, name: string): number | undefined {
+  const value = stringOption(values, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new UsageError(`--${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+/**
+ * String option that must be set
+ */
+export function requiredOption(values: OptionValues, name: string): string {
+  const value = stringOption(values, name);
+  if (!value) {
+    throw new UsageError(`Missing required option --${name}`);
+  }
+  return value;
+}
+
+/**
+ * Positional argument that must be present
+ */
+export function requiredPositional(positionals: string[], index: number, name: string): string {
+  const value = positionals[index];
+  if (!value) {
+    throw new UsageError(`Missing required argument <${name}>`);
+  }
+  return value;
+}
+
+/**
+ * Parse `key=value` pairs into an object. Values that look like numbers or
+ * booleans are converted; everything else stays a string.
+ */
+export function keyValueOption(values: OptionValues, name: string): Record<string, unknown> | undefined {
+  const pairs = values[name];
+  if (pairs === undefined) return undefined;
+
+  const result: Record<string, unknown> = {};
+  for (const pair of ([] as Array<string | boolean>).concat(pairs).map(String)) {
+    const index = pair.indexOf('=');
+    if (index <= 0) {
+      throw new UsageError(`--${name} expects key=value, got "${pair}"`);
+    }
+    result[pair.slice(0, index)] = parseScalar(pair.slice(index + 1));
+  }
+  return result;
+}
+
+/**
+ * Parse a `--since` value: a duration ago (`30s`, `10m`, `2h`, `1d`) or a date
+ */
+export function parseSince(value: string, now = Date.now()): Date {
+  const match = /^(\d+)([smhd])$/.exec(value);
+  if (match) {
+    const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 's' | 'm' | 'h' | 'd'];
+    return new Date(now - Number(match[1]) * unit);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new UsageError(`--since expects a duration such as 10m or a date, got "${value}"`);
+  }
+  return date;
+}
+
+function parseScalar(value: string): unknown {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
@@ -0,0 +1,39 @@
+import type { TrezaClient } from '@treza/sdk';
+import { OptionSpecs, ParsedArgs, UsageError } from './args';
+import { ConfigFile, Settings } from './config';
+import { Output } from './output';
+
+/**
+ * Everything a command needs to run
+ */
+export interface CommandContext {
+  settings: Settings;
+  config: ConfigFile;
+  client: TrezaClient;
+  output: Output;
+  /** Aborted on Ctrl-C */
+  signal: AbortSignal;
+}
+
+export interface Command {
+  /** Command words, e.g. `enclaves ls` */
+  name: string;
+  summary: string;
+  /** Arguments and command-specific options, for help output */
+  usage?: string;
+  options?: OptionSpecs;
+  /** Does not call the platform, so undefined profiles are allowed (config commands) */
+  standalone?: boolean;
+  /** Runs the command; may return an exit code other than OK */
+  run(context: CommandContext, args: ParsedArgs): Promise<number | void>;
+}
+
+/**
+ * Wallet that owns the resources a command acts on
+ */
+export function walletAddress({ settings }: CommandContext): string {
+  if (!settings.walletAddress) {
+    throw new UsageError('No wallet address; pass --wallet, set TREZA_WALLET_ADDRESS, or run: treza config set walletAddress <address>');
+  }
+  return settings.walletAddress;
+}
@@ -0,0 +1,59 @@
+import type { AttestationResponse, VerificationResult } from '@treza/sdk';
+import { flag, requiredPositional, stringOption } from '../args';
+import { Command } from '../command';
+import { EXIT_CODES } from '../exit-codes';
+import { Column } from '../output';
+
+const ATTESTATION_FIELDS: Array<Column<AttestationResponse>> = [
+  { header: 'Enclave', value: (attestation) => attestation.enclaveId },
+  { header: 'Module', value: ({ attestationDocument }) => attestationDocument.moduleId },
+  { header: 'Timestamp', value: ({ attestationDocument }) => new Date(attestationDocument.timestamp).toISOString() },
+  ...[0, 1, 2, 8].map((index): Column<AttestationResponse> => ({
+    header: `PCR${index}`,
+    value: ({ attestationDocument }) => (attestationDocument.pcrs as Record<number, string | undefined>)[index],
+  })),
+  { header: 'Trust level', value: ({ verification }) => verification?.trustLevel },
+  { header: 'Verification URL', value: ({ endpoints }) => endpoints?.verificationUrl },
+];
+
+const VERIFICATION_FIELDS: Array<Column<VerificationResult & { errors?: string[] }>> = [
+  { header: 'Valid', value: (result) => result.isValid },
+  { header: 'Trust level', value: (result) => result.trustLevel },
+  { header: 'PCRs', value: (result) => result.verificationDetails.pcrVerification },
+  { header: 'Certificate chain', value: (result) => result.verificationDetails.certificateChain },
+  { header: 'Signature', value: (result) => result.verificationDetails.signatureValid },
+  { header: 'Timestamp', value: (result) => result.verificationDetails.timestampValid },
+  { header: 'Nonce', value: (result) => result.verificationDetails.nonceMatches },
+  { header: 'Errors', value: (result) => result.errors },
+];
+
+export const attestCommands: Command[] = [
+  {
+    name: 'attest get',
+    summary: 'Show an enclave\'s attestation document and PCR measurements',
+    usage: '<enclave-id> [--nonce <hex>]',
+    options: { nonce: { type: 'string' } },
+    async run(context, { positionals, values }) {
+      const attestation = await context.client.getAttestation(requiredPositional(positionals, 0, 'enclave-id'), {
+        nonce: stringOption(values, 'nonce'),
+      });
+      context.output.print(attestation, ATTESTATION_FIELDS);
+    },
+  },
+  {
+    name: 'attest verify',
+    summary: 'Verify an enclave\'s attestation; exits non-zero when it is not valid',
+    usage: '<enclave-id> [--nonce <hex>] [--local]',
+    options: { nonce: { type: 'string' }, local: { type: 'boolean' } },
+    async run(context, { positionals, values }) {
+      const enclaveId = requiredPositional(positionals, 0, 'enclave-id');
+      const nonce = stringOption(values, 'nonce');
+      const result = flag(values, 'local')
+        ? await context.client.verifyAttestationLocally(enclaveId, { nonce })
+        : await context.client.verifyAttestation(enclaveId, { nonce });
+
+      context.output.print(result, VERIFICATION_FIELDS);
+      return result.isValid ? EXIT_CODES.OK : EXIT_CODES.ATTESTATION;
+    },
+  },
+];
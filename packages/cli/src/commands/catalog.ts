@@ -0,0 +1,133 @@
+import type { Branch, DockerImage, DockerTag, Provider, Repository } from '@treza/sdk';
+import { UsageError, requiredPositional, stringOption } from '../args';
+import { Command } from '../command';
+import { Column } from '../output';
+
+/**
+ * Read-only lookups: providers, Docker Hub and GitHub
+ */
+
+const PROVIDER_COLUMNS: Array<Column<Provider>> = [
+  { header: 'ID', value: (provider) => provider.id },
+  { header: 'Name', value: (provider) => provider.name },
+  { header: 'Regions', value: (provider) => provider.regions },
+];
+
+const IMAGE_COLUMNS: Array<Column<DockerImage>> = [
+  { header: 'Name', value: (image) => image.name },
+  { header: 'Stars', value: (image) => image.stars },
+  { header: 'Official', value: (image) => (image.official ? 'yes' : '') },
+  { header: 'Description', value: (image) => image.description },
+];
+
+const TAG_COLUMNS: Array<Column<DockerTag>> = [
+  { header: 'Tag', value: (tag) => tag.name },
+  { header: 'Digest', value: (tag) => tag.digest },
+  { header: 'Size', value: (tag) => tag.size },
+  { header: 'Updated', value: (tag) => tag.lastUpdated },
+];
+
+const REPOSITORY_COLUMNS: Array<Column<Repository>> = [
+  { header: 'Repository', value: (repository) => repository.fullName },
+  { header: 'Private', value: (repository) => (repository.private ? 'yes' : '') },
+  { header: 'Default branch', value: (repository) => repository.defaultBranch },
+  { header: 'Language', value: (repository) => repository.language },
+  { header: 'Updated', value: (repository) => repository.updatedAt },
+];
+
+const BRANCH_COLUMNS: Array<Column<Branch>> = [
+  { header: 'Branch', value: (branch) => branch.name },
+  { header: 'Commit', value: (branch) => branch.commit.sha },
+];
+
+const GITHUB_TOKEN_OPTION = { token: { type: 'string' as const } };
+
+export const catalogCommands: Command[] = [
+  {
+    name: 'providers ls',
+    summary: 'List enclave providers and their regions',
+    async run(context) {
+      context.output.print(await context.client.getProviders(), PROVIDER_COLUMNS);
+    },
+  },
+  {
+    name: 'providers get',
+    summary: 'Show a provider, including its configuration schema',
+    usage: '<provider-id>',
+    async run(context, { positionals }) {
+      const provider = await context.client.getProvider(requiredPositional(positionals, 0, 'provider-id'));
+      if (context.output.format === 'json') {
+        context.output.print(provider);
+      } else {
+        context.output.print(provider, [
+          ...PROVIDER_COLUMNS,
+          { header: 'Description', value: ({ description }) => description },
+          { header: 'Settings', value: ({ configSchema }) => Object.keys(configSchema?.properties ?? {}) },
+        ]);
+      }
+    },
+  },
+  {
+    name: 'docker search',
+    summary: 'Search Docker Hub images',
+    usage: '<query>',
+    async run(context, { positionals }) {
+      const { results } = await context.client.searchDockerImages(requiredPositional(positionals, 0, 'query'));
+      context.output.print(results, IMAGE_COLUMNS);
+    },
+  },
+  {
+    name: 'docker tags',
+    summary: 'List the tags of a Docker Hub repository',
+    usage: '<repository>',
+    async run(context, { positionals }) {
+      const { tags } = await context.client.getDockerTags(requiredPositional(positionals, 0, 'repository'));
+      context.output.print(tags, TAG_COLUMNS);
+    },
+  },
+  {
+    name: 'docker resolve',
+    summary: 'Resolve a Docker Hub tag to the digest it points at',
+    usage: '<image>',
+    async run(context, { positionals }) {
+      const resolved = await context.client.resolveDockerImage(requiredPositional(positionals, 0, 'image'));
+      context.output.print(resolved, [
+        { header: 'Tag', value: ({ tag }) => tag },
+        { header: 'Digest', value: ({ digest }) => digest },
+        { header: 'Pinned image', value: ({ image }) => image },
+        { header: 'Updated', value: ({ lastUpdated }) => lastUpdated },
+      ]);
+    },
+  },
+  {
+    name: 'github repos',
+    summary: 'List GitHub repositories available to a token',
+    usage: '[--token <token>]',
+    options: GITHUB_TOKEN_OPTION,
+    async run(context, { values }) {
+      const { repositories } = await context.client.getGitHubRepositories(githubToken(stringOption(values, 'token')));
+      context.output.print(repositories, REPOSITORY_COLUMNS);
+    },
+  },
+  {
+    name: 'github branches',
+    summary: 'List the branches of a GitHub repository',
+    usage: '<owner/repo> [--token <token>]',
+    options: GITHUB_TOKEN_OPTION,
+    async run(context, { positionals, values }) {
+      const { branches } = await context.client.getRepositoryBranches({
+        repository: requiredPositional(positionals, 0, 'owner/repo'),
+        accessToken: githubToken(stringOption(values, 'token')),
+      });
+      context.output.print(branches, BRANCH_COLUMNS);
+    },
+  },
+];
+
+export function githubToken(value: string | undefined): string {
+  const token = value || process.env.GITHUB_TOKEN;
+  if (!token) {
+    throw new UsageError('No GitHub token; pass --token or set GITHUB_TOKEN');
+  }
+  return token;
+}
@@ -0,0 +1,97 @@
+import { UsageError, requiredPositional } from '../args';
+import { Command } from '../command';
+import { PROFILE_KEYS, Profile, configPath, parseProfileValue, profileName, saveConfig } from '../config';
+
+export const configCommands: Command[] = [
+  {
+    name: 'config ls',
+    summary: 'List profiles',
+    standalone: true,
+    async run(context) {
+      const active = context.settings.profile;
+      const rows = Object.entries(context.config.profiles).map(([name, profile]) => ({ name, ...redact(profile) }));
+      context.output.print(rows, [
+        { header: 'Profile', value: ({ name }) => (name === active ? `${name} *` : name) },
+        { header: 'Base URL', value: ({ baseUrl }) => baseUrl },
+        { header: 'Wallet', value: ({ walletAddress }) => walletAddress },
+        { header: 'API key', value: ({ apiKey }) => apiKey },
+        { header: 'Output', value: ({ output }) => output },
+      ]);
+    },
+  },
+  {
+    name: 'config get',
+    summary: 'Show the settings in effect, or one of them',
+    usage: '[key]',
+    standalone: true,
+    async run(context, { positionals }) {
+      const settings = redact(context.settings);
+      const key = positionals[0];
+      if (key === undefined) {
+        context.output.print({ ...settings, configFile: configPath() });
+      } else if (key in settings) {
+        context.output.line(String(settings[key as keyof typeof settings] ?? ''), settings[key as keyof typeof settings]);
+      } else {
+        throw new UsageError(`Unknown setting "${key}"; use one of ${Object.keys(settings).join(', ')}`);
+      }
+    },
+  },
+  {
+    name: 'config set',
+    summary: 'Store a setting in a profile (the active one unless --profile is given)',
+    usage: `<${PROFILE_KEYS.join('|')}> <value>`,
+    standalone: true,
+    async run(context, { positionals, values }) {
+      const key = profileKey(requiredPositional(positionals, 0, 'key'));
+      const value = parseProfileValue(key, requiredPositional(positionals, 1, 'value'));
+      const name = profileName(values, context.config);
+
+      const profiles = { ...context.config.profiles, [name]: { ...context.config.profiles[name], [key]: value } };
+      saveConfig({ ...context.config, profiles });
+      context.output.message(`Set ${key} in profile "${name}"`);
+    },
+  },
+  {
+    name: 'config unset',
+    summary: 'Remove a setting from a profile',
+    usage: `<${PROFILE_KEYS.join('|')}>`,
+    standalone: true,
+    async run(context, { positionals, values }) {
+      const key = profileKey(requiredPositional(positionals, 0, 'key'));
+      const name = profileName(values, context.config);
+      const { [key]: _removed, ...profile } = context.config.profiles[name] ?? {};
+
+      saveConfig({ ...context.config, profiles: { ...context.config.profiles, [name]: profile } });
+      context.output.message(`Removed ${key} from profile "${name}"`);
+    },
+  },
+  {
+    name: 'config use',
+    summary: 'Make a profile the default',
+    usage: '<profile>',
+    standalone: true,
+    async run(context, { positionals }) {
+      const name = requiredPositional(positionals, 0, 'profile');
+      if (!context.config.profiles[name]) {
+        throw new UsageError(`Profile "${name}" is not defined; create it with: treza config set --profile ${name} <key> <value>`);
+      }
+      saveConfig({ ...context.config, defaultProfile: name });
+      context.output.message(`Default profile is now "${name}"`);
+    },
+  },
+];
+
+function profileKey(key: string): keyof Profile {
+  if (!PROFILE_KEYS.includes(key as keyof Profile)) {
+    throw new UsageError(`Unknown setting "${key}"; use one of ${PROFILE_KEYS.join(', ')}`);
+  }
+  return key as keyof Profile;
+}
+
+/**
+ * Hide all but the last four characters of an API key
+ */
+function redact<T extends { apiKey?: string }>(settings: T): T {
+  if (!settings.apiKey) return settings;
+  return { ...settings, apiKey: `${'*'.repeat(8)}${settings.apiKey.slice(-4)}` };
+}
@@ -0,0 +1,345 @@
+import type {
+  CreateEnclaveRequest,
+  Enclave,
+  EnclaveProgressEvent,
+  EnclaveStatus,
+  GitHubBuildProgressEvent,
+  UpdateEnclaveRequest,
+} from '@treza/sdk';
+import {
+  OptionSpecs,
+  OptionValues,
+  UsageError,
+  flag,
+  intOption,
+  keyValueOption,
+  listOption,
+  requiredOption,
+  requiredPositional,
+  stringOption,
+} from '../args';
+import { Command, CommandContext, walletAddress } from '../command';
+import { Column } from '../output';
+import { githubToken } from './catalog';
+
+export const ENCLAVE_COLUMNS: Array<Column<Enclave>> = [
+  { header: 'ID', value: (enclave) => enclave.id },
+  { header: 'Name', value: (enclave) => enclave.name },
+  { header: 'Status', value: (enclave) => enclave.status },
+  { header: 'Region', value: (enclave) => enclave.region },
+  { header: 'Provider', value: (enclave) => enclave.providerId },
+  { header: 'Created', value: (enclave) => enclave.createdAt },
+];
+
+const ENCLAVE_DETAILS: Array<Column<Enclave>> = [
+  ...ENCLAVE_COLUMNS,
+  { header: 'Description', value: (enclave) => enclave.description },
+  { header: 'Source', value: (enclave) => enclave.sourceType },
+  { header: 'Image', value: (enclave) => enclave.providerConfig?.dockerImage },
+  { header: 'Pinned from', value: (enclave) => enclave.providerConfig?.dockerImageTag },
+  { header: 'Repository', value: (enclave) => enclave.githubConnection?.selectedRepo },
+  { header: 'Commit', value: (enclave) => enclave.githubConnection?.selectedCommit },
+  { header: 'Build', value: (enclave) => enclave.buildId && `${enclave.buildId} (${enclave.buildStatus ?? 'unknown'})` },
+  { header: 'Signing address', value: (enclave) => enclave.providerConfig?.signingAddress },
+  { header: 'Updated', value: (enclave) => enclave.updatedAt },
+  { header: 'Error', value: (enclave) => enclave.error_message },
+];
+
+const CONFIG_OPTIONS: OptionSpecs = {
+  description: { type: 'string' },
+  region: { type: 'string' },
+  provider: { type: 'string' },
+  image: { type: 'string' },
+  config: { type: 'string', multiple: true },
+  source: { type: 'string' },
+  github: { type: 'string' },
+  branch: { type: 'string' },
+  validate: { type: 'boolean' },
+  pin: { type: 'boolean' },
+  wait: { type: 'boolean' },
+};
+
+const SOURCE_TYPES = ['registry', 'github', 'private-registry'];
+
+/** Status each lifecycle command waits for with --wait */
+const ACTION_TARGETS: Record<'pause' | 'resume' | 'terminate', EnclaveStatus> = {
+  pause: 'PAUSED',
+  resume: 'DEPLOYED',
+  terminate: 'DESTROYED',
+};
+
+export const enclaveCommands: Command[] = [
+  {
+    name: 'enclaves ls',
+    summary: 'List enclaves',
+    usage: '[--status <status,...>] [--region <region>] [--provider <id>] [--limit <n>]',
+    options: {
+      status: { type: 'string', multiple: true },
+      region: { type: 'string' },
+      provider: { type: 'string' },
+      limit: { type: 'string' },
+    },
+    async run(context, { values }) {
+      const limit = intOption(values, 'limit');
+      const enclaves: Enclave[] = [];
+      for await (const enclave of context.client.listEnclaves(walletAddress(context), {
+        status: listOption(values, 'status') as EnclaveStatus[] | undefined,
+        region: stringOption(values, 'region'),
+        providerId: stringOption(values, 'provider'),
+        signal: context.signal,
+      })) {
+        if (limit !== undefined && enclaves.length >= limit) break;
+        enclaves.push(enclave);
+      }
+      context.output.print(enclaves, ENCLAVE_COLUMNS);
+    },
+  },
+  {
+    name: 'enclaves get',
+    summary: 'Show an enclave',
+    usage: '<enclave-id>',
+    async run(context, { positionals }) {
+      const enclave = await context.client.getEnclave(requiredPositional(positionals, 0, 'enclave-id'));
+      context.output.print(enclave, ENCLAVE_DETAILS);
+    },
+  },
+  {
+    name: 'enclaves create',
+    summary: 'Create and deploy an enclave',
+    usage: '--name <name> --region <region> [--provider <id>] [--image <image>] [--config key=value ...] ' +
+      '[--source <type>] [--github <owner/repo> [--branch <branch>]] [--description <text>] [--validate] [--pin] [--wait]',
+    options: { name: { type: 'string' }, ...CONFIG_OPTIONS },
+    async run(context, { values }) {
+      const github = stringOption(values, 'github');
+      const request: CreateEnclaveRequest = {
+        name: requiredOption(values, 'name'),
+        description: stringOption(values, 'description') ?? '',
+        region: requiredOption(values, 'region'),
+        walletAddress: walletAddress(context),
+        providerId: stringOption(values, 'provider') ?? 'aws-nitro',
+        sourceType: sourceType(values.source, github),
+        providerConfig: providerConfig(values),
+        githubConnection: github ? githubConnection(github, stringOption(values, 'branch')) : undefined,
+      };
+
+      const enclave = await context.client.createEnclave(request, {
+        validate: values.validate as boolean | undefined,
+        pinImage: values.pin as boolean | undefined,
+      });
+      context.output.message(`Enclave ${enclave.id} created (${enclave.status})`);
+      await printEnclave(context, enclave, flag(values, 'wait') ? 'DEPLOYED' : undefined);
+    },
+  },
+  {
+    name: 'enclaves deploy',
+    summary: 'Build an enclave from a GitHub branch and wait until it is deployed',
+    usage: '<owner/repo> --branch <branch> --region <region> [--commit <sha>] [--name <name>] [--provider <id>] ' +
+      '[--config key=value ...] [--description <text>] [--token <token>] [--validate]',
+    options: {
+      name: { type: 'string' },
+      commit: { type: 'string' },
+      description: { type: 'string' },
+      region: { type: 'string' },
+      provider: { type: 'string' },
+      config: { type: 'string', multiple: true },
+      branch: { type: 'string' },
+      token: { type: 'string' },
+      validate: { type: 'boolean' },
+    },
+    async run(context, { positionals, values }) {
+      const { selectedRepo } = githubConnection(requiredPositional(positionals, 0, 'owner/repo'));
+      const deployment = await context.client.deployFromGitHub(
+        {
+          repo: selectedRepo!,
+          branch: requiredOption(values, 'branch'),
+          commitSha: stringOption(values, 'commit'),
+          accessToken: githubToken(stringOption(values, 'token')),
+          name: stringOption(values, 'name'),
+          description: stringOption(values, 'description'),
+          region: requiredOption(values, 'region'),
+          walletAddress: walletAddress(context),
+          providerId: stringOption(values, 'provider') ?? 'aws-nitro',
+          providerConfig: keyValueOption(values, 'config'),
+        },
+        {
+          validate: values.validate as boolean | undefined,
+          signal: context.signal,
+          onProgress: ({ enclave, status, previousStatus, buildStatus, buildChanged }: GitHubBuildProgressEvent) => {
+            if (status !== previousStatus) context.output.message(`${enclave.id}: ${status}`);
+            if (buildChanged && buildStatus) context.output.message(`${enclave.id}: build ${enclave.buildId} ${buildStatus}`);
+          },
+        }
+      );
+      context.output.message(`Deployed ${deployment.repo}@${deployment.commitSha}`);
+      context.output.print(deployment.enclave, ENCLAVE_DETAILS);
+    },
+  },
+  {
+    name: 'enclaves drift',
+    summary: 'Compare a GitHub-sourced enclave with its branch head, optionally rebuilding it',
+    usage: '<enclave-id> [--redeploy] [--token <token>]',
+    options: { redeploy: { type: 'boolean' }, token: { type: 'string' } },
+    async run(context, { positionals, values }) {
+      const drift = await context.client.checkEnclaveDrift(requiredPositional(positionals, 0, 'enclave-id'), {
+        accessToken: stringOption(values, 'token') || process.env.GITHUB_TOKEN,
+        redeploy: flag(values, 'redeploy'),
+        signal: context.signal,
+        onProgress: ({ enclave, status, previousStatus }: GitHubBuildProgressEvent) => {
+          if (status !== previousStatus) context.output.message(`${enclave.id}: ${status}`);
+        },
+      });
+      context.output.print(drift, [
+        { header: 'Enclave', value: ({ enclave }) => enclave.id },
+        { header: 'Repository', value: ({ repo, branch }) => `${repo}@${branch}` },
+        { header: 'Deployed', value: ({ deployedCommit }) => deployedCommit ?? 'unknown' },
+        { header: 'Head', value: ({ headCommit }) => headCommit },
+        { header: 'Drifted', value: ({ drifted }) => drifted },
+        { header: 'Redeployed', value: ({ redeployment }) => redeployment?.commitSha },
+        { header: 'PCR0', value: ({ redeployment }) => redeployment?.pcrs[0] },
+      ]);
+    },
+  },
+  {
+    name: 'enclaves image-drift',
+    summary: 'Check whether the tag an enclave\'s Docker image was pinned from has moved',
+    usage: '<enclave-id>',
+    async run(context, { positionals }) {
+      const drift = await context.client.checkImageDrift(requiredPositional(positionals, 0, 'enclave-id'));
+      if (drift.moved) {
+        context.output.message(`Warning: ${drift.tag} has moved since ${drift.enclave.id} was pinned; update it with --image ${drift.tag} --pin to deploy it`);
+      } else if (drift.pinnedDigest === undefined) {
+        context.output.message(`Warning: ${drift.enclave.id} runs ${drift.image}, which is not pinned to a digest`);
+      }
+      context.output.print(drift, [
+        { header: 'Enclave', value: ({ enclave }) => enclave.id },
+        { header: 'Image', value: ({ image }) => image },
+        { header: 'Tag', value: ({ tag }) => tag },
+        { header: 'Pinned', value: ({ pinnedDigest }) => pinnedDigest },
+        { header: 'Current', value: ({ currentDigest }) => currentDigest },
+        { header: 'Moved', value: ({ moved }) => moved },
+      ]);
+    },
+  },
+  {
+    name: 'enclaves update',
+    summary: 'Change an enclave; configuration changes redeploy it',
+    usage: '<enclave-id> [--name <name>] [--description <text>] [--region <region>] [--provider <id>] ' +
+      '[--image <image>] [--config key=value ...] [--github <owner/repo> [--branch <branch>]] [--validate] [--pin] [--wait]',
+    options: { name: { type: 'string' }, ...CONFIG_OPTIONS },
+    async run(context, { positionals, values }) {
+      const id = requiredPositional(positionals, 0, 'enclave-id');
+      const github = stringOption(values, 'github');
+      const changes = providerConfig(values);
+
+      // Updates replace providerConfig, so merge the given keys into the current one
+      const current = changes || github ? await context.client.getEnclave(id) : undefined;
+      if (changes?.dockerImage !== undefined && current?.providerConfig) {
+        // The recorded tag belongs to the image being replaced
+        const { dockerImageTag: _tag, ...config } = current.providerConfig;
+        current.providerConfig = config;
+      }
+      const request: UpdateEnclaveRequest = {
+        id,
+        walletAddress: walletAddress(context),
+        name: stringOption(values, 'name'),
+        description: stringOption(values, 'description'),
+        region: stringOption(values, 'region'),
+        providerId: stringOption(values, 'provider'),
+        sourceType: values.source === undefined ? undefined : sourceType(values.source, github),
+        providerConfig: changes && { ...current?.providerConfig, ...changes },
+        githubConnection: github
+          ? { ...current?.githubConnection, ...githubConnection(github, stringOption(values, 'branch') ?? current?.githubConnection?.selectedBranch) }
+          : undefined,
+      };
+      if (Object.values(request).filter((value) => value !== undefined).length === 2) {
+        throw new UsageError('Nothing to update; pass at least one option');
+      }
+
+      const enclave = await context.client.updateEnclave(request, {
+        validate: values.validate as boolean | undefined,
+        pinImage: values.pin as boolean | undefined,
+      });
+      // Only deployment changes rebuild the enclave; a rename leaves it as it is
+      const redeploys = [request.region, request.providerId, request.sourceType, request.providerConfig, request.githubConnection]
+        .some((value) => value !== undefined);
+      await printEnclave(context, enclave, flag(values, 'wait') ? 'DEPLOYED' : undefined, redeploys ? enclave.updatedAt : undefined);
+    },
+  },
+  ...(['pause', 'resume', 'terminate'] as const).map((action): Command => ({
+    name: `enclaves ${action}`,
+    summary: `${action[0].toUpperCase()}${action.slice(1)} an enclave`,
+    usage: '<enclave-id> [--wait]',
+    options: { wait: { type: 'boolean' } },
+    async run(context, { positionals, values }) {
+      const id = requiredPositional(positionals, 0, 'enclave-id');
+      const wallet = walletAddress(context);
+      const { enclave } = action === 'pause'
+        ? await context.client.pauseEnclave(id, wallet)
+        : action === 'resume'
+          ? await context.client.resumeEnclave(id, wallet)
+          : await context.client.terminateEnclave(id, wallet);
+      await printEnclave(context, enclave, flag(values, 'wait') ? ACTION_TARGETS[action] : undefined, enclave.updatedAt);
+    },
+  })),
+  {
+    name: 'enclaves rm',
+    summary: 'Delete a terminated enclave',
+    usage: '<enclave-id>',
+    async run(context, { positionals }) {
+      const id = requiredPositional(positionals, 0, 'enclave-id');
+      const message = await context.client.deleteEnclave(id, walletAddress(context));
+      context.output.print({ id, message });
+    },
+  },
+];
+
+/**
+ * Print an enclave, first waiting for it to reach `until` if given. Pass the
+ * `updatedAt` of an action's response as `updatedAfter` so a status left over
+ * from before the action doesn't end the wait.
+ */
+async function printEnclave(
+  context: CommandContext,
+  enclave: Enclave,
+  until?: EnclaveStatus,
+  updatedAfter?: string
+): Promise<void> {
+  if (until) {
+    enclave = await context.client.waitForEnclave(enclave.id, {
+      until,
+      updatedAfter,
+      signal: context.signal,
+      onProgress: ({ status, previousStatus }: EnclaveProgressEvent) => {
+        if (status !== previousStatus) context.output.message(`${enclave.id}: ${status}`);
+      },
+    });
+  }
+  context.output.print(enclave, ENCLAVE_DETAILS);
+}
+
+function providerConfig(values: OptionValues): Record<string, unknown> | undefined {
+  const config = keyValueOption(values, 'config');
+  const image = stringOption(values, 'image');
+  if (!config && image === undefined) return undefined;
+  return { ...config, ...(image !== undefined && { dockerImage: image }) };
+}
+
+function sourceType(value: unknown, github: string | undefined): CreateEnclaveRequest['sourceType'] {
+  if (value === undefined) return github ? 'github' : undefined;
+  if (!SOURCE_TYPES.includes(String(value))) {
+    throw new UsageError(`--source must be one of ${SOURCE_TYPES.join(', ')}`);
+  }
+  return value as CreateEnclaveRequest['sourceType'];
+}
+
+function githubConnection(repo: string, branch?: string): NonNullable<CreateEnclaveRequest['githubConnection']> {
+  if (!/^[^/\s]+\/[^/\s]+$/.test(repo)) {
+    throw new UsageError('--github must be in format "owner/repo"');
+  }
+  return {
+    isConnected: true,
+    selectedRepo: repo,
+    selectedBranch: branch,
+    accessToken: process.env.GITHUB_TOKEN,
+  };
+}
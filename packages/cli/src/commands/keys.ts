@@ -0,0 +1,157 @@
+import type { ApiKey, ApiKeyPermission, StaleApiKey, UpdateApiKeyRequest } from '@treza/sdk';
+import { UsageError, flag, intOption, listOption, requiredOption, requiredPositional, stringOption } from '../args';
+import { Command, walletAddress } from '../command';
+import { Column } from '../output';
+
+const KEY_COLUMNS: Array<Column<ApiKey>> = [
+  { header: 'ID', value: (key) => key.id },
+  { header: 'Name', value: (key) => key.name },
+  { header: 'Status', value: (key) => key.status },
+  { header: 'Permissions', value: (key) => key.permissions },
+  { header: 'Last used', value: (key) => key.lastUsed },
+  { header: 'Created', value: (key) => key.createdAt },
+];
+
+const STALE_COLUMNS: Array<Column<StaleApiKey>> = [
+  { header: 'ID', value: ({ apiKey }) => apiKey.id },
+  { header: 'Name', value: ({ apiKey }) => apiKey.name },
+  { header: 'Status', value: ({ apiKey }) => apiKey.status },
+  { header: 'Idle days', value: ({ idleDays }) => idleDays },
+  { header: 'Last used', value: ({ apiKey, neverUsed }) => (neverUsed ? 'never' : apiKey.lastUsed) },
+];
+
+const PERMISSIONS: readonly ApiKeyPermission[] = ['enclaves:read', 'enclaves:write', 'tasks:read', 'tasks:write', 'logs:read'];
+const KEY_STATUSES: ReadonlyArray<ApiKey['status']> = ['active', 'inactive'];
+
+export const keyCommands: Command[] = [
+  {
+    name: 'whoami',
+    summary: 'Show the wallet, API key and permissions of the configured credential',
+    async run(context) {
+      context.output.print(await context.client.whoAmI({ signal: context.signal }), [
+        { header: 'Auth method', value: ({ authMethod }) => authMethod },
+        { header: 'Wallet', value: ({ walletAddress }) => walletAddress },
+        { header: 'API key', value: ({ apiKeyId }) => apiKeyId },
+        { header: 'Name', value: ({ apiKeyName }) => apiKeyName },
+        { header: 'Permissions', value: ({ permissions }) => permissions },
+      ]);
+    },
+  },
+  {
+    name: 'keys ls',
+    summary: 'List API keys',
+    usage: '[--status active|inactive] [--limit <n>]',
+    options: { status: { type: 'string' }, limit: { type: 'string' } },
+    async run(context, { values }) {
+      const limit = intOption(values, 'limit');
+      const keys: ApiKey[] = [];
+      for await (const key of context.client.listApiKeys(walletAddress(context), {
+        status: keyStatus(stringOption(values, 'status')),
+        signal: context.signal,
+      })) {
+        if (limit !== undefined && keys.length >= limit) break;
+        keys.push(key);
+      }
+      context.output.print(keys, KEY_COLUMNS);
+    },
+  },
+  {
+    name: 'keys create',
+    summary: 'Create an API key; the secret is shown only once',
+    usage: '--name <name> --permissions <permission,...>',
+    options: { name: { type: 'string' }, permissions: { type: 'string', multiple: true } },
+    async run(context, { values }) {
+      const key = await context.client.createApiKey({
+        name: requiredOption(values, 'name'),
+        permissions: permissions(listOption(values, 'permissions') ?? [])!,
+        walletAddress: walletAddress(context),
+      });
+      context.output.print(key, [...KEY_COLUMNS, { header: 'Key', value: ({ key: secret }) => secret }]);
+      if (key.key) {
+        context.output.message('Store the key now; it cannot be shown again.');
+      }
+    },
+  },
+  {
+    name: 'keys update',
+    summary: 'Rename an API key, change its permissions or deactivate it',
+    usage: '<key-id> [--name <name>] [--permissions <permission,...>] [--status active|inactive]',
+    options: { name: { type: 'string' }, permissions: { type: 'string', multiple: true }, status: { type: 'string' } },
+    async run(context, { positionals, values }) {
+      const request: UpdateApiKeyRequest = {
+        id: requiredPositional(positionals, 0, 'key-id'),
+        walletAddress: walletAddress(context),
+        name: stringOption(values, 'name'),
+        permissions: permissions(listOption(values, 'permissions')),
+        status: keyStatus(stringOption(values, 'status')),
+      };
+      if (Object.values(request).filter((value) => value !== undefined).length === 2) {
+        throw new UsageError('Nothing to update; pass at least one option');
+      }
+      context.output.print(await context.client.updateApiKey(request), KEY_COLUMNS);
+    },
+  },
+  {
+    name: 'keys rm',
+    summary: 'Delete an API key',
+    usage: '<key-id>',
+    async run(context, { positionals }) {
+      const id = requiredPositional(positionals, 0, 'key-id');
+      const message = await context.client.deleteApiKey(id, walletAddress(context));
+      context.output.print({ id, message });
+    },
+  },
+  {
+    name: 'keys rotate',
+    summary: 'Replace an API key with a new one with the same permissions, then revoke it',
+    usage: '<key-id> [--overlap <seconds>] [--name <name>]',
+    options: { overlap: { type: 'string' }, name: { type: 'string' } },
+    async run(context, { positionals, values }) {
+      const overlapSeconds = intOption(values, 'overlap') ?? 300;
+      await context.client.rotateApiKey(requiredPositional(positionals, 0, 'key-id'), walletAddress(context), {
+        overlapSeconds,
+        name: stringOption(values, 'name'),
+        signal: context.signal,
+        onNewSecret: (newKey: ApiKey & { key: string }, oldKey: ApiKey) => {
+          context.output.print(newKey, [...KEY_COLUMNS, { header: 'Key', value: ({ key: secret }) => secret }]);
+          context.output.message('Store the key now; it cannot be shown again.');
+          context.output.message(`Revoking ${oldKey.id} in ${overlapSeconds}s`);
+        },
+        onOldKeyRevoked: (oldKey: ApiKey) => context.output.message(`Revoked ${oldKey.id}`),
+      });
+    },
+  },
+  {
+    name: 'keys stale',
+    summary: 'List API keys not used for a number of days, longest idle first',
+    usage: '[--days <n>] [--include-inactive]',
+    options: { days: { type: 'string' }, 'include-inactive': { type: 'boolean' } },
+    async run(context, { values }) {
+      const stale = await context.client.getStaleApiKeys(walletAddress(context), {
+        unusedForDays: intOption(values, 'days'),
+        includeInactive: flag(values, 'include-inactive'),
+        signal: context.signal,
+      });
+      context.output.print(stale, STALE_COLUMNS);
+    },
+  },
+];
+
+function permissions(values: string[] | undefined): ApiKeyPermission[] | undefined {
+  if (values === undefined) return undefined;
+  if (values.length === 0) {
+    throw new UsageError(`--permissions needs at least one of ${PERMISSIONS.join(', ')}`);
+  }
+  const unknown = values.filter((value) => !PERMISSIONS.includes(value as ApiKeyPermission));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown permission ${unknown.join(', ')}; use ${PERMISSIONS.join(', ')}`);
+  }
+  return values as ApiKeyPermission[];
+}
+
+function keyStatus(value: string | undefined): ApiKey['status'] | undefined {
+  if (value !== undefined && !KEY_STATUSES.includes(value as ApiKey['status'])) {
+    throw new UsageError(`--status must be one of ${KEY_STATUSES.join(', ')}`);
+  }
+  return value as ApiKey['status'] | undefined;
+}
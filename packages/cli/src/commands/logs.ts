@@ -0,0 +1,37 @@
+import type { LogSource } from '@treza/sdk';
+import { LOG_SOURCES } from '@treza/sdk';
+import { UsageError, flag, intOption, listOption, parseSince, requiredPositional, stringOption } from '../args';
+import { Command } from '../command';
+
+export const logCommands: Command[] = [
+  {
+    name: 'logs',
+    summary: 'Print enclave logs, merged across sources in time order',
+    usage: '<enclave-id> [--type <source,...>] [--since <10m|date>] [--limit <n>] [--follow]',
+    options: {
+      type: { type: 'string', multiple: true },
+      since: { type: 'string' },
+      limit: { type: 'string' },
+      follow: { type: 'boolean', short: 'f' },
+    },
+    async run(context, { positionals, values }) {
+      const enclaveId = requiredPositional(positionals, 0, 'enclave-id');
+      const types = listOption(values, 'type') as LogSource[] | undefined;
+      const unknown = types?.filter((type) => !LOG_SOURCES.includes(type));
+      if (unknown?.length) {
+        throw new UsageError(`Unknown log type ${unknown.join(', ')}; use ${LOG_SOURCES.join(', ')}`);
+      }
+      const since = stringOption(values, 'since');
+
+      for await (const entry of context.client.tailEnclaveLogs(enclaveId, {
+        types,
+        since: since ? parseSince(since) : undefined,
+        limit: intOption(values, 'limit'),
+        follow: flag(values, 'follow'),
+        signal: context.signal,
+      })) {
+        context.output.line(`${new Date(entry.timestamp).toISOString()}  ${entry.source.padEnd(13)}  ${entry.message}`, entry);
+      }
+    },
+  },
+];
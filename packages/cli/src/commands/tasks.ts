@@ -0,0 +1,194 @@
+import type { Task, TaskRun, UpdateTaskRequest } from '@treza/sdk';
+import { getNextRuns } from '@treza/sdk';
+import {
+  UsageError,
+  intOption,
+  keyValueOption,
+  parseSince,
+  requiredOption,
+  requiredPositional,
+  stringOption,
+} from '../args';
+import { Command, walletAddress } from '../command';
+import { Column } from '../output';
+
+const TASK_COLUMNS: Array<Column<Task>> = [
+  { header: 'ID', value: (task) => task.id },
+  { header: 'Name', value: (task) => task.name },
+  { header: 'Enclave', value: (task) => task.enclaveId },
+  { header: 'Schedule', value: (task) => task.schedule },
+  { header: 'Time zone', value: (task) => task.timezone },
+  { header: 'Status', value: (task) => task.status },
+  { header: 'Last run', value: (task) => task.lastRun },
+  { header: 'Next run', value: (task) => task.nextRun },
+];
+
+const RUN_COLUMNS: Array<Column<TaskRun>> = [
+  { header: 'Run', value: (run) => run.id },
+  { header: 'Task', value: (run) => run.taskId },
+  { header: 'Trigger', value: (run) => run.trigger },
+  { header: 'Status', value: (run) => run.status },
+  { header: 'Exit code', value: (run) => run.exitCode },
+  { header: 'Started', value: (run) => run.startedAt },
+  { header: 'Finished', value: (run) => run.finishedAt },
+  { header: 'Error', value: (run) => run.error },
+];
+
+const TASK_STATUSES: ReadonlyArray<Task['status']> = ['running', 'stopped', 'failed', 'pending'];
+
+export const taskCommands: Command[] = [
+  {
+    name: 'tasks ls',
+    summary: 'List scheduled tasks',
+    usage: '[--enclave <enclave-id>] [--status <status>] [--limit <n>]',
+    options: { enclave: { type: 'string' }, status: { type: 'string' }, limit: { type: 'string' } },
+    async run(context, { values }) {
+      const limit = intOption(values, 'limit');
+      const tasks: Task[] = [];
+      for await (const task of context.client.listTasks(walletAddress(context), {
+        enclaveId: stringOption(values, 'enclave'),
+        status: taskStatus(stringOption(values, 'status')),
+        signal: context.signal,
+      })) {
+        if (limit !== undefined && tasks.length >= limit) break;
+        tasks.push(task);
+      }
+      context.output.print(tasks, TASK_COLUMNS);
+    },
+  },
+  {
+    name: 'tasks create',
+    summary: 'Schedule a task on an enclave',
+    usage: '--enclave <enclave-id> --name <name> --schedule <cron> [--timezone <zone>] [--description <text>]',
+    options: {
+      enclave: { type: 'string' },
+      name: { type: 'string' },
+      schedule: { type: 'string' },
+      timezone: { type: 'string' },
+      description: { type: 'string' },
+    },
+    async run(context, { values }) {
+      const task = await context.client.createTask({
+        enclaveId: requiredOption(values, 'enclave'),
+        name: requiredOption(values, 'name'),
+        schedule: requiredOption(values, 'schedule'),
+        timezone: stringOption(values, 'timezone'),
+        description: stringOption(values, 'description') ?? '',
+        walletAddress: walletAddress(context),
+      });
+      context.output.print(task, TASK_COLUMNS);
+    },
+  },
+  {
+    name: 'tasks update',
+    summary: 'Change a task',
+    usage: '<task-id> [--name <name>] [--schedule <cron>] [--timezone <zone>] [--description <text>] [--status <status>]',
+    options: {
+      name: { type: 'string' },
+      schedule: { type: 'string' },
+      timezone: { type: 'string' },
+      description: { type: 'string' },
+      status: { type: 'string' },
+    },
+    async run(context, { positionals, values }) {
+      const request: UpdateTaskRequest = {
+        id: requiredPositional(positionals, 0, 'task-id'),
+        walletAddress: walletAddress(context),
+        name: stringOption(values, 'name'),
+        schedule: stringOption(values, 'schedule'),
+        timezone: stringOption(values, 'timezone'),
+        description: stringOption(values, 'description'),
+        status: taskStatus(stringOption(values, 'status')),
+      };
+      if (Object.values(request).filter((value) => value !== undefined).length === 2) {
+        throw new UsageError('Nothing to update; pass at least one option');
+      }
+      context.output.print(await context.client.updateTask(request), TASK_COLUMNS);
+    },
+  },
+  {
+    name: 'tasks schedule',
+    summary: 'Show when a cron schedule would run',
+    usage: '<cron> [--timezone <zone>] [--count <n>]',
+    options: { timezone: { type: 'string' }, count: { type: 'string' } },
+    standalone: true,
+    async run(context, { positionals, values }) {
+      const timezone = stringOption(values, 'timezone') ?? 'UTC';
+      const runs = getNextRuns(requiredPositional(positionals, 0, 'cron'), {
+        count: intOption(values, 'count') ?? 5,
+        timezone,
+      });
+      context.output.print(
+        // The sv-SE locale formats as YYYY-MM-DD HH:mm:ss
+        runs.map((run: Date) => ({ utc: run.toISOString(), local: run.toLocaleString('sv-SE', { timeZone: timezone }) })),
+        [
+          { header: 'UTC', value: ({ utc }) => utc },
+          { header: 'Local', value: ({ local }) => local },
+        ]
+      );
+    },
+  },
+  {
+    name: 'tasks runs',
+    summary: 'List the runs of a task, newest first',
+    usage: '<task-id> [--since <10m|2h|date>] [--limit <n>]',
+    options: { since: { type: 'string' }, limit: { type: 'string' } },
+    async run(context, { positionals, values }) {
+      const since = stringOption(values, 'since');
+      const runs = await context.client.getTaskRuns(requiredPositional(positionals, 0, 'task-id'), {
+        since: since ? parseSince(since) : undefined,
+        limit: intOption(values, 'limit'),
+        signal: context.signal,
+      });
+      context.output.print(runs, RUN_COLUMNS);
+    },
+  },
+  {
+    name: 'tasks trigger',
+    summary: 'Run a task now, outside its schedule',
+    usage: '<task-id> [--input key=value ...]',
+    options: { input: { type: 'string', multiple: true } },
+    async run(context, { positionals, values }) {
+      const run = await context.client.triggerTask(requiredPositional(positionals, 0, 'task-id'), keyValueOption(values, 'input'));
+      context.output.print(run, RUN_COLUMNS);
+      context.output.message(`See its output with: treza tasks logs ${run.id}`);
+    },
+  },
+  {
+    name: 'tasks logs',
+    summary: 'Print the log entries a task run wrote',
+    usage: '<run-id> [--limit <n>]',
+    options: { limit: { type: 'string' } },
+    async run(context, { positionals, values }) {
+      const run = await context.client.getTaskRun(requiredPositional(positionals, 0, 'run-id'));
+      for (const entry of await context.client.getTaskRunLogs(run, intOption(values, 'limit'))) {
+        context.output.line(`${new Date(entry.timestamp).toISOString()}  ${entry.message}`, entry);
+      }
+    },
+  },
+  {
+    name: 'tasks cancel',
+    summary: 'Cancel a queued or running task run',
+    usage: '<run-id>',
+    async run(context, { positionals }) {
+      context.output.print(await context.client.cancelTaskRun(requiredPositional(positionals, 0, 'run-id')), RUN_COLUMNS);
+    },
+  },
+  {
+    name: 'tasks rm',
+    summary: 'Delete a task',
+    usage: '<task-id>',
+    async run(context, { positionals }) {
+      const id = requiredPositional(positionals, 0, 'task-id');
+      const message = await context.client.deleteTask(id, walletAddress(context));
+      context.output.print({ id, message });
+    },
+  },
+];
+
+function taskStatus(value: string | undefined): Task['status'] | undefined {
+  if (value !== undefined && !TASK_STATUSES.includes(value as Task['status'])) {
+    throw new UsageError(`--status must be one of ${TASK_STATUSES.join(', ')}`);
+  }
+  return value as Task['status'] | undefined;
+}
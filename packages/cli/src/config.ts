@@ -0,0 +1,120 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { OptionValues, UsageError, stringOption } from './args';
+
+/**
+ * Profiles stored in ~/.treza/config.json (or $TREZA_CONFIG), and the
+ * settings a command runs with.
+ *
+ * Each setting comes from the first of: command-line option, environment
+ * variable, profile, default.
+ */
+
+export type OutputFormat = 'table' | 'json';
+
+export interface Profile {
+  baseUrl?: string;
+  apiKey?: string;
+  walletAddress?: string;
+  output?: OutputFormat;
+  timeout?: number;
+}
+
+export interface ConfigFile {
+  /** Profile used when neither --profile nor TREZA_PROFILE is set */
+  defaultProfile?: string;
+  profiles: Record<string, Profile>;
+}
+
+export interface Settings {
+  profile: string;
+  baseUrl: string;
+  apiKey?: string;
+  walletAddress?: string;
+  output: OutputFormat;
+  timeout: number;
+}
+
+/** Keys accepted by `treza config set` */
+export const PROFILE_KEYS: ReadonlyArray<keyof Profile> = ['baseUrl', 'apiKey', 'walletAddress', 'output', 'timeout'];
+
+const DEFAULT_BASE_URL = 'https://app.trezalabs.com';
+const DEFAULT_TIMEOUT = 30000;
+
+export function configPath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.TREZA_CONFIG || join(homedir(), '.treza', 'config.json');
+}
+
+export function loadConfig(path = configPath()): ConfigFile {
+  if (!existsSync(path)) {
+    return { profiles: {} };
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf8')) as Partial<ConfigFile>;
+    return { defaultProfile: parsed.defaultProfile, profiles: parsed.profiles ?? {} };
+  } catch (error) {
+    throw new UsageError(`Cannot read config file ${path}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Write the config file, readable only by the current user since it may hold API keys
+ */
+export function saveConfig(config: ConfigFile, path = configPath()): void {
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(path, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 });
+  chmodSync(path, 0o600);
+}
+
+/**
+ * Name of the profile a command uses
+ */
+export function profileName(values: OptionValues, config: ConfigFile, env: NodeJS.ProcessEnv = process.env): string {
+  return stringOption(values, 'profile') || env.TREZA_PROFILE || config.defaultProfile || 'default';
+}
+
+/**
+ * Work out the settings for a command
+ */
+export function resolveSettings(
+  values: OptionValues,
+  config: ConfigFile,
+  env: NodeJS.ProcessEnv = process.env
+): Settings {
+  const profile = profileName(values, config, env);
+  const stored = config.profiles[profile] ?? {};
+
+  const output = stringOption(values, 'output') || env.TREZA_OUTPUT || stored.output || 'table';
+  if (output !== 'table' && output !== 'json') {
+    throw new UsageError(`--output must be "table" or "json", got "${output}"`);
+  }
+
+  const timeout = Number(env.TREZA_TIMEOUT || stored.timeout || DEFAULT_TIMEOUT);
+
+  return {
+    profile,
+    baseUrl: stringOption(values, 'base-url') || env.TREZA_BASE_URL || stored.baseUrl || DEFAULT_BASE_URL,
+    apiKey: env.TREZA_API_KEY || stored.apiKey,
+    walletAddress: stringOption(values, 'wallet') || env.TREZA_WALLET_ADDRESS || stored.walletAddress,
+    output,
+    timeout: Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT,
+  };
+}
+
+/**
+ * Convert a `treza config set` value to the type stored in the profile
+ */
+export function parseProfileValue(key: keyof Profile, value: string): Profile[keyof Profile] {
+  if (key === 'timeout') {
+    const timeout = Number(value);
+    if (!Number.isInteger(timeout) || timeout <= 0) {
+      throw new UsageError('timeout must be a positive number of milliseconds');
+    }
+    return timeout;
+  }
+  if (key === 'output' && value !== 'table' && value !== 'json') {
+    throw new UsageError('output must be "table" or "json"');
+  }
+  return value;
+}
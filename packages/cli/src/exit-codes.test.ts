@@ -0,0 +1,35 @@
+import {
+  EnclaveWaitError,
+  NetworkError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  TrezaSdkError,
+  ValidationError,
+} from '@treza/sdk';
+import { UsageError } from './args';
+import { EXIT_CODES, exitCodeFor } from './exit-codes';
+
+describe('exitCodeFor', () => {
+  it('maps SDK error codes to exit codes', () => {
+    expect(exitCodeFor(new ValidationError('bad name'))).toBe(EXIT_CODES.VALIDATION);
+    expect(exitCodeFor(new PermissionError('missing scope'))).toBe(EXIT_CODES.PERMISSION);
+    expect(exitCodeFor(new NotFoundError('no enclave'))).toBe(EXIT_CODES.NOT_FOUND);
+    expect(exitCodeFor(new RateLimitError('slow down'))).toBe(EXIT_CODES.RATE_LIMITED);
+    expect(exitCodeFor(new NetworkError('socket hang up'))).toBe(EXIT_CODES.UNAVAILABLE);
+    expect(exitCodeFor(new EnclaveWaitError('timed out', 'WAIT_TIMEOUT'))).toBe(EXIT_CODES.ENCLAVE_FAILED);
+    expect(exitCodeFor(new EnclaveWaitError('aborted', 'WAIT_ABORTED'))).toBe(EXIT_CODES.INTERRUPTED);
+  });
+
+  it('falls back to the HTTP status for codes it does not know', () => {
+    expect(exitCodeFor(new TrezaSdkError('conflict', 'ENCLAVE_BUSY', undefined, 409))).toBe(EXIT_CODES.VALIDATION);
+    expect(exitCodeFor(new TrezaSdkError('gateway', 'HTTP_502'))).toBe(EXIT_CODES.UNAVAILABLE);
+    expect(exitCodeFor(new TrezaSdkError('teapot', 'HTTP_418'))).toBe(EXIT_CODES.ERROR);
+  });
+
+  it('uses USAGE for command-line errors and ERROR for anything else', () => {
+    expect(exitCodeFor(new UsageError('Missing required argument <enclave-id>'))).toBe(EXIT_CODES.USAGE);
+    expect(exitCodeFor(new Error('boom'))).toBe(EXIT_CODES.ERROR);
+    expect(exitCodeFor('boom')).toBe(EXIT_CODES.ERROR);
+  });
+});
@@ -0,0 +1,87 @@
+import { isTrezaSdkError } from '@treza/sdk';
+import { UsageError } from './args';
+
+/**
+ * Process exit codes, one per family of TrezaSdkError codes, so scripts can
+ * branch on `$?` the way SDK callers branch on `error.code`.
+ */
+export const EXIT_CODES = {
+  OK: 0,
+  /** Unexpected error */
+  ERROR: 1,
+  /** Bad command line */
+  USAGE: 2,
+  /** Request rejected as invalid (400, 409, 422, client-side validation) */
+  VALIDATION: 3,
+  /** Missing or rejected credentials (401) */
+  AUTH: 4,
+  /** API key lacks a permission (403) */
+  PERMISSION: 5,
+  /** Resource not found (404) */
+  NOT_FOUND: 6,
+  /** Rate limited (429) */
+  RATE_LIMITED: 7,
+  /** Platform unreachable or failing (5xx, network) */
+  UNAVAILABLE: 8,
+  /** Payment required (402) */
+  PAYMENT_REQUIRED: 9,
+  /** Enclave failed, or did not reach the awaited status */
+  ENCLAVE_FAILED: 10,
+  /** Attestation rejected or unavailable */
+  ATTESTATION: 11,
+  /** Missing configuration or optional dependency */
+  CONFIGURATION: 12,
+  /** Interrupted with Ctrl-C */
+  INTERRUPTED: 130,
+} as const;
+
+const BY_CODE: Record<string, number> = {
+  VALIDATION_ERROR: EXIT_CODES.VALIDATION,
+  INVALID_PROVIDER_CONFIG: EXIT_CODES.VALIDATION,
+  INVALID_SCHEDULE: EXIT_CODES.VALIDATION,
+  INVALID_LANGUAGE: EXIT_CODES.VALIDATION,
+  AUTH_ERROR: EXIT_CODES.AUTH,
+  AUTH_TOKEN_ERROR: EXIT_CODES.AUTH,
+  WALLET_AUTH_REJECTED: EXIT_CODES.AUTH,
+  INSUFFICIENT_SCOPE: EXIT_CODES.PERMISSION,
+  NOT_FOUND: EXIT_CODES.NOT_FOUND,
+  RATE_LIMITED: EXIT_CODES.RATE_LIMITED,
+  NETWORK_ERROR: EXIT_CODES.UNAVAILABLE,
+  SERVER_ERROR: EXIT_CODES.UNAVAILABLE,
+  PAYMENT_REQUIRED: EXIT_CODES.PAYMENT_REQUIRED,
+  ENCLAVE_FAILED: EXIT_CODES.ENCLAVE_FAILED,
+  ENCLAVE_STATUS_UNREACHABLE: EXIT_CODES.ENCLAVE_FAILED,
+  WAIT_TIMEOUT: EXIT_CODES.ENCLAVE_FAILED,
+  WAIT_ABORTED: EXIT_CODES.INTERRUPTED,
+  ATTESTATION_FAILED: EXIT_CODES.ATTESTATION,
+  ATTESTATION_POLICY_FAILED: EXIT_CODES.ATTESTATION,
+  ATTESTATION_NONCE_MISMATCH: EXIT_CODES.ATTESTATION,
+  ATTESTATION_DOCUMENT_UNAVAILABLE: EXIT_CODES.ATTESTATION,
+  CONFIGURATION_ERROR: EXIT_CODES.CONFIGURATION,
+  MISSING_DEPENDENCY: EXIT_CODES.CONFIGURATION,
+};
+
+const BY_STATUS: Record<number, number> = {
+  400: EXIT_CODES.VALIDATION,
+  401: EXIT_CODES.AUTH,
+  402: EXIT_CODES.PAYMENT_REQUIRED,
+  403: EXIT_CODES.PERMISSION,
+  404: EXIT_CODES.NOT_FOUND,
+  409: EXIT_CODES.VALIDATION,
+  422: EXIT_CODES.VALIDATION,
+  429: EXIT_CODES.RATE_LIMITED,
+};
+
+/**
+ * Exit code for an error: by `code`, then by HTTP status, then ERROR
+ */
+export function exitCodeFor(error: unknown): number {
+  if (error instanceof UsageError) return EXIT_CODES.USAGE;
+  if (!isTrezaSdkError(error)) return EXIT_CODES.ERROR;
+
+  if (error.code && BY_CODE[error.code] !== undefined) return BY_CODE[error.code];
+
+  const status = error.statusCode ?? Number(/^HTTP_(\d{3})$/.exec(error.code ?? '')?.[1]);
+  if (status >= 500) return EXIT_CODES.UNAVAILABLE;
+  return BY_STATUS[status] ?? EXIT_CODES.ERROR;
+}
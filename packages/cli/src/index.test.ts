@@ -0,0 +1,125 @@
+import { execFile, execFileSync } from 'child_process';
+import { copyFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { promisify } from 'util';
+import { MockPlatformServer, MockTrezaPlatform } from '@treza/sdk/testing';
+import { EXIT_CODES } from './exit-codes';
+import { run } from './index';
+
+const WALLET = '0x742d35Cc6634C0532925a3b8D598C4C0532925a3';
+const REPO = resolve(__dirname, '../../..');
+
+describe('treza CLI', () => {
+  let platform: MockTrezaPlatform;
+  let server: MockPlatformServer;
+  let stdout: string;
+  let stderr: string;
+  const env = process.env;
+
+  beforeEach(async () => {
+    platform = new MockTrezaPlatform();
+    server = await platform.listen();
+    stdout = '';
+    stderr = '';
+    jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      stdout += chunk;
+      return true;
+    });
+    jest.spyOn(process.stderr, 'write').mockImplementation((chunk) => {
+      stderr += chunk;
+      return true;
+    });
+    process.env = {
+      ...env,
+      TREZA_BASE_URL: server.url,
+      TREZA_CONFIG: join(tmpdir(), 'treza-cli-missing', 'config.json'),
+      TREZA_WALLET_ADDRESS: WALLET,
+    };
+  });
+
+  afterEach(async () => {
+    process.env = env;
+    jest.restoreAllMocks();
+    await server.close();
+  });
+
+  it('lists enclaves as JSON', async () => {
+    const enclave = platform.seedEnclave({ walletAddress: WALLET, name: 'signer', status: 'DEPLOYED' });
+    platform.seedEnclave({ walletAddress: WALLET, name: 'indexer', status: 'PAUSED' });
+
+    const code = await run(['enclaves', 'ls', '--status', 'DEPLOYED', '--output', 'json']);
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect(JSON.parse(stdout)).toEqual([expect.objectContaining({ id: enclave.id, name: 'signer' })]);
+  });
+
+  it('reports platform errors with the matching exit code', async () => {
+    const code = await run(['enclaves', 'get', 'enc_missing', '-o', 'json']);
+
+    expect(code).toBe(EXIT_CODES.NOT_FOUND);
+    expect(JSON.parse(stderr)).toMatchObject({ error: { code: 'HTTP_404', statusCode: 404 } });
+  });
+
+  it('exits with USAGE on a bad command line', async () => {
+    const code = await run(['enclaves', 'get']);
+
+    expect(code).toBe(EXIT_CODES.USAGE);
+    expect(stderr).toContain('Missing required argument <enclave-id>');
+    expect(stderr).toContain('Usage: treza enclaves get <enclave-id>');
+  });
+});
+
+/**
+ * Builds `@treza/sdk` and the CLI into a scratch directory and runs the
+ * compiled binary with plain Node, so the CLI is checked against the SDK
+ * package it depends on rather than Jest's module mapping.
+ */
+describe('treza binary', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'treza-cli-'));
+    const sdk = join(root, 'node_modules/@treza/sdk');
+    mkdirSync(sdk, { recursive: true });
+    copyFileSync(join(REPO, 'packages/core/package.json'), join(sdk, 'package.json'));
+    writeFileSync(join(root, 'tsconfig.json'), JSON.stringify({
+      extends: join(REPO, 'packages/cli/tsconfig.json'),
+      compilerOptions: {
+        outDir: join(root, 'cli'),
+        paths: { '@treza/sdk': [join(sdk, 'dist/index.d.ts')] },
+      },
+    }));
+
+    const tsc = (...args: string[]) => execFileSync(process.execPath, [require.resolve('typescript/bin/tsc'), ...args]);
+    tsc('-p', join(REPO, 'packages/core/tsconfig.json'), '--outDir', join(sdk, 'dist'),
+      '--composite', 'false', '--incremental', 'false', '--declarationMap', 'false');
+    tsc('-p', join(root, 'tsconfig.json'));
+  }, 180_000);
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('starts and lists enclaves from the platform', async () => {
+    const platform = new MockTrezaPlatform();
+    const enclave = platform.seedEnclave({ walletAddress: WALLET });
+    const server = await platform.listen();
+
+    try {
+      const { stdout } = await promisify(execFile)(process.execPath, [join(root, 'cli/index.js'), 'enclaves', 'ls', '-o', 'json'], {
+        env: {
+          ...process.env,
+          NODE_PATH: join(REPO, 'node_modules'),
+          TREZA_BASE_URL: server.url,
+          TREZA_CONFIG: join(root, 'config.json'),
+          TREZA_WALLET_ADDRESS: WALLET,
+        },
+      });
+
+      expect(JSON.parse(stdout)).toEqual([expect.objectContaining({ id: enclave.id })]);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,165 @@
+#!/usr/bin/env node
+
+import { TrezaClient, isTrezaSdkError, isValidationError } from '@treza/sdk';
+import { GLOBAL_OPTIONS, UsageError, parseCommandArgs, stringOption } from './args';
+import { Command } from './command';
+import { OutputFormat, loadConfig, resolveSettings } from './config';
+import { EXIT_CODES, exitCodeFor } from './exit-codes';
+import { createOutput } from './output';
+import { attestCommands } from './commands/attest';
+import { catalogCommands } from './commands/catalog';
+import { configCommands } from './commands/config';
+import { enclaveCommands } from './commands/enclaves';
+import { keyCommands } from './commands/keys';
+import { logCommands } from './commands/logs';
+import { taskCommands } from './commands/tasks';
+
+export const COMMANDS: Command[] = [
+  ...enclaveCommands,
+  ...logCommands,
+  ...attestCommands,
+  ...taskCommands,
+  ...keyCommands,
+  ...catalogCommands,
+  ...configCommands,
+];
+
+/**
+ * Run the CLI
+ * @param argv Arguments after the program name
+ * @returns Process exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+  const found = findCommand(argv);
+
+  if (!found) {
+    const group = argv[0] && !argv[0].startsWith('-') ? argv[0] : undefined;
+    process.stdout.write(help(group));
+    return argv.length === 0 || argv.includes('--help') || argv.includes('-h') || argv[0] === 'help'
+      ? EXIT_CODES.OK
+      : EXIT_CODES.USAGE;
+  }
+
+  const { command, rest } = found;
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  process.once('SIGINT', onInterrupt);
+  let format: OutputFormat = 'table';
+
+  try {
+    const args = parseCommandArgs(rest, command.options);
+    if (args.values.help) {
+      process.stdout.write(commandHelp(command));
+      return EXIT_CODES.OK;
+    }
+
+    const config = loadConfig();
+    const settings = resolveSettings(args.values, config);
+    format = settings.output;
+    const profile = stringOption(args.values, 'profile');
+    if (profile && !command.standalone && !config.profiles[profile]) {
+      throw new UsageError(`Profile "${profile}" is not defined; create it with: treza config set --profile ${profile} <key> <value>`);
+    }
+
+    const client = new TrezaClient({ baseUrl: settings.baseUrl, apiKey: settings.apiKey, timeout: settings.timeout });
+    const code = await command.run(
+      { settings, config, client, output: createOutput(settings.output), signal: controller.signal },
+      args
+    );
+    return controller.signal.aborted ? EXIT_CODES.INTERRUPTED : code ?? EXIT_CODES.OK;
+  } catch (error) {
+    printError(error, format);
+    if (error instanceof UsageError) {
+      process.stderr.write(`\nUsage: ${usageLine(command)}\n`);
+    }
+    return exitCodeFor(error);
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+  }
+}
+
+/**
+ * Match the leading words of the command line against the command names
+ */
+function findCommand(argv: string[]): { command: Command; rest: string[] } | undefined {
+  for (const words of [2, 1]) {
+    const name = argv.slice(0, words).join(' ');
+    const command = COMMANDS.find((candidate) => candidate.name === name);
+    if (command) {
+      return { command, rest: argv.slice(words) };
+    }
+  }
+  return undefined;
+}
+
+function printError(error: unknown, format: OutputFormat): void {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (format === 'json') {
+    const details = isTrezaSdkError(error)
+      ? {
+        code: error.code,
+        statusCode: error.statusCode,
+        requestId: error.requestId,
+        fieldErrors: isValidationError(error) ? error.fieldErrors : undefined,
+      }
+      : {};
+    process.stderr.write(`${JSON.stringify({ error: { message, ...details } }, null, 2)}\n`);
+    return;
+  }
+
+  process.stderr.write(`Error: ${message}\n`);
+  if (isTrezaSdkError(error) && error.requestId) {
+    process.stderr.write(`Request ID: ${error.requestId}\n`);
+  }
+}
+
+function usageLine(command: Command): string {
+  return `treza ${command.name}${command.usage ? ` ${command.usage}` : ''}`;
+}
+
+function commandHelp(command: Command): string {
+  return `${command.summary}\n\nUsage: ${usageLine(command)}\n\n${globalOptionsHelp()}`;
+}
+
+function help(group?: string): string {
+  const commands = COMMANDS.filter(({ name }) => !group || name.split(' ')[0] === group);
+  const shown = commands.length > 0 ? commands : COMMANDS;
+  const width = Math.max(...shown.map(({ name }) => name.length));
+
+  return [
+    'Usage: treza <command> [options]',
+    '',
+    'Commands:',
+    ...shown.map(({ name, summary }) => `  ${name.padEnd(width)}  ${summary}`),
+    '',
+    globalOptionsHelp(),
+    'Run "treza <command> --help" for the options of a command.',
+    '',
+  ].join('\n');
+}
+
+function globalOptionsHelp(): string {
+  const descriptions: Record<string, string> = {
+    profile: 'Profile from the config file (or TREZA_PROFILE)',
+    output: 'Output format: table or json (or TREZA_OUTPUT)',
+    wallet: 'Wallet address that owns the resources (or TREZA_WALLET_ADDRESS)',
+    'base-url': 'Platform URL (or TREZA_BASE_URL)',
+    help: 'Show help',
+  };
+  return [
+    'Global options:',
+    ...Object.entries(GLOBAL_OPTIONS).map(([name, { short }]) =>
+      `  ${`${short ? `-${short}, ` : '    '}--${name}`.padEnd(18)}  ${descriptions[name]}`
+    ),
+    '',
+    'Authenticate with TREZA_API_KEY or an apiKey stored in the profile.',
+    '',
+  ].join('\n');
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
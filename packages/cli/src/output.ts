@@ -0,0 +1,95 @@
+import { OutputFormat } from './config';
+
+/**
+ * Result printing. JSON output is the raw SDK result, for scripts; table
+ * output shows the listed columns. Progress and status messages go to
+ * stderr so stdout stays parseable.
+ */
+
+export interface Column<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+export interface Output {
+  readonly format: OutputFormat;
+  /** Print a result: a table for arrays, a field list for single objects */
+  print<T>(data: T | T[], columns?: Array<Column<T>>): void;
+  /** Print one line of a stream, e.g. a log entry */
+  line(text: string, data?: unknown): void;
+  /** Print a status message to stderr */
+  message(text: string): void;
+}
+
+export function createOutput(
+  format: OutputFormat,
+  stdout: NodeJS.WritableStream = process.stdout,
+  stderr: NodeJS.WritableStream = process.stderr
+): Output {
+  return {
+    format,
+    print(data, columns) {
+      if (format === 'json') {
+        stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+      } else if (Array.isArray(data)) {
+        stdout.write(columns ? formatTable(data, columns) : `${JSON.stringify(data, null, 2)}\n`);
+      } else {
+        stdout.write(columns ? formatFields(data, columns) : formatObject(data));
+      }
+    },
+    line(text, data) {
+      stdout.write(`${format === 'json' ? JSON.stringify(data ?? text) : text}\n`);
+    },
+    message(text) {
+      stderr.write(`${text}\n`);
+    },
+  };
+}
+
+/**
+ * Rows under aligned, upper-cased headers
+ */
+export function formatTable<T>(rows: T[], columns: Array<Column<T>>): string {
+  if (rows.length === 0) {
+    return 'No results\n';
+  }
+  const cells = rows.map((row) => columns.map((column) => formatCell(column.value(row))));
+  const headers = columns.map(({ header }) => header.toUpperCase());
+  const widths = headers.map((header, index) => Math.max(header.length, ...cells.map((row) => row[index].length)));
+
+  return [headers, ...cells]
+    .map((row) => row.map((cell, index) => (index === row.length - 1 ? cell : cell.padEnd(widths[index]))).join('  '))
+    .join('\n') + '\n';
+}
+
+/**
+ * One `Header: value` line per column
+ */
+function formatFields<T>(row: T, columns: Array<Column<T>>): string {
+  const width = Math.max(...columns.map(({ header }) => header.length));
+  return columns.map(({ header, value }) => `${`${header}:`.padEnd(width + 1)}  ${formatCell(value(row))}`).join('\n') + '\n';
+}
+
+/**
+ * One `key: value` line per field, with nested objects indented
+ */
+function formatObject(value: unknown, indent = ''): string {
+  if (typeof value !== 'object' || value === null) {
+    return `${indent}${formatCell(value)}\n`;
+  }
+  return Object.entries(value)
+    .filter(([, child]) => child !== undefined)
+    .map(([key, child]) =>
+      typeof child === 'object' && child !== null && !Array.isArray(child)
+        ? `${indent}${key}:\n${formatObject(child, `${indent}  `)}`
+        : `${indent}${key}: ${formatCell(child)}\n`
+    )
+    .join('');
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '-';
+  if (Array.isArray(value)) return value.map(formatCell).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -1,46 +0,0 @@
-import resolve from '@rollup/plugin-node-resolve';
-import commonjs from '@rollup/plugin-commonjs';
-import typescript from '@rollup/plugin-typescript';
-import { dts } from 'rollup-plugin-dts';
-import { createRequire } from 'module';
-const require = createRequire(import.meta.url);
-const pkg = require('./package.json');
-
-export default [
-  // Main build
-  {
-    input: 'src/index.ts',
-    output: [
-      {
-        file: pkg.main,
-        format: 'cjs',
-        sourcemap: true,
-      },
-      {
-        file: pkg.module,
-        format: 'esm',
-        sourcemap: true,
-      },
-    ],
-    plugins: [
-      resolve({
-        preferBuiltins: true,
-      }),
-      commonjs(),
-      typescript({
-        tsconfig: './tsconfig.json',
-        declaration: false,
-      }),
-    ],
-    external: ['ethers', '@zkpassport/sdk'],
-  },
-  // Type definitions
-  {
-    input: 'src/index.ts',
-    output: {
-      file: pkg.types,
-      format: 'esm',
-    },
-    plugins: [dts()],
-  },
-];
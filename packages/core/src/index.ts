@@ -1,9 +0,0 @@
-// Core TREZA SDK exports
-// Note: The core package is now focused on the KYC module
-// For compliance features, see packages/kyc
-
-// Version
-export const VERSION = '1.0.3';
-
-// Re-export message for legacy imports
-export const TREZA_SDK_MESSAGE = 'TREZA SDK v1.0.3 - Use @treza/sdk/kyc for KYC features';
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { getNextRuns as sdkGetNextRuns } from '../../../src/schedule/next-run';
+import { getNextRuns, isValidTimezone, parseCron, previewSchedule } from './cron';
+
+describe('parseCron', () => {
+  it('describes why an expression is rejected', () => {
+    expect(parseCron('* * *')).toBe('Expected 5 fields (minute hour day-of-month month day-of-week) or 6 with seconds first, got 3');
+    expect(parseCron('@often')).toMatch(/^Unknown macro "@often"/);
+    expect(parseCron('61 * * * *')).toBe('minute value 61 must be between 0 and 59');
+    expect(parseCron('*/0 * * * *')).toBe('minute step "0" must be a positive whole number');
+    expect(parseCron('0 17-9 * * *')).toBe('hour range "17-9" runs backwards');
+    expect(parseCron('0 0 * foo *')).toBe('month value "foo" must be a number or a name');
+  });
+
+  it('rejects dates that never occur', () => {
+    expect(parseCron('0 0 31 2 *')).toBe('Never runs: day 31 does not occur in month 2');
+    expect(parseCron('0 0 30 2 MON')).toMatchObject({ daysOfMonth: [30], daysOfWeek: [1] });
+  });
+
+  it('expands macros, names, 7 as Sunday and ? as *', () => {
+    expect(parseCron('@Weekly')).toMatchObject({ minutes: [0], hours: [0], daysOfWeek: [0], anyDayOfMonth: true });
+    expect(parseCron('0 9 ? * mon-fri,7')).toMatchObject({ daysOfWeek: [0, 1, 2, 3, 4, 5], anyDayOfWeek: false });
+  });
+});
+
+describe('isValidTimezone', () => {
+  it('accepts IANA zones only', () => {
+    expect(isValidTimezone('Europe/Berlin')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('previewSchedule', () => {
+  it('returns nothing for invalid schedules or time zones', () => {
+    expect(previewSchedule('0 0 31 2 *')).toEqual([]);
+    expect(previewSchedule('0 9 * * *', 'Nowhere')).toEqual([]);
+  });
+
+  it('skips a time that daylight saving jumps over and runs a repeated one once', () => {
+    jest.useFakeTimers({ now: Date.parse('2026-03-07T00:00:00Z') });
+    try {
+      expect(previewSchedule('30 2 * * *', 'America/New_York', 2)).toEqual(['2026-03-07T07:30:00.000Z', '2026-03-09T06:30:00.000Z']);
+      jest.setSystemTime(Date.parse('2026-10-31T12:00:00Z'));
+      expect(previewSchedule('30 1 * * *', 'America/New_York', 2)).toEqual(['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('agreement with the SDK schedule module', () => {
+  const from = Date.parse('2026-02-08T12:00:00Z');
+
+  it.each([
+    ['0 0 15 * MON', 'UTC'],
+    ['0 0 * * MON', 'UTC'],
+    ['0 0 29 2 *', 'UTC'],
+    ['*/20 * * * * *', 'UTC'],
+    ['0 9 * * MON-FRI', 'America/New_York'],
+    ['30 2 * * *', 'America/New_York'],
+    ['30 1 * * SUN', 'America/New_York'],
+    ['0 12 1 */3 *', 'Australia/Lord_Howe'],
+    ['@monthly', 'Asia/Kolkata'],
+  ])('computes the same runs for %s in %s', (schedule, timezone) => {
+    const cron = parseCron(schedule);
+    if (typeof cron === 'string') throw new Error(cron);
+
+    expect(getNextRuns(cron, { from, timezone, count: 8 })).toEqual(sdkGetNextRuns(schedule, { from, timezone, count: 8 }));
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Cron schedules for the MCP tools.
+ * Mirrors the full SDK's schedule module (src/schedule/): five- and six-field
+ * expressions, `@hourly`-style macros and IANA time zones, so
+ * treza_create_task can reject a schedule before calling the platform and
+ * preview when it will run. cron.test.ts checks that both compute the same runs.
+ */
+
+export interface CronExpression {
+  seconds: number[];
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[];
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+export const CRON_MACROS: Readonly<Record<string, string>> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'second', min: 0, max: 59 },
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const MONTH_DAYS = [0, 31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEARCH_YEARS = 10;
+
+/**
+ * Parse a cron expression, or describe why it can't be
+ */
+export function parseCron(expression: string): CronExpression | string {
+  const source = expression.trim();
+  const expanded = source.startsWith('@') ? CRON_MACROS[source.toLowerCase()] : source;
+  if (expanded === undefined) {
+    return `Unknown macro "${source}"; use one of ${Object.keys(CRON_MACROS).join(', ')}`;
+  }
+
+  const texts = expanded.split(/\s+/).filter(Boolean);
+  if (texts.length !== 5 && texts.length !== 6) {
+    return `Expected 5 fields (minute hour day-of-month month day-of-week) or 6 with seconds first, got ${texts.length}`;
+  }
+  if (texts.length === 5) {
+    texts.unshift('0');
+  }
+
+  const values: number[][] = [];
+  for (const [index, text] of texts.entries()) {
+    const parsed = parseField(text, FIELDS[index]);
+    if (typeof parsed === 'string') return parsed;
+    values.push(parsed);
+  }
+
+  const [seconds, minutes, hours, daysOfMonth, months, weekdays] = values;
+  const cron: CronExpression = {
+    seconds,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: [...new Set(weekdays.map((day) => day % 7))].sort((a, b) => a - b),
+    anyDayOfMonth: /^[*?]/.test(texts[3]),
+    anyDayOfWeek: /^[*?]/.test(texts[5]),
+  };
+  if (cron.anyDayOfWeek && !cron.months.some((month) => cron.daysOfMonth.some((day) => day <= MONTH_DAYS[month]))) {
+    return `Never runs: day ${texts[3]} does not occur in month ${texts[4]}`;
+  }
+  return cron;
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Next times a valid schedule runs, strictly after `from`, in the given time zone
+ */
+export function getNextRuns(
+  cron: CronExpression,
+  options: { count?: number; from?: number; timezone?: string } = {},
+): Date[] {
+  const timeZone = options.timezone ?? 'UTC';
+  const runs: Date[] = [];
+  let from = options.from ?? Date.now();
+  while (runs.length < (options.count ?? 5)) {
+    const next = nextRunAfter(cron, from, timeZone);
+    if (next === undefined) break;
+    runs.push(new Date(next));
+    from = next;
+  }
+  return runs;
+}
+
+/**
+ * ISO times of the next runs of a schedule; empty when it can't be parsed
+ */
+export function previewSchedule(schedule: string, timezone?: string, count = 5): string[] {
+  const cron = parseCron(schedule);
+  if (typeof cron === 'string' || (timezone !== undefined && !isValidTimezone(timezone))) {
+    return [];
+  }
+  return getNextRuns(cron, { count, timezone }).map((run) => run.toISOString());
+}
+
+function parseField(text: string, spec: FieldSpec): number[] | string {
+  if (text === '?' && (spec.name === 'day of month' || spec.name === 'day of week')) {
+    text = '*';
+  }
+
+  const matched = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText, ...extra] = part.split('/');
+    if (extra.length > 0 || range === '') {
+      return `${spec.name} field "${text}" is malformed`;
+    }
+    const step = stepText === undefined ? 1 : /^\d+$/.test(stepText) ? Number(stepText) : NaN;
+    if (!(step > 0)) {
+      return `${spec.name} step "${stepText}" must be a positive whole number`;
+    }
+
+    let low: number;
+    let high: number;
+    if (range === '*') {
+      low = spec.min;
+      high = spec.name === 'day of week' ? 6 : spec.max;
+    } else {
+      const bounds = range.split('-');
+      if (bounds.length > 2) {
+        return `${spec.name} range "${range}" is malformed`;
+      }
+      const parsed = bounds.map((bound) => parseValue(bound, spec));
+      const invalid = parsed.find((value): value is string => typeof value === 'string');
+      if (invalid) return invalid;
+      [low, high] = parsed as number[];
+      if (high === undefined) {
+        high = stepText === undefined ? low : spec.max;
+      }
+      if (low > high) {
+        return `${spec.name} range "${range}" runs backwards`;
+      }
+    }
+
+    for (let value = low; value <= high; value += step) {
+      matched.add(value);
+    }
+  }
+  return [...matched].sort((a, b) => a - b);
+}
+
+function parseValue(text: string, spec: FieldSpec): number | string {
+  const named = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (named >= 0) {
+    return spec.name === 'month' ? named + 1 : named;
+  }
+  if (!/^\d+$/.test(text)) {
+    return `${spec.name} value "${text}" must be a number${spec.names ? ' or a name' : ''}`;
+  }
+  const value = Number(text);
+  if (value < spec.min || value > spec.max) {
+    return `${spec.name} value ${value} must be between ${spec.min} and ${spec.max}`;
+  }
+  return value;
+}
+
+// ─── Time zones ─────────────────────────────────────────────────────────────
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+/** Local date and time of an instant, as a timestamp whose UTC fields hold it */
+function toWallTime(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatter(timeZone).formatToParts(new Date(instant))) {
+    parts[type] = Number(value);
+  }
+  const milliseconds = ((instant % 1000) + 1000) % 1000;
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, milliseconds);
+}
+
+/** Instants showing a local time, earliest first; none inside a daylight-saving gap */
+function fromWallTime(wallTime: number, timeZone: string): number[] {
+  const offsets = new Set([wallTime - DAY_MS, wallTime + DAY_MS].map((probe) => toWallTime(probe, timeZone) - probe));
+  return [...offsets]
+    .map((offset) => wallTime - offset)
+    .filter((instant) => toWallTime(instant, timeZone) === wallTime)
+    .sort((a, b) => a - b);
+}
+
+function nextRunAfter(cron: CronExpression, from: number, timeZone: string): number | undefined {
+  const start = toWallTime(from, timeZone);
+  let wallTime = start - (start % 1000) + 1000;
+  const limit = Date.UTC(new Date(start).getUTCFullYear() + SEARCH_YEARS, 0, 1);
+
+  for (;;) {
+    const match = nextMatch(cron, wallTime, limit);
+    if (match === undefined) return undefined;
+    // Skipped by daylight saving, or already passed when the hour repeats
+    const [first] = fromWallTime(match, timeZone);
+    if (first !== undefined && first > from) return first;
+    wallTime = match + 1000;
+  }
+}
+
+function nextMatch(cron: CronExpression, wallTime: number, limit: number): number | undefined {
+  let time = wallTime;
+  while (time < limit) {
+    const date = new Date(time);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+    const minute = date.getUTCMinutes();
+    const byMonth = cron.daysOfMonth.includes(day);
+    const byWeek = cron.daysOfWeek.includes(date.getUTCDay());
+
+    if (!cron.months.includes(month + 1)) {
+      time = Date.UTC(year, month + 1, 1);
+    } else if (!(cron.anyDayOfMonth || cron.anyDayOfWeek ? byMonth && byWeek : byMonth || byWeek)) {
+      time = Date.UTC(year, month, day + 1);
+    } else if (!cron.hours.includes(hour)) {
+      time = Date.UTC(year, month, day, hour + 1);
+    } else if (!cron.minutes.includes(minute)) {
+      time = Date.UTC(year, month, day, hour, minute + 1);
+    } else if (!cron.seconds.includes(date.getUTCSeconds())) {
+      time = Date.UTC(year, month, day, hour, minute, date.getUTCSeconds() + 1);
+    } else {
+      return time;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,126 @@
+/**
+ * Error hierarchy for the MCP server's Treza client.
+ * Mirrors the full SDK's errors module (src/errors.ts) for the
+ * categories an API-only client can produce.
+ */
+
+import { redactSecrets, redactString } from './redact';
+
+export interface TrezaErrorOptions {
+  code?: string;
+  details?: Record<string, unknown>;
+  statusCode?: number;
+  cause?: unknown;
+  /** Platform request ID (`x-request-id`) */
+  requestId?: string;
+}
+
+export class TrezaSdkError extends Error {
+  public readonly code?: string;
+  public readonly details?: Record<string, unknown>;
+  public readonly statusCode?: number;
+  public readonly cause?: unknown;
+  public readonly requestId?: string;
+
+  constructor(
+    message: string,
+    code?: string,
+    details?: Record<string, unknown>,
+    statusCode?: number,
+    options: Pick<TrezaErrorOptions, 'cause' | 'requestId'> = {},
+  ) {
+    super(redactString(message));
+    this.name = 'TrezaSdkError';
+    this.code = code;
+    this.details = details && redactSecrets(details);
+    this.statusCode = statusCode;
+    this.cause = options.cause;
+    this.requestId = options.requestId;
+  }
+}
+
+export class NotFoundError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'NOT_FOUND', options.details, options.statusCode ?? 404, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class AuthError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'AUTH_ERROR', options.details, options.statusCode, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class PermissionError extends TrezaSdkError {
+  public readonly requiredScope?: string;
+
+  constructor(message: string, options: TrezaErrorOptions & { requiredScope?: string } = {}) {
+    super(message, options.code ?? 'INSUFFICIENT_SCOPE', options.details, options.statusCode ?? 403, options);
+    this.name = 'PermissionError';
+    this.requiredScope = options.requiredScope;
+  }
+}
+
+export class RateLimitError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'RATE_LIMITED', options.details, options.statusCode ?? 429, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class ValidationError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'VALIDATION_ERROR', options.details, options.statusCode, options);
+    this.name = 'ValidationError';
+  }
+}
+
+export class PaymentRequiredError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'PAYMENT_REQUIRED', options.details, options.statusCode ?? 402, options);
+    this.name = 'PaymentRequiredError';
+  }
+}
+
+export class ServerError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'SERVER_ERROR', options.details, options.statusCode ?? 500, options);
+    this.name = 'ServerError';
+  }
+}
+
+export class NetworkError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'NETWORK_ERROR', options.details, options.statusCode, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export const isTrezaSdkError = (error: unknown): error is TrezaSdkError => error instanceof TrezaSdkError;
+export const isNotFoundError = (error: unknown): error is NotFoundError => error instanceof NotFoundError;
+export const isAuthError = (error: unknown): error is AuthError => error instanceof AuthError;
+export const isPermissionError = (error: unknown): error is PermissionError => error instanceof PermissionError;
+export const isRateLimitError = (error: unknown): error is RateLimitError => error instanceof RateLimitError;
+export const isValidationError = (error: unknown): error is ValidationError => error instanceof ValidationError;
+export const isPaymentRequiredError = (error: unknown): error is PaymentRequiredError =>
+  error instanceof PaymentRequiredError;
+export const isServerError = (error: unknown): error is ServerError => error instanceof ServerError;
+export const isNetworkError = (error: unknown): error is NetworkError => error instanceof NetworkError;
+
+/**
+ * Build the error matching an HTTP status code; `code` defaults to `HTTP_<status>`.
+ */
+export function createHttpError(statusCode: number, message: string, options: TrezaErrorOptions = {}): TrezaSdkError {
+  const withStatus = { code: `HTTP_${statusCode}`, ...options, statusCode };
+
+  if (statusCode === 400 || statusCode === 422) return new ValidationError(message, withStatus);
+  if (statusCode === 401) return new AuthError(message, withStatus);
+  if (statusCode === 402) return new PaymentRequiredError(message, withStatus);
+  if (statusCode === 403) return new PermissionError(message, withStatus);
+  if (statusCode === 404) return new NotFoundError(message, withStatus);
+  if (statusCode === 429) return new RateLimitError(message, withStatus);
+  if (statusCode >= 500) return new ServerError(message, withStatus);
+  return new TrezaSdkError(message, withStatus.code, options.details, statusCode, options);
+}
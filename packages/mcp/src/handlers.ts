@@ -1,4 +1,9 @@
+import { ZodError } from 'zod';
 import { TrezaClient } from './treza-client';
+import { isTrezaSdkError } from './errors';
+import { NITRO_CONFIG_SCHEMA, toProviderConfig } from './provider-schema';
+import { previewSchedule } from './cron';
+import { redactSecrets, redactString } from './redact';
 import {
   listEnclavesSchema,
   getEnclaveSchema,
@@ -14,6 +19,9 @@ import {
   getProviderSchema,
   listTasksSchema,
   createTaskSchema,
+  listTaskRunsSchema,
+  triggerTaskSchema,
+  cancelTaskRunSchema,
   listApiKeysSchema,
   createApiKeySchema,
 } from './tools';
@@ -23,15 +31,19 @@ type ToolResult = {
   isError?: boolean;
 };
 
-function ok(data: unknown): ToolResult {
+/**
+ * Tool output is kept in the model's context and transcripts, so secrets are
+ * redacted unless returning one is the point of the tool
+ */
+function ok(data: unknown, options: { redact?: boolean } = {}): ToolResult {
   return {
-    content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+    content: [{ type: 'text', text: JSON.stringify(options.redact === false ? data : redactSecrets(data), null, 2) }],
   };
 }
 
-function err(message: string): ToolResult {
+function err(message: string, extra: { code?: string; statusCode?: number; requestId?: string } = {}): ToolResult {
   return {
-    content: [{ type: 'text', text: JSON.stringify({ error: message }) }],
+    content: [{ type: 'text', text: JSON.stringify({ error: redactString(message), ...extra }) }],
     isError: true,
   };
 }
@@ -45,11 +57,12 @@ export async function handleToolCall(
     switch (toolName) {
       // ── Enclave Management ──────────────────────────────────────────
       case 'treza_list_enclaves': {
-        const { walletAddress } = listEnclavesSchema.parse(args);
-        const enclaves = await client.getEnclaves(walletAddress);
+        const { walletAddress, ...options } = listEnclavesSchema.parse(args);
+        const { items: enclaves, nextCursor } = await client.getEnclavesPage(walletAddress, options);
         return ok({
           count: enclaves.length,
-          enclaves: enclaves.map((e: Record<string, unknown>) => ({
+          nextCursor,
+          enclaves: enclaves.map((e) => ({
             id: e.id,
             name: e.name,
             status: e.status,
@@ -68,21 +81,13 @@ export async function handleToolCall(
 
       case 'treza_create_enclave': {
         const params = createEnclaveSchema.parse(args);
-        const providerConfig: Record<string, unknown> = {};
-        if (params.dockerImage) providerConfig.dockerImage = params.dockerImage;
-        if (params.cpuCount) providerConfig.cpuCount = params.cpuCount;
-        if (params.memoryMiB) providerConfig.memoryMiB = params.memoryMiB;
-        if (params.workloadType) providerConfig.workloadType = params.workloadType;
-        if (params.exposePorts) providerConfig.exposePorts = params.exposePorts;
-        if (params.enableDebug !== undefined) providerConfig.enableDebug = params.enableDebug;
-
         const enclave = await client.createEnclave({
           name: params.name,
           description: params.description,
           region: params.region,
           walletAddress: params.walletAddress,
           providerId: params.providerId,
-          providerConfig: Object.keys(providerConfig).length > 0 ? providerConfig : undefined,
+          providerConfig: toProviderConfig(NITRO_CONFIG_SCHEMA, params),
         });
         return ok({
           message: `Enclave "${enclave.name}" created. Deployment in progress (typically 2-5 minutes).`,
@@ -155,24 +160,47 @@ export async function handleToolCall(
 
       // ── Tasks ───────────────────────────────────────────────────────
       case 'treza_list_tasks': {
-        const { walletAddress } = listTasksSchema.parse(args);
-        const tasks = await client.getTasks(walletAddress);
-        return ok({ count: tasks.length, tasks });
+        const { walletAddress, ...options } = listTasksSchema.parse(args);
+        const { items: tasks, nextCursor } = await client.getTasksPage(walletAddress, options);
+        return ok({ count: tasks.length, nextCursor, tasks });
       }
 
       case 'treza_create_task': {
-        const params = createTaskSchema.parse(args);
+        const { preview, ...params } = createTaskSchema.parse(args);
+        const nextRuns = previewSchedule(params.schedule, params.timezone);
+        if (preview) {
+          return ok({ schedule: params.schedule, timezone: params.timezone ?? 'UTC', nextRuns });
+        }
         const task = await client.createTask(params);
-        return ok(task);
+        return ok({ ...task, nextRuns });
+      }
+
+      case 'treza_list_task_runs': {
+        const { taskId, ...options } = listTaskRunsSchema.parse(args);
+        const runs = await client.getTaskRuns(taskId, options);
+        return ok({ count: runs.length, runs });
+      }
+
+      case 'treza_trigger_task': {
+        const { taskId, input } = triggerTaskSchema.parse(args);
+        const run = await client.triggerTask(taskId, input);
+        return ok(run);
+      }
+
+      case 'treza_cancel_task_run': {
+        const { runId } = cancelTaskRunSchema.parse(args);
+        const run = await client.cancelTaskRun(runId);
+        return ok(run);
       }
 
       // ── API Keys ────────────────────────────────────────────────────
       case 'treza_list_api_keys': {
-        const { walletAddress } = listApiKeysSchema.parse(args);
-        const apiKeys = await client.getApiKeys(walletAddress);
+        const { walletAddress, ...options } = listApiKeysSchema.parse(args);
+        const { items: apiKeys, nextCursor } = await client.getApiKeysPage(walletAddress, options);
         return ok({
           count: apiKeys.length,
-          apiKeys: apiKeys.map((k: Record<string, unknown>) => ({
+          nextCursor,
+          apiKeys: apiKeys.map((k) => ({
             id: k.id,
             name: k.name,
             status: k.status,
@@ -186,16 +214,27 @@ export async function handleToolCall(
       case 'treza_create_api_key': {
         const params = createApiKeySchema.parse(args);
         const apiKey = await client.createApiKey(params);
-        return ok({
-          message: 'API key created. Store the key securely — it will not be shown again.',
-          apiKey,
-        });
+        // Deliberate exception: the new key is what the caller asked for, so it is
+        // returned once; every other field is redacted as usual
+        return ok(
+          {
+            message: 'API key created. Store the key securely — it will not be shown again.',
+            apiKey: { ...redactSecrets(apiKey), key: apiKey.key },
+          },
+          { redact: false },
+        );
       }
 
       default:
         return err(`Unknown tool: ${toolName}`);
     }
   } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      return err(error.message, { code: 'VALIDATION_ERROR' });
+    }
+    if (isTrezaSdkError(error)) {
+      return err(error.message, { code: error.code, statusCode: error.statusCode, requestId: error.requestId });
+    }
     const message = error instanceof Error ? error.message : String(error);
     return err(message);
   }
@@ -9,10 +9,12 @@ import { RESOURCE_TEMPLATES, handleResourceRead } from './resources';
 
 const TREZA_BASE_URL = process.env.TREZA_BASE_URL || 'https://app.trezalabs.com';
 const TREZA_TIMEOUT = parseInt(process.env.TREZA_TIMEOUT || '30000', 10);
+const TREZA_API_KEY = process.env.TREZA_API_KEY;
 
 const client = new TrezaClient({
   baseUrl: TREZA_BASE_URL,
   timeout: TREZA_TIMEOUT,
+  apiKey: TREZA_API_KEY,
 });
 
 const server = new McpServer({
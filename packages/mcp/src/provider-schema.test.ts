@@ -0,0 +1,68 @@
+import { MockTrezaPlatform } from '../../../src/testing';
+import { handleToolCall } from './handlers';
+import { NITRO_CONFIG_SCHEMA as SDK_NITRO_CONFIG_SCHEMA } from '../../../src/providers/nitro';
+import { NITRO_CONFIG_SCHEMA, toProviderConfig } from './provider-schema';
+import { createEnclaveSchema } from './tools';
+import { TrezaClient } from './treza-client';
+
+const WALLET = '0x742d35Cc6634C0532925a3b8D598C4C0532925a3';
+
+const createArgs = {
+  name: 'signer',
+  description: 'Signs payments',
+  region: 'us-east-1',
+  walletAddress: WALLET,
+  providerId: 'aws-nitro',
+};
+
+describe('provider config schema', () => {
+  it('accepts integer choices as numbers', () => {
+    const params = createEnclaveSchema.parse({ ...createArgs, dockerImage: 'nginx:latest', cpuCount: 4, memoryMiB: 8192 });
+
+    expect(toProviderConfig(NITRO_CONFIG_SCHEMA, params)).toEqual({
+      dockerImage: 'nginx:latest',
+      cpuCount: 4,
+      memoryMiB: 8192,
+    });
+  });
+
+  it('rejects integer choices sent as strings or outside the enum', () => {
+    expect(createEnclaveSchema.safeParse({ ...createArgs, cpuCount: '2' }).success).toBe(false);
+    expect(createEnclaveSchema.safeParse({ ...createArgs, cpuCount: 3 }).success).toBe(false);
+  });
+
+  it('checks string choices and patterns', () => {
+    expect(createEnclaveSchema.safeParse({ ...createArgs, workloadType: 'service' }).success).toBe(true);
+    expect(createEnclaveSchema.safeParse({ ...createArgs, workloadType: 'cron' }).success).toBe(false);
+    expect(createEnclaveSchema.safeParse({ ...createArgs, exposePorts: '80, 443' }).success).toBe(true);
+    expect(createEnclaveSchema.safeParse({ ...createArgs, exposePorts: 'http' }).success).toBe(false);
+  });
+
+  it('matches the SDK schema', () => {
+    expect(NITRO_CONFIG_SCHEMA).toEqual(SDK_NITRO_CONFIG_SCHEMA);
+  });
+
+  it('offers every setting of the schema as a tool argument', () => {
+    expect(Object.keys(createEnclaveSchema.shape)).toEqual(
+      expect.arrayContaining(Object.keys(NITRO_CONFIG_SCHEMA.properties))
+    );
+  });
+
+  it('sends integer settings to the platform as numbers', async () => {
+    const platform = new MockTrezaPlatform();
+    const client = new TrezaClient({ transport: platform.transport });
+
+    const result = await handleToolCall(client, 'treza_create_enclave', {
+      ...createArgs,
+      dockerImage: 'nginx:latest',
+      cpuCount: 2,
+    });
+
+    expect(result.isError).toBeUndefined();
+    const request = platform.requests.find(({ method, path }) => method === 'POST' && path === '/api/enclaves');
+    expect((request?.body as { providerConfig: unknown }).providerConfig).toEqual({
+      dockerImage: 'nginx:latest',
+      cpuCount: 2,
+    });
+  });
+});
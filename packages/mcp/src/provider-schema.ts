@@ -0,0 +1,106 @@
+import { z } from 'zod';
+
+/**
+ * Provider configuration schema for the MCP tools.
+ * Mirrors the full SDK's NITRO_CONFIG_SCHEMA (src/providers/nitro.ts), the
+ * `configSchema` the platform serves for AWS Nitro Enclaves, so the
+ * treza_create_enclave tool accepts exactly the settings the provider does.
+ */
+
+export interface ConfigProperty {
+  type: 'string' | 'integer' | 'number' | 'boolean';
+  enum?: Array<string | number>;
+  minLength?: number;
+  pattern?: string;
+  description: string;
+}
+
+export interface ConfigSchema {
+  type: 'object';
+  properties: Record<string, ConfigProperty>;
+}
+
+export const NITRO_CONFIG_SCHEMA: ConfigSchema = {
+  type: 'object',
+  properties: {
+    dockerImage: {
+      type: 'string',
+      minLength: 1,
+      description: 'Docker image to run inside the enclave',
+    },
+    cpuCount: {
+      type: 'integer',
+      enum: [2, 4, 8, 16],
+      description: 'Number of vCPUs',
+    },
+    memoryMiB: {
+      type: 'integer',
+      enum: [1024, 2048, 4096, 8192, 16384],
+      description: 'Memory in MiB',
+    },
+    workloadType: {
+      type: 'string',
+      enum: ['batch', 'service', 'daemon'],
+      description: 'Workload type',
+    },
+    exposePorts: {
+      type: 'string',
+      pattern: '^\\d{1,5}(\\s*,\\s*\\d{1,5})*$',
+      description: 'Comma-separated ports to expose',
+    },
+    enableDebug: {
+      type: 'boolean',
+      description: 'Enable debug mode',
+    },
+  },
+};
+
+/**
+ * Optional zod fields for each setting in a provider config schema.
+ * Choices keep the type of the schema's enum values, so integer settings
+ * are sent as numbers.
+ */
+export function providerConfigShape(schema: ConfigSchema): Record<string, z.ZodOptional<z.ZodTypeAny>> {
+  return Object.fromEntries(
+    Object.entries(schema.properties).map(([key, property]) => [key, toZod(property).optional()]),
+  );
+}
+
+/**
+ * Collect the provider settings present in validated tool arguments
+ */
+export function toProviderConfig(schema: ConfigSchema, params: Record<string, unknown>): Record<string, unknown> | undefined {
+  const config = Object.fromEntries(
+    Object.keys(schema.properties)
+      .filter((key) => params[key] !== undefined)
+      .map((key) => [key, params[key]]),
+  );
+  return Object.keys(config).length > 0 ? config : undefined;
+}
+
+function toZod(property: ConfigProperty): z.ZodTypeAny {
+  let field: z.ZodTypeAny;
+  if (property.enum) {
+    field = toEnum(property.enum);
+  } else if (property.type === 'boolean') {
+    field = z.boolean();
+  } else if (property.type === 'integer' || property.type === 'number') {
+    field = property.type === 'integer' ? z.number().int() : z.number();
+  } else {
+    let text = z.string();
+    if (property.minLength !== undefined) text = text.min(property.minLength);
+    if (property.pattern !== undefined) text = text.regex(new RegExp(property.pattern), `Must match ${property.pattern}`);
+    field = text;
+  }
+  return field.describe(property.description);
+}
+
+function toEnum(choices: Array<string | number>): z.ZodTypeAny {
+  if (choices.every((choice): choice is string => typeof choice === 'string')) {
+    return z.enum(choices as [string, ...string[]]);
+  }
+  const literals = choices.map((choice) => z.literal(choice));
+  return literals.length === 1
+    ? literals[0]
+    : z.union(literals as [z.ZodLiteral<z.Primitive>, z.ZodLiteral<z.Primitive>, ...z.ZodLiteral<z.Primitive>[]]);
+}
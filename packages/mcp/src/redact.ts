@@ -0,0 +1,81 @@
+/**
+ * Secret redaction for tool and resource output.
+ * Mirrors the full SDK's redact module (src/redact.ts): GitHub access tokens,
+ * private registry passwords, authorization headers and API key secrets are
+ * replaced with REDACTED before anything is returned to the model.
+ */
+
+export const REDACTED = '[REDACTED]';
+
+const SECRET_FIELDS = new Set([
+  'accesstoken',
+  'access_token',
+  'privateregistrypassword',
+  'authorization',
+  'x-github-token',
+]);
+
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(?:gh[opusr]_[A-Za-z0-9]{20,}|github_pat_[A-Za-z0-9_]{20,})/g, REDACTED],
+  [/\btreza_[A-Za-z0-9]{16,}/g, REDACTED],
+  [/([?&](?:token|access_token)=)[^&#\s]+/gi, `$1${REDACTED}`],
+];
+
+/**
+ * Copy a value with every secret replaced by REDACTED
+ */
+export function redactSecrets<T>(value: T): T {
+  return redact(value, new WeakMap()) as T;
+}
+
+export function redactString(text: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Drop the GitHub token and registry password the platform echoes back on enclaves
+ */
+export function omitStoredSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    value.forEach(omitStoredSecrets);
+  } else if (isPlainObject(value)) {
+    delete value.privateRegistryPassword;
+    if (isPlainObject(value.githubConnection)) {
+      delete value.githubConnection.accessToken;
+    }
+    Object.values(value).forEach(omitStoredSecrets);
+  }
+  return value;
+}
+
+function redact(value: unknown, seen: WeakMap<object, unknown>): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (typeof value !== 'object' || value === null) return value;
+  if (seen.has(value)) return seen.get(value);
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [];
+    seen.set(value, copy);
+    value.forEach((item) => copy.push(redact(item, seen)));
+    return copy;
+  }
+  if (!isPlainObject(value) && !(value instanceof Error)) return value;
+
+  const copy: Record<string, unknown> = {};
+  seen.set(value, copy);
+  const fields: Record<string, unknown> = value instanceof Error
+    ? { name: value.name, message: value.message, ...(value as object) }
+    : value;
+  const isApiKey = typeof fields.keyHash === 'string';
+  for (const [field, fieldValue] of Object.entries(fields)) {
+    const secret = SECRET_FIELDS.has(field.toLowerCase()) || (isApiKey && field === 'key');
+    copy[field] = secret && fieldValue !== undefined && fieldValue !== null ? REDACTED : redact(fieldValue, seen);
+  }
+  return copy;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
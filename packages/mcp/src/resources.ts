@@ -1,4 +1,5 @@
 import { TrezaClient } from './treza-client';
+import { redactSecrets } from './redact';
 
 /**
  * MCP Resources expose Treza data as browsable context that AI agents
@@ -58,28 +59,28 @@ export async function handleResourceRead(
   if (url.host === 'enclaves' && pathParts.length === 1 && pathParts[0] !== '') {
     const walletAddress = pathParts[0];
     const enclaves = await client.getEnclaves(walletAddress);
-    return JSON.stringify({ count: enclaves.length, enclaves }, null, 2);
+    return JSON.stringify(redactSecrets({ count: enclaves.length, enclaves }), null, 2);
   }
 
   // treza://enclaves/{enclaveId}/details
   if (url.host === 'enclaves' && pathParts.length === 2 && pathParts[1] === 'details') {
     const enclaveId = pathParts[0];
     const enclave = await client.getEnclave(enclaveId);
-    return JSON.stringify(enclave, null, 2);
+    return JSON.stringify(redactSecrets(enclave), null, 2);
   }
 
   // treza://enclaves/{enclaveId}/attestation
   if (url.host === 'enclaves' && pathParts.length === 2 && pathParts[1] === 'attestation') {
     const enclaveId = pathParts[0];
     const attestation = await client.getAttestation(enclaveId);
-    return JSON.stringify(attestation, null, 2);
+    return JSON.stringify(redactSecrets(attestation), null, 2);
   }
 
   // treza://enclaves/{enclaveId}/verification
   if (url.host === 'enclaves' && pathParts.length === 2 && pathParts[1] === 'verification') {
     const enclaveId = pathParts[0];
     const status = await client.getVerificationStatus(enclaveId);
-    return JSON.stringify(status, null, 2);
+    return JSON.stringify(redactSecrets(status), null, 2);
   }
 
   throw new Error(`Unknown resource URI: ${uri}`);
@@ -1,14 +1,33 @@
 import { z } from 'zod';
+import { NITRO_CONFIG_SCHEMA, providerConfigShape } from './provider-schema';
+import { isValidTimezone, parseCron } from './cron';
 
 /**
  * Zod schemas and metadata for all MCP tools exposed by the Treza server.
  * Each tool maps to a TrezaClient SDK method.
  */
 
+// ─── Pagination ─────────────────────────────────────────────────────────────
+
+const pageFields = {
+  limit: z.number().int().min(1).max(100).default(20).describe('Maximum items to return (1-100, default 20)'),
+  cursor: z.string().optional().describe('Cursor from a previous response\'s nextCursor, to fetch the next page'),
+  createdAfter: z.string().optional().describe('Only include items created after this ISO timestamp'),
+};
+
+const enclaveStatus = z.enum([
+  'PENDING_BUILD', 'BUILDING', 'BUILD_FAILED', 'PENDING_DEPLOY', 'DEPLOYING', 'DEPLOYED',
+  'PAUSING', 'PAUSED', 'RESUMING', 'PENDING_DESTROY', 'DESTROYING', 'DESTROYED', 'FAILED',
+]);
+
 // ─── Enclave Management ─────────────────────────────────────────────────────
 
 export const listEnclavesSchema = z.object({
   walletAddress: z.string().describe('Ethereum wallet address that owns the enclaves'),
+  ...pageFields,
+  status: z.array(enclaveStatus).optional().describe('Only include enclaves in these statuses'),
+  region: z.string().optional().describe('Only include enclaves in this region'),
+  providerId: z.string().optional().describe('Only include enclaves using this provider'),
 });
 
 export const getEnclaveSchema = z.object({
@@ -21,12 +40,7 @@ export const createEnclaveSchema = z.object({
   region: z.string().describe('AWS region to deploy in (e.g. "us-east-1", "eu-west-1")'),
   walletAddress: z.string().describe('Ethereum wallet address of the owner'),
   providerId: z.string().default('aws-nitro-enclave').describe('Provider ID (default: "aws-nitro-enclave")'),
-  dockerImage: z.string().optional().describe('Docker image to run inside the enclave'),
-  cpuCount: z.enum(['2', '4', '8', '16']).optional().describe('Number of vCPUs'),
-  memoryMiB: z.enum(['1024', '2048', '4096', '8192', '16384']).optional().describe('Memory in MiB'),
-  workloadType: z.enum(['batch', 'service', 'daemon']).optional().describe('Workload type'),
-  exposePorts: z.string().optional().describe('Comma-separated ports to expose'),
-  enableDebug: z.boolean().optional().describe('Enable debug mode'),
+  ...providerConfigShape(NITRO_CONFIG_SCHEMA),
 });
 
 export const updateEnclaveSchema = z.object({
@@ -81,20 +95,50 @@ export const getProviderSchema = z.object({
 
 export const listTasksSchema = z.object({
   walletAddress: z.string().describe('Wallet address that owns the tasks'),
+  ...pageFields,
+  status: z.array(z.enum(['running', 'stopped', 'failed', 'pending'])).optional().describe('Only include tasks in these statuses'),
+  enclaveId: z.string().optional().describe('Only include tasks for this enclave'),
 });
 
 export const createTaskSchema = z.object({
   name: z.string().describe('Task name'),
   description: z.string().describe('Task description'),
   enclaveId: z.string().describe('Enclave to run the task on'),
-  schedule: z.string().describe('Cron expression (e.g. "0 */6 * * *")'),
+  schedule: z.string()
+    .superRefine((schedule, ctx) => {
+      const cron = parseCron(schedule);
+      if (typeof cron === 'string') ctx.addIssue({ code: z.ZodIssueCode.custom, message: cron });
+    })
+    .describe('Cron expression: 5 fields, 6 with seconds first, or a macro such as "@daily" (e.g. "0 */6 * * *")'),
+  timezone: z.string()
+    .refine(isValidTimezone, 'Unknown time zone')
+    .optional()
+    .describe('IANA time zone the schedule runs in (default: UTC)'),
   walletAddress: z.string().describe('Wallet address for authorization'),
+  preview: z.boolean().optional().describe('Only check the schedule and return its next run times, without creating the task'),
+});
+
+export const listTaskRunsSchema = z.object({
+  taskId: z.string().describe('Task ID'),
+  since: z.string().datetime().optional().describe('Only include runs queued at or after this ISO timestamp'),
+  limit: z.number().int().min(1).max(100).optional().describe('Maximum runs to return, newest first (default 20)'),
+});
+
+export const triggerTaskSchema = z.object({
+  taskId: z.string().describe('Task ID'),
+  input: z.record(z.unknown()).optional().describe('Input passed to the run'),
+});
+
+export const cancelTaskRunSchema = z.object({
+  runId: z.string().describe('Run ID from treza_trigger_task or treza_list_task_runs'),
 });
 
 // ─── API Keys ───────────────────────────────────────────────────────────────
 
 export const listApiKeysSchema = z.object({
   walletAddress: z.string().describe('Wallet address that owns the API keys'),
+  ...pageFields,
+  status: z.enum(['active', 'inactive']).optional().describe('Only include keys with this status'),
 });
 
 export const createApiKeySchema = z.object({
@@ -116,7 +160,7 @@ export interface ToolDefinition {
 export const TOOL_DEFINITIONS: ToolDefinition[] = [
   {
     name: 'treza_list_enclaves',
-    description: 'List all Treza Nitro Enclaves owned by a wallet address. Returns enclave IDs, names, statuses, regions, and configuration.',
+    description: 'List Treza Nitro Enclaves owned by a wallet address, newest first, optionally filtered by status, region, provider or creation time. Returns enclave IDs, names, statuses and regions, one page at a time; pass nextCursor back as cursor for the next page.',
     schema: listEnclavesSchema,
   },
   {
@@ -176,17 +220,32 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
   },
   {
     name: 'treza_list_tasks',
-    description: 'List all scheduled tasks for a wallet. Tasks are cron-scheduled operations that run inside enclaves.',
+    description: 'List scheduled tasks for a wallet, optionally filtered by status or enclave, one page at a time. Tasks are cron-scheduled operations that run inside enclaves.',
     schema: listTasksSchema,
   },
   {
     name: 'treza_create_task',
-    description: 'Create a new scheduled task to run inside an enclave on a cron schedule.',
+    description: 'Create a new scheduled task to run inside an enclave on a cron schedule. Invalid schedules are rejected, and the result lists the next run times; set preview to check a schedule without creating the task.',
     schema: createTaskSchema,
   },
+  {
+    name: 'treza_list_task_runs',
+    description: 'List past and in-progress runs of a task, newest first, with status, exit code, output and error. Each run\'s logStream matches the stream field of its entries in treza_get_enclave_logs.',
+    schema: listTaskRunsSchema,
+  },
+  {
+    name: 'treza_trigger_task',
+    description: 'Run a task now, outside its schedule, optionally with input. The enclave must be DEPLOYED. Returns the queued run; poll treza_list_task_runs for its result.',
+    schema: triggerTaskSchema,
+  },
+  {
+    name: 'treza_cancel_task_run',
+    description: 'Cancel a queued or running task run.',
+    schema: cancelTaskRunSchema,
+  },
   {
     name: 'treza_list_api_keys',
-    description: 'List all API keys for a wallet address. Keys have scoped permissions (enclaves:read, enclaves:write, tasks:read, tasks:write, logs:read).',
+    description: 'List API keys for a wallet address, one page at a time. Keys have scoped permissions (enclaves:read, enclaves:write, tasks:read, tasks:write, logs:read).',
     schema: listApiKeysSchema,
   },
   {
@@ -0,0 +1,72 @@
+/**
+ * HTTP transport for the MCP server's Treza client.
+ * Mirrors the full SDK's transport module (src/transport) with a single
+ * fetch-based implementation.
+ */
+
+export interface TransportRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  timeout?: number;
+}
+
+export interface TransportResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: any;
+}
+
+/**
+ * Sends one HTTP request. Rejects only when no response was received.
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+export class FetchTransport implements Transport {
+  constructor(private readonly fetchImpl: typeof fetch = globalThis.fetch) {}
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const controller = new AbortController();
+    const timer = request.timeout ? setTimeout(() => controller.abort(), request.timeout) : undefined;
+
+    const headers = { ...request.headers };
+    if (request.body !== undefined) headers['content-type'] = 'application/json';
+
+    try {
+      const response = await this.fetchImpl(request.url, {
+        method: request.method,
+        headers,
+        body: request.body === undefined ? undefined : JSON.stringify(request.body),
+        signal: controller.signal,
+      });
+
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name.toLowerCase()] = value;
+      });
+
+      const text = await response.text();
+      let data: unknown = text || undefined;
+      try {
+        data = text ? JSON.parse(text) : undefined;
+      } catch {
+        // Keep the raw text
+      }
+
+      return { status: response.status, headers: responseHeaders, data };
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+}
+
+export function buildUrl(baseUrl: string, path: string, query?: Record<string, string | number | undefined>): string {
+  const url = new URL(baseUrl.replace(/\/+$/, '') + path);
+  for (const [name, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) url.searchParams.set(name, String(value));
+  }
+  return url.toString();
+}
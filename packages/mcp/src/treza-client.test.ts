@@ -0,0 +1,48 @@
+import { ManualClock, MockTrezaPlatform } from '../../../src/testing';
+import { PermissionError } from './errors';
+import { TrezaClient } from './treza-client';
+
+const WALLET = '0x742d35Cc6634C0532925a3b8D598C4C0532925a3';
+
+function authorization(request: { headers: Record<string, string> }): string | undefined {
+  return Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'authorization')?.[1];
+}
+
+describe('TrezaClient authentication', () => {
+  it('sends the API key and reports a missing scope as a PermissionError', async () => {
+    const platform = new MockTrezaPlatform({ requireAuth: true, tokens: ['admin-token'] });
+    const admin = new TrezaClient({ transport: platform.transport, getAccessToken: () => 'admin-token' });
+    const apiKey = await admin.createApiKey({ name: 'mcp', permissions: ['enclaves:read'], walletAddress: WALLET });
+    const enclave = platform.seedEnclave({ walletAddress: WALLET });
+    platform.transport.reset();
+    const client = new TrezaClient({ transport: platform.transport, apiKey: apiKey.key });
+
+    await expect(client.getEnclave(enclave.id)).resolves.toMatchObject({ id: enclave.id });
+    const error = await client.performEnclaveAction({ id: enclave.id, action: 'pause', walletAddress: WALLET })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(PermissionError);
+    expect(error).toMatchObject({ code: 'INSUFFICIENT_SCOPE', requiredScope: 'enclaves:write' });
+    expect(platform.requests.map(authorization)).toEqual([`Bearer ${apiKey.key}`, `Bearer ${apiKey.key}`]);
+  });
+});
+
+describe('TrezaClient task runs', () => {
+  it('triggers, lists and cancels runs', async () => {
+    const platform = new MockTrezaPlatform({ clock: new ManualClock(Date.UTC(2026, 0, 1)) });
+    const enclave = platform.seedEnclave({ walletAddress: WALLET });
+    const client = new TrezaClient({ transport: platform.transport });
+    const task = await client.createTask({ name: 'sweep', enclaveId: enclave.id, schedule: '0 * * * *', walletAddress: WALLET });
+
+    const first = await client.triggerTask(task.id, { dryRun: true });
+    platform.advance(2000);
+    const second = await client.triggerTask(task.id);
+
+    expect(await client.getTaskRuns(task.id, { since: second.createdAt })).toEqual([expect.objectContaining({ id: second.id })]);
+    expect(await client.cancelTaskRun(second.id)).toMatchObject({ status: 'cancelled' });
+    expect(await client.getTaskRuns(task.id)).toEqual([
+      expect.objectContaining({ id: second.id, status: 'cancelled' }),
+      expect.objectContaining({ id: first.id, status: 'succeeded', input: { dryRun: true } }),
+    ]);
+  });
+});
@@ -1,20 +1,63 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import { NetworkError, PermissionError, TrezaSdkError, createHttpError } from './errors';
+import { FetchTransport, Transport, TransportRequest, buildUrl } from './transport';
+import { omitStoredSecrets } from './redact';
 
 export interface TrezaConfig {
   baseUrl?: string;
   timeout?: number;
+  apiKey?: string;
+  getAccessToken?: (options: { forceRefresh: boolean }) => string | Promise<string>;
+  /** HTTP transport (defaults to fetch) */
+  transport?: Transport;
 }
 
-export class TrezaSdkError extends Error {
-  public readonly code?: string;
-  public readonly statusCode?: number;
+export { TrezaSdkError } from './errors';
 
-  constructor(message: string, code?: string, statusCode?: number) {
-    super(message);
-    this.name = 'TrezaSdkError';
-    this.code = code;
-    this.statusCode = statusCode;
+type Query = Record<string, string | number | undefined>;
+
+/** Filters and paging for list endpoints; see the SDK's ListEnclavesOptions */
+export interface ListOptions {
+  limit?: number;
+  cursor?: string;
+  createdAfter?: string;
+  status?: string | string[];
+  region?: string;
+  providerId?: string;
+  enclaveId?: string;
+}
+
+export interface Page {
+  items: Record<string, unknown>[];
+  nextCursor?: string;
+}
+
+const FIELD_FILTERS = ['status', 'region', 'providerId', 'enclaveId'] as const;
+
+function listQuery(walletAddress: string, options: ListOptions): Query {
+  const query: Query = {
+    wallet: walletAddress,
+    limit: options.limit,
+    cursor: options.cursor,
+    createdAfter: options.createdAfter,
+  };
+  for (const field of FIELD_FILTERS) {
+    const value = options[field];
+    query[field] = Array.isArray(value) ? value.join(',') : value;
   }
+  return query;
+}
+
+/** Re-apply filters, for platform versions that ignore them */
+function applyFilters(items: Record<string, unknown>[], options: ListOptions): Record<string, unknown>[] {
+  const createdAfter = options.createdAfter ? Date.parse(options.createdAfter) : undefined;
+  return items.filter((item) => {
+    if (createdAfter !== undefined && !(Date.parse(item.createdAt as string) > createdAfter)) return false;
+    return FIELD_FILTERS.every((field) => {
+      const expected = options[field];
+      if (expected === undefined) return true;
+      return Array.isArray(expected) ? expected.includes(item[field] as string) : expected === item[field];
+    });
+  });
 }
 
 /**
@@ -22,120 +65,182 @@ export class TrezaSdkError extends Error {
  * Mirrors the full SDK's TrezaClient but with no extra dependencies.
  */
 export class TrezaClient {
-  private client: AxiosInstance;
+  private readonly transport: Transport;
+  private readonly baseUrl: string;
+  private readonly timeout: number;
+
+  constructor(private readonly config: TrezaConfig = {}) {
+    this.transport = config.transport ?? new FetchTransport();
+    this.baseUrl = config.baseUrl || 'https://app.trezalabs.com';
+    this.timeout = config.timeout || 30000;
+  }
+
+  private async request<T = any>(method: TransportRequest['method'], path: string, body?: unknown, query?: Query): Promise<T> {
+    const headers: Record<string, string> = {};
+    const token = await this.resolveAccessToken(false);
+    if (token) headers.authorization = `Bearer ${token}`;
+
+    let response = await this.send({ method, url: buildUrl(this.baseUrl, path, query), headers, body });
+
+    // Refresh the token once and replay the request on 401
+    if (response.status === 401 && this.config.getAccessToken) {
+      headers.authorization = `Bearer ${await this.resolveAccessToken(true)}`;
+      response = await this.send({ method, url: buildUrl(this.baseUrl, path, query), headers, body });
+    }
+
+    if (response.status < 400) {
+      return omitStoredSecrets(response.data) as T;
+    }
+
+    const data = response.data as Record<string, unknown> | undefined;
+    const options = {
+      details: { response: data },
+      requestId: response.headers['x-request-id'] ?? (data?.requestId as string | undefined),
+    };
+    if (response.status === 403 && (data?.requiredScope || this.config.apiKey || this.config.getAccessToken)) {
+      throw new PermissionError((data?.error as string) || 'API key is missing a required permission', {
+        ...options,
+        requiredScope: data?.requiredScope as string | undefined,
+      });
+    }
+    throw createHttpError(
+      response.status,
+      (data?.error as string) || `Request failed with status code ${response.status}`,
+      options,
+    );
+  }
 
-  constructor(config: TrezaConfig = {}) {
-    this.client = axios.create({
-      baseURL: config.baseUrl || 'https://app.trezalabs.com',
-      timeout: config.timeout || 30000,
-      headers: { 'Content-Type': 'application/json' },
-    });
+  private async send(request: TransportRequest) {
+    try {
+      return await this.transport.send({ ...request, timeout: this.timeout });
+    } catch (error) {
+      if (error instanceof TrezaSdkError) throw error;
+      throw new NetworkError(error instanceof Error ? error.message : String(error), { cause: error });
+    }
+  }
 
-    this.client.interceptors.response.use(
-      (r) => r,
-      (error: AxiosError) => {
-        if (error.response) {
-          const data = error.response.data as Record<string, unknown>;
-          throw new TrezaSdkError(
-            (data?.error as string) || error.message,
-            `HTTP_${error.response.status}`,
-            error.response.status,
-          );
-        }
-        throw new TrezaSdkError(error.message, 'NETWORK_ERROR');
-      },
-    );
+  private async resolveAccessToken(forceRefresh: boolean): Promise<string | undefined> {
+    if (this.config.getAccessToken) {
+      return this.config.getAccessToken({ forceRefresh });
+    }
+    return this.config.apiKey;
   }
 
   // ── Enclaves ────────────────────────────────────────────────────────────
   async getEnclaves(walletAddress: string) {
-    const r = await this.client.get('/api/enclaves', { params: { wallet: walletAddress } });
-    return r.data.enclaves;
+    const r = await this.request('GET', '/api/enclaves', undefined, { wallet: walletAddress });
+    return r.enclaves;
+  }
+
+  async getEnclavesPage(walletAddress: string, options: ListOptions = {}): Promise<Page> {
+    const r = await this.request('GET', '/api/enclaves', undefined, listQuery(walletAddress, options));
+    return { items: applyFilters(r.enclaves, options), nextCursor: r.nextCursor };
   }
 
   async getEnclave(enclaveId: string) {
-    const r = await this.client.get(`/api/enclaves/${enclaveId}`);
-    return r.data.enclave;
+    const r = await this.request('GET', `/api/enclaves/${enclaveId}`);
+    return r.enclave;
   }
 
   async createEnclave(request: Record<string, unknown>) {
-    const r = await this.client.post('/api/enclaves', request);
-    return r.data.enclave;
+    const r = await this.request('POST', '/api/enclaves', request);
+    return r.enclave;
   }
 
   async updateEnclave(request: Record<string, unknown>) {
-    const r = await this.client.put('/api/enclaves', request);
-    return r.data.enclave;
+    const r = await this.request('PUT', '/api/enclaves', request);
+    return r.enclave;
   }
 
   async deleteEnclave(enclaveId: string, walletAddress: string) {
-    const r = await this.client.delete(`/api/enclaves/${enclaveId}`, {
-      params: { wallet: walletAddress },
-    });
-    return r.data.message;
+    const r = await this.request('DELETE', `/api/enclaves/${enclaveId}`, undefined, { wallet: walletAddress });
+    return r.message;
   }
 
   async performEnclaveAction(request: { id: string; action: string; walletAddress: string }) {
-    const r = await this.client.patch(`/api/enclaves/${request.id}`, {
+    const r = await this.request('PATCH', `/api/enclaves/${request.id}`, {
       action: request.action,
       walletAddress: request.walletAddress,
     });
-    return r.data;
+    return r;
   }
 
   async getEnclaveLogs(enclaveId: string, logType = 'all', limit = 100) {
-    const r = await this.client.get(`/api/enclaves/${enclaveId}/logs`, {
-      params: { type: logType, limit },
-    });
-    return r.data;
+    const r = await this.request('GET', `/api/enclaves/${enclaveId}/logs`, undefined, { type: logType, limit });
+    return r;
   }
 
   // ── Attestation ─────────────────────────────────────────────────────────
   async getAttestation(enclaveId: string) {
-    const r = await this.client.get(`/api/enclaves/${enclaveId}/attestation`);
-    return r.data;
+    const r = await this.request('GET', `/api/enclaves/${enclaveId}/attestation`);
+    return r;
   }
 
   async getVerificationStatus(enclaveId: string) {
-    const r = await this.client.get(`/api/enclaves/${enclaveId}/attestation/verify`);
-    return r.data;
+    const r = await this.request('GET', `/api/enclaves/${enclaveId}/attestation/verify`);
+    return r;
   }
 
   async verifyAttestation(enclaveId: string, request?: Record<string, unknown>) {
-    const r = await this.client.post(`/api/enclaves/${enclaveId}/attestation/verify`, request || {});
-    return r.data;
+    const r = await this.request('POST', `/api/enclaves/${enclaveId}/attestation/verify`, request || {});
+    return r;
   }
 
   // ── Providers ───────────────────────────────────────────────────────────
   async getProviders() {
-    const r = await this.client.get('/api/providers');
-    return r.data.providers;
+    const r = await this.request('GET', '/api/providers');
+    return r.providers;
   }
 
   async getProvider(providerId: string) {
-    const r = await this.client.get('/api/providers', { params: { id: providerId } });
-    return r.data.provider;
+    const r = await this.request('GET', '/api/providers', undefined, { id: providerId });
+    return r.provider;
   }
 
   // ── Tasks ───────────────────────────────────────────────────────────────
   async getTasks(walletAddress: string) {
-    const r = await this.client.get('/api/tasks', { params: { wallet: walletAddress } });
-    return r.data.tasks;
+    const r = await this.request('GET', '/api/tasks', undefined, { wallet: walletAddress });
+    return r.tasks;
+  }
+
+  async getTasksPage(walletAddress: string, options: ListOptions = {}): Promise<Page> {
+    const r = await this.request('GET', '/api/tasks', undefined, listQuery(walletAddress, options));
+    return { items: applyFilters(r.tasks, options), nextCursor: r.nextCursor };
   }
 
   async createTask(request: Record<string, unknown>) {
-    const r = await this.client.post('/api/tasks', request);
-    return r.data.task;
+    const r = await this.request('POST', '/api/tasks', request);
+    return r.task;
+  }
+
+  async getTaskRuns(taskId: string, options: { since?: string; limit?: number } = {}) {
+    const r = await this.request('GET', `/api/tasks/${taskId}/runs`, undefined, options);
+    return r.runs;
+  }
+
+  async triggerTask(taskId: string, input?: Record<string, unknown>) {
+    const r = await this.request('POST', `/api/tasks/${taskId}/runs`, { input });
+    return r.run;
+  }
+
+  async cancelTaskRun(runId: string) {
+    const r = await this.request('POST', `/api/task-runs/${runId}/cancel`);
+    return r.run;
   }
 
   // ── API Keys ────────────────────────────────────────────────────────────
   async getApiKeys(walletAddress: string) {
-    const r = await this.client.get('/api/api-keys', { params: { wallet: walletAddress } });
-    return r.data.apiKeys;
+    const r = await this.request('GET', '/api/api-keys', undefined, { wallet: walletAddress });
+    return r.apiKeys;
+  }
+
+  async getApiKeysPage(walletAddress: string, options: ListOptions = {}): Promise<Page> {
+    const r = await this.request('GET', '/api/api-keys', undefined, listQuery(walletAddress, options));
+    return { items: applyFilters(r.apiKeys, options), nextCursor: r.nextCursor };
   }
 
   async createApiKey(request: Record<string, unknown>) {
-    const r = await this.client.post('/api/api-keys', request);
-    return r.data.apiKey;
+    const r = await this.request('POST', '/api/api-keys', request);
+    return r.apiKey;
   }
 }
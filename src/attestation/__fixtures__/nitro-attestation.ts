@@ -0,0 +1,55 @@
+/**
+ * Recorded Nitro attestation document for the verifier tests
+ *
+ * Produced once with `createNitroAttestationDocument` from the testing module,
+ * so it is signed by the mock Nitro PKI: verify it with
+ * `rootCertificate: MOCK_NITRO_ROOT_CERTIFICATE` and `now: RECORDED_AT`.
+ */
+
+/** When the document was produced (2026-01-01T00:00:00Z) */
+export const RECORDED_AT = Date.UTC(2026, 0, 1);
+
+export const RECORDED_NONCE = 'treza-fixture-nonce';
+
+export const RECORDED_MODULE_ID = 'i-0f1e2d3c4b5a69788-enc0123456789abcd';
+
+export const RECORDED_PCRS = {
+  0: '3b'.repeat(48),
+  1: '4c'.repeat(48),
+  2: '5d'.repeat(48),
+  8: '00'.repeat(48),
+};
+
+/** Base64 COSE_Sign1 document */
+export const RECORDED_DOCUMENT = [
+  '0oREoQE4IqBZCDupaW1vZHVsZV9pZHglaS0wZjFlMmQzYzRiNWE2OTc4OC1lbmMwMTIzNDU2Nzg5YWJjZGZkaWdlc3RmU0hBMzg0',
+  'aXRpbWVzdGFtcBsAAAGbdtqoAGRwY3JzpABYMDs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7',
+  'OwFYMExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTAJYMF1dXV1dXV1dXV1dXV1dXV1dXV1d',
+  'XV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXQhYMAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAGtjZXJ0aWZpY2F0ZVkCVzCCAlMwggHYoAMCAQICAhACMAoGCCqGSM49BAMDMF4xCzAJBgNVBAYTAlVTMRMwEQYDVQQKDApU',
+  'cmV6YSBUZXN0MRYwFAYDVQQLDA1Nb2NrIFBsYXRmb3JtMSIwIAYDVQQDDBl6b25hbC5tb2NrLm5pdHJvLWVuY2xhdmVzMB4XDTI1',
+  'MDEwMTAwMDAwMFoXDTQ5MTIzMTAwMDAwMFowZzELMAkGA1UEBhMCVVMxEzARBgNVBAoMClRyZXphIFRlc3QxFjAUBgNVBAsMDU1v',
+  'Y2sgUGxhdGZvcm0xKzApBgNVBAMMImktbW9jay5lbmNsYXZlLm1vY2subml0cm8tZW5jbGF2ZXMwdjAQBgcqhkjOPQIBBgUrgQQA',
+  'IgNiAASBK5RWni+jrDWssxXoui6ebCVWgVvlTYPKybw/Veb0oajTdAcKE7mM4PIopWcoLJftUc/PE+5/H+2crex83Pscwg5MZfvh',
+  'Xow/TRBvn9ARspAD2aWO9pblqCOALfK+m3qjYDBeMAwGA1UdEwEB/wQCMAAwDgYDVR0PAQH/BAQDAgeAMB8GA1UdIwQYMBaAFIOb',
+  'AgJjIG4+I+6HRuo5Lj/c6dMmMB0GA1UdDgQWBBQFz93GGfpR6jVF+Ta0NF8Z5Ip8dDAKBggqhkjOPQQDAwNpADBmAjEA95u9x/uz',
+  'ZUuxot41FGBIs0cdud1Uv1zMG6y2qicyBboyUeB+vKrxz4OWyCOll74FAjEAo1fYnN6i30ZUpK6w2JLxo6haKMrEePAXP2Mka3JB',
+  'FvZksOLiANfWDex3Fh7oa1keaGNhYnVuZGxlglkCIzCCAh8wggGloAMCAQICAhAAMAoGCCqGSM49BAMDMFgxCzAJBgNVBAYTAlVT',
+  'MRMwEQYDVQQKDApUcmV6YSBUZXN0MRYwFAYDVQQLDA1Nb2NrIFBsYXRmb3JtMRwwGgYDVQQDDBNtb2NrLm5pdHJvLWVuY2xhdmVz',
+  'MB4XDTI1MDEwMTAwMDAwMFoXDTQ5MTIzMTAwMDAwMFowWDELMAkGA1UEBhMCVVMxEzARBgNVBAoMClRyZXphIFRlc3QxFjAUBgNV',
+  'BAsMDU1vY2sgUGxhdGZvcm0xHDAaBgNVBAMME21vY2subml0cm8tZW5jbGF2ZXMwdjAQBgcqhkjOPQIBBgUrgQQAIgNiAARQectE',
+  '+9E96pQpNlped3K4sPcXeu1QO3G/aFp5B0RAmIma0XrIApuCSkeAHHgsmIFq2Rr2lqQLpWEPXaus+pPyQGV6maydgIWi3yZ+Envp',
+  'WM+idmyO76KGycbIqXSR2OejQjBAMA8GA1UdEwEB/wQFMAMBAf8wDgYDVR0PAQH/BAQDAgGGMB0GA1UdDgQWBBQsQa9jmZOkXo8C',
+  '11nSemnY/vfjpzAKBggqhkjOPQQDAwNoADBlAjBKMrJJobhjqkP2QDuruMFI88QKvhirtUXlcW8G7SBBdQANzkuNtIV45QRjDKjl',
+  'OD0CMQC5FSaaZ/XkClfOv9rUdXa/LFsai4LXpXOsmwpnBv/r93i9EpGXpgSGOX8pG0IV7whZAkwwggJIMIIBz6ADAgECAgIQATAK',
+  'BggqhkjOPQQDAzBYMQswCQYDVQQGEwJVUzETMBEGA1UECgwKVHJlemEgVGVzdDEWMBQGA1UECwwNTW9jayBQbGF0Zm9ybTEcMBoG',
+  'A1UEAwwTbW9jay5uaXRyby1lbmNsYXZlczAeFw0yNTAxMDEwMDAwMDBaFw00OTEyMzEwMDAwMDBaMF4xCzAJBgNVBAYTAlVTMRMw',
+  'EQYDVQQKDApUcmV6YSBUZXN0MRYwFAYDVQQLDA1Nb2NrIFBsYXRmb3JtMSIwIAYDVQQDDBl6b25hbC5tb2NrLm5pdHJvLWVuY2xh',
+  'dmVzMHYwEAYHKoZIzj0CAQYFK4EEACIDYgAEBAz+G1nWsxyF73qf7/XOrZyEEdSKFbE+evk/MJ9Q3PH8b4tIWFdZgdGHkin911j3',
+  'InFJXOOfTj1yML3evPY6K2HOWtbguMJmEEG0nLOZeafc5QmEw8OmBJf2EQP0exdwo2YwZDASBgNVHRMBAf8ECDAGAQH/AgEBMA4G',
+  'A1UdDwEB/wQEAwIBhjAdBgNVHQ4EFgQUg5sCAmMgbj4j7odG6jkuP9zp0yYwHwYDVR0jBBgwFoAULEGvY5mTpF6PAtdZ0npp2P73',
+  '46cwCgYIKoZIzj0EAwMDZwAwZAIwbO74Qe+A4SqUvkgGorMgjzkmrlqAGAgzIa+V8k46+79P6Jcsg7btiA7/qnYPasKTAjAQeEdy',
+  'fPplDF5QUxp2a/RygFmyKTD5229H5NsFQl3xSK+huIS0tt2O2dGjrD/KHGtqcHVibGljX2tlefZpdXNlcl9kYXRh9mVub25jZVN0',
+  'cmV6YS1maXh0dXJlLW5vbmNlWGAuE1DohG1efMcBOpt2o5DHzSI/u9cSxwtMavXUljhSlCo1D54HL8iazYFBwooJE+8US+atHs/F',
+  'hUZh4wdYqfumRmLsZ+Pm3tbUN2INVkf2fcGQQ+PsSU403NQXnwTLZEg=',
+].join('');
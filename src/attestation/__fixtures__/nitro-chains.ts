@@ -0,0 +1,107 @@
+/**
+ * Recorded Nitro attestation documents with broken certificate chains
+ *
+ * Produced once with openssl and the mock Nitro PKI, valid 2025-01-01 to
+ * 2049-12-31 and signed at RECORDED_AT like the document in
+ * `nitro-attestation.ts`. Each signature verifies against its own leaf; only
+ * the chain's basicConstraints are wrong.
+ */
+
+/**
+ * Signed by a certificate that MOCK_NITRO_SIGNING_CERTIFICATE (CA:FALSE)
+ * issued, with the mock root, intermediate and signing certificate as the
+ * CA bundle
+ */
+export const LEAF_ISSUED_DOCUMENT = [
+  '0oREoQE4IqBZCmqpaW1vZHVsZV9pZHglaS0wZjFlMmQzYzRiNWE2OTc4OC1lbmMwMTIzNDU2Nzg5YWJjZGZkaWdlc3RmU0hBMzg0',
+  'aXRpbWVzdGFtcBsAAAGbdtqoAGRwY3JzowBYMDs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7',
+  'OwFYMExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTAJYMF1dXV1dXV1dXV1dXV1dXV1dXV1d',
+  'XV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXWtjZXJ0aWZpY2F0ZVkCXzCCAlswggHgoAMCAQICAiAAMAoGCCqGSM49BAMDMGcx',
+  'CzAJBgNVBAYTAlVTMRMwEQYDVQQKDApUcmV6YSBUZXN0MRYwFAYDVQQLDA1Nb2NrIFBsYXRmb3JtMSswKQYDVQQDDCJpLW1vY2su',
+  'ZW5jbGF2ZS5tb2NrLm5pdHJvLWVuY2xhdmVzMB4XDTI1MDEwMTAwMDAwMFoXDTQ5MTIzMTAwMDAwMFowZjELMAkGA1UEBhMCVVMx',
+  'EzARBgNVBAoMClRyZXphIFRlc3QxFjAUBgNVBAsMDU1vY2sgUGxhdGZvcm0xKjAoBgNVBAMMIXJvZ3VlLmVuY2xhdmUubW9jay5u',
+  'aXRyby1lbmNsYXZlczB2MBAGByqGSM49AgEGBSuBBAAiA2IABFFQlpkPo9coPKCuqYic9nV9f9cFOI2TtSgyyrAfkSaw+lwh79yq',
+  'DRnAD7dGrOc0zYvjPYg/B3BENIt8mqzqt9LOPc41538sc5ptNWbT667Gc4zO3dXzOgrJNev4XzI7wKNgMF4wDAYDVR0TAQH/BAIw',
+  'ADAOBgNVHQ8BAf8EBAMCB4AwHQYDVR0OBBYEFMHPT/VeW4hhXxDd/ePUfy7i0KBbMB8GA1UdIwQYMBaAFAXP3cYZ+lHqNUX5NrQ0',
+  'Xxnkinx0MAoGCCqGSM49BAMDA2kAMGYCMQCGr160/u9UtR4BX6+KfdzuR3KDjFvJLNez2nNfssIDKAQX7mGyqKQjzr4viwN2K2IC',
+  'MQDGIQ+UrpqA3tr8jgQHMBR5pQ/fQCdeVSIel0ayzJa1cWjoQ8HmH10WaFVszXo97BNoY2FidW5kbGWDWQIjMIICHzCCAaWgAwIB',
+  'AgICEAAwCgYIKoZIzj0EAwMwWDELMAkGA1UEBhMCVVMxEzARBgNVBAoMClRyZXphIFRlc3QxFjAUBgNVBAsMDU1vY2sgUGxhdGZv',
+  'cm0xHDAaBgNVBAMME21vY2subml0cm8tZW5jbGF2ZXMwHhcNMjUwMTAxMDAwMDAwWhcNNDkxMjMxMDAwMDAwWjBYMQswCQYDVQQG',
+  'EwJVUzETMBEGA1UECgwKVHJlemEgVGVzdDEWMBQGA1UECwwNTW9jayBQbGF0Zm9ybTEcMBoGA1UEAwwTbW9jay5uaXRyby1lbmNs',
+  'YXZlczB2MBAGByqGSM49AgEGBSuBBAAiA2IABFB5y0T70T3qlCk2Wl53criw9xd67VA7cb9oWnkHRECYiZrResgCm4JKR4AceCyY',
+  'gWrZGvaWpAulYQ9dq6z6k/JAZXqZrJ2AhaLfJn4Se+lYz6J2bI7voobJxsipdJHY56NCMEAwDwYDVR0TAQH/BAUwAwEB/zAOBgNV',
+  'HQ8BAf8EBAMCAYYwHQYDVR0OBBYEFCxBr2OZk6RejwLXWdJ6adj+9+OnMAoGCCqGSM49BAMDA2gAMGUCMEoyskmhuGOqQ/ZAO6u4',
+  'wUjzxAq+GKu1ReVxbwbtIEF1AA3OS420hXjlBGMMqOU4PQIxALkVJppn9eQKV86/2tR1dr8sWxqLgtelc6ybCmcG/+v3eL0SkZem',
+  'BIY5fykbQhXvCFkCTDCCAkgwggHPoAMCAQICAhABMAoGCCqGSM49BAMDMFgxCzAJBgNVBAYTAlVTMRMwEQYDVQQKDApUcmV6YSBU',
+  'ZXN0MRYwFAYDVQQLDA1Nb2NrIFBsYXRmb3JtMRwwGgYDVQQDDBNtb2NrLm5pdHJvLWVuY2xhdmVzMB4XDTI1MDEwMTAwMDAwMFoX',
+  'DTQ5MTIzMTAwMDAwMFowXjELMAkGA1UEBhMCVVMxEzARBgNVBAoMClRyZXphIFRlc3QxFjAUBgNVBAsMDU1vY2sgUGxhdGZvcm0x',
+  'IjAgBgNVBAMMGXpvbmFsLm1vY2subml0cm8tZW5jbGF2ZXMwdjAQBgcqhkjOPQIBBgUrgQQAIgNiAAQEDP4bWdazHIXvep/v9c6t',
+  'nIQR1IoVsT56+T8wn1Dc8fxvi0hYV1mB0YeSKf3XWPcicUlc459OPXIwvd689jorYc5a1uC4wmYQQbScs5l5p9zlCYTDw6YEl/YR',
+  'A/R7F3CjZjBkMBIGA1UdEwEB/wQIMAYBAf8CAQEwDgYDVR0PAQH/BAQDAgGGMB0GA1UdDgQWBBSDmwICYyBuPiPuh0bqOS4/3OnT',
+  'JjAfBgNVHSMEGDAWgBQsQa9jmZOkXo8C11nSemnY/vfjpzAKBggqhkjOPQQDAwNnADBkAjBs7vhB74DhKpS+SAaisyCPOSauWoAY',
+  'CDMhr5XyTjr7v0/olyyDtu2IDv+qdg9qwpMCMBB4R3J8+mUMXlBTGnZr9HKAWbIpMPnbb0fk2wVCXfFIr6G4hLS23Y7Z0aOsP8oc',
+  'a1kCVzCCAlMwggHYoAMCAQICAhACMAoGCCqGSM49BAMDMF4xCzAJBgNVBAYTAlVTMRMwEQYDVQQKDApUcmV6YSBUZXN0MRYwFAYD',
+  'VQQLDA1Nb2NrIFBsYXRmb3JtMSIwIAYDVQQDDBl6b25hbC5tb2NrLm5pdHJvLWVuY2xhdmVzMB4XDTI1MDEwMTAwMDAwMFoXDTQ5',
+  'MTIzMTAwMDAwMFowZzELMAkGA1UEBhMCVVMxEzARBgNVBAoMClRyZXphIFRlc3QxFjAUBgNVBAsMDU1vY2sgUGxhdGZvcm0xKzAp',
+  'BgNVBAMMImktbW9jay5lbmNsYXZlLm1vY2subml0cm8tZW5jbGF2ZXMwdjAQBgcqhkjOPQIBBgUrgQQAIgNiAASBK5RWni+jrDWs',
+  'sxXoui6ebCVWgVvlTYPKybw/Veb0oajTdAcKE7mM4PIopWcoLJftUc/PE+5/H+2crex83Pscwg5MZfvhXow/TRBvn9ARspAD2aWO',
+  '9pblqCOALfK+m3qjYDBeMAwGA1UdEwEB/wQCMAAwDgYDVR0PAQH/BAQDAgeAMB8GA1UdIwQYMBaAFIObAgJjIG4+I+6HRuo5Lj/c',
+  '6dMmMB0GA1UdDgQWBBQFz93GGfpR6jVF+Ta0NF8Z5Ip8dDAKBggqhkjOPQQDAwNpADBmAjEA95u9x/uzZUuxot41FGBIs0cdud1U',
+  'v1zMG6y2qicyBboyUeB+vKrxz4OWyCOll74FAjEAo1fYnN6i30ZUpK6w2JLxo6haKMrEePAXP2Mka3JBFvZksOLiANfWDex3Fh7o',
+  'a1keanB1YmxpY19rZXn2aXVzZXJfZGF0YfZlbm9uY2VTdHJlemEtZml4dHVyZS1ub25jZVhgPligYIKR6vLVw2CWbA7nbjoHTfFM',
+  'flDB2F1AA2LpQewuJOraH1xr9D7Uote6baZAgDDfRoPxaAt6FZUDLqMmb8um9Qz5Amp/apMGGHUsdaIO7UygyYomVcbKPIOAmXN1',
+].join('');
+
+/** Root of a separate chain, with CA:TRUE and pathlen:0 */
+export const PATH_LENGTH_ROOT_CERTIFICATE = `-----BEGIN CERTIFICATE-----
+MIICLTCCAbSgAwIBAgICIAEwCgYIKoZIzj0EAwMwXjELMAkGA1UEBhMCVVMxEzAR
+BgNVBAoMClRyZXphIFRlc3QxFDASBgNVBAsMC1BhdGggTGVuZ3RoMSQwIgYDVQQD
+DBtyb290LnBhdGhsZW4ubml0cm8tZW5jbGF2ZXMwHhcNMjUwMTAxMDAwMDAwWhcN
+NDkxMjMxMDAwMDAwWjBeMQswCQYDVQQGEwJVUzETMBEGA1UECgwKVHJlemEgVGVz
+dDEUMBIGA1UECwwLUGF0aCBMZW5ndGgxJDAiBgNVBAMMG3Jvb3QucGF0aGxlbi5u
+aXRyby1lbmNsYXZlczB2MBAGByqGSM49AgEGBSuBBAAiA2IABPKfUF+l72ZMTvn3
+In5d9CKOK+LVdXp55gwzQQztbRYz48L1umFFceZwA4o60tPG1UtBi2ry3xFAtfRz
+BufC/fD2qypf+icUXjjypG8M9kqXV02CcLabbv90QcrMnKTXP6NFMEMwEgYDVR0T
+AQH/BAgwBgEB/wIBADAOBgNVHQ8BAf8EBAMCAYYwHQYDVR0OBBYEFApXwimqMQUq
+G3vdv0fCfG95sMEtMAoGCCqGSM49BAMDA2cAMGQCMCDLGBbrdaLa5m00+37S5/dp
+ea9ZUyKVKsSEvB8SL1gXEfAISg1sgQGyW7tqyyiL1gIwVRrvaIZv54cyhvaunhI3
+CfsoMbhKzLMCDxA96F14Ft62mn+TCPj3Vlrjk7pQ0FyG
+-----END CERTIFICATE-----
+`;
+
+/**
+ * Signed by a leaf under a CA that PATH_LENGTH_ROOT_CERTIFICATE issued, one
+ * CA more than its path length allows
+ */
+export const PATH_LENGTH_DOCUMENT = [
+  '0oREoQE4IqBZCBapaW1vZHVsZV9pZHglaS0wZjFlMmQzYzRiNWE2OTc4OC1lbmMwMTIzNDU2Nzg5YWJjZGZkaWdlc3RmU0hBMzg0',
+  'aXRpbWVzdGFtcBsAAAGbdtqoAGRwY3JzowBYMDs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7',
+  'OwFYMExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTExMTAJYMF1dXV1dXV1dXV1dXV1dXV1dXV1d',
+  'XV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXWtjZXJ0aWZpY2F0ZVkCUjCCAk4wggHVoAMCAQICAiADMAoGCCqGSM49BAMDMF8x',
+  'CzAJBgNVBAYTAlVTMRMwEQYDVQQKDApUcmV6YSBUZXN0MRQwEgYDVQQLDAtQYXRoIExlbmd0aDElMCMGA1UEAwwcem9uYWwucGF0',
+  'aGxlbi5uaXRyby1lbmNsYXZlczAeFw0yNTAxMDEwMDAwMDBaFw00OTEyMzEwMDAwMDBaMGMxCzAJBgNVBAYTAlVTMRMwEQYDVQQK',
+  'DApUcmV6YSBUZXN0MRQwEgYDVQQLDAtQYXRoIExlbmd0aDEpMCcGA1UEAwwgaS1lbmNsYXZlLnBhdGhsZW4ubml0cm8tZW5jbGF2',
+  'ZXMwdjAQBgcqhkjOPQIBBgUrgQQAIgNiAAR7I3fVhmis4LmOokYk4N4a6bmKD05WVhLhd8bccc24WgcuI8/BKVFJCo0UDWjqu0iU',
+  'ilDOdErw2+vJHu5sN9BKgK6tsleCCr5jaoIDShhgGWUDgjUNHdr4NZGRcqgdDFSjYDBeMAwGA1UdEwEB/wQCMAAwDgYDVR0PAQH/',
+  'BAQDAgeAMB0GA1UdDgQWBBQIdLMUmRVnTczFNzDlrzAXLLXKjTAfBgNVHSMEGDAWgBT8m1a3F7qOIjAaZ7Fenajoozp1xzAKBggq',
+  'hkjOPQQDAwNnADBkAjAPXqEUZUJsNV3iguVtIAlXkDyAxvvtp7iC2cENtop7MLu5tH/QQEafugIb3ijUJMMCMGlXxX5rBbwZYHfd',
+  'cdRHTX03nlpG8mmPNklgk1rOm5EIaBmY9yKIn5DAhHc05QBd12hjYWJ1bmRsZYJZAjEwggItMIIBtKADAgECAgIgATAKBggqhkjO',
+  'PQQDAzBeMQswCQYDVQQGEwJVUzETMBEGA1UECgwKVHJlemEgVGVzdDEUMBIGA1UECwwLUGF0aCBMZW5ndGgxJDAiBgNVBAMMG3Jv',
+  'b3QucGF0aGxlbi5uaXRyby1lbmNsYXZlczAeFw0yNTAxMDEwMDAwMDBaFw00OTEyMzEwMDAwMDBaMF4xCzAJBgNVBAYTAlVTMRMw',
+  'EQYDVQQKDApUcmV6YSBUZXN0MRQwEgYDVQQLDAtQYXRoIExlbmd0aDEkMCIGA1UEAwwbcm9vdC5wYXRobGVuLm5pdHJvLWVuY2xh',
+  'dmVzMHYwEAYHKoZIzj0CAQYFK4EEACIDYgAE8p9QX6XvZkxO+fcifl30Io4r4tV1ennmDDNBDO1tFjPjwvW6YUVx5nADijrS08bV',
+  'S0GLavLfEUC19HMG58L98ParKl/6JxReOPKkbwz2SpdXTYJwtptu/3RBysycpNc/o0UwQzASBgNVHRMBAf8ECDAGAQH/AgEAMA4G',
+  'A1UdDwEB/wQEAwIBhjAdBgNVHQ4EFgQUClfCKaoxBSobe92/R8J8b3mwwS0wCgYIKoZIzj0EAwMDZwAwZAIwIMsYFut1otrmbTT7',
+  'ftLn92l5r1lTIpUqxIS8HxIvWBcR8AhKDWyBAbJbu2rLKIvWAjBVGu9ohm/nhzKG9q6eEjcJ+ygxuErMswIPED3oXXgW3raaf5MI',
+  '+PdWWuOTulDQXIZZAlEwggJNMIIB06ADAgECAgIgAjAKBggqhkjOPQQDAzBeMQswCQYDVQQGEwJVUzETMBEGA1UECgwKVHJlemEg',
+  'VGVzdDEUMBIGA1UECwwLUGF0aCBMZW5ndGgxJDAiBgNVBAMMG3Jvb3QucGF0aGxlbi5uaXRyby1lbmNsYXZlczAeFw0yNTAxMDEw',
+  'MDAwMDBaFw00OTEyMzEwMDAwMDBaMF8xCzAJBgNVBAYTAlVTMRMwEQYDVQQKDApUcmV6YSBUZXN0MRQwEgYDVQQLDAtQYXRoIExl',
+  'bmd0aDElMCMGA1UEAwwcem9uYWwucGF0aGxlbi5uaXRyby1lbmNsYXZlczB2MBAGByqGSM49AgEGBSuBBAAiA2IABNf2PKxWvQ56',
+  'jyjEtuj3GS3aTohWswFLB9oOvPx9y8MFUQXjUYX0+aFhx+UjIPcxYrB/bmOCe9eNUcKKk0mIA1/57eI1jxilQt+BrQuwQhvFevRF',
+  'ciP+d6r/xP3lXVsrMqNjMGEwDwYDVR0TAQH/BAUwAwEB/zAOBgNVHQ8BAf8EBAMCAYYwHQYDVR0OBBYEFPybVrcXuo4iMBpnsV6d',
+  'qOijOnXHMB8GA1UdIwQYMBaAFApXwimqMQUqG3vdv0fCfG95sMEtMAoGCCqGSM49BAMDA2gAMGUCMQD+bsVqR7wqgee/iN0oX6JT',
+  'loO3+G7hVeYJesmcyuxSvW6mSOFdtbrS6L3m2VOnpAoCMGA53BXdUNVOXqHQFrg4jUZGzH7fU+aU6iQuaa0M3192Cg21CB5vdWZm',
+  'ecT7Rhc+cmpwdWJsaWNfa2V59ml1c2VyX2RhdGH2ZW5vbmNlU3RyZXphLWZpeHR1cmUtbm9uY2VYYK6UWJY0Kg+9UpGM0JIEeKXY',
+  'SiSgiQInx9ECz3HdNm9/TqBmbSPNY5QFVoPHS9q1pxpaJXJ/ENzv7EHIbjwBFEZ1/EzKNz+8s+P2P18y/xSdzhXhFsr/lJTh3uof',
+  'yvPojQ==',
+].join('');
@@ -0,0 +1,211 @@
+/**
+ * Minimal CBOR (RFC 8949) codec
+ *
+ * Covers what Nitro attestation documents use: definite-length integers,
+ * byte and text strings, arrays, maps, tags and simple values. Maps decode
+ * to `Map` because COSE headers use integer keys.
+ */
+
+/**
+ * A decoded CBOR tag (e.g. tag 18 wraps a COSE_Sign1 structure)
+ */
+export class CborTag {
+  constructor(public readonly tag: number, public readonly value: CborValue) {}
+}
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | CborTag;
+
+/**
+ * Decode a single CBOR data item. Throws on trailing bytes or malformed input.
+ */
+export function decodeCbor(data: Uint8Array): CborValue {
+  const decoder = new CborDecoder(data);
+  const value = decoder.read();
+  if (!decoder.done()) {
+    throw new Error('CBOR: unexpected trailing bytes');
+  }
+  return value;
+}
+
+/**
+ * Encode a value as CBOR: integers, strings, byte strings, booleans, null,
+ * arrays, maps and tags. Used to rebuild a COSE `Sig_structure` for
+ * signature verification, and by the mock platform to produce documents.
+ */
+export function encodeCbor(value: CborValue): Uint8Array {
+  const parts: Uint8Array[] = [];
+
+  const write = (item: CborValue) => {
+    if (Array.isArray(item)) {
+      parts.push(encodeHead(4, item.length));
+      item.forEach(write);
+    } else if (item instanceof Map) {
+      parts.push(encodeHead(5, item.size));
+      item.forEach((entry, key) => {
+        write(key);
+        write(entry);
+      });
+    } else if (item instanceof CborTag) {
+      parts.push(encodeHead(6, item.tag));
+      write(item.value);
+    } else if (item instanceof Uint8Array) {
+      parts.push(encodeHead(2, item.length), item);
+    } else if (typeof item === 'string') {
+      const bytes = new TextEncoder().encode(item);
+      parts.push(encodeHead(3, bytes.length), bytes);
+    } else if (typeof item === 'number' && Number.isSafeInteger(item)) {
+      parts.push(item >= 0 ? encodeHead(0, item) : encodeHead(1, -1 - item));
+    } else if (typeof item === 'boolean') {
+      parts.push(Uint8Array.of(item ? 0xf5 : 0xf4));
+    } else if (item === null) {
+      parts.push(Uint8Array.of(0xf6));
+    } else {
+      throw new Error(`CBOR: cannot encode ${typeof item}`);
+    }
+  };
+  write(value);
+
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function encodeHead(major: number, length: number): Uint8Array {
+  const type = major << 5;
+  if (length < 24) return Uint8Array.of(type | length);
+  if (length < 0x100) return Uint8Array.of(type | 24, length);
+  if (length < 0x10000) return Uint8Array.of(type | 25, length >> 8, length & 0xff);
+  if (length < 0x100000000) {
+    return Uint8Array.of(type | 26, (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff);
+  }
+  const head = new Uint8Array(9);
+  head[0] = type | 27;
+  new DataView(head.buffer).setBigUint64(1, BigInt(length));
+  return head;
+}
+
+class CborDecoder {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  done(): boolean {
+    return this.offset === this.data.length;
+  }
+
+  read(): CborValue {
+    const initial = this.byte();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      return this.readSimple(info);
+    }
+
+    const length = this.readLength(info);
+
+    switch (major) {
+      case 0:
+        return length;
+      case 1:
+        return typeof length === 'bigint' ? -1n - length : -1 - length;
+      case 2:
+        return this.bytes(Number(length));
+      case 3:
+        return new TextDecoder().decode(this.bytes(Number(length)));
+      case 4: {
+        const items: CborValue[] = [];
+        for (let i = 0; i < Number(length); i++) items.push(this.read());
+        return items;
+      }
+      case 5: {
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < Number(length); i++) {
+          const key = this.read();
+          map.set(key, this.read());
+        }
+        return map;
+      }
+      case 6:
+        return new CborTag(Number(length), this.read());
+      default:
+        throw new Error(`CBOR: unsupported major type ${major}`);
+    }
+  }
+
+  private readLength(info: number): number | bigint {
+    if (info < 24) return info;
+    if (info === 24) return this.byte();
+    if (info === 25) return this.advance(2, (o) => this.view.getUint16(o));
+    if (info === 26) return this.advance(4, (o) => this.view.getUint32(o));
+    if (info === 27) {
+      const value = this.advance(8, (o) => this.view.getBigUint64(o));
+      return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+    }
+    throw new Error('CBOR: indefinite lengths are not supported');
+  }
+
+  private readSimple(info: number): CborValue {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25:
+        return this.advance(2, (o) => decodeHalf(this.view.getUint16(o)));
+      case 26:
+        return this.advance(4, (o) => this.view.getFloat32(o));
+      case 27:
+        return this.advance(8, (o) => this.view.getFloat64(o));
+      default:
+        throw new Error(`CBOR: unsupported simple value ${info}`);
+    }
+  }
+
+  private byte(): number {
+    return this.advance(1, (o) => this.view.getUint8(o));
+  }
+
+  private bytes(length: number): Uint8Array {
+    return this.advance(length, (o) => this.data.slice(o, o + length));
+  }
+
+  private advance<T>(length: number, read: (offset: number) => T): T {
+    if (this.offset + length > this.data.length) {
+      throw new Error('CBOR: unexpected end of input');
+    }
+    const value = read(this.offset);
+    this.offset += length;
+    return value;
+  }
+}
+
+function decodeHalf(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
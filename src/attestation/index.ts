@@ -0,0 +1,13 @@
+/**
+ * Treza Attestation Module
+ *
+ * Offline verification of AWS Nitro attestation documents.
+ */
+
+export { verifyNitroAttestation, decodeCoseSign1, decodePayload } from './nitro-verifier';
+export { AWS_NITRO_ROOT_CERTIFICATE, AWS_NITRO_ROOT_FINGERPRINT_SHA256 } from './nitro-root';
+export { evaluateAttestationPolicy } from './policy';
+export type { AttestationPolicy, PolicyEvaluation, PolicyMismatch, PcrIndex } from './policy';
+export { decodeCbor, encodeCbor, CborTag } from './cbor';
+export type { CborValue } from './cbor';
+export type { LocalVerificationOptions, LocalVerificationResult, NitroAttestationPayload } from './types';
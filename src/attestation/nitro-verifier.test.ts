@@ -0,0 +1,161 @@
+import { X509Certificate } from 'crypto';
+import { CborTag, decodeCbor, encodeCbor } from './cbor';
+import { AWS_NITRO_ROOT_CERTIFICATE, AWS_NITRO_ROOT_FINGERPRINT_SHA256 } from './nitro-root';
+import { verifyNitroAttestation } from './nitro-verifier';
+import {
+  RECORDED_AT,
+  RECORDED_DOCUMENT,
+  RECORDED_MODULE_ID,
+  RECORDED_NONCE,
+  RECORDED_PCRS,
+} from './__fixtures__/nitro-attestation';
+import { LEAF_ISSUED_DOCUMENT, PATH_LENGTH_DOCUMENT, PATH_LENGTH_ROOT_CERTIFICATE } from './__fixtures__/nitro-chains';
+import { MOCK_NITRO_ROOT_CERTIFICATE, MockTrezaPlatform } from '../testing';
+
+const WALLET = '0x1234567890123456789012345678901234567890';
+const trusted = { rootCertificate: MOCK_NITRO_ROOT_CERTIFICATE, now: RECORDED_AT };
+
+/** Re-encode the recorded document with its payload edited, keeping the original signature */
+function withPayload(edit: (payload: Map<string, unknown>) => void): string {
+  const cose = decodeCbor(Buffer.from(RECORDED_DOCUMENT, 'base64')) as CborTag;
+  const [protectedHeader, unprotected, payload, signature] = cose.value as any[];
+  const fields = decodeCbor(payload) as Map<string, any>;
+  edit(fields);
+  const document = encodeCbor(new CborTag(18, [protectedHeader, unprotected, encodeCbor(fields as any), signature]));
+  return Buffer.from(document).toString('base64');
+}
+
+describe('verifyNitroAttestation', () => {
+  it('accepts the recorded document against its root', () => {
+    const result = verifyNitroAttestation(RECORDED_DOCUMENT, { ...trusted, nonce: RECORDED_NONCE });
+
+    expect(result.errors).toEqual([]);
+    expect(result.isValid).toBe(true);
+    expect(result.trustLevel).toBe('HIGH');
+    expect(result.document).toMatchObject({
+      moduleId: RECORDED_MODULE_ID,
+      timestamp: RECORDED_AT,
+      nonce: RECORDED_NONCE,
+      pcrs: RECORDED_PCRS,
+    });
+    expect(result.document?.cabundle[0]).toBe(MOCK_NITRO_ROOT_CERTIFICATE);
+  });
+
+  it('rejects a document whose payload was changed after signing', () => {
+    const tampered = withPayload((payload) => {
+      (payload.get('pcrs') as Map<number, Uint8Array>).set(0, new Uint8Array(48).fill(0x11));
+    });
+    const result = verifyNitroAttestation(tampered, { ...trusted, nonce: RECORDED_NONCE });
+
+    expect(result.isValid).toBe(false);
+    expect(result.verificationDetails.certificateChain).toBe(true);
+    expect(result.verificationDetails.signatureValid).toBe(false);
+    expect(result.errors).toContain('COSE signature does not verify against the signing certificate');
+  });
+
+  it('rejects a document that does not chain to the trusted root', () => {
+    // The bundled AWS root did not issue the mock PKI
+    const result = verifyNitroAttestation(RECORDED_DOCUMENT, { now: RECORDED_AT, nonce: RECORDED_NONCE });
+
+    expect(result.isValid).toBe(false);
+    expect(result.verificationDetails.certificateChain).toBe(false);
+    expect(result.verificationDetails.signatureValid).toBe(false);
+    expect(result.errors[0]).toMatch(/^Certificate chain invalid: CA bundle root .* is not the trusted root$/);
+  });
+
+  it('rejects a chain in which a non-CA certificate issued the signing certificate', () => {
+    const result = verifyNitroAttestation(LEAF_ISSUED_DOCUMENT, { ...trusted, nonce: RECORDED_NONCE });
+
+    expect(result.isValid).toBe(false);
+    expect(result.verificationDetails.certificateChain).toBe(false);
+    expect(result.errors[0]).toBe(
+      'Certificate chain invalid: certificate "C=US, O=Treza Test, OU=Mock Platform, CN=i-mock.enclave.mock.nitro-enclaves" ' +
+        'is not a CA but issued another certificate'
+    );
+  });
+
+  it('rejects a chain with more CAs than an issuer\'s path length allows', () => {
+    const result = verifyNitroAttestation(PATH_LENGTH_DOCUMENT, {
+      rootCertificate: PATH_LENGTH_ROOT_CERTIFICATE,
+      now: RECORDED_AT,
+      nonce: RECORDED_NONCE,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.verificationDetails.signatureValid).toBe(false);
+    expect(result.errors[0]).toMatch(/^Certificate chain invalid: certificate ".*CN=root\.pathlen\.nitro-enclaves" allows 0 CAs below it, found 1$/);
+  });
+
+  it('rejects a document with a mismatched nonce or outside its freshness window', () => {
+    expect(verifyNitroAttestation(RECORDED_DOCUMENT, { ...trusted, nonce: 'other' }).verificationDetails.nonceMatches)
+      .toBe(false);
+
+    const stale = verifyNitroAttestation(RECORDED_DOCUMENT, { ...trusted, now: RECORDED_AT + 10 * 60 * 1000 });
+    expect(stale.isValid).toBe(false);
+    expect(stale.verificationDetails.timestampValid).toBe(false);
+  });
+
+  it('reports input that is not a COSE document', () => {
+    const result = verifyNitroAttestation(Buffer.from('not an attestation').toString('base64'), trusted);
+
+    expect(result.isValid).toBe(false);
+    expect(result.document).toBeUndefined();
+    expect(result.errors[0]).toMatch(/^Malformed attestation document: /);
+  });
+
+  it('returns a failed result instead of throwing for garbage certificates', () => {
+    const garbage = withPayload((payload) => {
+      payload.set('certificate', new Uint8Array([1, 2, 3]));
+      payload.set('cabundle', [new Uint8Array([4, 5, 6]), new Uint8Array([7, 8, 9])]);
+    });
+
+    let result!: ReturnType<typeof verifyNitroAttestation>;
+    expect(() => {
+      result = verifyNitroAttestation(garbage, { ...trusted, nonce: RECORDED_NONCE });
+    }).not.toThrow();
+    expect(result.isValid).toBe(false);
+    expect(result.verificationDetails.certificateChain).toBe(false);
+    expect(result.errors[0]).toMatch(/^Certificate chain invalid: /);
+    expect(result.document?.moduleId).toBe(RECORDED_MODULE_ID);
+  });
+});
+
+describe('AWS_NITRO_ROOT_CERTIFICATE', () => {
+  it('is the self-signed CA AWS publishes', () => {
+    const root = new X509Certificate(AWS_NITRO_ROOT_CERTIFICATE);
+
+    expect(root.fingerprint256).toBe(AWS_NITRO_ROOT_FINGERPRINT_SHA256);
+    expect(root.subject).toBe('C=US\nO=Amazon\nOU=AWS\nCN=aws.nitro-enclaves');
+    expect(root.ca).toBe(true);
+    expect(root.checkIssued(root) && root.verify(root.publicKey)).toBe(true);
+    expect(Date.parse(root.validTo)).toBe(Date.UTC(2049, 9, 28, 14, 28, 5));
+  });
+});
+
+describe('TrezaClient.verifyAttestationLocally', () => {
+  it('verifies documents signed by the mock platform', async () => {
+    const platform = new MockTrezaPlatform({ signAttestations: true, autoAdvanceMs: 1000 });
+    const client = platform.createClient();
+    const enclave = platform.seedEnclave({ walletAddress: WALLET, status: 'DEPLOYED' });
+
+    const result = await client.verifyAttestationLocally(enclave.id, {
+      nonce: 'local-nonce',
+      rootCertificate: MOCK_NITRO_ROOT_CERTIFICATE,
+      now: platform.clock.now(),
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.isValid).toBe(true);
+    expect(result.document?.nonce).toBe('local-nonce');
+  });
+
+  it('fails documents from the mock platform against the AWS root', async () => {
+    const platform = new MockTrezaPlatform({ signAttestations: true });
+    const enclave = platform.seedEnclave({ walletAddress: WALLET, status: 'DEPLOYED' });
+
+    const result = await platform.createClient().verifyAttestationLocally(enclave.id, { nonce: 'n', now: platform.clock.now() });
+
+    expect(result.isValid).toBe(false);
+    expect(result.verificationDetails.certificateChain).toBe(false);
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Local verification of AWS Nitro attestation documents
+ *
+ * An attestation document is a COSE_Sign1 structure (CBOR) signed with
+ * ECDSA P-384 by a certificate that chains up to the AWS Nitro root.
+ * Verifying it locally means trusting AWS's root certificate rather than
+ * the Treza Platform's own report about its enclave.
+ *
+ * Checks performed:
+ * - COSE_Sign1 structure and ES384 algorithm
+ * - Certificate chain from the bundled AWS root to the signing certificate,
+ *   with every issuer a CA within its path length
+ * - ECDSA-P384 signature over the COSE Sig_structure
+ * - Timestamp freshness
+ * - Nonce echo (when a nonce is supplied)
+ * - PCR0/1/2 present and non-zero (all-zero PCRs indicate a debug enclave)
+ *
+ * Node.js only: uses `crypto.X509Certificate` (Node 15.6+).
+ *
+ * @example
+ * ```typescript
+ * import { verifyNitroAttestation } from '@treza/sdk';
+ *
+ * const result = verifyNitroAttestation(base64Document, { nonce: myNonce });
+ * if (!result.isValid) {
+ *   console.error(result.errors);
+ * }
+ * ```
+ */
+
+import { X509Certificate, verify as verifySignature } from 'crypto';
+import { CborTag, CborValue, decodeCbor, encodeCbor } from './cbor';
+import { AWS_NITRO_ROOT_CERTIFICATE } from './nitro-root';
+import { LocalVerificationOptions, LocalVerificationResult, NitroAttestationPayload } from './types';
+import { AttestationDocument } from '../types';
+
+/** COSE algorithm identifier for ECDSA with SHA-384 */
+const COSE_ALG_ES384 = -35;
+
+/** COSE_Sign1 CBOR tag */
+const COSE_SIGN1_TAG = 18;
+
+/**
+ * Decoded but unverified COSE_Sign1 attestation document
+ */
+interface CoseSign1 {
+  protectedHeader: Uint8Array;
+  payload: Uint8Array;
+  signature: Uint8Array;
+}
+
+/**
+ * Verify a base64-encoded Nitro attestation document without contacting
+ * the Treza Platform. Never throws for an invalid document; the result's
+ * `isValid` and `errors` describe what failed.
+ *
+ * @param documentBase64 - Raw attestation document as returned by the NSM
+ * @param options - Expected nonce, freshness window and trust anchor
+ * @returns A VerificationResult computed locally
+ */
+export function verifyNitroAttestation(
+  documentBase64: string,
+  options: LocalVerificationOptions = {},
+): LocalVerificationResult {
+  const now = options.now instanceof Date ? options.now.getTime() : options.now ?? Date.now();
+  const errors: string[] = [];
+  const checks = {
+    pcrVerification: false,
+    certificateChain: false,
+    timestampValid: false,
+    nonceMatches: false,
+    signatureValid: false,
+  };
+
+  let cose: CoseSign1;
+  let payload: NitroAttestationPayload;
+  try {
+    cose = decodeCoseSign1(Buffer.from(documentBase64, 'base64'));
+    payload = decodePayload(cose.payload);
+  } catch (error: any) {
+    errors.push(`Malformed attestation document: ${error.message}`);
+    return buildResult(checks, errors, now, undefined, options);
+  }
+
+  // Certificate chain: root -> intermediates -> signing certificate
+  let signingCertificate: X509Certificate | undefined;
+  try {
+    signingCertificate = verifyCertificateChain(payload, options.rootCertificate ?? AWS_NITRO_ROOT_CERTIFICATE, now);
+    checks.certificateChain = true;
+  } catch (error: any) {
+    errors.push(`Certificate chain invalid: ${error.message}`);
+  }
+
+  // Signature over Sig_structure = ["Signature1", protected, external_aad, payload]
+  if (signingCertificate) {
+    const sigStructure = encodeCbor(['Signature1', cose.protectedHeader, new Uint8Array(0), cose.payload]);
+    try {
+      checks.signatureValid = verifySignature(
+        'sha384',
+        sigStructure,
+        { key: signingCertificate.publicKey, dsaEncoding: 'ieee-p1363' },
+        cose.signature,
+      );
+    } catch {
+      // Not an ECDSA key, or a signature of the wrong length
+      checks.signatureValid = false;
+    }
+    if (!checks.signatureValid) {
+      errors.push('COSE signature does not verify against the signing certificate');
+    }
+  } else {
+    errors.push('Signature not checked: no trusted signing certificate');
+  }
+
+  // Freshness
+  const maxAgeMs = options.maxAgeMs ?? 5 * 60 * 1000;
+  const clockSkewMs = options.clockSkewMs ?? 30 * 1000;
+  const ageMs = now - payload.timestamp;
+  if (ageMs > maxAgeMs) {
+    errors.push(`Document is ${Math.round(ageMs / 1000)}s old (maximum ${Math.round(maxAgeMs / 1000)}s)`);
+  } else if (ageMs < -clockSkewMs) {
+    errors.push('Document timestamp is in the future');
+  } else {
+    checks.timestampValid = true;
+  }
+
+  // Nonce
+  if (options.nonce === undefined) {
+    checks.nonceMatches = true;
+  } else if (nonceEquals(payload.nonce, options.nonce)) {
+    checks.nonceMatches = true;
+  } else {
+    errors.push('Document nonce does not match the expected nonce');
+  }
+
+  // PCRs: the image, kernel and application measurements must be populated
+  const missingPcrs = [0, 1, 2].filter((index) => {
+    const value = payload.pcrs.get(index);
+    return !value || value.every((byte) => byte === 0);
+  });
+  if (missingPcrs.length === 0) {
+    checks.pcrVerification = true;
+  } else {
+    errors.push(`PCR${missingPcrs.join(', PCR')} missing or zero (debug-mode enclave?)`);
+  }
+
+  return buildResult(checks, errors, now, toAttestationDocument(payload), options);
+}
+
+/**
+ * Decode a COSE_Sign1 structure, optionally wrapped in CBOR tag 18
+ */
+export function decodeCoseSign1(data: Uint8Array): CoseSign1 {
+  let value = decodeCbor(data);
+  if (value instanceof CborTag) {
+    if (value.tag !== COSE_SIGN1_TAG) {
+      throw new Error(`unexpected CBOR tag ${value.tag}`);
+    }
+    value = value.value;
+  }
+
+  if (!Array.isArray(value) || value.length !== 4) {
+    throw new Error('expected a 4-element COSE_Sign1 array');
+  }
+
+  const [protectedHeader, , payload, signature] = value;
+  if (!(protectedHeader instanceof Uint8Array) || !(payload instanceof Uint8Array) || !(signature instanceof Uint8Array)) {
+    throw new Error('COSE_Sign1 fields have unexpected types');
+  }
+
+  const header = protectedHeader.length ? decodeCbor(protectedHeader) : new Map();
+  if (!(header instanceof Map) || header.get(1) !== COSE_ALG_ES384) {
+    throw new Error('protected header does not declare ES384');
+  }
+
+  return { protectedHeader, payload, signature };
+}
+
+/**
+ * Decode and shape-check the attestation payload
+ */
+export function decodePayload(data: Uint8Array): NitroAttestationPayload {
+  const map = decodeCbor(data);
+  if (!(map instanceof Map)) {
+    throw new Error('payload is not a CBOR map');
+  }
+
+  const field = (name: string): CborValue => map.get(name);
+  const pcrs = field('pcrs');
+  const cabundle = field('cabundle');
+
+  if (typeof field('module_id') !== 'string') throw new Error('missing module_id');
+  if (typeof field('timestamp') !== 'number') throw new Error('missing timestamp');
+  if (!(pcrs instanceof Map)) throw new Error('missing pcrs');
+  if (!(field('certificate') instanceof Uint8Array)) throw new Error('missing certificate');
+  if (!Array.isArray(cabundle) || !cabundle.every((c) => c instanceof Uint8Array)) {
+    throw new Error('missing cabundle');
+  }
+
+  return {
+    module_id: field('module_id') as string,
+    digest: field('digest') as string,
+    timestamp: field('timestamp') as number,
+    pcrs: pcrs as Map<number, Uint8Array>,
+    certificate: field('certificate') as Uint8Array,
+    cabundle: cabundle as Uint8Array[],
+    public_key: field('public_key') as Uint8Array | null,
+    user_data: field('user_data') as Uint8Array | null,
+    nonce: field('nonce') as Uint8Array | null,
+  };
+}
+
+/**
+ * Walk the chain from the trusted root through the CA bundle to the signing
+ * certificate, checking issuance, signatures and validity at `now`, and that
+ * every certificate above the signing certificate is a CA whose path length
+ * allows the CAs below it.
+ *
+ * @returns The verified signing certificate
+ */
+function verifyCertificateChain(payload: NitroAttestationPayload, rootPem: string, now: number): X509Certificate {
+  if (payload.cabundle.length === 0) {
+    throw new Error('empty CA bundle');
+  }
+
+  const trustedRoot = new X509Certificate(rootPem);
+  const bundleRoot = new X509Certificate(Buffer.from(payload.cabundle[0]));
+  if (bundleRoot.fingerprint256 !== trustedRoot.fingerprint256) {
+    throw new Error(`CA bundle root ${bundleRoot.fingerprint256} is not the trusted root`);
+  }
+
+  const chain = [
+    trustedRoot,
+    ...payload.cabundle.slice(1).map((der) => new X509Certificate(Buffer.from(der))),
+    new X509Certificate(Buffer.from(payload.certificate)),
+  ];
+
+  for (let i = 0; i < chain.length; i++) {
+    const certificate = chain[i];
+    const issuer = chain[Math.max(0, i - 1)];
+
+    if (now < Date.parse(certificate.validFrom) || now > Date.parse(certificate.validTo)) {
+      throw new Error(`certificate "${certificate.subject.replace(/\n/g, ', ')}" is not valid at ${new Date(now).toISOString()}`);
+    }
+    if (!certificate.checkIssued(issuer) || !certificate.verify(issuer.publicKey)) {
+      throw new Error(`certificate "${certificate.subject.replace(/\n/g, ', ')}" is not signed by its issuer`);
+    }
+
+    // Intermediate CAs below this one, not counting the signing certificate
+    const casBelow = chain.length - i - 2;
+    if (casBelow < 0) continue;
+    if (!certificate.ca) {
+      throw new Error(`certificate "${certificate.subject.replace(/\n/g, ', ')}" is not a CA but issued another certificate`);
+    }
+    const pathLength = basicConstraintsPathLength(certificate);
+    if (pathLength !== undefined && casBelow > pathLength) {
+      throw new Error(
+        `certificate "${certificate.subject.replace(/\n/g, ', ')}" allows ${pathLength} CAs below it, found ${casBelow}`
+      );
+    }
+  }
+
+  return chain[chain.length - 1];
+}
+
+/**
+ * Read the pathLenConstraint of a certificate's basicConstraints extension,
+ * which `X509Certificate` doesn't expose
+ *
+ * @returns The constraint, or undefined when the certificate sets none
+ */
+function basicConstraintsPathLength(certificate: X509Certificate): number | undefined {
+  const der = new Uint8Array(certificate.raw);
+  const [tbs] = derChildren(der, readDer(der, 0));
+  const extensions = derChildren(der, tbs).find((field) => field.tag === 0xa3);
+  if (!extensions) return undefined;
+
+  for (const extension of derChildren(der, derChildren(der, extensions)[0])) {
+    const [oid, ...rest] = derChildren(der, extension);
+    // 2.5.29.19 basicConstraints; the value is an OCTET STRING wrapping
+    // SEQUENCE { cA BOOLEAN DEFAULT FALSE, pathLenConstraint INTEGER OPTIONAL }
+    if (Buffer.from(der.subarray(oid.start, oid.end)).toString('hex') !== '551d13') continue;
+    const value = rest[rest.length - 1];
+    const constraints = derChildren(der, readDer(der, value.start));
+    const pathLength = constraints.find((field) => field.tag === 0x02);
+    return pathLength && der.subarray(pathLength.start, pathLength.end).reduce((total, byte) => total * 256 + byte, 0);
+  }
+  return undefined;
+}
+
+/** A DER element: its tag and the bounds of its contents */
+interface DerElement {
+  tag: number;
+  start: number;
+  end: number;
+}
+
+function readDer(der: Uint8Array, offset: number): DerElement {
+  const tag = der[offset];
+  let length = der[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    length = der.subarray(start, start + bytes).reduce((total, byte) => total * 256 + byte, 0);
+    start += bytes;
+  }
+  if (tag === undefined || start + length > der.length) {
+    throw new Error('truncated DER element');
+  }
+  return { tag, start, end: start + length };
+}
+
+function derChildren(der: Uint8Array, parent: DerElement): DerElement[] {
+  const children: DerElement[] = [];
+  for (let offset = parent.start; offset < parent.end; offset = children[children.length - 1].end) {
+    children.push(readDer(der, offset));
+  }
+  return children;
+}
+
+function nonceEquals(actual: Uint8Array | null | undefined, expected: string): boolean {
+  if (!actual) return false;
+  const bytes = Buffer.from(actual);
+  if (bytes.toString('utf8') === expected) return true;
+  const hex = expected.startsWith('0x') ? expected.slice(2) : expected;
+  return bytes.toString('hex') === hex.toLowerCase();
+}
+
+function toHex(bytes: Uint8Array | null | undefined): string | undefined {
+  return bytes ? Buffer.from(bytes).toString('hex') : undefined;
+}
+
+/**
+ * PEM-encode a DER certificate without parsing it, so documents carrying
+ * garbage certificates can still be returned for inspection
+ */
+function toPem(der: Uint8Array): string {
+  const lines = Buffer.from(der).toString('base64').match(/.{1,64}/g) ?? [];
+  return ['-----BEGIN CERTIFICATE-----', ...lines, '-----END CERTIFICATE-----', ''].join('\n');
+}
+
+function toAttestationDocument(payload: NitroAttestationPayload): AttestationDocument {
+  const pcr = (index: number) => toHex(payload.pcrs.get(index)) ?? '';
+
+  return {
+    moduleId: payload.module_id,
+    digest: payload.digest,
+    timestamp: payload.timestamp,
+    pcrs: { 0: pcr(0), 1: pcr(1), 2: pcr(2), 8: pcr(8) },
+    certificate: toPem(payload.certificate),
+    cabundle: payload.cabundle.map(toPem),
+    publicKey: toHex(payload.public_key),
+    userData: toHex(payload.user_data),
+    nonce: payload.nonce ? Buffer.from(payload.nonce).toString('utf8') : undefined,
+  };
+}
+
+function buildResult(
+  checks: LocalVerificationResult['verificationDetails'],
+  errors: string[],
+  now: number,
+  document: AttestationDocument | undefined,
+  options: LocalVerificationOptions,
+): LocalVerificationResult {
+  const failed = Object.values(checks).filter((passed) => !passed).length;
+  const cryptographicallySound = checks.certificateChain && checks.signatureValid && checks.pcrVerification;
+
+  const recommendations: string[] = [
+    'Compliance checks (SOC 2, HIPAA, FIPS, Common Criteria) are not evaluated by local verification',
+  ];
+  if (options.nonce === undefined) {
+    recommendations.push('Supply a fresh nonce to protect against replayed attestation documents');
+  }
+  if (!checks.timestampValid) {
+    recommendations.push('Request a new attestation document');
+  }
+
+  return {
+    isValid: failed === 0,
+    trustLevel: failed === 0 && options.nonce !== undefined
+      ? 'HIGH'
+      : cryptographicallySound ? 'MEDIUM' : 'LOW',
+    verificationDetails: checks,
+    complianceChecks: { soc2: false, hipaa: false, fips: false, commonCriteria: false },
+    riskScore: failed * 20 + (options.nonce === undefined ? 10 : 0),
+    recommendations,
+    verifiedAt: new Date(now).toISOString(),
+    document,
+    errors,
+  };
+}
@@ -0,0 +1,84 @@
+import { AttestationPolicyError } from '../errors';
+import { EnclaveSigner } from '../signing/enclave-signer';
+import { MockTrezaPlatform } from '../testing';
+import { AttestationDocument } from '../types';
+import { evaluateAttestationPolicy } from './policy';
+
+const WALLET = '0x1234567890123456789012345678901234567890';
+const NOW = Date.UTC(2026, 0, 1);
+
+const document: AttestationDocument = {
+  moduleId: 'i-enc-nitro',
+  digest: 'SHA384',
+  timestamp: Math.floor(NOW / 1000) - 600,
+  pcrs: { 0: 'aa'.repeat(48), 1: 'bb'.repeat(48), 2: 'cc'.repeat(48), 8: '00'.repeat(48) },
+  certificate: '',
+  cabundle: [],
+};
+
+describe('evaluateAttestationPolicy', () => {
+  it('accepts PCRs from an allowlist regardless of case and 0x prefix', () => {
+    expect(evaluateAttestationPolicy(
+      { pcrs: { 0: `0x${'AA'.repeat(48)}`, 2: ['dd'.repeat(48), 'cc'.repeat(48)] }, minTrustLevel: 'MEDIUM' },
+      { document, trustLevel: 'HIGH' },
+      NOW,
+    )).toEqual({ passed: true, mismatches: [] });
+  });
+
+  it('reports every requirement that fails', () => {
+    const evaluation = evaluateAttestationPolicy(
+      {
+        pcrs: { 1: 'ff'.repeat(48), 2: ['dd'.repeat(48), 'ee'.repeat(48)] },
+        maxDocumentAgeSeconds: 300,
+        minTrustLevel: 'HIGH',
+        requireSigningCertificate: true,
+      },
+      { document, trustLevel: 'MEDIUM' },
+      NOW,
+    );
+
+    expect(evaluation.passed).toBe(false);
+    expect(evaluation.mismatches).toEqual([
+      expect.objectContaining({ check: 'pcr', pcr: 1, expected: 'ff'.repeat(48), actual: 'bb'.repeat(48) }),
+      expect.objectContaining({ check: 'pcr', pcr: 2, expected: ['dd'.repeat(48), 'ee'.repeat(48)] }),
+      expect.objectContaining({ check: 'documentAge', actual: '600s' }),
+      expect.objectContaining({ check: 'trustLevel', expected: 'HIGH', actual: 'MEDIUM' }),
+      expect.objectContaining({ check: 'signingCertificate', pcr: 8 }),
+    ]);
+  });
+});
+
+describe('EnclaveSigner attestation policy', () => {
+  function signRequests(platform: MockTrezaPlatform): number {
+    return platform.requests.filter(({ path }) => path.includes('/sign/')).length;
+  }
+
+  it('signs when the enclave runs the pinned image and refuses otherwise', async () => {
+    const platform = new MockTrezaPlatform();
+    const client = platform.createClient();
+    const enclave = platform.seedEnclave({ walletAddress: WALLET });
+    const { pcrs } = (await client.getAttestation(enclave.id)).attestationDocument;
+
+    const pinned = new EnclaveSigner(client, {
+      enclaveId: enclave.id,
+      attestationCache: false,
+      attestationPolicy: { pcrs: { 0: pcrs[0], 2: pcrs[2] }, maxDocumentAgeSeconds: 60 },
+    });
+    await expect((await pinned.getSigner()).signMessage('hello')).resolves.toMatch(/^0x/);
+    expect(signRequests(platform)).toBe(1);
+
+    const other = new EnclaveSigner(client, {
+      enclaveId: enclave.id,
+      attestationCache: false,
+      attestationPolicy: { pcrs: { 0: 'ab'.repeat(48) } },
+    });
+    const error = await (await other.getSigner()).signMessage('hello').catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(AttestationPolicyError);
+    expect(error).toMatchObject({
+      code: 'ATTESTATION_POLICY_FAILED',
+      evaluation: { passed: false, mismatches: [expect.objectContaining({ check: 'pcr', pcr: 0, actual: pcrs[0] })] },
+    });
+    expect(signRequests(platform)).toBe(1);
+  });
+});
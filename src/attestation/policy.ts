@@ -0,0 +1,154 @@
+/**
+ * Declarative attestation policies
+ *
+ * A policy pins an enclave to the image you actually built: expected PCR
+ * values (or allowlists), a maximum document age, a minimum trust level
+ * and whether the image must be signed (non-zero PCR8).
+ *
+ * @example
+ * ```typescript
+ * const policy: AttestationPolicy = {
+ *   pcrs: {
+ *     0: process.env.EXPECTED_PCR0!,
+ *     2: [releaseA.pcr2, releaseB.pcr2], // allow either release during a rollout
+ *   },
+ *   maxDocumentAgeSeconds: 300,
+ *   minTrustLevel: 'HIGH',
+ *   requireSigningCertificate: true,
+ * };
+ * ```
+ */
+
+import { AttestationDocument } from '../types';
+
+/**
+ * PCR indexes reported in attestation documents
+ */
+export type PcrIndex = 0 | 1 | 2 | 8;
+
+/**
+ * Trust levels, weakest first
+ */
+const TRUST_LEVELS = ['LOW', 'MEDIUM', 'HIGH'] as const;
+
+/**
+ * Requirements an attestation must meet before the SDK signs with an enclave
+ */
+export interface AttestationPolicy {
+  /** Expected value, or allowlist of values, per PCR (hex, case-insensitive, optional 0x prefix) */
+  pcrs?: Partial<Record<PcrIndex, string | string[]>>;
+  /** Reject documents older than this many seconds */
+  maxDocumentAgeSeconds?: number;
+  /** Minimum trust level reported by verification */
+  minTrustLevel?: 'HIGH' | 'MEDIUM' | 'LOW';
+  /** Require PCR8 to be populated, i.e. the enclave image was signed with a signing certificate */
+  requireSigningCertificate?: boolean;
+}
+
+/**
+ * A single way in which an attestation failed a policy
+ */
+export interface PolicyMismatch {
+  /** Which requirement failed */
+  check: 'pcr' | 'documentAge' | 'trustLevel' | 'signingCertificate';
+  /** PCR index, for `pcr` and `signingCertificate` checks */
+  pcr?: PcrIndex;
+  /** Accepted value(s) */
+  expected: string | string[];
+  /** Observed value */
+  actual: string | undefined;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Outcome of evaluating an attestation against a policy
+ */
+export interface PolicyEvaluation {
+  /** Whether every requirement was met */
+  passed: boolean;
+  /** Every requirement that was not met */
+  mismatches: PolicyMismatch[];
+}
+
+/**
+ * Evaluate an attestation document against a policy. Reports every mismatch
+ * rather than stopping at the first.
+ *
+ * @param policy - Requirements to check
+ * @param attestation - Document and the trust level its verification produced
+ * @param now - Reference time in epoch milliseconds (defaults to now)
+ */
+export function evaluateAttestationPolicy(
+  policy: AttestationPolicy,
+  attestation: { document: AttestationDocument; trustLevel: 'HIGH' | 'MEDIUM' | 'LOW' },
+  now: number = Date.now(),
+): PolicyEvaluation {
+  const mismatches: PolicyMismatch[] = [];
+  const { document } = attestation;
+
+  for (const [key, allowed] of Object.entries(policy.pcrs ?? {})) {
+    if (allowed === undefined) continue;
+
+    const pcr = Number(key) as PcrIndex;
+    const expected = (Array.isArray(allowed) ? allowed : [allowed]).map(normalizeHex);
+    const actual = document.pcrs[pcr] ? normalizeHex(document.pcrs[pcr]) : undefined;
+
+    if (!actual || !expected.includes(actual)) {
+      mismatches.push({
+        check: 'pcr',
+        pcr,
+        expected: expected.length === 1 ? expected[0] : expected,
+        actual,
+        message: `PCR${pcr} ${actual ? `is ${actual}` : 'is missing'}; expected ${expected.length === 1 ? expected[0] : `one of ${expected.join(', ')}`}`,
+      });
+    }
+  }
+
+  if (policy.maxDocumentAgeSeconds !== undefined) {
+    const ageSeconds = Math.round((now - normalizeTimestamp(document.timestamp)) / 1000);
+    if (ageSeconds > policy.maxDocumentAgeSeconds) {
+      mismatches.push({
+        check: 'documentAge',
+        expected: `<= ${policy.maxDocumentAgeSeconds}s`,
+        actual: `${ageSeconds}s`,
+        message: `Attestation document is ${ageSeconds}s old; maximum is ${policy.maxDocumentAgeSeconds}s`,
+      });
+    }
+  }
+
+  if (policy.minTrustLevel && TRUST_LEVELS.indexOf(attestation.trustLevel) < TRUST_LEVELS.indexOf(policy.minTrustLevel)) {
+    mismatches.push({
+      check: 'trustLevel',
+      expected: policy.minTrustLevel,
+      actual: attestation.trustLevel,
+      message: `Trust level ${attestation.trustLevel} is below the required ${policy.minTrustLevel}`,
+    });
+  }
+
+  if (policy.requireSigningCertificate) {
+    const pcr8 = document.pcrs[8] ? normalizeHex(document.pcrs[8]) : undefined;
+    if (!pcr8 || /^0*$/.test(pcr8)) {
+      mismatches.push({
+        check: 'signingCertificate',
+        pcr: 8,
+        expected: 'non-zero PCR8',
+        actual: pcr8,
+        message: 'PCR8 is empty: the enclave image was not signed with a signing certificate',
+      });
+    }
+  }
+
+  return { passed: mismatches.length === 0, mismatches };
+}
+
+function normalizeHex(value: string): string {
+  return (value.startsWith('0x') ? value.slice(2) : value).toLowerCase();
+}
+
+/**
+ * Documents carry epoch milliseconds (NSM) or seconds (platform API)
+ */
+function normalizeTimestamp(timestamp: number): number {
+  return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+}
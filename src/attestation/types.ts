@@ -0,0 +1,49 @@
+/**
+ * Attestation Verification Types
+ *
+ * Types for verifying AWS Nitro attestation documents locally, without
+ * asking the Treza Platform whether its own enclave is trustworthy.
+ */
+
+import { AttestationDocument, VerificationResult } from '../types';
+
+/**
+ * Options for local attestation verification
+ */
+export interface LocalVerificationOptions {
+  /** Nonce the document must echo back (UTF-8 string or 0x-prefixed hex) */
+  nonce?: string;
+  /** Maximum document age in milliseconds (defaults to 300000) */
+  maxAgeMs?: number;
+  /** Allowed clock skew for documents timestamped in the future, in milliseconds (defaults to 30000) */
+  clockSkewMs?: number;
+  /** Time to verify against, for replaying recorded documents (defaults to now) */
+  now?: Date | number;
+  /** PEM root certificate to trust instead of the bundled AWS Nitro root */
+  rootCertificate?: string;
+}
+
+/**
+ * Result of verifying an attestation document inside the SDK
+ */
+export interface LocalVerificationResult extends VerificationResult {
+  /** Decoded attestation document, when the COSE/CBOR structure could be parsed */
+  document?: AttestationDocument;
+  /** Reasons each failed check failed */
+  errors: string[];
+}
+
+/**
+ * Attestation payload fields as encoded by the Nitro Secure Module
+ */
+export interface NitroAttestationPayload {
+  module_id: string;
+  digest: string;
+  timestamp: number;
+  pcrs: Map<number, Uint8Array>;
+  certificate: Uint8Array;
+  cabundle: Uint8Array[];
+  public_key?: Uint8Array | null;
+  user_data?: Uint8Array | null;
+  nonce?: Uint8Array | null;
+}
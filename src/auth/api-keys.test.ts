@@ -0,0 +1,36 @@
+import { MockTrezaPlatform } from '../testing';
+import { hashApiKey, requiredScope, verifyApiKeyHash } from './api-keys';
+
+const WALLET = '0x1234567890123456789012345678901234567890';
+
+describe('API key hashes', () => {
+  it('matches the keyHash the platform stores for a new key', async () => {
+    const client = new MockTrezaPlatform().createClient();
+    const { key, keyHash } = await client.createApiKey({ name: 'ci', permissions: ['enclaves:read'], walletAddress: WALLET });
+
+    expect(hashApiKey(key!)).toBe(keyHash);
+    expect(verifyApiKeyHash(key!, keyHash)).toBe(true);
+    expect(verifyApiKeyHash(key!, `0x${keyHash.toUpperCase()}`)).toBe(true);
+  });
+
+  it('rejects another secret or a malformed hash', () => {
+    const keyHash = hashApiKey('treza_secret');
+
+    expect(verifyApiKeyHash('treza_other', keyHash)).toBe(false);
+    expect(verifyApiKeyHash('treza_secret', keyHash.slice(1))).toBe(false);
+  });
+});
+
+describe('requiredScope', () => {
+  it.each([
+    ['GET', '/api/enclaves', 'enclaves:read'],
+    ['POST', '/api/enclaves/enc_1/attestation/verify', 'enclaves:read'],
+    ['PATCH', '/api/enclaves/enc_1', 'enclaves:write'],
+    ['GET', '/api/enclaves/enc_1/logs', 'logs:read'],
+    ['GET', '/api/tasks/task_1/runs', 'tasks:read'],
+    ['POST', '/api/task-runs/run_1/cancel', 'tasks:write'],
+    ['GET', '/api/api-keys', undefined],
+  ] as const)('maps %s %s to %s', (method, path, scope) => {
+    expect(requiredScope(method, path)).toBe(scope);
+  });
+});
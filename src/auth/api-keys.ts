@@ -0,0 +1,76 @@
+/**
+ * API key hashes and permission scopes
+ *
+ * The platform stores only the SHA-256 hash of a key's secret, hex encoded,
+ * as `ApiKey.keyHash`. `requiredScope` mirrors the platform's mapping of
+ * endpoints to the permission an API key needs to call them.
+ */
+
+import { ethers } from 'ethers';
+import { ApiKeyPermission, HttpMethod } from '../types';
+
+/** Every permission an API key can be granted */
+export const API_KEY_PERMISSIONS: readonly ApiKeyPermission[] = [
+  'enclaves:read',
+  'enclaves:write',
+  'tasks:read',
+  'tasks:write',
+  'logs:read',
+];
+
+/**
+ * Hash an API key secret the way the platform does
+ *
+ * @param rawKey API key secret, as returned once by `createApiKey`
+ * @returns Lowercase hex SHA-256 digest without a `0x` prefix
+ */
+export function hashApiKey(rawKey: string): string {
+  return ethers.sha256(ethers.toUtf8Bytes(rawKey)).slice(2);
+}
+
+/**
+ * Check an API key secret against the `keyHash` of an ApiKey
+ *
+ * @param rawKey API key secret
+ * @param keyHash `ApiKey.keyHash`; case and a `0x` prefix are ignored
+ * @returns Whether the secret belongs to the key
+ *
+ * @example
+ * ```typescript
+ * const key = (await client.getApiKeys(WALLET_ADDRESS)).find((apiKey) =>
+ *   verifyApiKeyHash(process.env.TREZA_API_KEY!, apiKey.keyHash)
+ * );
+ * ```
+ */
+export function verifyApiKeyHash(rawKey: string, keyHash: string): boolean {
+  const expected = keyHash.toLowerCase().replace(/^0x/, '');
+  const actual = hashApiKey(rawKey);
+  if (expected.length !== actual.length) {
+    return false;
+  }
+  // Compare every character so the time taken doesn't depend on the secret
+  let difference = 0;
+  for (let i = 0; i < actual.length; i++) {
+    difference |= actual.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Permission an API key needs to call an endpoint
+ *
+ * @param method HTTP method
+ * @param path Request path, e.g. `/api/enclaves/enc_123/logs`
+ * @returns The permission, or undefined when the endpoint needs none
+ */
+export function requiredScope(method: HttpMethod, path: string): ApiKeyPermission | undefined {
+  if (path.startsWith('/api/enclaves')) {
+    if (path.endsWith('/logs')) return 'logs:read';
+    if (method === 'GET' || path.includes('/attestation')) return 'enclaves:read';
+    return 'enclaves:write';
+  }
+  if (path.startsWith('/api/tasks') || path.startsWith('/api/task-runs')) {
+    return method === 'GET' ? 'tasks:read' : 'tasks:write';
+  }
+  return undefined;
+}
@@ -0,0 +1,11 @@
+/**
+ * Treza Authentication Module
+ *
+ * Wallet-signature (EIP-4361) sessions for the Treza Platform API, and
+ * helpers for API key hashes and permission scopes.
+ */
+
+export { WalletSessionManager } from './wallet-session';
+export { formatSiweMessage } from './siwe';
+export { API_KEY_PERMISSIONS, hashApiKey, verifyApiKeyHash, requiredScope } from './api-keys';
+export type { WalletAuthConfig, SiweMessageFields, WalletAuthNonceResponse, WalletSession } from './types';
@@ -0,0 +1,43 @@
+import { formatSiweMessage } from './siwe';
+
+describe('formatSiweMessage', () => {
+  const fields = {
+    domain: 'app.treza.io',
+    address: '0x742d35Cc6634C0532925a3b8D598C4C0532925a3',
+    uri: 'https://app.treza.io/',
+    version: '1' as const,
+    chainId: 8453,
+    nonce: 'abc123',
+    issuedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  it('builds the EIP-4361 message with a statement and expiration', () => {
+    expect(formatSiweMessage({ ...fields, statement: 'Sign in to the Treza Platform', expirationTime: '2026-01-01T01:00:00.000Z' }))
+      .toBe([
+        'app.treza.io wants you to sign in with your Ethereum account:',
+        '0x742d35Cc6634C0532925a3b8D598C4C0532925a3',
+        '',
+        'Sign in to the Treza Platform',
+        '',
+        'URI: https://app.treza.io/',
+        'Version: 1',
+        'Chain ID: 8453',
+        'Nonce: abc123',
+        'Issued At: 2026-01-01T00:00:00.000Z',
+        'Expiration Time: 2026-01-01T01:00:00.000Z',
+      ].join('\n'));
+  });
+
+  it('leaves out the statement and expiration when they are not given', () => {
+    expect(formatSiweMessage(fields).split('\n')).toEqual([
+      'app.treza.io wants you to sign in with your Ethereum account:',
+      '0x742d35Cc6634C0532925a3b8D598C4C0532925a3',
+      '',
+      'URI: https://app.treza.io/',
+      'Version: 1',
+      'Chain ID: 8453',
+      'Nonce: abc123',
+      'Issued At: 2026-01-01T00:00:00.000Z',
+    ]);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * EIP-4361 (Sign-In with Ethereum) message formatting
+ */
+
+import { SiweMessageFields } from './types';
+
+/**
+ * Build the canonical EIP-4361 message text for the given fields.
+ */
+export function formatSiweMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+  ];
+
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  );
+
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+
+  return lines.join('\n');
+}
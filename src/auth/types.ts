@@ -0,0 +1,67 @@
+/**
+ * Wallet Authentication Types
+ *
+ * Types for authenticating to the Treza Platform by signing an
+ * EIP-4361 (Sign-In with Ethereum) challenge with a SignerProvider.
+ */
+
+import { SignerProvider } from '../signing/types';
+
+/**
+ * Configuration for wallet-signature authentication
+ */
+export interface WalletAuthConfig {
+  /**
+   * Signer that proves ownership of the wallet.
+   *
+   * Note: an EnclaveSigner must be backed by a separately authenticated
+   * TrezaClient, since its signing calls go through the platform API.
+   */
+  signer: SignerProvider;
+  /** Chain ID included in the challenge (defaults to 1) */
+  chainId?: number;
+  /** Domain requesting the signature (defaults to the API host) */
+  domain?: string;
+  /** URI requesting the signature (defaults to the API base URL) */
+  uri?: string;
+  /** Human-readable statement shown in the wallet prompt */
+  statement?: string;
+  /** Requested session lifetime in seconds (defaults to 3600) */
+  sessionDurationSeconds?: number;
+  /** Refresh the session this many seconds before it expires (defaults to 60) */
+  refreshMarginSeconds?: number;
+}
+
+/**
+ * Fields of an EIP-4361 message
+ */
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+/**
+ * Challenge nonce issued by the platform
+ */
+export interface WalletAuthNonceResponse {
+  nonce: string;
+}
+
+/**
+ * Session issued after a successful signature verification
+ */
+export interface WalletSession {
+  /** Bearer token for subsequent requests */
+  token: string;
+  /** Authenticated wallet address */
+  walletAddress: string;
+  /** ISO timestamp when the session expires */
+  expiresAt: string;
+}
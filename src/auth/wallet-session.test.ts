@@ -0,0 +1,144 @@
+import { ethers } from 'ethers';
+import { AuthError } from '../errors';
+import { LocalSigner } from '../signing/local-signer';
+import { SignerProvider } from '../signing/types';
+import { ManualClock, MockTrezaPlatform } from '../testing';
+
+const PRIVATE_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const WALLET = new ethers.Wallet(PRIVATE_KEY).address;
+const START = Date.UTC(2026, 0, 1);
+
+describe('wallet-signature authentication', () => {
+  let platform: MockTrezaPlatform;
+
+  beforeEach(() => {
+    // Only the client's Date is faked; the platform keeps its own clock
+    jest.useFakeTimers({
+      now: START,
+      doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'],
+    });
+    platform = new MockTrezaPlatform({ clock: new ManualClock(START), requireAuth: true });
+    platform.seedEnclave({ walletAddress: WALLET });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function signIns(): Array<{ message: string; signature: string }> {
+    return platform.requests
+      .filter(({ method, path }) => method === 'POST' && path === '/api/auth/siwe')
+      .map(({ body }) => body as { message: string; signature: string });
+  }
+
+  function bearerTokens(): string[] {
+    return platform.requests
+      .filter(({ path }) => path === '/api/enclaves')
+      .map(({ headers }) => Object.entries(headers).find(([name]) => name.toLowerCase() === 'authorization')?.[1] ?? '');
+  }
+
+  it('signs one challenge for concurrent requests and reuses the session', async () => {
+    const client = platform.createClient({ walletAuth: { signer: new LocalSigner(PRIVATE_KEY), chainId: 8453 } });
+
+    await Promise.all([client.getEnclaves(WALLET), client.getEnclaves(WALLET)]);
+    await client.getEnclaves(WALLET);
+
+    const [signIn, ...others] = signIns();
+    expect(others).toEqual([]);
+    expect(ethers.verifyMessage(signIn.message, signIn.signature)).toBe(WALLET);
+    expect(signIn.message).toMatch(new RegExp([
+      '^mock\\.treza\\.test wants you to sign in with your Ethereum account:',
+      WALLET,
+      '',
+      'Sign in to the Treza Platform',
+      '',
+      'URI: https://mock\\.treza\\.test/',
+      'Version: 1',
+      'Chain ID: 8453',
+      'Nonce: [0-9a-f]{32}',
+      'Issued At: \\S+',
+      'Expiration Time: \\S+$',
+    ].join('\n')));
+    expect(new Set(bearerTokens())).toEqual(new Set([`Bearer ${client.getWalletSession()!.token}`]));
+  });
+
+  it('asks for a session of the configured length', async () => {
+    const client = platform.createClient({ walletAuth: { signer: new LocalSigner(PRIVATE_KEY), sessionDurationSeconds: 600 } });
+
+    await client.getEnclaves(WALLET);
+
+    expect(signIns()[0].message).toContain(`Issued At: ${new Date(START).toISOString()}`);
+    expect(client.getWalletSession()).toMatchObject({ walletAddress: WALLET, expiresAt: new Date(START + 600_000).toISOString() });
+  });
+
+  it('signs in again shortly before the session expires', async () => {
+    const client = platform.createClient({
+      walletAuth: { signer: new LocalSigner(PRIVATE_KEY), sessionDurationSeconds: 300, refreshMarginSeconds: 60 },
+    });
+    await client.getEnclaves(WALLET);
+    const first = client.getWalletSession()!;
+
+    jest.setSystemTime(START + 200_000);
+    await client.getEnclaves(WALLET);
+    expect(signIns()).toHaveLength(1);
+
+    jest.setSystemTime(START + 241_000);
+    await client.getEnclaves(WALLET);
+
+    expect(signIns()).toHaveLength(2);
+    expect(client.getWalletSession()!.token).not.toBe(first.token);
+  });
+
+  it('signs in again and replays the request once when the platform rejects the session', async () => {
+    const client = platform.createClient({
+      walletAuth: { signer: new LocalSigner(PRIVATE_KEY), sessionDurationSeconds: 300, refreshMarginSeconds: 0 },
+    });
+    await client.getEnclaves(WALLET);
+    const first = client.getWalletSession()!;
+
+    // The platform's clock has passed the session's expiry; the client's is a little behind
+    jest.setSystemTime(START + 299_000);
+    platform.advance(301_000);
+    const enclaves = await client.getEnclaves(WALLET);
+
+    expect(enclaves).toHaveLength(1);
+    expect(signIns()).toHaveLength(2);
+    expect(bearerTokens()).toEqual([
+      `Bearer ${first.token}`,
+      `Bearer ${first.token}`,
+      `Bearer ${client.getWalletSession()!.token}`,
+    ]);
+  });
+
+  it('signs in again after signOut', async () => {
+    const client = platform.createClient({ walletAuth: { signer: new LocalSigner(PRIVATE_KEY) } });
+    await client.getEnclaves(WALLET);
+
+    client.signOut();
+    expect(client.getWalletSession()).toBeNull();
+    await client.getEnclaves(WALLET);
+
+    expect(signIns()).toHaveLength(2);
+  });
+
+  it('reports a wallet that declines to sign', async () => {
+    const wallet = new ethers.Wallet(PRIVATE_KEY);
+    const signer: SignerProvider = {
+      type: 'declining',
+      getAddress: async () => wallet.address,
+      getSigner: async () => Object.assign(Object.create(wallet), {
+        signMessage: async () => {
+          throw new Error('User rejected the request');
+        },
+      }),
+    };
+    const client = platform.createClient({ walletAuth: { signer } });
+
+    const error = await client.getEnclaves(WALLET).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error).toMatchObject({ code: 'AUTH_TOKEN_ERROR', cause: { code: 'WALLET_AUTH_REJECTED' } });
+    expect((error as AuthError).message).toContain('User rejected the request');
+    expect(signIns()).toEqual([]);
+  });
+});
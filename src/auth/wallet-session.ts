@@ -0,0 +1,131 @@
+/**
+ * WalletSessionManager - Wallet-Signature Authentication
+ *
+ * Proves wallet ownership to the Treza Platform by signing an EIP-4361
+ * challenge with a SignerProvider, then caches the resulting session
+ * token until shortly before it expires.
+ *
+ * @example
+ * ```typescript
+ * import { TrezaClient, LocalSigner } from '@treza/sdk';
+ *
+ * const client = new TrezaClient({
+ *   walletAuth: { signer: new LocalSigner(process.env.PRIVATE_KEY!) },
+ * });
+ *
+ * // The first request signs a challenge; later requests reuse the session
+ * await client.createEnclave({ ... });
+ * ```
+ */
+
+import { formatSiweMessage } from './siwe';
+import { WalletAuthConfig, WalletAuthNonceResponse, WalletSession } from './types';
+import { AuthError } from '../errors';
+import { HttpMethod, RequestOptions } from '../types';
+
+/**
+ * Sends an unauthenticated request to the platform API and resolves with the response body
+ */
+export type PlatformRequest = <T>(method: HttpMethod, path: string, body?: unknown, options?: RequestOptions) => Promise<T>;
+
+export class WalletSessionManager {
+  private readonly http: PlatformRequest;
+  private readonly config: WalletAuthConfig;
+  private readonly baseUrl: string;
+  private session: WalletSession | null = null;
+  private pending: Promise<WalletSession> | null = null;
+
+  /**
+   * @param http - Sends unauthenticated requests to the platform API
+   * @param config - Wallet authentication configuration
+   * @param baseUrl - Platform base URL, used for the default domain and URI
+   */
+  constructor(http: PlatformRequest, config: WalletAuthConfig, baseUrl: string) {
+    this.http = http;
+    this.config = config;
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Returns a valid session token, signing a new challenge if the cached
+   * session is missing, about to expire, or `forceRefresh` is set.
+   */
+  async getToken(options: { forceRefresh: boolean } = { forceRefresh: false }): Promise<string> {
+    if (options.forceRefresh) {
+      this.session = null;
+    }
+
+    if (this.session && !this.isExpiring(this.session)) {
+      return this.session.token;
+    }
+
+    // Share one sign-in between concurrent requests
+    if (!this.pending) {
+      this.pending = this.signIn().finally(() => {
+        this.pending = null;
+      });
+    }
+
+    this.session = await this.pending;
+    return this.session.token;
+  }
+
+  /**
+   * Returns the cached session, if any.
+   */
+  getSession(): WalletSession | null {
+    return this.session;
+  }
+
+  /**
+   * Drop the cached session. The next request signs a new challenge.
+   */
+  clear(): void {
+    this.session = null;
+  }
+
+  /**
+   * Fetch a nonce, sign the EIP-4361 challenge and exchange it for a session.
+   */
+  private async signIn(): Promise<WalletSession> {
+    const signer = await this.config.signer.getSigner();
+    const address = await this.config.signer.getAddress();
+
+    const nonceResponse = await this.http<WalletAuthNonceResponse>('GET', '/api/auth/nonce', undefined, {
+      query: { address },
+    });
+
+    const issuedAt = new Date();
+    const durationMs = (this.config.sessionDurationSeconds ?? 3600) * 1000;
+    const url = new URL(this.config.uri || this.baseUrl);
+
+    const message = formatSiweMessage({
+      domain: this.config.domain || url.host,
+      address,
+      statement: this.config.statement ?? 'Sign in to the Treza Platform',
+      uri: url.toString(),
+      version: '1',
+      chainId: this.config.chainId ?? 1,
+      nonce: nonceResponse.nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: new Date(issuedAt.getTime() + durationMs).toISOString(),
+    });
+
+    let signature: string;
+    try {
+      signature = await signer.signMessage(message);
+    } catch (error: any) {
+      throw new AuthError(`Wallet declined to sign the authentication challenge: ${error?.message || error}`, {
+        code: 'WALLET_AUTH_REJECTED',
+        cause: error,
+      });
+    }
+
+    return this.http<WalletSession>('POST', '/api/auth/siwe', { message, signature });
+  }
+
+  private isExpiring(session: WalletSession): boolean {
+    const marginMs = (this.config.refreshMarginSeconds ?? 60) * 1000;
+    return Date.parse(session.expiresAt) - marginMs <= Date.now();
+  }
+}
@@ -1,6 +1,15 @@
-import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
 import {
   TrezaConfig,
+  AccessTokenProvider,
+  MutationOptions,
+  ValidateOptions,
+  PinImageOptions,
+  RetryPolicy,
+  EnclaveStatus,
+  WaitForEnclaveOptions,
+  LogEntry,
+  LogSource,
+  TailLogsOptions,
   Enclave,
   Provider,
   Task,
@@ -17,53 +26,248 @@ import {
   ProvidersResponse,
   TaskResponse,
   TasksResponse,
+  TaskRun,
+  TaskRunResponse,
+  TaskRunsResponse,
+  GetTaskRunsOptions,
   ApiKeyResponse,
+  Identity,
+  IdentityResponse,
   ApiKeysResponse,
   GitHubAuthResponse,
   GitHubTokenRequest,
   GitHubTokenResponse,
   RepositoriesResponse,
   GetBranchesRequest,
+  DeployFromGitHubRequest,
+  DeployFromGitHubOptions,
+  GitHubDeployment,
+  CheckEnclaveDriftOptions,
+  EnclaveDrift,
+  AttestationDocument,
   BranchesResponse,
   EnclaveLifecycleRequest,
   EnclaveLifecycleResponse,
   LogsResponse,
   DockerSearchResponse,
   DockerTagsResponse,
+  ResolvedDockerImage,
+  ImageDrift,
   AttestationResponse,
   VerificationRequest,
   VerificationResult,
   VerificationStatus,
   ApiError,
-  TrezaSdkError
+  HttpMethod,
+  Middleware,
+  RequestOptions,
+  TrezaRequest,
+  TrezaResponse,
+  Page,
+  ListEnclavesOptions,
+  ListTasksOptions,
+  ListApiKeysOptions,
+  RotateApiKeyOptions,
+  ApiKeyRotation,
+  StaleApiKeysOptions,
+  StaleApiKey,
 } from './types';
+import {
+  TrezaSdkError,
+  EnclaveWaitError,
+  ApiKeyRotationError,
+  NotFoundError,
+  AuthError,
+  ConfigurationError,
+  NetworkError,
+  PermissionError,
+  ValidationError,
+  createHttpError,
+  requestIdFrom,
+} from './errors';
+import { WalletSessionManager } from './auth/wallet-session';
+import { WalletSession } from './auth/types';
+import { requiredScope } from './auth/api-keys';
+import { omitStoredSecrets } from './redact';
+import { canReachStatus, isLegalTransition } from './lifecycle';
+import { LOG_SOURCES, LogCursor, mergeLogEntries } from './logs';
+import { applyListFilters, paginate, toListQuery } from './pagination';
+import { assertValidEnclaveConfig } from './providers/validate';
+import { assertPinnedImage, formatDockerImage, isPinnedImage, parseDockerImage } from './providers/docker-image';
+import { assertValidSchedule } from './schedule/cron';
+import { withNextRun } from './schedule/next-run';
+import { LocalVerificationOptions, LocalVerificationResult } from './attestation/types';
+import { AttestationCache } from './signing/attestation-cache';
+import {
+  IDEMPOTENCY_HEADER,
+  createIdempotencyKey,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  sleep,
+} from './retry';
+import { composeMiddleware, createAuthMiddleware, createRetryMiddleware } from './middleware';
+import { Transport } from './transport/types';
+import { FetchTransport } from './transport/fetch';
+import { buildUrl } from './transport/url';
 
 /**
  * Main client class for interacting with the Treza Platform API
  */
 export class TrezaClient {
-  private client: AxiosInstance;
+  private readonly transport: Transport;
+  private readonly baseUrl: string;
+  private readonly timeout: number;
+  private apiKey?: string;
+  private readonly getAccessToken?: AccessTokenProvider;
+  private readonly walletSession?: WalletSessionManager;
+  private readonly retryPolicy: Required<RetryPolicy>;
+  private readonly attestationCache: AttestationCache;
+  private readonly middleware: Middleware[];
+  private readonly validateProviderConfig: boolean;
+  private readonly providers = new Map<string, Promise<Provider>>();
+  private readonly checkScopes: boolean;
+  private readonly pinDockerImages: boolean;
+  private readonly requirePinnedImages: boolean;
+  private identity?: Promise<Identity>;
 
   /**
    * Create a new Treza client instance
    * @param config Configuration options for the client
    */
   constructor(config: TrezaConfig = {}) {
-    this.client = axios.create({
-      baseURL: config.baseUrl || 'https://app.trezalabs.com',
-      timeout: config.timeout || 30000,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+    const baseUrl = config.baseUrl || 'https://app.trezalabs.com';
 
-    // Add response interceptor for error handling
-    this.client.interceptors.response.use(
-      (response) => response,
-      (error: AxiosError) => {
-        throw this.handleApiError(error);
-      }
-    );
+    this.baseUrl = baseUrl;
+    this.timeout = config.timeout || 30000;
+    this.transport = config.transport ?? new FetchTransport();
+    this.apiKey = config.apiKey;
+    this.getAccessToken = config.getAccessToken;
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.attestationCache = config.attestationCache ?? new AttestationCache();
+    this.middleware = [...(config.middleware ?? [])];
+    this.validateProviderConfig = config.validateProviderConfig ?? false;
+    this.checkScopes = config.checkScopes ?? false;
+    this.pinDockerImages = config.pinDockerImages ?? false;
+    this.requirePinnedImages = config.requirePinnedImages ?? false;
+
+    if (config.walletAuth && !config.getAccessToken) {
+      // Sign-in requests must not pass through the auth middleware
+      this.walletSession = new WalletSessionManager(
+        (method, path, body, options) => this.execute(method, path, body, options, false),
+        config.walletAuth,
+        baseUrl
+      );
+      this.getAccessToken = (options) => this.walletSession!.getToken(options);
+    }
+  }
+
+  // ===== REQUESTS =====
+
+  /**
+   * Add middleware to the request pipeline
+   *
+   * Middleware runs in the order it was added, inside the retry loop and
+   * outside authentication, for every request this client makes.
+   *
+   * @param middleware Middleware to append
+   * @returns This client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client.use(async (request, next) => {
+   *   request.headers['x-trace-id'] = crypto.randomUUID();
+   *   return next(request);
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Send a request to the Treza Platform API through the middleware pipeline
+   *
+   * Escape hatch for endpoints without a dedicated method. Authentication,
+   * retries and error mapping apply exactly as for the built-in methods.
+   *
+   * @param method HTTP method
+   * @param path Path relative to `baseUrl`, e.g. `/api/enclaves/enc_123/sign/message`
+   * @param body Optional JSON body
+   * @param options Query parameters, extra headers and abort signal
+   * @returns Promise resolving to the parsed response body
+   * @throws TrezaSdkError subclass matching the response status
+   */
+  async request<T = any>(method: HttpMethod, path: string, body?: unknown, options: RequestOptions = {}): Promise<T> {
+    return this.execute<T>(method, path, body, options, true);
+  }
+
+  // ===== AUTHENTICATION =====
+
+  /**
+   * Set the API key attached to subsequent requests
+   * @param apiKey Scoped API key created with `createApiKey`
+   */
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey;
+    this.identity = undefined;
+  }
+
+  /**
+   * Stop sending the configured API key
+   */
+  clearApiKey(): void {
+    this.apiKey = undefined;
+    this.identity = undefined;
+  }
+
+  /**
+   * Get the current wallet-signature session, if wallet authentication is configured
+   * @returns The cached session, or null before the first sign-in
+   */
+  getWalletSession(): WalletSession | null {
+    return this.walletSession?.getSession() ?? null;
+  }
+
+  /**
+   * Discard the wallet-signature session so the next request signs a new challenge
+   */
+  signOut(): void {
+    this.walletSession?.clear();
+  }
+
+  /**
+   * Get the attestation cache shared by enclave signers built on this client
+   */
+  getAttestationCache(): AttestationCache {
+    return this.attestationCache;
+  }
+
+  /**
+   * Whether requests from this client carry credentials
+   */
+  isAuthenticated(): boolean {
+    return Boolean(this.getAccessToken || this.apiKey);
+  }
+
+  /**
+   * Get the caller behind this client's credential
+   * @param options Abort signal
+   * @returns Promise resolving to the wallet, the API key ID and the granted permissions
+   *
+   * @example
+   * ```typescript
+   * const { apiKeyId, permissions } = await client.whoAmI();
+   * if (!permissions.includes('logs:read')) console.warn(`${apiKeyId} can't read logs`);
+   * ```
+   */
+  async whoAmI(options: { signal?: AbortSignal } = {}): Promise<Identity> {
+    try {
+      const data = await this.request<IdentityResponse>('GET', '/api/auth/whoami', undefined, { signal: options.signal });
+      return data.identity;
+    } catch (error) {
+      throw this.handleError(error, 'Failed to get identity');
+    }
   }
 
   // ===== ENCLAVE MANAGEMENT =====
@@ -75,24 +279,77 @@ export class TrezaClient {
    */
   async getEnclaves(walletAddress: string): Promise<Enclave[]> {
     try {
-      const response: AxiosResponse<EnclavesResponse> = await this.client.get('/api/enclaves', {
-        params: { wallet: walletAddress }
+      const data = await this.request<EnclavesResponse>('GET', '/api/enclaves', undefined, {
+        query: { wallet: walletAddress }
+      });
+      data.enclaves.forEach((enclave) => this.attestationCache.observeEnclave(enclave));
+      return data.enclaves;
+    } catch (error) {
+      throw this.handleError(error, 'Failed to get enclaves');
+    }
+  }
+
+  /**
+   * Get one page of a wallet's enclaves
+   * @param walletAddress Wallet address to filter enclaves
+   * @param options Status, region, provider and creation-time filters, sort order, page size and cursor
+   * @returns Promise resolving to the page and the cursor for the next one
+   */
+  async getEnclavesPage(walletAddress: string, options: ListEnclavesOptions = {}): Promise<Page<Enclave>> {
+    try {
+      const data = await this.request<EnclavesResponse>('GET', '/api/enclaves', undefined, {
+        query: toListQuery(walletAddress, options),
+        signal: options.signal
       });
-      return response.data.enclaves;
+      data.enclaves.forEach((enclave) => this.attestationCache.observeEnclave(enclave));
+      return { items: applyListFilters(data.enclaves, options), nextCursor: data.nextCursor };
     } catch (error) {
       throw this.handleError(error, 'Failed to get enclaves');
     }
   }
 
+  /**
+   * Iterate over a wallet's enclaves, fetching further pages as needed
+   * @param walletAddress Wallet address to filter enclaves
+   * @param options Filters, sort order, page size, starting cursor and abort signal
+   * @returns Async iterator of enclaves
+   *
+   * @example
+   * ```typescript
+   * for await (const enclave of client.listEnclaves(wallet, { status: ['FAILED', 'BUILD_FAILED'] })) {
+   *   console.log(enclave.id, enclave.error_message);
+   * }
+   * ```
+   */
+  listEnclaves(walletAddress: string, options: ListEnclavesOptions = {}): AsyncGenerator<Enclave, void, undefined> {
+    return paginate(
+      (cursor) => this.getEnclavesPage(walletAddress, { ...options, cursor }),
+      options.cursor,
+      options.signal
+    );
+  }
+
   /**
    * Create a new enclave
    * @param request Enclave creation parameters
+   * @param options Optional idempotency key (generated when omitted), provider config validation and image pinning
    * @returns Promise resolving to created enclave
+   * @throws ValidationError with `fieldErrors` when validation is on and the configuration is rejected,
+   *   or with code `UNPINNED_IMAGE` when `requirePinnedImages` is on and the image is not pinned
    */
-  async createEnclave(request: CreateEnclaveRequest): Promise<Enclave> {
+  async createEnclave(
+    request: CreateEnclaveRequest,
+    options: MutationOptions & ValidateOptions & PinImageOptions = {}
+  ): Promise<Enclave> {
     try {
-      const response: AxiosResponse<EnclaveResponse> = await this.client.post('/api/enclaves', request);
-      return response.data.enclave;
+      if (options.validate ?? this.validateProviderConfig) {
+        await this.validateEnclaveRequest(request);
+      }
+      request = await this.pinEnclaveImage(request, options.pinImage ?? this.pinDockerImages);
+      const data = await this.request<EnclaveResponse>('POST', '/api/enclaves', request, {
+        headers: { [IDEMPOTENCY_HEADER]: options.idempotencyKey || createIdempotencyKey() }
+      });
+      return data.enclave;
     } catch (error) {
       throw this.handleError(error, 'Failed to create enclave');
     }
@@ -101,17 +358,82 @@ export class TrezaClient {
   /**
    * Update an existing enclave
    * @param request Enclave update parameters
+   * @param options Provider config validation and image pinning
    * @returns Promise resolving to updated enclave
+   * @throws ValidationError with `fieldErrors` when validation is on and the configuration is rejected,
+   *   or with code `UNPINNED_IMAGE` when `requirePinnedImages` is on and the image is not pinned
    */
-  async updateEnclave(request: UpdateEnclaveRequest): Promise<Enclave> {
+  async updateEnclave(request: UpdateEnclaveRequest, options: ValidateOptions & PinImageOptions = {}): Promise<Enclave> {
     try {
-      const response: AxiosResponse<EnclaveResponse> = await this.client.put('/api/enclaves', request);
-      return response.data.enclave;
+      if (options.validate ?? this.validateProviderConfig) {
+        await this.validateEnclaveRequest(request);
+      }
+      request = await this.pinEnclaveImage(request, options.pinImage ?? this.pinDockerImages);
+      const data = await this.request<EnclaveResponse>('PUT', '/api/enclaves', request);
+      return data.enclave;
     } catch (error) {
       throw this.handleError(error, 'Failed to update enclave');
     }
   }
 
+  /**
+   * Check an enclave request's region and provider configuration against its provider
+   *
+   * Fetches the provider's regions and `configSchema` (once per client) and
+   * reports every rejected field. For updates that do not name a provider,
+   * the enclave's current provider is used.
+   *
+   * @param request Create or update request to check
+   * @throws ValidationError with code `INVALID_PROVIDER_CONFIG` and one `fieldErrors` entry per rejected field
+   */
+  async validateEnclaveRequest(request: CreateEnclaveRequest | UpdateEnclaveRequest): Promise<void> {
+    if (request.region === undefined && request.providerConfig === undefined && request.providerId === undefined) {
+      return;
+    }
+
+    try {
+      let { providerId, region } = request;
+      if ('id' in request && (providerId === undefined || region === undefined)) {
+        const current = await this.getEnclave(request.id);
+        // A new provider must offer the enclave's current region
+        region = region ?? (providerId !== undefined ? current.region : undefined);
+        providerId = providerId ?? current.providerId;
+      }
+
+      assertValidEnclaveConfig(await this.cachedProvider(providerId!), {
+        region,
+        providerConfig: request.providerConfig,
+      });
+    } catch (error) {
+      throw this.handleError(error, 'Failed to validate enclave configuration');
+    }
+  }
+
+  /**
+   * Pin the Docker Hub tag of a create or update request to its digest, then
+   * apply the `requirePinnedImages` policy
+   *
+   * Images from GitHub builds and other registries can't be looked up and are
+   * left as they are.
+   */
+  private async pinEnclaveImage<T extends CreateEnclaveRequest | UpdateEnclaveRequest>(request: T, pin: boolean): Promise<T> {
+    const image = request.providerConfig?.dockerImage;
+    if (
+      pin &&
+      typeof image === 'string' &&
+      !isPinnedImage(image) &&
+      parseDockerImage(image).registry === undefined &&
+      (request.sourceType === undefined || request.sourceType === 'registry')
+    ) {
+      const resolved = await this.resolveDockerImage(image);
+      request = { ...request, providerConfig: { ...request.providerConfig, dockerImage: resolved.image, dockerImageTag: resolved.tag } };
+    }
+    if (this.requirePinnedImages) {
+      assertPinnedImage(request.providerConfig);
+    }
+    return request;
+  }
+
   /**
    * Delete an enclave
    * @param enclaveId Enclave ID to delete
@@ -120,10 +442,10 @@ export class TrezaClient {
    */
   async deleteEnclave(enclaveId: string, walletAddress: string): Promise<string> {
     try {
-      const response: AxiosResponse<{ message: string }> = await this.client.delete(`/api/enclaves/${enclaveId}`, {
-        params: { wallet: walletAddress }
+      const data = await this.request<{ message: string }>('DELETE', `/api/enclaves/${enclaveId}`, undefined, {
+        query: { wallet: walletAddress }
       });
-      return response.data.message;
+      return data.message;
     } catch (error) {
       throw this.handleError(error, 'Failed to delete enclave');
     }
@@ -136,8 +458,9 @@ export class TrezaClient {
    */
   async getEnclave(enclaveId: string): Promise<Enclave> {
     try {
-      const response: AxiosResponse<EnclaveResponse> = await this.client.get(`/api/enclaves/${enclaveId}`);
-      return response.data.enclave;
+      const data = await this.request<EnclaveResponse>('GET', `/api/enclaves/${enclaveId}`);
+      this.attestationCache.observeEnclave(data.enclave);
+      return data.enclave;
     } catch (error) {
       throw this.handleError(error, 'Failed to get enclave');
     }
@@ -150,11 +473,11 @@ export class TrezaClient {
    */
   async performEnclaveAction(request: EnclaveLifecycleRequest): Promise<EnclaveLifecycleResponse> {
     try {
-      const response: AxiosResponse<EnclaveLifecycleResponse> = await this.client.patch(`/api/enclaves/${request.id}`, {
+      const data = await this.request<EnclaveLifecycleResponse>('PATCH', `/api/enclaves/${request.id}`, {
         action: request.action,
         walletAddress: request.walletAddress
       });
-      return response.data;
+      return data;
     } catch (error) {
       throw this.handleError(error, `Failed to ${request.action} enclave`);
     }
@@ -194,20 +517,171 @@ export class TrezaClient {
    * Get logs for an enclave
    * @param enclaveId Enclave ID to get logs for
    * @param logType Type of logs to retrieve ('all', 'ecs', 'stepfunctions', 'lambda', 'application', 'errors')
-   * @param limit Maximum number of log entries to return
+   * @param limit Maximum number of log entries to return per source
+   * @param since Return the oldest entries at or after this time (epoch milliseconds) instead of the newest
    * @returns Promise resolving to logs response
    */
-  async getEnclaveLogs(enclaveId: string, logType: string = 'all', limit: number = 100): Promise<LogsResponse> {
+  async getEnclaveLogs(enclaveId: string, logType: string = 'all', limit: number = 100, since?: number): Promise<LogsResponse> {
     try {
-      const response: AxiosResponse<LogsResponse> = await this.client.get(`/api/enclaves/${enclaveId}/logs`, {
-        params: { type: logType, limit }
+      const data = await this.request<LogsResponse>('GET', `/api/enclaves/${enclaveId}/logs`, undefined, {
+        query: { type: logType, limit, since }
       });
-      return response.data;
+      return data;
     } catch (error) {
       throw this.handleError(error, 'Failed to get enclave logs');
     }
   }
 
+  /**
+   * Poll an enclave until it reaches the requested status
+   *
+   * Fails fast when the enclave enters a `failOn` status, or settles in a
+   * status from which the target can no longer be reached without a user action.
+   *
+   * @param enclaveId Enclave ID to watch
+   * @param options Target status, failure statuses, timeout, abort signal and progress callback
+   * @returns Promise resolving to the enclave once it reaches the target status
+   * @throws EnclaveWaitError with the enclave's `error_message` and latest error logs
+   */
+  async waitForEnclave(enclaveId: string, options: WaitForEnclaveOptions = {}): Promise<Enclave> {
+    const targets: EnclaveStatus[] = Array.isArray(options.until)
+      ? options.until
+      : [options.until || 'DEPLOYED'];
+    const failOn = options.failOn || ['BUILD_FAILED', 'FAILED'];
+    const timeout = options.timeout ?? 15 * 60 * 1000;
+    const pollInterval = options.pollInterval ?? 5000;
+    const updatedAfter = options.updatedAfter === undefined ? undefined : new Date(options.updatedAfter).getTime();
+    const startedAt = Date.now();
+
+    let initialStatus: EnclaveStatus | undefined;
+    let previousStatus: EnclaveStatus | undefined;
+    let moved = false;
+    let enclave: Enclave | undefined;
+
+    while (true) {
+      if (options.signal?.aborted) {
+        throw new EnclaveWaitError(`Stopped waiting for enclave ${enclaveId}`, 'WAIT_ABORTED', enclave);
+      }
+
+      enclave = await this.getEnclave(enclaveId);
+      const status = enclave.status;
+
+      options.onProgress?.({
+        enclave,
+        status,
+        previousStatus,
+        expectedTransition: previousStatus === undefined
+          || isLegalTransition(previousStatus, status)
+          || canReachStatus(previousStatus, status),
+        elapsedMs: Date.now() - startedAt,
+      });
+      previousStatus = status;
+
+      // The first polls after an action may still show the old status, so only
+      // judge the status once the enclave has moved or been updated since
+      initialStatus = initialStatus ?? status;
+      moved = moved || status !== initialStatus;
+      const current = updatedAfter === undefined || moved || Date.parse(enclave.updatedAt) > updatedAfter;
+
+      if (current && targets.includes(status)) {
+        return enclave;
+      }
+
+      if (current && failOn.includes(status)) {
+        const errorLogs = await this.getLatestErrorLogs(enclaveId);
+        throw new EnclaveWaitError(
+          `Enclave ${enclaveId} entered ${status}` +
+            (enclave.error_message ? `: ${enclave.error_message}` : ''),
+          'ENCLAVE_FAILED',
+          enclave,
+          errorLogs
+        );
+      }
+
+      if (moved && !targets.some((target) => canReachStatus(status, target, true))) {
+        throw new EnclaveWaitError(
+          `Enclave ${enclaveId} is ${status}; ${targets.join(' or ')} cannot be reached without further action`,
+          'ENCLAVE_STATUS_UNREACHABLE',
+          enclave
+        );
+      }
+
+      const remaining = timeout - (Date.now() - startedAt);
+      if (remaining <= 0) {
+        throw new EnclaveWaitError(
+          `Timed out after ${timeout}ms waiting for enclave ${enclaveId} to reach ${targets.join(' or ')} (last status: ${status})`,
+          'WAIT_TIMEOUT',
+          enclave
+        );
+      }
+
+      await sleep(Math.min(pollInterval, remaining), options.signal);
+    }
+  }
+
+  /**
+   * Stream enclave log entries in timestamp order
+   *
+   * Merges the per-source groups returned by `getEnclaveLogs`, drops entries
+   * already yielded, and with `follow: true` keeps polling until the signal
+   * aborts or the enclave is destroyed. After the first batch each poll asks
+   * for the entries since the newest one yielded, and pages forward while a
+   * source returns a full page, so bursts larger than `limit` are not lost.
+   * Entries that arrive later with a timestamp older than the newest yielded
+   * entry are skipped.
+   *
+   * @param enclaveId Enclave ID to tail
+   * @param options Sources, start time, follow mode, poll interval and abort signal
+   * @returns Async iterator of log entries
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * for await (const entry of client.tailEnclaveLogs('enc_123', { follow: true, signal: controller.signal })) {
+   *   console.log(new Date(entry.timestamp).toISOString(), entry.source, entry.message);
+   * }
+   * ```
+   */
+  async *tailEnclaveLogs(enclaveId: string, options: TailLogsOptions = {}): AsyncGenerator<LogEntry, void, undefined> {
+    const types: LogSource[] = options.types?.length ? options.types : [...LOG_SOURCES];
+    const since = options.since instanceof Date ? options.since.getTime() : options.since;
+    const pollInterval = options.pollInterval ?? 2000;
+    const limit = options.limit ?? 100;
+    const cursor = new LogCursor(since);
+    let from = since;
+
+    while (!options.signal?.aborted) {
+      // One request covers every source; otherwise fetch the requested ones
+      const responses = types.length === LOG_SOURCES.length
+        ? [await this.getEnclaveLogs(enclaveId, 'all', limit, from)]
+        : await Promise.all(types.map((type) => this.getEnclaveLogs(enclaveId, type, limit, from)));
+
+      const logs: LogsResponse['logs'] = Object.assign({}, ...responses.map((response) => response.logs));
+      // A full page may have more entries after it; stop at the earliest last
+      // entry of a full page so no source skips ahead of another
+      const fullPages = types.map((type) => logs[type] ?? []).filter((entries) => entries.length >= limit);
+      const horizon = Math.min(...fullPages.map((entries) => Math.max(...entries.map(({ timestamp }) => timestamp))));
+      const entries = mergeLogEntries(logs, types).filter(({ timestamp }) => timestamp <= horizon);
+
+      const fresh = cursor.advance(entries);
+      for (const entry of fresh) {
+        if (options.signal?.aborted) return;
+        yield entry;
+      }
+      if (fresh.length > 0) {
+        from = cursor.position;
+      }
+
+      // Fetch the rest of a burst right away, unless the page brought nothing new
+      if (fullPages.length > 0 && fresh.length > 0) continue;
+
+      const destroyed = responses.some((response) => response.enclave_status === 'DESTROYED');
+      if (!options.follow || destroyed) return;
+
+      await sleep(pollInterval, options.signal);
+    }
+  }
+
   // ===== PROVIDER MANAGEMENT =====
 
   /**
@@ -216,8 +690,8 @@ export class TrezaClient {
    */
   async getProviders(): Promise<Provider[]> {
     try {
-      const response: AxiosResponse<ProvidersResponse> = await this.client.get('/api/providers');
-      return response.data.providers;
+      const data = await this.request<ProvidersResponse>('GET', '/api/providers');
+      return data.providers;
     } catch (error) {
       throw this.handleError(error, 'Failed to get providers');
     }
@@ -230,15 +704,29 @@ export class TrezaClient {
    */
   async getProvider(providerId: string): Promise<Provider> {
     try {
-      const response: AxiosResponse<ProviderResponse> = await this.client.get('/api/providers', {
-        params: { id: providerId }
+      const data = await this.request<ProviderResponse>('GET', '/api/providers', undefined, {
+        query: { id: providerId }
       });
-      return response.data.provider;
+      return data.provider;
     } catch (error) {
       throw this.handleError(error, 'Failed to get provider');
     }
   }
 
+  /**
+   * Provider definition used for validation, fetched once per client
+   */
+  private cachedProvider(providerId: string): Promise<Provider> {
+    let provider = this.providers.get(providerId);
+    if (!provider) {
+      provider = this.getProvider(providerId);
+      // Don't cache failures
+      provider.catch(() => this.providers.delete(providerId));
+      this.providers.set(providerId, provider);
+    }
+    return provider;
+  }
+
   // ===== TASK MANAGEMENT =====
 
   /**
@@ -248,24 +736,64 @@ export class TrezaClient {
    */
   async getTasks(walletAddress: string): Promise<Task[]> {
     try {
-      const response: AxiosResponse<TasksResponse> = await this.client.get('/api/tasks', {
-        params: { wallet: walletAddress }
+      const data = await this.request<TasksResponse>('GET', '/api/tasks', undefined, {
+        query: { wallet: walletAddress }
       });
-      return response.data.tasks;
+      return data.tasks.map((task) => withNextRun(task));
     } catch (error) {
       throw this.handleError(error, 'Failed to get tasks');
     }
   }
 
+  /**
+   * Get one page of a wallet's tasks
+   * @param walletAddress Wallet address to filter tasks
+   * @param options Status, enclave and creation-time filters, sort order, page size and cursor
+   * @returns Promise resolving to the page and the cursor for the next one
+   */
+  async getTasksPage(walletAddress: string, options: ListTasksOptions = {}): Promise<Page<Task>> {
+    try {
+      const data = await this.request<TasksResponse>('GET', '/api/tasks', undefined, {
+        query: toListQuery(walletAddress, options),
+        signal: options.signal
+      });
+      return {
+        items: applyListFilters(data.tasks, options).map((task) => withNextRun(task)),
+        nextCursor: data.nextCursor
+      };
+    } catch (error) {
+      throw this.handleError(error, 'Failed to get tasks');
+    }
+  }
+
+  /**
+   * Iterate over a wallet's tasks, fetching further pages as needed
+   * @param walletAddress Wallet address to filter tasks
+   * @param options Filters, sort order, page size, starting cursor and abort signal
+   * @returns Async iterator of tasks
+   */
+  listTasks(walletAddress: string, options: ListTasksOptions = {}): AsyncGenerator<Task, void, undefined> {
+    return paginate(
+      (cursor) => this.getTasksPage(walletAddress, { ...options, cursor }),
+      options.cursor,
+      options.signal
+    );
+  }
+
   /**
    * Create a new task
    * @param request Task creation parameters
+   * @param options Optional idempotency key (generated when omitted)
    * @returns Promise resolving to created task
+   * @throws ValidationError with code `INVALID_SCHEDULE` when the schedule or time zone is invalid
    */
-  async createTask(request: CreateTaskRequest): Promise<Task> {
+  async createTask(request: CreateTaskRequest, options: MutationOptions = {}): Promise<Task> {
     try {
-      const response: AxiosResponse<TaskResponse> = await this.client.post('/api/tasks', request);
-      return response.data.task;
+      assertValidSchedule(request);
+      const data = await this.request<TaskResponse>('POST', '/api/tasks', request, {
+        headers: { [IDEMPOTENCY_HEADER]: options.idempotencyKey || createIdempotencyKey() }
+      });
+      return withNextRun(data.task);
     } catch (error) {
       throw this.handleError(error, 'Failed to create task');
     }
@@ -275,11 +803,13 @@ export class TrezaClient {
    * Update an existing task
    * @param request Task update parameters
    * @returns Promise resolving to updated task
+   * @throws ValidationError with code `INVALID_SCHEDULE` when the schedule or time zone is invalid
    */
   async updateTask(request: UpdateTaskRequest): Promise<Task> {
     try {
-      const response: AxiosResponse<TaskResponse> = await this.client.put('/api/tasks', request);
-      return response.data.task;
+      assertValidSchedule(request);
+      const data = await this.request<TaskResponse>('PUT', '/api/tasks', request);
+      return withNextRun(data.task);
     } catch (error) {
       throw this.handleError(error, 'Failed to update task');
     }
@@ -293,15 +823,93 @@ export class TrezaClient {
    */
   async deleteTask(taskId: string, walletAddress: string): Promise<string> {
     try {
-      const response: AxiosResponse<{ message: string }> = await this.client.delete('/api/tasks', {
-        params: { id: taskId, wallet: walletAddress }
+      const data = await this.request<{ message: string }>('DELETE', '/api/tasks', undefined, {
+        query: { id: taskId, wallet: walletAddress }
       });
-      return response.data.message;
+      return data.message;
     } catch (error) {
       throw this.handleError(error, 'Failed to delete task');
     }
   }
 
+  /**
+   * Get a task's past and in-progress runs, newest first
+   * @param taskId Task ID
+   * @param options Start time, maximum number of runs and abort signal
+   * @returns Promise resolving to the runs
+   */
+  async getTaskRuns(taskId: string, options: GetTaskRunsOptions = {}): Promise<TaskRun[]> {
+    try {
+      const data = await this.request<TaskRunsResponse>('GET', `/api/tasks/${taskId}/runs`, undefined, {
+        query: {
+          since: options.since instanceof Date ? options.since.toISOString() : options.since,
+          limit: options.limit
+        },
+        signal: options.signal
+      });
+      return data.runs;
+    } catch (error) {
+      throw this.handleError(error, 'Failed to get task runs');
+    }
+  }
+
+  /**
+   * Get a single task run
+   * @param runId Run ID
+   * @returns Promise resolving to the run
+   */
+  async getTaskRun(runId: string): Promise<TaskRun> {
+    try {
+      const data = await this.request<TaskRunResponse>('GET', `/api/task-runs/${runId}`);
+      return data.run;
+    } catch (error) {
+      throw this.handleError(error, 'Failed to get task run');
+    }
+  }
+
+  /**
+   * Run a task now, outside its schedule
+   * @param taskId Task ID
+   * @param input Optional input passed to the run
+   * @param options Optional idempotency key (generated when omitted)
+   * @returns Promise resolving to the queued run
+   */
+  async triggerTask(taskId: string, input?: Record<string, unknown>, options: MutationOptions = {}): Promise<TaskRun> {
+    try {
+      const data = await this.request<TaskRunResponse>('POST', `/api/tasks/${taskId}/runs`, { input }, {
+        headers: { [IDEMPOTENCY_HEADER]: options.idempotencyKey || createIdempotencyKey() }
+      });
+      return data.run;
+    } catch (error) {
+      throw this.handleError(error, 'Failed to trigger task');
+    }
+  }
+
+  /**
+   * Cancel a queued or running task run
+   * @param runId Run ID
+   * @returns Promise resolving to the cancelled run
+   */
+  async cancelTaskRun(runId: string): Promise<TaskRun> {
+    try {
+      const data = await this.request<TaskRunResponse>('POST', `/api/task-runs/${runId}/cancel`);
+      return data.run;
+    } catch (error) {
+      throw this.handleError(error, 'Failed to cancel task run');
+    }
+  }
+
+  /**
+   * Get the log entries a task run wrote, oldest first
+   * @param run Run whose `logStream` to read
+   * @param limit Maximum entries fetched per log source before filtering to the run
+   * @returns Promise resolving to the run's log entries
+   */
+  async getTaskRunLogs(run: TaskRun, limit: number = 100): Promise<LogEntry[]> {
+    const logs = await this.getEnclaveLogs(run.enclaveId, 'all', limit);
+    return mergeLogEntries(logs.logs).filter((entry) => entry.stream === run.logStream);
+  }
+
   // ===== API KEY MANAGEMENT =====
 
   /**
@@ -311,24 +919,59 @@ export class TrezaClient {
    */
   async getApiKeys(walletAddress: string): Promise<ApiKey[]> {
     try {
-      const response: AxiosResponse<ApiKeysResponse> = await this.client.get('/api/api-keys', {
-        params: { wallet: walletAddress }
+      const data = await this.request<ApiKeysResponse>('GET', '/api/api-keys', undefined, {
+        query: { wallet: walletAddress }
+      });
+      return data.apiKeys;
+    } catch (error) {
+      throw this.handleError(error, 'Failed to get API keys');
+    }
+  }
+
+  /**
+   * Get one page of a wallet's API keys
+   * @param walletAddress Wallet address to filter API keys
+   * @param options Status and creation-time filters, sort order, page size and cursor
+   * @returns Promise resolving to the page and the cursor for the next one
+   */
+  async getApiKeysPage(walletAddress: string, options: ListApiKeysOptions = {}): Promise<Page<ApiKey>> {
+    try {
+      const data = await this.request<ApiKeysResponse>('GET', '/api/api-keys', undefined, {
+        query: toListQuery(walletAddress, options),
+        signal: options.signal
       });
-      return response.data.apiKeys;
+      return { items: applyListFilters(data.apiKeys, options), nextCursor: data.nextCursor };
     } catch (error) {
       throw this.handleError(error, 'Failed to get API keys');
     }
   }
 
+  /**
+   * Iterate over a wallet's API keys, fetching further pages as needed
+   * @param walletAddress Wallet address to filter API keys
+   * @param options Filters, sort order, page size, starting cursor and abort signal
+   * @returns Async iterator of API keys
+   */
+  listApiKeys(walletAddress: string, options: ListApiKeysOptions = {}): AsyncGenerator<ApiKey, void, undefined> {
+    return paginate(
+      (cursor) => this.getApiKeysPage(walletAddress, { ...options, cursor }),
+      options.cursor,
+      options.signal
+    );
+  }
+
   /**
    * Create a new API key
    * @param request API key creation parameters
+   * @param options Optional idempotency key (generated when omitted)
    * @returns Promise resolving to created API key
    */
-  async createApiKey(request: CreateApiKeyRequest): Promise<ApiKey> {
+  async createApiKey(request: CreateApiKeyRequest, options: MutationOptions = {}): Promise<ApiKey> {
     try {
-      const response: AxiosResponse<ApiKeyResponse> = await this.client.post('/api/api-keys', request);
-      return response.data.apiKey;
+      const data = await this.request<ApiKeyResponse>('POST', '/api/api-keys', request, {
+        headers: { [IDEMPOTENCY_HEADER]: options.idempotencyKey || createIdempotencyKey() }
+      });
+      return data.apiKey;
     } catch (error) {
       throw this.handleError(error, 'Failed to create API key');
     }
@@ -341,8 +984,8 @@ export class TrezaClient {
    */
   async updateApiKey(request: UpdateApiKeyRequest): Promise<ApiKey> {
     try {
-      const response: AxiosResponse<ApiKeyResponse> = await this.client.put('/api/api-keys', request);
-      return response.data.apiKey;
+      const data = await this.request<ApiKeyResponse>('PUT', '/api/api-keys', request);
+      return data.apiKey;
     } catch (error) {
       throw this.handleError(error, 'Failed to update API key');
     }
@@ -356,15 +999,117 @@ export class TrezaClient {
    */
   async deleteApiKey(apiKeyId: string, walletAddress: string): Promise<string> {
     try {
-      const response: AxiosResponse<{ message: string }> = await this.client.delete('/api/api-keys', {
-        params: { id: apiKeyId, wallet: walletAddress }
+      const data = await this.request<{ message: string }>('DELETE', '/api/api-keys', undefined, {
+        query: { id: apiKeyId, wallet: walletAddress }
       });
-      return response.data.message;
+      return data.message;
     } catch (error) {
       throw this.handleError(error, 'Failed to delete API key');
     }
   }
 
+  /**
+   * Replace an API key with a new one that has the same permissions
+   *
+   * Creates the replacement and passes its secret to `onNewSecret`, keeps
+   * both keys active for `overlapSeconds` so running services can pick up
+   * the new secret, then deactivates and deletes the old key.
+   *
+   * @param apiKeyId API key ID to rotate
+   * @param walletAddress Wallet address that owns the key
+   * @param options Overlap window, replacement name, hooks and abort signal
+   * @returns Promise resolving to the replacement, with its secret, and the revoked key
+   * @throws ApiKeyRotationError when the rotation stops after the replacement was created
+   *
+   * @example
+   * ```typescript
+   * const { newKey } = await client.rotateApiKey('key_123', WALLET_ADDRESS, {
+   *   overlapSeconds: 600,
+   *   onNewSecret: (key) => secrets.put('treza-api-key', key.key),
+   * });
+   * ```
+   */
+  async rotateApiKey(apiKeyId: string, walletAddress: string, options: RotateApiKeyOptions = {}): Promise<ApiKeyRotation> {
+    let oldKey: ApiKey | undefined;
+    for await (const apiKey of this.listApiKeys(walletAddress)) {
+      if (apiKey.id === apiKeyId) {
+        oldKey = apiKey;
+        break;
+      }
+    }
+    if (!oldKey) {
+      throw new NotFoundError(`API key ${apiKeyId} not found`, { details: { apiKeyId } });
+    }
+
+    const newKey = await this.createApiKey({
+      name: options.name ?? oldKey.name,
+      permissions: oldKey.permissions,
+      walletAddress,
+    });
+
+    try {
+      if (!newKey.key) {
+        throw new TrezaSdkError('The platform did not return the secret of the new API key', 'UNKNOWN_ERROR');
+      }
+      await options.onNewSecret?.({ ...newKey, key: newKey.key }, oldKey);
+    } catch (error) {
+      const removed = await this.deleteApiKey(newKey.id, walletAddress).then(() => true, () => false);
+      throw new ApiKeyRotationError(
+        removed
+          ? `Rotation of API key ${apiKeyId} aborted: ${(error as Error).message}`
+          : `Rotation of API key ${apiKeyId} aborted, and replacement ${newKey.id} could not be deleted: ${(error as Error).message}`,
+        removed ? 'ROTATION_ABORTED' : 'ROTATION_INCOMPLETE',
+        oldKey,
+        removed ? undefined : newKey,
+        { cause: error }
+      );
+    }
+
+    await sleep((options.overlapSeconds ?? 300) * 1000, options.signal);
+    try {
+      if (options.signal?.aborted) {
+        throw new TrezaSdkError('Stopped waiting out the overlap window', 'ABORTED');
+      }
+      await this.updateApiKey({ id: oldKey.id, walletAddress, status: 'inactive' });
+      await this.deleteApiKey(oldKey.id, walletAddress);
+    } catch (error) {
+      throw new ApiKeyRotationError(
+        `API key ${newKey.id} replaces ${apiKeyId}, but ${apiKeyId} was not revoked: ${(error as Error).message}`,
+        'ROTATION_INCOMPLETE',
+        oldKey,
+        newKey,
+        { cause: error }
+      );
+    }
+
+    await options.onOldKeyRevoked?.(oldKey);
+    return { newKey, oldKey };
+  }
+
+  /**
+   * Find API keys that have not been used for a while, longest idle first
+   * @param walletAddress Wallet address that owns the keys
+   * @param options Idle threshold, whether to include inactive keys, and abort signal
+   * @returns Promise resolving to the idle keys
+   */
+  async getStaleApiKeys(walletAddress: string, options: StaleApiKeysOptions = {}): Promise<StaleApiKey[]> {
+    const threshold = options.unusedForDays ?? 90;
+    const now = Date.now();
+    const stale: StaleApiKey[] = [];
+
+    for await (const apiKey of this.listApiKeys(walletAddress, { signal: options.signal })) {
+      if (apiKey.status !== 'active' && !options.includeInactive) continue;
+
+      const lastActivity = apiKey.lastUsed ?? apiKey.createdAt;
+      const idleDays = Math.max(0, Math.floor((now - Date.parse(lastActivity)) / 86_400_000));
+      if (idleDays >= threshold) {
+        stale.push({ apiKey, lastActivity, idleDays, neverUsed: !apiKey.lastUsed });
+      }
+    }
+
+    return stale.sort((a, b) => b.idleDays - a.idleDays);
+  }
+
   // ===== GITHUB INTEGRATION =====
 
   /**
@@ -375,10 +1120,10 @@ export class TrezaClient {
   async getGitHubAuthUrl(state?: string): Promise<GitHubAuthResponse> {
     try {
       const params = state ? { state } : {};
-      const response: AxiosResponse<GitHubAuthResponse> = await this.client.get('/api/github/auth', {
-        params
+      const data = await this.request<GitHubAuthResponse>('GET', '/api/github/auth', undefined, {
+        query: params
       });
-      return response.data;
+      return data;
     } catch (error) {
       throw this.handleError(error, 'Failed to get GitHub auth URL');
     }
@@ -391,8 +1136,8 @@ export class TrezaClient {
    */
   async exchangeGitHubCode(request: GitHubTokenRequest): Promise<GitHubTokenResponse> {
     try {
-      const response: AxiosResponse<GitHubTokenResponse> = await this.client.post('/api/github/auth', request);
-      return response.data;
+      const data = await this.request<GitHubTokenResponse>('POST', '/api/github/auth', request);
+      return data;
     } catch (error) {
       throw this.handleError(error, 'Failed to exchange GitHub OAuth code');
     }
@@ -405,10 +1150,11 @@ export class TrezaClient {
    */
   async getGitHubRepositories(accessToken: string): Promise<RepositoriesResponse> {
     try {
-      const response: AxiosResponse<RepositoriesResponse> = await this.client.get('/api/github/repositories', {
-        params: { token: accessToken }
+      // In a header, the token stays out of URLs that proxies and access logs record
+      const data = await this.request<RepositoriesResponse>('GET', '/api/github/repositories', undefined, {
+        headers: { 'X-GitHub-Token': accessToken }
       });
-      return response.data;
+      return data;
     } catch (error) {
       throw this.handleError(error, 'Failed to get GitHub repositories');
     }
@@ -421,13 +1167,231 @@ export class TrezaClient {
    */
   async getRepositoryBranches(request: GetBranchesRequest): Promise<BranchesResponse> {
     try {
-      const response: AxiosResponse<BranchesResponse> = await this.client.post('/api/github/repositories', request);
-      return response.data;
+      const data = await this.request<BranchesResponse>('POST', '/api/github/repositories', request);
+      return data;
     } catch (error) {
       throw this.handleError(error, 'Failed to get repository branches');
     }
   }
 
+  /**
+   * Build and deploy an enclave from a GitHub branch
+   *
+   * Checks that the branch exists, pins the build to one commit (the branch
+   * head unless `commitSha` is given), creates the enclave with
+   * `sourceType: 'github'`, then polls until it is DEPLOYED, reporting the
+   * CodeBuild build ID and status along the way.
+   *
+   * @param request Repository, branch, optional commit and the enclave's settings
+   * @param options Idempotency key, validation, wait limits and progress callback
+   * @returns Promise resolving to the deployed enclave and the commit it was built from
+   * @throws NotFoundError when the branch does not exist
+   * @throws ValidationError when `commitSha` can't be resolved to a full SHA
+   * @throws EnclaveWaitError when the build or deployment fails, times out or is aborted
+   *
+   * @example
+   * ```typescript
+   * const { enclave, commitSha } = await client.deployFromGitHub({
+   *   repo: 'acme/signer', branch: 'main', accessToken: githubToken,
+   *   region: 'us-east-1', walletAddress: WALLET_ADDRESS, providerId: 'aws-nitro',
+   * }, {
+   *   onProgress: ({ status, buildStatus, buildChanged }) => {
+   *     if (buildChanged) console.log(`${status}: build ${buildStatus}`);
+   *   },
+   * });
+   * ```
+   */
+  async deployFromGitHub(request: DeployFromGitHubRequest, options: DeployFromGitHubOptions = {}): Promise<GitHubDeployment> {
+    const { repo, branch, commitSha, accessToken, ...settings } = request;
+
+    const { branches } = await this.getRepositoryBranches({ accessToken, repository: repo });
+    const head = branches.find(({ name }) => name === branch);
+    if (!head) {
+      throw new NotFoundError(`Branch ${branch} not found in ${repo}`, {
+        details: { repo, branch, branches: branches.map(({ name }) => name) },
+      });
+    }
+
+    let sha = head.commit.sha;
+    if (commitSha !== undefined && !sha.startsWith(commitSha.toLowerCase())) {
+      // Only the head of each branch is known, so other commits must be given in full
+      if (!/^[0-9a-f]{40}$/i.test(commitSha)) {
+        throw new ValidationError(
+          `Commit ${commitSha} is not the head of ${repo}@${branch}; pass its full 40-character SHA`,
+          { fieldErrors: [{ field: 'commitSha', message: 'must be a full SHA or a prefix of the branch head', keyword: 'format', value: commitSha }] }
+        );
+      }
+      sha = commitSha.toLowerCase();
+    }
+
+    const created = await this.createEnclave(
+      {
+        ...settings,
+        name: settings.name ?? repo.split('/').pop()!,
+        description: settings.description ?? `Built from ${repo}@${branch}`,
+        sourceType: 'github',
+        githubConnection: { isConnected: true, selectedRepo: repo, selectedBranch: branch, selectedCommit: sha, accessToken },
+      },
+      { idempotencyKey: options.idempotencyKey, validate: options.validate }
+    );
+
+    const enclave = await this.waitForBuild(created.id, options);
+
+    return {
+      enclave,
+      repo,
+      branch,
+      commitSha: enclave.githubConnection?.selectedCommit ?? sha,
+      buildId: enclave.buildId,
+      buildLogGroup: enclave.buildLogGroup,
+    };
+  }
+
+  /**
+   * Compare a GitHub-sourced enclave with the head of its branch
+   *
+   * The deployed commit is the one pinned in `githubConnection.selectedCommit`
+   * by the enclave's last build. With `redeploy`, an enclave that is behind
+   * is rebuilt from the branch head with `updateEnclave`, and the call waits
+   * until it is DEPLOYED and its attestation reports new PCRs.
+   *
+   * @param enclaveId Enclave ID to check
+   * @param options GitHub token, whether to redeploy, and wait limits
+   * @returns Promise resolving to the deployed and head commits, and the rebuild if one ran
+   * @throws ValidationError when the enclave is not deployed from a GitHub branch
+   * @throws ConfigurationError when no GitHub access token is available
+   * @throws EnclaveWaitError when the rebuild fails, times out or is aborted
+   *
+   * @example
+   * ```typescript
+   * const drift = await client.checkEnclaveDrift('enc_123', { redeploy: true });
+   * if (drift.redeployment) console.log(`Rebuilt at ${drift.headCommit}, PCR0 ${drift.redeployment.pcrs[0]}`);
+   * ```
+   */
+  async checkEnclaveDrift(enclaveId: string, options: CheckEnclaveDriftOptions = {}): Promise<EnclaveDrift> {
+    const enclave = await this.getEnclave(enclaveId);
+    const connection = enclave.githubConnection;
+    if (enclave.sourceType !== 'github' || !connection?.selectedRepo || !connection.selectedBranch) {
+      throw new ValidationError(`Enclave ${enclaveId} is not deployed from a GitHub branch`, {
+        details: { enclaveId, sourceType: enclave.sourceType },
+      });
+    }
+    const { accessToken } = options;
+    if (!accessToken) {
+      throw new ConfigurationError(`No GitHub access token to look up ${connection.selectedRepo}; pass accessToken`);
+    }
+
+    const repo = connection.selectedRepo;
+    const branch = connection.selectedBranch;
+    const { branches } = await this.getRepositoryBranches({ accessToken, repository: repo });
+    const head = branches.find(({ name }) => name === branch);
+    if (!head) {
+      throw new NotFoundError(`Branch ${branch} not found in ${repo}`, {
+        details: { repo, branch, branches: branches.map(({ name }) => name) },
+      });
+    }
+
+    const deployedCommit = connection.selectedCommit;
+    const headCommit = head.commit.sha;
+    const drift: EnclaveDrift = {
+      enclave,
+      repo,
+      branch,
+      deployedCommit,
+      headCommit,
+      drifted: deployedCommit?.toLowerCase() !== headCommit.toLowerCase(),
+      buildId: enclave.buildId,
+    };
+    if (!options.redeploy || !drift.drifted) {
+      return drift;
+    }
+
+    const startedAt = Date.now();
+    const timeout = options.timeout ?? 15 * 60 * 1000;
+    const previousPcrs = enclave.status === 'DEPLOYED'
+      ? (await this.getAttestation(enclaveId)).attestationDocument.pcrs
+      : undefined;
+
+    const updated = await this.updateEnclave({
+      id: enclaveId,
+      walletAddress: enclave.walletAddress,
+      githubConnection: { ...connection, accessToken, selectedCommit: headCommit },
+    });
+    const redeployed = await this.waitForBuild(enclaveId, { ...options, updatedAfter: updated.updatedAt });
+    const pcrs = await this.waitForNewPcrs(redeployed, previousPcrs, {
+      ...options,
+      timeout: timeout - (Date.now() - startedAt),
+    });
+
+    return {
+      ...drift,
+      enclave: redeployed,
+      redeployment: {
+        commitSha: redeployed.githubConnection?.selectedCommit ?? headCommit,
+        buildId: redeployed.buildId,
+        previousPcrs,
+        pcrs,
+      },
+    };
+  }
+
+  /**
+   * Wait for a GitHub-sourced enclave to build and deploy, reporting build progress
+   */
+  private waitForBuild(
+    enclaveId: string,
+    options: Pick<DeployFromGitHubOptions, 'timeout' | 'pollInterval' | 'signal' | 'onProgress'>
+      & Pick<WaitForEnclaveOptions, 'updatedAfter'>
+  ): Promise<Enclave> {
+    let previous: Enclave | undefined;
+    return this.waitForEnclave(enclaveId, {
+      timeout: options.timeout,
+      pollInterval: options.pollInterval,
+      updatedAfter: options.updatedAfter,
+      signal: options.signal,
+      onProgress: (event) => {
+        const { buildId, buildStatus } = event.enclave;
+        options.onProgress?.({
+          ...event,
+          buildId,
+          buildStatus,
+          buildChanged: buildId !== previous?.buildId || buildStatus !== previous?.buildStatus,
+        });
+        previous = event.enclave;
+      },
+    });
+  }
+
+  /**
+   * Poll a redeployed enclave's attestation until its image measurement (PCR0)
+   * differs from the one attested before the rebuild
+   */
+  private async waitForNewPcrs(
+    enclave: Enclave,
+    previousPcrs: AttestationDocument['pcrs'] | undefined,
+    options: { timeout: number; pollInterval?: number; signal?: AbortSignal }
+  ): Promise<AttestationDocument['pcrs']> {
+    const deadline = Date.now() + options.timeout;
+    for (;;) {
+      const { pcrs } = (await this.getAttestation(enclave.id)).attestationDocument;
+      if (!previousPcrs || pcrs[0] !== previousPcrs[0]) {
+        return pcrs;
+      }
+      if (options.signal?.aborted) {
+        throw new EnclaveWaitError(`Stopped waiting for new PCRs from enclave ${enclave.id}`, 'WAIT_ABORTED', enclave);
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new EnclaveWaitError(
+          `Enclave ${enclave.id} redeployed, but its attestation still reports the PCRs of the previous build`,
+          'WAIT_TIMEOUT',
+          enclave
+        );
+      }
+      await sleep(Math.min(options.pollInterval ?? 5000, remaining), options.signal);
+    }
+  }
+
   // ===== DOCKER INTEGRATION =====
 
   /**
@@ -437,10 +1401,10 @@ export class TrezaClient {
    */
   async searchDockerImages(query: string): Promise<DockerSearchResponse> {
     try {
-      const response: AxiosResponse<DockerSearchResponse> = await this.client.get('/api/docker/search', {
-        params: { q: query }
+      const data = await this.request<DockerSearchResponse>('GET', '/api/docker/search', undefined, {
+        query: { q: query }
       });
-      return response.data;
+      return data;
     } catch (error) {
       throw this.handleError(error, 'Failed to search Docker images');
     }
@@ -453,26 +1417,112 @@ export class TrezaClient {
    */
   async getDockerTags(repository: string): Promise<DockerTagsResponse> {
     try {
-      const response: AxiosResponse<DockerTagsResponse> = await this.client.get('/api/docker/search', {
-        params: { repo: repository }
+      const data = await this.request<DockerTagsResponse>('GET', '/api/docker/search', undefined, {
+        query: { repo: repository }
       });
-      return response.data;
+      return data;
     } catch (error) {
       throw this.handleError(error, 'Failed to get Docker tags');
     }
   }
 
+  /**
+   * Resolve a Docker Hub tag to the digest it currently points at
+   *
+   * @param image Image reference such as `nginx:1.27`; the tag defaults to `latest`
+   * @returns The pinned reference `repository@sha256:...`, the tag and its digest
+   * @throws NotFoundError when the repository has no such tag
+   * @throws ValidationError for images outside Docker Hub and references without a tag
+   *
+   * @example
+   * ```typescript
+   * const { image } = await client.resolveDockerImage('nginx:1.27');
+   * // 'nginx@sha256:...'
+   * ```
+   */
+  async resolveDockerImage(image: string): Promise<ResolvedDockerImage> {
+    const reference = parseDockerImage(image);
+    if (reference.registry !== undefined) {
+      throw new ValidationError(`Docker image ${image} is not on Docker Hub and can't be resolved`, { code: 'UNRESOLVABLE_IMAGE' });
+    }
+    if (reference.tag === undefined && reference.digest !== undefined) {
+      throw new ValidationError(`Docker image ${image} has no tag to resolve`, { code: 'UNRESOLVABLE_IMAGE' });
+    }
+
+    const tagName = reference.tag ?? 'latest';
+    const { tags } = await this.getDockerTags(reference.repository);
+    const tag = tags.find(({ name }) => name === tagName);
+    if (!tag) {
+      throw new NotFoundError(`Docker image ${reference.repository} has no tag ${tagName}`);
+    }
+    return {
+      image: formatDockerImage({ repository: reference.repository, digest: tag.digest }),
+      tag: formatDockerImage({ repository: reference.repository, tag: tagName }),
+      digest: tag.digest,
+      lastUpdated: tag.lastUpdated,
+    };
+  }
+
+  /**
+   * Check whether the tag an enclave's Docker image was pinned from has moved
+   *
+   * Compares the digest in `providerConfig.dockerImage` with the digest
+   * `providerConfig.dockerImageTag` points at on Docker Hub now. Enclaves
+   * running an unpinned tag are reported with `moved: false` and no
+   * `pinnedDigest`; update them with `pinDockerImages` on to pin them.
+   *
+   * @param enclaveId Enclave to check
+   * @returns The pinned and current digests
+   * @throws ValidationError when the enclave does not run a Docker image
+   *
+   * @example
+   * ```typescript
+   * const drift = await client.checkImageDrift(enclaveId);
+   * if (drift.moved) console.warn(`${drift.tag} has moved since ${enclaveId} was pinned to ${drift.pinnedDigest}`);
+   * ```
+   */
+  async checkImageDrift(enclaveId: string): Promise<ImageDrift> {
+    const enclave = await this.getEnclave(enclaveId);
+    const image = enclave.providerConfig?.dockerImage;
+    if (typeof image !== 'string' || enclave.sourceType === 'github') {
+      throw new ValidationError(`Enclave ${enclaveId} does not run a Docker image`, {
+        details: { enclaveId, sourceType: enclave.sourceType },
+      });
+    }
+
+    const pinnedDigest = isPinnedImage(image) ? parseDockerImage(image).digest : undefined;
+    const recordedTag = enclave.providerConfig?.dockerImageTag;
+    const tag = typeof recordedTag === 'string' ? recordedTag : pinnedDigest === undefined ? image : undefined;
+    if (tag === undefined || parseDockerImage(tag).registry !== undefined) {
+      return { enclave, image, tag, pinnedDigest, moved: false };
+    }
+
+    const { digest: currentDigest } = await this.resolveDockerImage(tag);
+    return {
+      enclave,
+      image,
+      tag,
+      pinnedDigest,
+      currentDigest,
+      moved: pinnedDigest !== undefined && currentDigest !== pinnedDigest,
+    };
+  }
+
   // ===== ATTESTATION METHODS =====
 
   /**
    * Get attestation document and verification details for a deployed enclave
    * @param enclaveId Enclave identifier
+   * @param options Optional nonce the enclave should embed in a freshly generated document
    * @returns Promise resolving to attestation data with verification details
    */
-  async getAttestation(enclaveId: string): Promise<AttestationResponse> {
+  async getAttestation(enclaveId: string, options: { nonce?: string } = {}): Promise<AttestationResponse> {
     try {
-      const response: AxiosResponse<AttestationResponse> = await this.client.get(`/api/enclaves/${enclaveId}/attestation`);
-      return response.data;
+      const data = await this.request<AttestationResponse>('GET', `/api/enclaves/${enclaveId}/attestation`, undefined, {
+        query: { nonce: options.nonce }
+      });
+      this.attestationCache.observeAttestation(enclaveId, data.attestationDocument);
+      return data;
     } catch (error) {
       throw this.handleError(error, 'Failed to get attestation document');
     }
@@ -485,8 +1535,8 @@ export class TrezaClient {
    */
   async getVerificationStatus(enclaveId: string): Promise<VerificationStatus> {
     try {
-      const response: AxiosResponse<VerificationStatus> = await this.client.get(`/api/enclaves/${enclaveId}/attestation/verify`);
-      return response.data;
+      const data = await this.request<VerificationStatus>('GET', `/api/enclaves/${enclaveId}/attestation/verify`);
+      return data;
     } catch (error) {
       throw this.handleError(error, 'Failed to get verification status');
     }
@@ -500,16 +1550,39 @@ export class TrezaClient {
    */
   async verifyAttestation(enclaveId: string, request?: VerificationRequest): Promise<VerificationResult> {
     try {
-      const response: AxiosResponse<VerificationResult> = await this.client.post(
-        `/api/enclaves/${enclaveId}/attestation/verify`,
-        request || {}
-      );
-      return response.data;
+      const data = await this.request<VerificationResult>('POST', `/api/enclaves/${enclaveId}/attestation/verify`, request || {});
+      return data;
     } catch (error) {
       throw this.handleError(error, 'Failed to verify attestation');
     }
   }
 
+  /**
+   * Verify an enclave's attestation document inside the SDK
+   *
+   * Fetches the raw Nitro attestation document and checks its certificate
+   * chain against the bundled AWS Nitro root, its ECDSA-P384 signature,
+   * freshness and nonce, without trusting the platform's own verdict.
+   *
+   * @param enclaveId Enclave identifier
+   * @param options Expected nonce, freshness window and trust anchor
+   * @returns Promise resolving to a locally computed verification result
+   */
+  async verifyAttestationLocally(enclaveId: string, options: LocalVerificationOptions = {}): Promise<LocalVerificationResult> {
+    const attestation = await this.getAttestation(enclaveId, { nonce: options.nonce });
+
+    if (!attestation.rawDocument) {
+      throw new TrezaSdkError(
+        `Enclave ${enclaveId} did not return a raw attestation document`,
+        'ATTESTATION_DOCUMENT_UNAVAILABLE'
+      );
+    }
+
+    // Loaded on demand: the verifier needs Node's crypto module
+    const { verifyNitroAttestation } = await import('./attestation/nitro-verifier');
+    return verifyNitroAttestation(attestation.rawDocument, options);
+  }
+
   /**
    * Generate code snippets for integrating with enclave attestation
    * @param enclaveId Enclave identifier
@@ -604,7 +1677,7 @@ HttpResponse<String> verifyResponse = client.send(verifyRequest,
 System.out.println("Verification result: " + verifyResponse.body());`;
 
         default:
-          throw new TrezaSdkError('Unsupported language', 'INVALID_LANGUAGE');
+          throw new ValidationError('Unsupported language', { code: 'INVALID_LANGUAGE' });
       }
     } catch (error) {
       throw this.handleError(error, 'Failed to generate integration snippet');
@@ -618,28 +1691,149 @@ System.out.println("Verification result: " + verifyResponse.body());`;
   /**
    * Handle API errors and convert them to TrezaSdkError
    */
-  private handleApiError(error: AxiosError): TrezaSdkError {
-    if (error.response) {
-      // Server responded with error status
-      const statusCode = error.response.status;
-      const errorData = error.response.data as ApiError;
-      
-      return new TrezaSdkError(
-        errorData?.error || error.message,
-        `HTTP_${statusCode}`,
-        { response: errorData },
-        statusCode
-      );
-    } else if (error.request) {
-      // Network error
-      return new TrezaSdkError(
-        'Network error: Unable to reach Treza API',
-        'NETWORK_ERROR'
+  private handleApiError(response: TrezaResponse): TrezaSdkError {
+    const statusCode = response.status;
+    const errorData = response.data as ApiError;
+    const options = {
+      details: { response: errorData },
+      requestId: requestIdFrom(response.headers, errorData),
+    };
+
+    // A 403 for an authenticated client means the key lacks a scope
+    if (statusCode === 403 && (errorData?.requiredScope || this.isAuthenticated())) {
+      return new PermissionError(errorData?.error || 'API key is missing a required permission', {
+        ...options,
+        details: { response: errorData, requiredScope: errorData?.requiredScope },
+        requiredScope: errorData?.requiredScope,
+      });
+    }
+
+    return createHttpError(statusCode, errorData?.error || `Request failed with status code ${statusCode}`, {
+      ...options,
+      retryAfterMs: statusCode === 429 ? parseRetryAfter(response.headers['retry-after']) : undefined,
+    });
+  }
+
+  /**
+   * Run a request through the pipeline and map error statuses to errors
+   */
+  private async execute<T>(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    options: RequestOptions = {},
+    authenticate: boolean
+  ): Promise<T> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      headers[name.toLowerCase()] = value;
+    }
+
+    if (authenticate) {
+      await this.assertScope(method, path);
+    }
+
+    const middleware = [createRetryMiddleware(this.retryPolicy), ...this.middleware];
+    if (authenticate) {
+      middleware.push(
+        createAuthMiddleware(
+          (forceRefresh) => this.resolveAccessToken(forceRefresh),
+          () => Boolean(this.getAccessToken)
+        )
       );
-    } else {
-      // Other error
-      return new TrezaSdkError(error.message, 'UNKNOWN_ERROR');
     }
+
+    const response = await composeMiddleware(middleware, (request) => this.send(request))({
+      method,
+      path,
+      query: options.query,
+      headers,
+      body,
+      signal: options.signal,
+      attempt: 0,
+    });
+
+    if (response.status >= 400) {
+      throw this.handleApiError(response);
+    }
+    return omitStoredSecrets(response.data) as T;
+  }
+
+  /**
+   * With `checkScopes`, reject a request the configured API key lacks the
+   * permission for before it is sent
+   */
+  private async assertScope(method: HttpMethod, path: string): Promise<void> {
+    const scope = requiredScope(method, path);
+    if (!scope || !this.checkScopes || !this.apiKey || this.getAccessToken) {
+      return;
+    }
+
+    if (!this.identity) {
+      const identity = this.whoAmI();
+      // Don't cache failures
+      identity.catch(() => {
+        if (this.identity === identity) this.identity = undefined;
+      });
+      this.identity = identity;
+    }
+
+    const { authMethod, apiKeyId, permissions } = await this.identity;
+    if (authMethod === 'api-key' && !permissions.includes(scope)) {
+      throw new PermissionError(`API key ${apiKeyId} is missing permission ${scope}`, {
+        details: { apiKeyId, permissions, requiredScope: scope },
+        requiredScope: scope,
+      });
+    }
+  }
+
+  /**
+   * Send a request over HTTP. Error statuses resolve normally; only
+   * failures to get a response are thrown.
+   */
+  private async send(request: TrezaRequest): Promise<TrezaResponse> {
+    try {
+      const response = await this.transport.send({
+        method: request.method,
+        url: buildUrl(this.baseUrl, request.path, request.query),
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal,
+        timeout: this.timeout,
+      });
+      return { ...response, request };
+    } catch (error) {
+      throw new NetworkError('Network error: Unable to reach Treza API', { cause: error });
+    }
+  }
+
+  /**
+   * Fetch the most recent error logs for an enclave, ignoring failures
+   */
+  private async getLatestErrorLogs(enclaveId: string, limit: number = 20): Promise<LogEntry[]> {
+    try {
+      const response = await this.getEnclaveLogs(enclaveId, 'errors', limit);
+      return response.logs.errors || [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Resolve the bearer token for a request, preferring the token provider
+   */
+  private async resolveAccessToken(forceRefresh: boolean): Promise<string | undefined> {
+    if (this.getAccessToken) {
+      try {
+        return await this.getAccessToken({ forceRefresh });
+      } catch (error: any) {
+        throw new AuthError(`Failed to obtain access token: ${error?.message || error}`, {
+          code: 'AUTH_TOKEN_ERROR',
+          cause: error,
+        });
+      }
+    }
+    return this.apiKey;
   }
 
   /**
@@ -652,7 +1846,10 @@ System.out.println("Verification result: " + verifyResponse.body());`;
     
     return new TrezaSdkError(
       error.message || defaultMessage,
-      'UNKNOWN_ERROR'
+      'UNKNOWN_ERROR',
+      undefined,
+      undefined,
+      { cause: error }
     );
   }
 } 
\ No newline at end of file
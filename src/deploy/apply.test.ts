@@ -0,0 +1,84 @@
+import { applyDeployment, formatApplyResult } from './apply';
+import { planDeployment } from './plan';
+import { DeploymentSpec } from './types';
+import { MockTrezaPlatform } from '../testing';
+
+const WALLET = '0x742d35Cc6634C0532925a3b8D598C4C0532925a3';
+
+const spec: DeploymentSpec = {
+  walletAddress: WALLET,
+  enclaves: [{
+    name: 'signer',
+    region: 'us-east-1',
+    providerId: 'aws-nitro',
+    dockerImage: 'treza/signer:1.3',
+    tasks: [{ name: 'rotate-keys', schedule: '0 0 * * *' }],
+  }],
+};
+
+describe('applyDeployment', () => {
+  it('creates enclaves and attaches their tasks', async () => {
+    const platform = new MockTrezaPlatform();
+    const client = platform.createClient();
+
+    const result = await applyDeployment(client, spec);
+
+    expect(result.failed).toEqual([]);
+    expect(formatApplyResult(result)).toBe('Apply complete! Resources: 2 added, 0 changed, 0 destroyed.');
+    const [enclave] = await client.getEnclaves(WALLET);
+    expect(enclave).toMatchObject({ name: 'signer', providerConfig: { dockerImage: 'treza/signer:1.3' } });
+    expect(await client.getTasks(WALLET)).toEqual([
+      expect.objectContaining({ name: 'rotate-keys', enclaveId: enclave.id }),
+    ]);
+  });
+
+  it('converges: a second apply has nothing to do', async () => {
+    const platform = new MockTrezaPlatform();
+    const client = platform.createClient();
+
+    await applyDeployment(client, spec);
+    const result = await applyDeployment(client, spec);
+
+    expect(result.plan.changes).toEqual([]);
+  });
+
+  it('terminates pruned enclaves', async () => {
+    const platform = new MockTrezaPlatform();
+    const client = platform.createClient();
+    await applyDeployment(client, spec);
+    const legacy = platform.seedEnclave({ name: 'legacy', walletAddress: WALLET });
+
+    const result = await applyDeployment(client, spec, { prune: true });
+
+    expect(result.applied).toEqual([expect.objectContaining({ action: 'terminate', enclaveId: legacy.id })]);
+    expect(formatApplyResult(result)).toBe('Apply complete! Resources: 0 added, 0 changed, 1 destroyed.');
+    expect(['PENDING_DESTROY', 'DESTROYING', 'DESTROYED']).toContain(platform.getEnclave(legacy.id)?.status);
+  });
+
+  it('makes no changes on a dry run, including destructive ones', async () => {
+    const platform = new MockTrezaPlatform();
+    const legacy = platform.seedEnclave({ name: 'legacy', walletAddress: WALLET });
+
+    const result = await applyDeployment(platform.createClient(), spec, { prune: true, dryRun: true });
+
+    expect(result.applied).toEqual([]);
+    expect(result.skipped.map(({ action }) => action)).toEqual(['create', 'create', 'terminate']);
+    expect(platform.getEnclave(legacy.id)?.status).toBe('DEPLOYED');
+  });
+
+  it('applies a saved plan and reports failed changes with their context', async () => {
+    const platform = new MockTrezaPlatform();
+    const client = platform.createClient({ retry: false });
+    const plan = await planDeployment(client, spec);
+    platform.failNext({ method: 'POST', path: '/api/enclaves' }, { status: 400, data: { error: 'Region unavailable' } });
+
+    const result = await applyDeployment(client, plan);
+
+    expect(result.failed).toHaveLength(1);
+    expect(result.skipped).toEqual([expect.objectContaining({ resource: 'task', name: 'rotate-keys' })]);
+    expect(formatApplyResult(result)).toBe([
+      'Apply finished with errors. Resources: 0 added, 0 changed, 0 destroyed.',
+      'Error: Failed to create enclave "signer": Region unavailable',
+    ].join('\n'));
+  });
+});
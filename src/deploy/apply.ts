@@ -0,0 +1,149 @@
+/**
+ * Deployment apply
+ *
+ * Makes the changes in a DeploymentPlan, in order. A failed change does
+ * not stop the run: later changes still go ahead, except the tasks of an
+ * enclave that failed to be created, which are skipped.
+ */
+
+import type { TrezaClient } from '../client';
+import { toTrezaError } from '../errors';
+import { planDeployment } from './plan';
+import { ApplyOptions, ApplyResult, DeploymentPlan, DeploymentSpec, EnclaveChange, PlannedChange, TaskChange } from './types';
+
+/**
+ * Converge a wallet's enclaves on a spec, or make the changes of a saved plan
+ *
+ * @param client Client for the wallet's platform account
+ * @param specOrPlan Desired enclaves (planned first), or a plan from `planDeployment`
+ * @param options Dry run, pruning, GitHub token and progress callback
+ * @returns What was applied, what failed and what was skipped
+ *
+ * @example
+ * ```typescript
+ * import { parseDeploymentSpec, planDeployment, formatPlan, applyDeployment } from '@treza/sdk';
+ *
+ * const spec = await parseDeploymentSpec(await fs.readFile('treza.yaml', 'utf8'));
+ * const plan = await planDeployment(client, spec);
+ * console.log(formatPlan(plan));
+ *
+ * const result = await applyDeployment(client, plan);
+ * if (result.failed.length > 0) process.exitCode = 1;
+ * ```
+ */
+export async function applyDeployment(
+  client: TrezaClient,
+  specOrPlan: DeploymentSpec | DeploymentPlan,
+  options: ApplyOptions = {}
+): Promise<ApplyResult> {
+  const plan = 'changes' in specOrPlan ? specOrPlan : await planDeployment(client, specOrPlan, options);
+  const result: ApplyResult = { plan, applied: [], failed: [], skipped: [] };
+
+  if (options.dryRun) {
+    result.skipped.push(...plan.changes);
+    return result;
+  }
+
+  // IDs of enclaves created during this run, for their tasks
+  const createdIds = new Map<string, string>();
+  const failedCreates = new Set<string>();
+
+  for (const change of plan.changes) {
+    if (change.resource === 'task' && change.action === 'create' && failedCreates.has(change.enclaveName)) {
+      result.skipped.push(change);
+      continue;
+    }
+
+    options.onChange?.(change, 'started');
+    try {
+      if (change.resource === 'enclave') {
+        const id = await applyEnclaveChange(client, change, plan.walletAddress, options);
+        if (change.action === 'create') createdIds.set(change.name, id);
+      } else {
+        await applyTaskChange(client, change, plan.walletAddress, createdIds);
+      }
+      result.applied.push(change);
+      options.onChange?.(change, 'completed');
+    } catch (error) {
+      const cause = toTrezaError(error, `Failed to ${change.action} ${change.resource} "${change.name}"`);
+      if (change.resource === 'enclave' && change.action === 'create') failedCreates.add(change.name);
+      result.failed.push({ change, error: cause });
+      options.onChange?.(change, 'failed', cause);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Summary of an apply, in the style of `terraform apply`
+ */
+export function formatApplyResult(result: ApplyResult): string {
+  const count = (changes: PlannedChange[], actions: string[]) =>
+    changes.filter(({ action }) => actions.includes(action)).length;
+  const summary =
+    `${count(result.applied, ['create'])} added, ` +
+    `${count(result.applied, ['update', 'pause', 'resume'])} changed, ` +
+    `${count(result.applied, ['terminate', 'delete'])} destroyed.`;
+
+  if (result.failed.length === 0) {
+    return `Apply complete! Resources: ${summary}`;
+  }
+  return [
+    `Apply finished with errors. Resources: ${summary}`,
+    ...result.failed.map(({ change, error }) => `Error: ${error.message}`),
+  ].join('\n');
+}
+
+async function applyEnclaveChange(
+  client: TrezaClient,
+  change: EnclaveChange,
+  walletAddress: string,
+  options: ApplyOptions
+): Promise<string> {
+  switch (change.action) {
+    case 'create': {
+      const enclave = await client.createEnclave(withGitHubToken(change.create!, options.githubAccessToken));
+      return enclave.id;
+    }
+    case 'update':
+      await client.updateEnclave(withGitHubToken(change.update!, options.githubAccessToken));
+      break;
+    case 'pause':
+      await client.pauseEnclave(change.enclaveId!, walletAddress);
+      break;
+    case 'resume':
+      await client.resumeEnclave(change.enclaveId!, walletAddress);
+      break;
+    case 'terminate':
+      await client.terminateEnclave(change.enclaveId!, walletAddress);
+      break;
+  }
+  return change.enclaveId!;
+}
+
+async function applyTaskChange(
+  client: TrezaClient,
+  change: TaskChange,
+  walletAddress: string,
+  createdIds: Map<string, string>
+): Promise<void> {
+  switch (change.action) {
+    case 'create': {
+      const enclaveId = change.create!.enclaveId ?? createdIds.get(change.enclaveName);
+      await client.createTask({ ...change.create!, enclaveId: enclaveId! });
+      break;
+    }
+    case 'update':
+      await client.updateTask(change.update!);
+      break;
+    case 'delete':
+      await client.deleteTask(change.taskId!, walletAddress);
+      break;
+  }
+}
+
+function withGitHubToken<T extends { githubConnection?: { accessToken?: string } }>(request: T, token?: string): T {
+  if (!token || !request.githubConnection) return request;
+  return { ...request, githubConnection: { ...request.githubConnection, accessToken: token } };
+}
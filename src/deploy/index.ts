@@ -0,0 +1,29 @@
+/**
+ * Treza Deploy Module
+ *
+ * Declarative enclave deployments: describe the desired enclaves and tasks
+ * for a wallet in a JSON or YAML spec, review the changes with a
+ * Terraform-style plan, then apply them.
+ *
+ * - parseDeploymentSpec / validateDeploymentSpec: Load and check a spec
+ * - planDeployment / formatPlan:                  Diff the spec against the platform
+ * - applyDeployment / formatApplyResult:          Create, update, pause, resume or terminate to converge
+ */
+
+export { parseDeploymentSpec, validateDeploymentSpec, toCreateEnclaveRequest } from './spec';
+export { planDeployment, formatPlan } from './plan';
+export { applyDeployment, formatApplyResult } from './apply';
+export type {
+  DeploymentSpec,
+  EnclaveSpec,
+  TaskSpec,
+  ChangeAction,
+  FieldChange,
+  EnclaveChange,
+  TaskChange,
+  PlannedChange,
+  DeploymentPlan,
+  PlanOptions,
+  ApplyOptions,
+  ApplyResult,
+} from './types';
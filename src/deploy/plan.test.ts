@@ -0,0 +1,117 @@
+import { formatPlan, planDeployment } from './plan';
+import { parseDeploymentSpec } from './spec';
+import { DeploymentSpec } from './types';
+import { ValidationError } from '../errors';
+import { MockTrezaPlatform } from '../testing';
+
+const WALLET = '0x742d35Cc6634C0532925a3b8D598C4C0532925a3';
+
+const signerSpec = {
+  name: 'signer',
+  region: 'us-east-1',
+  providerId: 'aws-nitro',
+  dockerImage: 'treza/signer:1.3',
+};
+
+function seedSigner(platform: MockTrezaPlatform, dockerImage = 'treza/signer:1.3') {
+  return platform.seedEnclave({
+    name: 'signer',
+    walletAddress: WALLET,
+    region: 'us-east-1',
+    providerId: 'aws-nitro',
+    providerConfig: { dockerImage },
+  });
+}
+
+describe('parseDeploymentSpec', () => {
+  it('parses YAML specs', async () => {
+    const spec = await parseDeploymentSpec([
+      `walletAddress: "${WALLET}"`,
+      'enclaves:',
+      '  - name: signer',
+      '    region: us-east-1',
+      '    providerId: aws-nitro',
+      '    dockerImage: treza/signer:1.3',
+    ].join('\n'));
+
+    expect(spec).toEqual({ walletAddress: WALLET, enclaves: [signerSpec] });
+  });
+
+  it('lists every problem in an invalid spec', async () => {
+    const error = await parseDeploymentSpec('{"enclaves": [{"name": "signer", "state": "gone"}]}').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.details.errors.length).toBeGreaterThan(1);
+  });
+});
+
+describe('planDeployment', () => {
+  it('creates missing enclaves and their tasks', async () => {
+    const platform = new MockTrezaPlatform();
+    const spec: DeploymentSpec = {
+      walletAddress: WALLET,
+      enclaves: [{ ...signerSpec, tasks: [{ name: 'rotate-keys', schedule: '0 0 * * *' }] }],
+    };
+
+    const plan = await planDeployment(platform.createClient(), spec);
+
+    expect(plan.changes.map(({ resource, action, name }) => `${action} ${resource} ${name}`)).toEqual([
+      'create enclave signer',
+      'create task rotate-keys',
+    ]);
+    expect(formatPlan(plan)).toContain('Plan: 2 to create, 0 to change, 0 to destroy.');
+  });
+
+  it('updates enclaves whose config differs from the spec', async () => {
+    const platform = new MockTrezaPlatform();
+    const enclave = seedSigner(platform, 'treza/signer:1.2');
+
+    const plan = await planDeployment(platform.createClient(), { walletAddress: WALLET, enclaves: [signerSpec] });
+
+    expect(plan.changes).toHaveLength(1);
+    expect(plan.changes[0]).toMatchObject({
+      action: 'update',
+      enclaveId: enclave.id,
+      fields: [{ path: 'providerConfig.dockerImage', before: 'treza/signer:1.2', after: 'treza/signer:1.3' }],
+    });
+    expect(formatPlan(plan)).toContain('~ providerConfig.dockerImage = "treza/signer:1.2" -> "treza/signer:1.3"');
+  });
+
+  it('reports no changes when the platform matches the spec', async () => {
+    const platform = new MockTrezaPlatform();
+    seedSigner(platform);
+
+    const plan = await planDeployment(platform.createClient(), { walletAddress: WALLET, enclaves: [signerSpec] });
+
+    expect(plan.changes).toEqual([]);
+    expect(formatPlan(plan)).toBe('No changes. Enclaves match the deployment spec.');
+  });
+
+  it('terminates enclaves whose spec state is terminated', async () => {
+    const platform = new MockTrezaPlatform();
+    const enclave = seedSigner(platform);
+
+    const plan = await planDeployment(platform.createClient(), {
+      walletAddress: WALLET,
+      enclaves: [{ ...signerSpec, state: 'terminated' }],
+    });
+
+    expect(plan.changes).toEqual([
+      expect.objectContaining({ action: 'terminate', enclaveId: enclave.id }),
+    ]);
+    expect(formatPlan(plan)).toContain('Plan: 0 to create, 0 to change, 1 to destroy.');
+  });
+
+  it('terminates enclaves missing from the spec only when pruning', async () => {
+    const platform = new MockTrezaPlatform();
+    seedSigner(platform);
+    const extra = platform.seedEnclave({ name: 'legacy', walletAddress: WALLET });
+    const client = platform.createClient();
+    const spec = { walletAddress: WALLET, enclaves: [signerSpec] };
+
+    expect((await planDeployment(client, spec)).changes).toEqual([]);
+    expect((await planDeployment(client, spec, { prune: true })).changes).toEqual([
+      expect.objectContaining({ action: 'terminate', name: 'legacy', enclaveId: extra.id }),
+    ]);
+  });
+});
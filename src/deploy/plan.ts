@@ -0,0 +1,380 @@
+/**
+ * Deployment planning
+ *
+ * Compares a DeploymentSpec with the wallet's enclaves and tasks on the
+ * platform, and lists the changes needed to converge, in the order
+ * `applyDeployment` makes them.
+ */
+
+import type { TrezaClient } from '../client';
+import { Enclave, EnclaveStatus, Task } from '../types';
+import { desiredProviderConfig, desiredSourceType, toCreateEnclaveRequest, validateDeploymentSpec } from './spec';
+import {
+  DeploymentPlan,
+  DeploymentSpec,
+  EnclaveChange,
+  EnclaveSpec,
+  FieldChange,
+  PlanOptions,
+  PlannedChange,
+  TaskChange,
+} from './types';
+
+/** Statuses of enclaves that are gone or on their way out; specs never match them */
+const GONE_STATUSES: readonly EnclaveStatus[] = ['PENDING_DESTROY', 'DESTROYING', 'DESTROYED'];
+
+/**
+ * Work out the changes that converge a wallet's enclaves on a spec
+ *
+ * @param client Client for the wallet's platform account
+ * @param spec Desired enclaves
+ * @param options Whether to terminate enclaves missing from the spec
+ * @returns The plan; format it with `formatPlan`
+ */
+export async function planDeployment(
+  client: TrezaClient,
+  spec: DeploymentSpec,
+  options: PlanOptions = {}
+): Promise<DeploymentPlan> {
+  validateDeploymentSpec(spec);
+  const walletAddress = spec.walletAddress;
+
+  const enclaves: Enclave[] = [];
+  for await (const enclave of client.listEnclaves(walletAddress, { sort: 'createdAt' })) {
+    enclaves.push(enclave);
+  }
+  const tasks: Task[] = [];
+  for await (const task of client.listTasks(walletAddress, { sort: 'createdAt' })) {
+    tasks.push(task);
+  }
+
+  const changes: PlannedChange[] = [];
+  const warnings: string[] = [];
+
+  // Match by name; with duplicates, manage the newest and report the rest
+  const byName = new Map<string, Enclave>();
+  for (const enclave of enclaves.filter(({ status }) => !GONE_STATUSES.includes(status))) {
+    const previous = byName.get(enclave.name);
+    if (previous) {
+      warnings.push(`Several enclaves are named "${enclave.name}"; managing ${enclave.id} and ignoring ${previous.id}`);
+    }
+    byName.set(enclave.name, enclave);
+  }
+
+  for (const enclaveSpec of spec.enclaves) {
+    const current = byName.get(enclaveSpec.name);
+    const state = enclaveSpec.state ?? 'running';
+
+    if (state === 'terminated') {
+      if (current) changes.push(terminateChange(current));
+      continue;
+    }
+
+    if (!current) {
+      const create = toCreateEnclaveRequest(enclaveSpec, walletAddress);
+      changes.push({
+        resource: 'enclave',
+        action: 'create',
+        name: enclaveSpec.name,
+        create,
+        fields: flatten(create).filter(({ path }) => path !== 'name' && path !== 'walletAddress'),
+      });
+      if (state === 'paused') {
+        warnings.push(`Enclave "${enclaveSpec.name}" will be created running; apply again once it is DEPLOYED to pause it`);
+      }
+    } else {
+      changes.push(...enclaveChanges(current, enclaveSpec, walletAddress, warnings));
+      const moved = await movedImageWarning(client, current, enclaveSpec);
+      if (moved) warnings.push(moved);
+    }
+
+    changes.push(...taskChanges(enclaveSpec, current, tasks, walletAddress, options));
+  }
+
+  if (options.prune) {
+    const specNames = new Set(spec.enclaves.map(({ name }) => name));
+    for (const enclave of byName.values()) {
+      if (!specNames.has(enclave.name)) changes.push(terminateChange(enclave));
+    }
+  }
+
+  return { walletAddress, changes, warnings };
+}
+
+/**
+ * Render a plan the way `terraform plan` does
+ *
+ * @example
+ * ```
+ *   # enclave "signer" will be updated in-place
+ *   ~ enclave "signer" {
+ *       ~ providerConfig.dockerImage = "treza/signer:1.2" -> "treza/signer:1.3"
+ *     }
+ *
+ * Plan: 0 to create, 1 to change, 0 to destroy.
+ * ```
+ */
+export function formatPlan(plan: DeploymentPlan): string {
+  const lines: string[] = [];
+
+  if (plan.changes.length === 0) {
+    lines.push('No changes. Enclaves match the deployment spec.');
+  } else {
+    lines.push('Treza will perform the following actions:', '');
+    for (const change of plan.changes) {
+      lines.push(...formatChange(change), '');
+    }
+
+    const count = (actions: string[]) => plan.changes.filter(({ action }) => actions.includes(action)).length;
+    lines.push(
+      `Plan: ${count(['create'])} to create, ${count(['update', 'pause', 'resume'])} to change, ` +
+      `${count(['terminate', 'delete'])} to destroy.`
+    );
+  }
+
+  for (const warning of plan.warnings) {
+    lines.push('', `Warning: ${warning}`);
+  }
+
+  return lines.join('\n');
+}
+
+function enclaveChanges(current: Enclave, spec: EnclaveSpec, walletAddress: string, warnings: string[]): EnclaveChange[] {
+  const fields: FieldChange[] = [];
+  const compare = (path: string, before: unknown, after: unknown) => {
+    if (after !== undefined && !isEqual(before, after)) fields.push({ path, before, after });
+  };
+
+  compare('description', current.description, spec.description);
+  compare('region', current.region, spec.region);
+  compare('providerId', current.providerId, spec.providerId);
+  compare('sourceType', current.sourceType, desiredSourceType(spec));
+  for (const [key, value] of Object.entries(desiredProviderConfig(spec) ?? {})) {
+    // An image pinned by the client still matches the tag it was pinned from
+    const pinnedFrom = key === 'dockerImage' && value === current.providerConfig?.dockerImageTag;
+    compare(`providerConfig.${key}`, pinnedFrom ? value : current.providerConfig?.[key], value);
+  }
+  compare('githubConnection.selectedRepo', current.githubConnection?.selectedRepo, spec.github?.repo);
+  compare('githubConnection.selectedBranch', current.githubConnection?.selectedBranch, spec.github?.branch);
+
+  const base = { resource: 'enclave' as const, name: spec.name, enclaveId: current.id, status: current.status };
+  const changes: EnclaveChange[] = [];
+
+  if (fields.length > 0) {
+    const changed = new Set(fields.map(({ path }) => path.split('.')[0]));
+    changes.push({
+      ...base,
+      action: 'update',
+      fields,
+      update: {
+        id: current.id,
+        walletAddress,
+        description: changed.has('description') ? spec.description : undefined,
+        region: changed.has('region') ? spec.region : undefined,
+        providerId: changed.has('providerId') ? spec.providerId : undefined,
+        sourceType: changed.has('sourceType') ? desiredSourceType(spec) : undefined,
+        providerConfig: changed.has('providerConfig') ? updatedProviderConfig(current, spec, fields) : undefined,
+        githubConnection: changed.has('githubConnection')
+          ? {
+            ...current.githubConnection,
+            isConnected: true,
+            selectedRepo: spec.github?.repo,
+            selectedBranch: spec.github?.branch ?? current.githubConnection?.selectedBranch,
+          }
+          : undefined,
+      },
+    });
+  }
+
+  const state = spec.state ?? 'running';
+  if (state === 'paused' && current.status !== 'PAUSED' && current.status !== 'PAUSING') {
+    if (current.status === 'DEPLOYED' && fields.length === 0) {
+      changes.push({ ...base, action: 'pause', fields: [{ path: 'status', before: current.status, after: 'PAUSED' }] });
+    } else {
+      warnings.push(`Enclave "${spec.name}" is ${fields.length > 0 ? 'being redeployed' : current.status}; apply again once it is DEPLOYED to pause it`);
+    }
+  } else if (state === 'running' && current.status === 'PAUSED') {
+    changes.push({ ...base, action: 'resume', fields: [{ path: 'status', before: current.status, after: 'DEPLOYED' }] });
+  } else if (state === 'running' && (current.status === 'FAILED' || current.status === 'BUILD_FAILED') && fields.length === 0) {
+    warnings.push(`Enclave "${spec.name}" is ${current.status}${current.error_message ? `: ${current.error_message}` : ''}`);
+  }
+
+  return changes;
+}
+
+function updatedProviderConfig(current: Enclave, spec: EnclaveSpec, fields: FieldChange[]): Record<string, any> {
+  const config = { ...current.providerConfig, ...desiredProviderConfig(spec) };
+  if (fields.some(({ path }) => path === 'providerConfig.dockerImage')) {
+    // The recorded tag belongs to the image being replaced
+    delete config.dockerImageTag;
+  } else if (current.providerConfig?.dockerImage !== undefined) {
+    // Keep the pinned image rather than the tag it was pinned from
+    config.dockerImage = current.providerConfig.dockerImage;
+  }
+  return config;
+}
+
+/**
+ * Warn when the tag an enclave's image was pinned from now points elsewhere;
+ * the plan leaves the enclave on the pinned image
+ */
+async function movedImageWarning(client: TrezaClient, current: Enclave, spec: EnclaveSpec): Promise<string | undefined> {
+  const tag = current.providerConfig?.dockerImageTag;
+  const image = current.providerConfig?.dockerImage;
+  if (typeof tag !== 'string' || typeof image !== 'string' || desiredProviderConfig(spec)?.dockerImage !== tag) {
+    return undefined;
+  }
+  try {
+    const resolved = await client.resolveDockerImage(tag);
+    return image.endsWith(`@${resolved.digest}`)
+      ? undefined
+      : `Enclave "${spec.name}" runs ${image}, but ${tag} has moved; set dockerImage to ${resolved.image} to deploy it`;
+  } catch (error) {
+    return `Could not check whether ${tag} has moved for enclave "${spec.name}": ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+function taskChanges(
+  spec: EnclaveSpec,
+  current: Enclave | undefined,
+  tasks: Task[],
+  walletAddress: string,
+  options: PlanOptions
+): TaskChange[] {
+  const existing = current ? tasks.filter(({ enclaveId }) => enclaveId === current.id) : [];
+  const changes: TaskChange[] = [];
+
+  for (const taskSpec of spec.tasks ?? []) {
+    const task = existing.find(({ name }) => name === taskSpec.name);
+    const base = { resource: 'task' as const, name: taskSpec.name, enclaveName: spec.name };
+
+    if (!task) {
+      const create = {
+        name: taskSpec.name,
+        description: taskSpec.description ?? '',
+        schedule: taskSpec.schedule,
+        walletAddress,
+        enclaveId: current?.id,
+      };
+      changes.push({
+        ...base,
+        action: 'create',
+        create,
+        fields: [
+          { path: 'schedule', before: undefined, after: taskSpec.schedule },
+          { path: 'description', before: undefined, after: create.description },
+        ],
+      });
+      continue;
+    }
+
+    const fields: FieldChange[] = [];
+    if (task.schedule !== taskSpec.schedule) {
+      fields.push({ path: 'schedule', before: task.schedule, after: taskSpec.schedule });
+    }
+    if (taskSpec.description !== undefined && task.description !== taskSpec.description) {
+      fields.push({ path: 'description', before: task.description, after: taskSpec.description });
+    }
+    if (fields.length > 0) {
+      changes.push({
+        ...base,
+        action: 'update',
+        taskId: task.id,
+        fields,
+        update: { id: task.id, walletAddress, schedule: taskSpec.schedule, description: taskSpec.description },
+      });
+    }
+  }
+
+  if (options.prune) {
+    const specNames = new Set((spec.tasks ?? []).map(({ name }) => name));
+    for (const task of existing.filter(({ name }) => !specNames.has(name))) {
+      changes.push({
+        resource: 'task',
+        action: 'delete',
+        name: task.name,
+        enclaveName: spec.name,
+        taskId: task.id,
+        fields: [{ path: 'schedule', before: task.schedule, after: undefined }],
+      });
+    }
+  }
+
+  return changes;
+}
+
+function terminateChange(enclave: Enclave): EnclaveChange {
+  return {
+    resource: 'enclave',
+    action: 'terminate',
+    name: enclave.name,
+    enclaveId: enclave.id,
+    status: enclave.status,
+    fields: [{ path: 'status', before: enclave.status, after: 'DESTROYED' }],
+  };
+}
+
+const VERBS: Record<PlannedChange['action'], string> = {
+  create: 'created',
+  update: 'updated in-place',
+  pause: 'paused',
+  resume: 'resumed',
+  terminate: 'terminated',
+  delete: 'deleted',
+};
+
+const SYMBOLS: Record<PlannedChange['action'], string> = {
+  create: '+',
+  update: '~',
+  pause: '~',
+  resume: '~',
+  terminate: '-',
+  delete: '-',
+};
+
+function formatChange(change: PlannedChange): string[] {
+  const address = change.resource === 'task'
+    ? `task "${change.name}" on enclave "${change.enclaveName}"`
+    : `enclave "${change.name}"`;
+  const id = change.resource === 'task' ? change.taskId : change.enclaveId;
+  const symbol = SYMBOLS[change.action];
+  const width = Math.max(0, ...change.fields.map(({ path }) => path.length));
+
+  const lines = [
+    `  # ${address} will be ${VERBS[change.action]}`,
+    `  ${symbol} ${change.resource} "${change.name}" {`,
+  ];
+  if (id) {
+    lines.push(`        ${'id'.padEnd(width)} = ${JSON.stringify(id)}`);
+  }
+  for (const { path, before, after } of change.fields) {
+    const value = change.action === 'create'
+      ? formatValue(after)
+      : `${formatValue(before)} -> ${formatValue(after)}`;
+    lines.push(`      ${symbol} ${path.padEnd(width)} = ${value}`);
+  }
+  lines.push('    }');
+  return lines;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'null' : JSON.stringify(value);
+}
+
+/**
+ * Flatten a request into dotted paths for display, skipping unset values
+ */
+function flatten(value: object, prefix = ''): FieldChange[] {
+  return Object.entries(value).flatMap(([key, child]): FieldChange[] => {
+    if (child === undefined) return [];
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (typeof child === 'object' && child !== null && !Array.isArray(child)) {
+      return flatten(child, path);
+    }
+    return [{ path, before: undefined, after: child }];
+  });
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,180 @@
+/**
+ * Deployment spec parsing and validation
+ */
+
+import { ConfigurationError, ValidationError } from '../errors';
+import { CreateEnclaveRequest } from '../types';
+import { DeploymentSpec, EnclaveSpec } from './types';
+
+const SOURCE_TYPES = ['registry', 'github', 'private-registry'];
+const STATES = ['running', 'paused', 'terminated'];
+
+/**
+ * Parse a deployment spec from JSON or YAML
+ *
+ * YAML support requires the optional `yaml` package.
+ *
+ * @param source Spec file contents
+ * @param format Source format (detected from the contents when omitted)
+ * @returns The validated spec
+ * @throws ValidationError listing every problem found in the spec
+ */
+export async function parseDeploymentSpec(source: string, format?: 'json' | 'yaml'): Promise<DeploymentSpec> {
+  const isJson = format ? format === 'json' : /^\s*[{[]/.test(source);
+
+  let parsed: unknown;
+  if (isJson) {
+    try {
+      parsed = JSON.parse(source);
+    } catch (error: any) {
+      throw new ValidationError(`Deployment spec is not valid JSON: ${error.message}`, { cause: error });
+    }
+  } else {
+    let yaml: typeof import('yaml');
+    try {
+      yaml = await import('yaml');
+    } catch {
+      throw new ConfigurationError(
+        'Missing dependency: yaml. Install it with: npm install yaml',
+        { code: 'MISSING_DEPENDENCY' }
+      );
+    }
+
+    try {
+      parsed = yaml.parse(source);
+    } catch (error: any) {
+      throw new ValidationError(`Deployment spec is not valid YAML: ${error.message}`, { cause: error });
+    }
+  }
+
+  return validateDeploymentSpec(parsed);
+}
+
+/**
+ * Check that a value is a well-formed deployment spec
+ *
+ * @returns The spec, typed
+ * @throws ValidationError whose `details.errors` lists every problem
+ */
+export function validateDeploymentSpec(value: unknown): DeploymentSpec {
+  const errors: string[] = [];
+  const spec = value as Partial<DeploymentSpec> | undefined;
+
+  if (!isObject(spec)) {
+    throw new ValidationError('Deployment spec must be an object', { details: { errors: ['spec must be an object'] } });
+  }
+  if (typeof spec.walletAddress === 'number') {
+    // YAML reads an unquoted 0x... address as a hex number
+    errors.push('walletAddress must be a string; quote it in YAML');
+  } else if (!isNonEmptyString(spec.walletAddress)) {
+    errors.push('walletAddress is required');
+  }
+  if (!Array.isArray(spec.enclaves)) {
+    errors.push('enclaves must be an array');
+  }
+
+  const names = new Set<string>();
+  (Array.isArray(spec.enclaves) ? spec.enclaves : []).forEach((enclave: Partial<EnclaveSpec>, index) => {
+    const at = `enclaves[${index}]`;
+    if (!isObject(enclave)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+
+    if (!isNonEmptyString(enclave.name)) {
+      errors.push(`${at}.name is required`);
+    } else if (names.has(enclave.name)) {
+      errors.push(`${at}.name "${enclave.name}" is used by more than one enclave`);
+    } else {
+      names.add(enclave.name);
+    }
+    for (const field of ['region', 'providerId'] as const) {
+      if (!isNonEmptyString(enclave[field])) errors.push(`${at}.${field} is required`);
+    }
+    if (enclave.sourceType !== undefined && !SOURCE_TYPES.includes(enclave.sourceType)) {
+      errors.push(`${at}.sourceType must be one of ${SOURCE_TYPES.join(', ')}`);
+    }
+    if (enclave.state !== undefined && !STATES.includes(enclave.state)) {
+      errors.push(`${at}.state must be one of ${STATES.join(', ')}`);
+    }
+    if (enclave.providerConfig !== undefined && !isObject(enclave.providerConfig)) {
+      errors.push(`${at}.providerConfig must be an object`);
+    }
+    if (enclave.github !== undefined && (!isObject(enclave.github) || !/^[^/\s]+\/[^/\s]+$/.test(String(enclave.github.repo)))) {
+      errors.push(`${at}.github.repo must be in format "owner/repo"`);
+    }
+    if (enclave.github && enclave.sourceType && enclave.sourceType !== 'github') {
+      errors.push(`${at}.github requires sourceType "github"`);
+    }
+
+    const taskNames = new Set<string>();
+    if (enclave.tasks !== undefined && !Array.isArray(enclave.tasks)) {
+      errors.push(`${at}.tasks must be an array`);
+    }
+    (Array.isArray(enclave.tasks) ? enclave.tasks : []).forEach((task, taskIndex) => {
+      const taskAt = `${at}.tasks[${taskIndex}]`;
+      if (!isObject(task)) {
+        errors.push(`${taskAt} must be an object`);
+        return;
+      }
+      if (!isNonEmptyString(task.name)) {
+        errors.push(`${taskAt}.name is required`);
+      } else if (taskNames.has(task.name)) {
+        errors.push(`${taskAt}.name "${task.name}" is used by more than one task on this enclave`);
+      } else {
+        taskNames.add(task.name);
+      }
+      if (!isNonEmptyString(task.schedule)) {
+        errors.push(`${taskAt}.schedule is required`);
+      }
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid deployment spec: ${errors.join('; ')}`, { details: { errors } });
+  }
+  return spec as DeploymentSpec;
+}
+
+/**
+ * Provider configuration an enclave spec asks for, including the `dockerImage` shorthand
+ */
+export function desiredProviderConfig(spec: EnclaveSpec): Record<string, any> | undefined {
+  if (spec.dockerImage === undefined) return spec.providerConfig;
+  return { ...spec.providerConfig, dockerImage: spec.dockerImage };
+}
+
+/**
+ * Source type an enclave spec asks for
+ */
+export function desiredSourceType(spec: EnclaveSpec): CreateEnclaveRequest['sourceType'] {
+  return spec.sourceType ?? (spec.github ? 'github' : undefined);
+}
+
+/**
+ * Request that creates the enclave described by a spec
+ */
+export function toCreateEnclaveRequest(spec: EnclaveSpec, walletAddress: string): CreateEnclaveRequest {
+  return {
+    name: spec.name,
+    description: spec.description ?? '',
+    region: spec.region,
+    walletAddress,
+    providerId: spec.providerId,
+    sourceType: desiredSourceType(spec),
+    providerConfig: desiredProviderConfig(spec),
+    githubConnection: spec.github && {
+      isConnected: true,
+      selectedRepo: spec.github.repo,
+      selectedBranch: spec.github.branch,
+    },
+  };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
@@ -0,0 +1,153 @@
+/**
+ * Type definitions for declarative deployments
+ */
+
+import { CreateEnclaveRequest, CreateTaskRequest, EnclaveStatus, UpdateEnclaveRequest, UpdateTaskRequest } from '../types';
+
+/**
+ * Desired enclaves for one wallet
+ */
+export interface DeploymentSpec {
+  /** Wallet that owns every enclave in the spec */
+  walletAddress: string;
+  enclaves: EnclaveSpec[];
+}
+
+/**
+ * Desired state of one enclave. Enclaves are matched to existing ones by name.
+ */
+export interface EnclaveSpec {
+  /** Enclave name, unique within the spec */
+  name: string;
+  description?: string;
+  region: string;
+  providerId: string;
+  sourceType?: CreateEnclaveRequest['sourceType'];
+  /**
+   * Provider-specific configuration. Only keys listed here are compared,
+   * so values the platform adds (e.g. `signingAddress`) are left alone.
+   */
+  providerConfig?: Record<string, any>;
+  /** Shorthand for `providerConfig.dockerImage` */
+  dockerImage?: string;
+  /** GitHub source; implies `sourceType: 'github'` */
+  github?: {
+    /** Repository in format "owner/repo" */
+    repo: string;
+    branch?: string;
+  };
+  /** Desired lifecycle state (defaults to 'running') */
+  state?: 'running' | 'paused' | 'terminated';
+  /** Scheduled tasks, matched to existing ones by name */
+  tasks?: TaskSpec[];
+}
+
+/**
+ * Desired state of one task
+ */
+export interface TaskSpec {
+  name: string;
+  description?: string;
+  /** Cron-style schedule expression */
+  schedule: string;
+}
+
+/**
+ * What a change does
+ */
+export type ChangeAction = 'create' | 'update' | 'pause' | 'resume' | 'terminate' | 'delete';
+
+/**
+ * One field that differs between the platform and the spec
+ */
+export interface FieldChange {
+  /** Dotted field path, e.g. `providerConfig.dockerImage` */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * A change to an enclave
+ */
+export interface EnclaveChange {
+  resource: 'enclave';
+  action: Exclude<ChangeAction, 'delete'>;
+  name: string;
+  /** Existing enclave (all actions except create) */
+  enclaveId?: string;
+  /** Status when planned */
+  status?: EnclaveStatus;
+  /** Request sent for `create` */
+  create?: CreateEnclaveRequest;
+  /** Request sent for `update` */
+  update?: UpdateEnclaveRequest;
+  fields: FieldChange[];
+}
+
+/**
+ * A change to a scheduled task
+ */
+export interface TaskChange {
+  resource: 'task';
+  action: 'create' | 'update' | 'delete';
+  name: string;
+  /** Name of the enclave the task runs on */
+  enclaveName: string;
+  /** Existing task (update and delete) */
+  taskId?: string;
+  /** Request sent for `create`; `enclaveId` is filled in during apply for new enclaves */
+  create?: Omit<CreateTaskRequest, 'enclaveId'> & { enclaveId?: string };
+  /** Request sent for `update` */
+  update?: UpdateTaskRequest;
+  fields: FieldChange[];
+}
+
+export type PlannedChange = EnclaveChange | TaskChange;
+
+/**
+ * Changes needed to converge a wallet's enclaves on a spec
+ */
+export interface DeploymentPlan {
+  walletAddress: string;
+  /** Changes in the order `applyDeployment` performs them */
+  changes: PlannedChange[];
+  /** Things the plan cannot do yet, e.g. pausing an enclave that is still deploying */
+  warnings: string[];
+}
+
+/**
+ * Options for planning a deployment
+ */
+export interface PlanOptions {
+  /**
+   * Terminate enclaves, and delete tasks, that exist on the platform but not
+   * in the spec (defaults to false, which leaves them alone)
+   */
+  prune?: boolean;
+}
+
+/**
+ * Options for applying a deployment
+ */
+export interface ApplyOptions extends PlanOptions {
+  /** Plan and report the changes without making them */
+  dryRun?: boolean;
+  /** GitHub access token sent with enclaves created or updated from GitHub sources */
+  githubAccessToken?: string;
+  /** Called before and after each change */
+  onChange?: (change: PlannedChange, state: 'started' | 'completed' | 'failed', error?: Error) => void;
+}
+
+/**
+ * Outcome of applying a deployment
+ */
+export interface ApplyResult {
+  plan: DeploymentPlan;
+  /** Changes made */
+  applied: PlannedChange[];
+  /** Changes that failed, with their errors */
+  failed: Array<{ change: PlannedChange; error: Error }>;
+  /** Changes not attempted because a change they depend on failed, or because of `dryRun` */
+  skipped: PlannedChange[];
+}
@@ -0,0 +1,10 @@
+/**
+ * Type declarations for the optional `yaml` peer dependency.
+ *
+ * Loaded with a dynamic import only when a YAML deployment spec is parsed,
+ * so we declare the single function used here.
+ */
+
+declare module 'yaml' {
+  export function parse(source: string): unknown;
+}
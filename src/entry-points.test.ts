@@ -0,0 +1,73 @@
+import { execFileSync } from 'child_process';
+import { copyFileSync, mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+
+const CORE = resolve(__dirname, '../packages/core');
+
+/**
+ * Builds the published `@treza/sdk` package into a scratch `node_modules` and
+ * loads it with plain Node, so the entry points are checked the way consumers
+ * resolve them rather than through Jest's module mapping.
+ */
+describe('@treza/sdk package entry points', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'treza-sdk-'));
+    const pkg = join(root, 'node_modules/@treza/sdk');
+    mkdirSync(pkg, { recursive: true });
+    copyFileSync(join(CORE, 'package.json'), join(pkg, 'package.json'));
+    execFileSync(process.execPath, [
+      require.resolve('typescript/bin/tsc'),
+      '-p', join(CORE, 'tsconfig.json'),
+      '--outDir', join(pkg, 'dist'),
+      '--composite', 'false',
+      '--incremental', 'false',
+      '--declarationMap', 'false',
+    ]);
+  }, 120_000);
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function load(script: string): unknown {
+    const output = execFileSync(process.execPath, ['-e', script], {
+      cwd: root,
+      env: { ...process.env, NODE_PATH: resolve(__dirname, '../node_modules') },
+      encoding: 'utf8',
+    });
+    return JSON.parse(output);
+  }
+
+  it('exports the client from the main entry', () => {
+    expect(load(`
+      const sdk = require('@treza/sdk');
+      console.log(JSON.stringify([typeof sdk.TrezaClient, typeof sdk.redactSecrets]));
+    `)).toEqual(['function', 'function']);
+  });
+
+  it('does not load the Nitro verifier with the main entry', () => {
+    expect(load(`
+      require('@treza/sdk');
+      console.log(JSON.stringify(Object.keys(require.cache).filter((path) => path.includes('nitro-verifier'))));
+    `)).toEqual([]);
+  });
+
+  it('exports the Nitro verifier from @treza/sdk/attestation', () => {
+    expect(load(`
+      const attestation = require('@treza/sdk/attestation');
+      console.log(JSON.stringify([typeof attestation.verifyNitroAttestation, typeof attestation.decodeCoseSign1]));
+    `)).toEqual(['function', 'function']);
+  });
+
+  it('exports the mock platform from @treza/sdk/testing', () => {
+    expect(load(`
+      const { MockTrezaPlatform } = require('@treza/sdk/testing');
+      const platform = new MockTrezaPlatform();
+      platform.createClient().getEnclaves('0x1234567890123456789012345678901234567890')
+        .then((enclaves) => console.log(JSON.stringify(enclaves)));
+    `)).toEqual([]);
+  });
+});
@@ -0,0 +1,462 @@
+/**
+ * Treza SDK Error Hierarchy
+ *
+ * Every error thrown by the SDK is a TrezaSdkError. Subclasses identify the
+ * failure category so callers can branch on type instead of message text:
+ *
+ * ```
+ * TrezaSdkError
+ * ├── NotFoundError            404
+ * ├── AuthError                401, token provider and wallet sign-in failures
+ * ├── PermissionError          403, API key missing a scope
+ * ├── RateLimitError           429
+ * ├── ValidationError          400 / 422 and rejected client-side input
+ * ├── PaymentRequiredError     402
+ * ├── ServerError              5xx
+ * ├── NetworkError             no response from the server
+ * ├── AttestationFailedError   enclave attestation rejected
+ * │   └── AttestationPolicyError
+ * ├── SigningError             enclave signing request failed
+ * ├── ContractRevertError      on-chain call or transaction reverted
+ * ├── ConfigurationError       missing configuration or optional dependency
+ * ├── EnclaveWaitError         waitForEnclave did not reach its target
+ * └── ApiKeyRotationError      rotateApiKey stopped part way
+ * ```
+ *
+ * Each error keeps the underlying `cause` and, for API failures, the
+ * platform's `requestId` to quote when contacting support. Messages and
+ * details pass through `redactSecrets`, so logging an error can't leak a
+ * token or password.
+ *
+ * @example
+ * ```typescript
+ * import { isNotFoundError, isRateLimitError } from '@treza/sdk';
+ *
+ * try {
+ *   await client.getEnclave(id);
+ * } catch (error) {
+ *   if (isNotFoundError(error)) return null;
+ *   if (isRateLimitError(error)) await sleep(error.retryAfterMs ?? 1000);
+ *   throw error;
+ * }
+ * ```
+ */
+
+import type { ApiKey, Enclave, LogEntry } from './types';
+import type { PolicyEvaluation } from './attestation/policy';
+import type { FieldError } from './providers/types';
+import { redactSecrets, redactString } from './redact';
+
+/**
+ * Options shared by all SDK errors
+ */
+export interface TrezaErrorOptions {
+  /** Machine-readable error code; each class has a default */
+  code?: string;
+  /** Structured context, e.g. the API response body */
+  details?: Record<string, any>;
+  /** HTTP status code, for API failures */
+  statusCode?: number;
+  /** Underlying error */
+  cause?: unknown;
+  /** Platform request ID (`x-request-id`), for API failures */
+  requestId?: string;
+}
+
+/**
+ * Custom error class for Treza SDK
+ */
+export class TrezaSdkError extends Error {
+  public readonly code?: string;
+  public readonly details?: Record<string, any>;
+  public readonly statusCode?: number;
+  /** Underlying error, if this one wraps another */
+  public readonly cause?: unknown;
+  /** Platform request ID, if the error came from an API response */
+  public readonly requestId?: string;
+
+  constructor(
+    message: string,
+    code?: string,
+    details?: Record<string, any>,
+    statusCode?: number,
+    options: Pick<TrezaErrorOptions, 'cause' | 'requestId'> = {}
+  ) {
+    // Error messages and details end up in logs, so never carry secrets
+    super(redactString(message));
+    this.name = 'TrezaSdkError';
+    this.code = code;
+    this.details = details && redactSecrets(details);
+    this.statusCode = statusCode;
+    this.cause = options.cause;
+    this.requestId = options.requestId;
+  }
+}
+
+/**
+ * The requested resource does not exist
+ */
+export class NotFoundError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'NOT_FOUND', options.details, options.statusCode ?? 404, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Authentication failed: missing or expired credentials, a failing token
+ * provider, or a rejected wallet sign-in
+ */
+export class AuthError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'AUTH_ERROR', options.details, options.statusCode, options);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * The caller is authenticated but not allowed to perform the request
+ */
+export class PermissionError extends TrezaSdkError {
+  /** Permission scope the request needed, when the platform reports it */
+  public readonly requiredScope?: string;
+
+  constructor(message: string, options: TrezaErrorOptions & { requiredScope?: string } = {}) {
+    super(message, options.code ?? 'INSUFFICIENT_SCOPE', options.details, options.statusCode ?? 403, options);
+    this.name = 'PermissionError';
+    this.requiredScope = options.requiredScope;
+  }
+}
+
+/**
+ * The platform rejected the request because of rate limiting
+ */
+export class RateLimitError extends TrezaSdkError {
+  /** Delay requested by the server's Retry-After header */
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, options: TrezaErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, options.code ?? 'RATE_LIMITED', options.details, options.statusCode ?? 429, options);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The request was malformed or failed validation
+ */
+export class ValidationError extends TrezaSdkError {
+  /** Rejected fields, when the input was checked field by field */
+  public readonly fieldErrors?: FieldError[];
+
+  constructor(message: string, options: TrezaErrorOptions & { fieldErrors?: FieldError[] } = {}) {
+    super(message, options.code ?? 'VALIDATION_ERROR', options.details, options.statusCode, options);
+    this.name = 'ValidationError';
+    this.fieldErrors = options.fieldErrors;
+  }
+}
+
+/**
+ * Payment is required (HTTP 402), e.g. an x402 resource or exhausted credits
+ */
+export class PaymentRequiredError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'PAYMENT_REQUIRED', options.details, options.statusCode ?? 402, options);
+    this.name = 'PaymentRequiredError';
+  }
+}
+
+/**
+ * The platform failed to process the request (HTTP 5xx)
+ */
+export class ServerError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'SERVER_ERROR', options.details, options.statusCode ?? 500, options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The request never received a response
+ */
+export class NetworkError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'NETWORK_ERROR', options.details, options.statusCode, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * An enclave's attestation was rejected
+ */
+export class AttestationFailedError extends TrezaSdkError {
+  /** Enclave whose attestation failed */
+  public readonly enclaveId: string;
+
+  constructor(enclaveId: string, message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'ATTESTATION_FAILED', { enclaveId, ...options.details }, options.statusCode, options);
+    this.name = 'AttestationFailedError';
+    this.enclaveId = enclaveId;
+  }
+}
+
+/**
+ * Error raised when an enclave's attestation does not satisfy an attestation policy
+ */
+export class AttestationPolicyError extends AttestationFailedError {
+  /** Full evaluation, including every mismatch */
+  public readonly evaluation: PolicyEvaluation;
+
+  constructor(enclaveId: string, evaluation: PolicyEvaluation) {
+    super(
+      enclaveId,
+      `Enclave ${enclaveId} does not satisfy the attestation policy: ` +
+        evaluation.mismatches.map((mismatch) => mismatch.message).join('; '),
+      { code: 'ATTESTATION_POLICY_FAILED', details: { mismatches: evaluation.mismatches } }
+    );
+    this.name = 'AttestationPolicyError';
+    this.evaluation = evaluation;
+  }
+}
+
+/**
+ * An enclave signing request failed
+ */
+export class SigningError extends TrezaSdkError {
+  /** Enclave asked to sign */
+  public readonly enclaveId: string;
+  /** Signing operation path, e.g. `/sign/message` */
+  public readonly operation: string;
+
+  constructor(enclaveId: string, operation: string, message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'SIGNING_FAILED', { enclaveId, operation, ...options.details }, options.statusCode, options);
+    this.name = 'SigningError';
+    this.enclaveId = enclaveId;
+    this.operation = operation;
+  }
+}
+
+/**
+ * An on-chain call or transaction reverted
+ */
+export class ContractRevertError extends TrezaSdkError {
+  /** Decoded revert reason, if available */
+  public readonly reason?: string;
+  /** Hash of the reverted transaction, if one was sent */
+  public readonly transactionHash?: string;
+
+  constructor(
+    message: string,
+    options: TrezaErrorOptions & { reason?: string; transactionHash?: string } = {}
+  ) {
+    super(message, options.code ?? 'CONTRACT_REVERT', options.details, options.statusCode, options);
+    this.name = 'ContractRevertError';
+    this.reason = options.reason;
+    this.transactionHash = options.transactionHash;
+  }
+}
+
+/**
+ * The SDK is misconfigured or an optional dependency is missing
+ */
+export class ConfigurationError extends TrezaSdkError {
+  constructor(message: string, options: TrezaErrorOptions = {}) {
+    super(message, options.code ?? 'CONFIGURATION_ERROR', options.details, options.statusCode, options);
+    this.name = 'ConfigurationError';
+  }
+}
+
+/**
+ * Error raised when waiting for an enclave status fails
+ *
+ * `code` is one of `ENCLAVE_FAILED`, `ENCLAVE_STATUS_UNREACHABLE`,
+ * `WAIT_TIMEOUT` or `WAIT_ABORTED`.
+ */
+export class EnclaveWaitError extends TrezaSdkError {
+  /** Last enclave snapshot observed */
+  public readonly enclave?: Enclave;
+  /** Most recent error logs, fetched when the enclave failed */
+  public readonly errorLogs: LogEntry[];
+
+  constructor(message: string, code: string, enclave?: Enclave, errorLogs: LogEntry[] = []) {
+    super(message, code, {
+      enclaveId: enclave?.id,
+      status: enclave?.status,
+      error_message: enclave?.error_message,
+    });
+    this.name = 'EnclaveWaitError';
+    this.enclave = enclave && redactSecrets(enclave);
+    this.errorLogs = redactSecrets(errorLogs);
+  }
+}
+
+/**
+ * Error raised when an API key rotation stops part way
+ *
+ * `code` is `ROTATION_ABORTED` when nothing changed: the replacement was
+ * deleted, or never created, and the old key is untouched. It is
+ * `ROTATION_INCOMPLETE` when the replacement is active and its secret was
+ * handed to `onNewSecret`, but the old key was not fully revoked.
+ */
+export class ApiKeyRotationError extends TrezaSdkError {
+  /** Key being rotated */
+  public readonly oldKey: ApiKey;
+  /** Replacement, when it still exists */
+  public readonly newKey?: ApiKey;
+
+  constructor(message: string, code: string, oldKey: ApiKey, newKey?: ApiKey, options: { cause?: unknown } = {}) {
+    super(message, code, { oldKeyId: oldKey.id, newKeyId: newKey?.id }, undefined, options);
+    this.name = 'ApiKeyRotationError';
+    this.oldKey = oldKey;
+    // The replacement's secret was handed to onNewSecret, or is lost with it
+    this.newKey = newKey && redactSecrets(newKey);
+  }
+}
+
+// ==================== Type Guards ====================
+
+export function isTrezaSdkError(error: unknown): error is TrezaSdkError {
+  return error instanceof TrezaSdkError;
+}
+
+export function isNotFoundError(error: unknown): error is NotFoundError {
+  return error instanceof NotFoundError;
+}
+
+export function isAuthError(error: unknown): error is AuthError {
+  return error instanceof AuthError;
+}
+
+export function isPermissionError(error: unknown): error is PermissionError {
+  return error instanceof PermissionError;
+}
+
+export function isRateLimitError(error: unknown): error is RateLimitError {
+  return error instanceof RateLimitError;
+}
+
+export function isValidationError(error: unknown): error is ValidationError {
+  return error instanceof ValidationError;
+}
+
+export function isPaymentRequiredError(error: unknown): error is PaymentRequiredError {
+  return error instanceof PaymentRequiredError;
+}
+
+export function isServerError(error: unknown): error is ServerError {
+  return error instanceof ServerError;
+}
+
+export function isNetworkError(error: unknown): error is NetworkError {
+  return error instanceof NetworkError;
+}
+
+export function isAttestationFailedError(error: unknown): error is AttestationFailedError {
+  return error instanceof AttestationFailedError;
+}
+
+export function isAttestationPolicyError(error: unknown): error is AttestationPolicyError {
+  return error instanceof AttestationPolicyError;
+}
+
+export function isSigningError(error: unknown): error is SigningError {
+  return error instanceof SigningError;
+}
+
+export function isContractRevertError(error: unknown): error is ContractRevertError {
+  return error instanceof ContractRevertError;
+}
+
+export function isConfigurationError(error: unknown): error is ConfigurationError {
+  return error instanceof ConfigurationError;
+}
+
+export function isEnclaveWaitError(error: unknown): error is EnclaveWaitError {
+  return error instanceof EnclaveWaitError;
+}
+
+export function isApiKeyRotationError(error: unknown): error is ApiKeyRotationError {
+  return error instanceof ApiKeyRotationError;
+}
+
+// ==================== Conversion ====================
+
+/**
+ * Build the error matching an HTTP status code
+ *
+ * @param statusCode HTTP status of the failed response
+ * @param message Error message, usually the API's `error` field
+ * @param options Extra context; `code` defaults to `HTTP_<status>`
+ */
+export function createHttpError(
+  statusCode: number,
+  message: string,
+  options: TrezaErrorOptions & { retryAfterMs?: number; requiredScope?: string } = {}
+): TrezaSdkError {
+  const withStatus = { code: `HTTP_${statusCode}`, ...options, statusCode };
+
+  if (statusCode === 400 || statusCode === 422) return new ValidationError(message, withStatus);
+  if (statusCode === 401) return new AuthError(message, withStatus);
+  if (statusCode === 402) return new PaymentRequiredError(message, withStatus);
+  if (statusCode === 403) return new PermissionError(message, withStatus);
+  if (statusCode === 404) return new NotFoundError(message, withStatus);
+  if (statusCode === 429) return new RateLimitError(message, withStatus);
+  if (statusCode >= 500) return new ServerError(message, withStatus);
+  return new TrezaSdkError(message, withStatus.code, options.details, statusCode, options);
+}
+
+/**
+ * Convert anything thrown by an SDK or ethers call into a TrezaSdkError
+ *
+ * SDK errors keep their class and fields, with `context` prefixed to the
+ * message. Ethers `CALL_EXCEPTION`s become ContractRevertError, and
+ * anything else is wrapped with code `UNKNOWN_ERROR`.
+ *
+ * @param error Thrown value
+ * @param context Prefix describing the failed operation, e.g. `Failed to get proof`
+ */
+export function toTrezaError(error: unknown, context?: string): TrezaSdkError {
+  const withContext = (message: string) => (context ? `${context}: ${message}` : message);
+
+  if (error instanceof TrezaSdkError) {
+    return context ? withMessage(error, withContext(error.message)) : error;
+  }
+
+  const err = error as any;
+
+  if (err?.code === 'CALL_EXCEPTION') {
+    const reason: string | undefined = err.reason ?? undefined;
+    return new ContractRevertError(withContext(reason ? `execution reverted: ${reason}` : err.shortMessage || err.message), {
+      reason,
+      transactionHash: err.receipt?.hash ?? err.transaction?.hash,
+      details: err.data ? { data: err.data } : undefined,
+      cause: error,
+    });
+  }
+
+  return new TrezaSdkError(withContext(err?.message || String(error)), 'UNKNOWN_ERROR', undefined, undefined, {
+    cause: error,
+  });
+}
+
+/**
+ * Copy an SDK error, keeping its class and fields, with a new message
+ */
+function withMessage<E extends TrezaSdkError>(error: E, message: string): E {
+  const copy: E = Object.assign(Object.create(Object.getPrototypeOf(error)), error);
+  Object.defineProperty(copy, 'message', { value: redactString(message), writable: true, configurable: true });
+  Object.defineProperty(copy, 'stack', {
+    value: error.stack?.replace(error.message, copy.message),
+    writable: true,
+    configurable: true,
+  });
+  return copy;
+}
+
+/**
+ * Read the platform request ID from response headers or body
+ */
+export function requestIdFrom(headers: any, body?: any): string | undefined {
+  const header = typeof headers?.get === 'function' ? headers.get('x-request-id') : headers?.['x-request-id'];
+  return (header ?? body?.requestId) || undefined;
+}
@@ -14,9 +14,68 @@ export type {
   UserKYCStatus
 } from './kyc';
 
+// Authentication Module exports
+export {
+  WalletSessionManager,
+  formatSiweMessage,
+  API_KEY_PERMISSIONS,
+  hashApiKey,
+  verifyApiKeyHash,
+  requiredScope,
+} from './auth';
+export type { WalletAuthConfig, SiweMessageFields, WalletSession } from './auth';
+
+// Transport Module exports
+export { FetchTransport, MemoryTransport, buildUrl } from './transport';
+export type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  FetchTransportOptions,
+  MemoryRequest,
+  MemoryResponse,
+  MemoryHandler,
+} from './transport';
+
+// Enclave lifecycle helpers
+export {
+  ENCLAVE_TRANSITIONS,
+  TERMINAL_ENCLAVE_STATUSES,
+  isTerminalStatus,
+  isLegalTransition,
+  canReachStatus,
+} from './lifecycle';
+
+// Log helpers
+export { LOG_SOURCES, mergeLogEntries, logEntryKey, LogCursor } from './logs';
+
+// Secret redaction
+export { REDACTED, redactSecrets, redactString, omitStoredSecrets } from './redact';
+
+// Attestation Module exports
+// The offline Nitro verifier and its `crypto` dependency are only loaded on
+// demand; import `verifyNitroAttestation` from `@treza/sdk/attestation`.
+export { AWS_NITRO_ROOT_CERTIFICATE, AWS_NITRO_ROOT_FINGERPRINT_SHA256 } from './attestation/nitro-root';
+export { evaluateAttestationPolicy } from './attestation/policy';
+export type { AttestationPolicy, PolicyEvaluation, PolicyMismatch, PcrIndex } from './attestation/policy';
+export type {
+  LocalVerificationOptions,
+  LocalVerificationResult,
+  NitroAttestationPayload,
+} from './attestation/types';
+
 // Signing Module exports
-export { EnclaveSigner, LocalSigner, BrowserWalletSigner } from './signing';
+export {
+  EnclaveSigner,
+  LocalSigner,
+  BrowserWalletSigner,
+  AttestationCache,
+  randomNonceSource,
+} from './signing';
 export type {
+  NonceSource,
+  AttestationCacheOptions,
+  AttestationCacheMetrics,
   SignerProvider,
   EnclaveSignerConfig,
   EnclaveSignResponse,
@@ -37,13 +96,87 @@ export type {
   X402PaymentReceipt,
 } from './x402';
 
+// Declarative deployment exports
+export {
+  parseDeploymentSpec,
+  validateDeploymentSpec,
+  toCreateEnclaveRequest,
+  planDeployment,
+  formatPlan,
+  applyDeployment,
+  formatApplyResult,
+} from './deploy';
+export type {
+  DeploymentSpec,
+  EnclaveSpec,
+  TaskSpec,
+  ChangeAction,
+  FieldChange,
+  EnclaveChange,
+  TaskChange,
+  PlannedChange,
+  DeploymentPlan,
+  PlanOptions,
+  ApplyOptions,
+  ApplyResult,
+} from './deploy';
+
+// Provider configuration validation exports
+export {
+  validateEnclaveConfig,
+  assertValidEnclaveConfig,
+  validateJsonSchema,
+  NITRO_CONFIG_SCHEMA,
+  parseDockerImage,
+  formatDockerImage,
+  isPinnedImage,
+  assertPinnedImage,
+} from './providers';
+export type { JsonSchema, JsonSchemaType, FieldError, DockerImageReference } from './providers';
+
+// Task schedule exports
+export {
+  parseCron,
+  validateSchedule,
+  assertValidSchedule,
+  getNextRuns,
+  getNextRun,
+  CRON_MACROS,
+} from './schedule';
+export type { CronExpression, NextRunsOptions } from './schedule';
+
 // Type exports
 export {
   TrezaConfig,
+  AccessTokenProvider,
+  HttpMethod,
+  RetryPolicy,
+  MutationOptions,
+  ValidateOptions,
+  PinImageOptions,
+  ListSort,
+  PageOptions,
+  Page,
+  ListEnclavesOptions,
+  ListTasksOptions,
+  ListApiKeysOptions,
+  TrezaRequest,
+  TrezaResponse,
+  RequestHandler,
+  Middleware,
+  RequestOptions,
   Enclave,
+  EnclaveStatus,
+  EnclaveProgressEvent,
+  WaitForEnclaveOptions,
   Provider,
   Task,
   ApiKey,
+  ApiKeyPermission,
+  RotateApiKeyOptions,
+  ApiKeyRotation,
+  StaleApiKeysOptions,
+  StaleApiKey,
   GitHubConnection,
   CreateEnclaveRequest,
   UpdateEnclaveRequest,
@@ -57,8 +190,15 @@ export {
   ProvidersResponse,
   TaskResponse,
   TasksResponse,
+  TaskRun,
+  TaskRunStatus,
+  GetTaskRunsOptions,
+  TaskRunResponse,
+  TaskRunsResponse,
   ApiKeyResponse,
   ApiKeysResponse,
+  Identity,
+  IdentityResponse,
   GitHubUser,
   Repository,
   Branch,
@@ -68,14 +208,25 @@ export {
   RepositoriesResponse,
   BranchesResponse,
   GetBranchesRequest,
+  DeployFromGitHubRequest,
+  DeployFromGitHubOptions,
+  GitHubBuildProgressEvent,
+  GitHubDeployment,
+  CheckEnclaveDriftOptions,
+  EnclaveDrift,
+  EnclaveRedeployment,
   EnclaveLifecycleRequest,
   EnclaveLifecycleResponse,
   LogEntry,
   LogsResponse,
+  LogSource,
+  TailLogsOptions,
   DockerImage,
   DockerTag,
   DockerSearchResponse,
   DockerTagsResponse,
+  ResolvedDockerImage,
+  ImageDrift,
   AttestationDocument,
   AttestationVerification,
   AttestationResponse,
@@ -83,9 +234,47 @@ export {
   VerificationResult,
   VerificationStatus,
   ApiError,
-  TrezaSdkError
 } from './types';
 
+// Error hierarchy and type guards
+export {
+  TrezaSdkError,
+  NotFoundError,
+  AuthError,
+  PermissionError,
+  RateLimitError,
+  ValidationError,
+  PaymentRequiredError,
+  ServerError,
+  NetworkError,
+  AttestationFailedError,
+  AttestationPolicyError,
+  SigningError,
+  ContractRevertError,
+  ConfigurationError,
+  EnclaveWaitError,
+  ApiKeyRotationError,
+  isTrezaSdkError,
+  isNotFoundError,
+  isAuthError,
+  isPermissionError,
+  isRateLimitError,
+  isValidationError,
+  isPaymentRequiredError,
+  isServerError,
+  isNetworkError,
+  isAttestationFailedError,
+  isAttestationPolicyError,
+  isSigningError,
+  isContractRevertError,
+  isConfigurationError,
+  isEnclaveWaitError,
+  isApiKeyRotationError,
+  createHttpError,
+  toTrezaError,
+} from './errors';
+export type { TrezaErrorOptions } from './errors';
+
 // Re-export the main client class as default
 import { TrezaClient } from './client';
 export default TrezaClient; 
\ No newline at end of file
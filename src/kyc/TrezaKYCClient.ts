@@ -5,9 +5,13 @@
  * Supports API and blockchain integration
  */
 
-import axios, { AxiosInstance } from 'axios';
 import { ethers } from 'ethers';
 import { SignerProvider } from '../signing/types';
+import { ConfigurationError, NetworkError, createHttpError, requestIdFrom, toTrezaError } from '../errors';
+import { HttpMethod } from '../types';
+import { Transport } from '../transport/types';
+import { FetchTransport } from '../transport/fetch';
+import { buildUrl } from '../transport/url';
 
 export interface ZKProof {
   commitment: string;
@@ -20,6 +24,8 @@ export interface ZKProof {
 export interface TrezaKYCConfig {
   apiUrl: string;
   apiKey?: string;
+  /** HTTP transport (defaults to a FetchTransport using the global `fetch`) */
+  transport?: Transport;
   blockchain?: {
     rpcUrl: string;
     contractAddress: string;
@@ -82,7 +88,7 @@ export interface BlockchainProof {
 
 export class TrezaKYCClient {
   private config: TrezaKYCConfig;
-  private httpClient: AxiosInstance;
+  private transport: Transport;
   private provider?: ethers.Provider;
   private contract?: ethers.Contract;
   
@@ -102,14 +108,8 @@ export class TrezaKYCClient {
   constructor(config: TrezaKYCConfig) {
     this.config = config;
     
-    // Initialize HTTP client
-    this.httpClient = axios.create({
-      baseURL: config.apiUrl,
-      headers: {
-        'Content-Type': 'application/json',
-        ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
-      },
-    });
+    // Initialize HTTP transport
+    this.transport = config.transport ?? new FetchTransport();
     
     // Initialize blockchain if configured
     if (config.blockchain) {
@@ -151,14 +151,12 @@ export class TrezaKYCClient {
     proof: ZKProof;
   }): Promise<ProofSubmissionResponse> {
     try {
-      const response = await this.httpClient.post('/kyc/proof', {
+      return await this.http<ProofSubmissionResponse>('POST', '/kyc/proof', {
         userId: params.userId,
         proof: params.proof,
       });
-      
-      return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to submit proof: ${error.response?.data?.error || error.message}`);
+      throw toTrezaError(error, 'Failed to submit proof');
     }
   }
   
@@ -167,11 +165,9 @@ export class TrezaKYCClient {
    */
   async verifyProof(proofId: string): Promise<ProofVerificationResponse> {
     try {
-      const response = await this.httpClient.get(`/kyc/proof/${proofId}/verify`);
-      
-      return response.data;
+      return await this.http<ProofVerificationResponse>('GET', `/kyc/proof/${proofId}/verify`);
     } catch (error: any) {
-      throw new Error(`Failed to verify proof: ${error.response?.data?.error || error.message}`);
+      throw toTrezaError(error, 'Failed to verify proof');
     }
   }
   
@@ -184,11 +180,9 @@ export class TrezaKYCClient {
         ? `/kyc/proof/${proofId}?includePrivate=true`
         : `/kyc/proof/${proofId}`;
         
-      const response = await this.httpClient.get(url);
-      
-      return response.data;
+      return await this.http<ZKProof>('GET', url);
     } catch (error: any) {
-      throw new Error(`Failed to get proof: ${error.response?.data?.error || error.message}`);
+      throw toTrezaError(error, 'Failed to get proof');
     }
   }
   
@@ -204,7 +198,7 @@ export class TrezaKYCClient {
     signer?: ethers.Signer;
   }): Promise<string> {
     if (!this.contract || !this.provider) {
-      throw new Error('Blockchain not configured');
+      throw new ConfigurationError('Blockchain not configured', { code: 'BLOCKCHAIN_NOT_CONFIGURED' });
     }
     
     try {
@@ -233,7 +227,7 @@ export class TrezaKYCClient {
       
       return tx.hash;
     } catch (error: any) {
-      throw new Error(`Failed to submit proof on-chain: ${error.message}`);
+      throw toTrezaError(error, 'Failed to submit proof on-chain');
     }
   }
   
@@ -245,7 +239,7 @@ export class TrezaKYCClient {
     signer?: ethers.Signer;
   }): Promise<boolean> {
     if (!this.contract || !this.provider) {
-      throw new Error('Blockchain not configured');
+      throw new ConfigurationError('Blockchain not configured', { code: 'BLOCKCHAIN_NOT_CONFIGURED' });
     }
     
     try {
@@ -272,7 +266,7 @@ export class TrezaKYCClient {
       
       return event?.args?.isValid || false;
     } catch (error: any) {
-      throw new Error(`Failed to verify proof on-chain: ${error.message}`);
+      throw toTrezaError(error, 'Failed to verify proof on-chain');
     }
   }
   
@@ -281,13 +275,13 @@ export class TrezaKYCClient {
    */
   async hasValidKYC(userAddress: string): Promise<boolean> {
     if (!this.contract) {
-      throw new Error('Blockchain not configured');
+      throw new ConfigurationError('Blockchain not configured', { code: 'BLOCKCHAIN_NOT_CONFIGURED' });
     }
     
     try {
       return await this.contract.hasValidKYC(userAddress);
     } catch (error: any) {
-      throw new Error(`Failed to check KYC status: ${error.message}`);
+      throw toTrezaError(error, 'Failed to check KYC status');
     }
   }
   
@@ -296,7 +290,7 @@ export class TrezaKYCClient {
    */
   async getProofFromChain(proofId: string): Promise<BlockchainProof> {
     if (!this.contract) {
-      throw new Error('Blockchain not configured');
+      throw new ConfigurationError('Blockchain not configured', { code: 'BLOCKCHAIN_NOT_CONFIGURED' });
     }
     
     try {
@@ -311,7 +305,7 @@ export class TrezaKYCClient {
         expiresAt: Number(result.expiresAt),
       };
     } catch (error: any) {
-      throw new Error(`Failed to get proof from chain: ${error.message}`);
+      throw toTrezaError(error, 'Failed to get proof from chain');
     }
   }
   
@@ -320,13 +314,13 @@ export class TrezaKYCClient {
    */
   async getUserProofId(userAddress: string): Promise<string> {
     if (!this.contract) {
-      throw new Error('Blockchain not configured');
+      throw new ConfigurationError('Blockchain not configured', { code: 'BLOCKCHAIN_NOT_CONFIGURED' });
     }
     
     try {
       return await this.contract.getUserProofId(userAddress);
     } catch (error: any) {
-      throw new Error(`Failed to get user proof ID: ${error.message}`);
+      throw toTrezaError(error, 'Failed to get user proof ID');
     }
   }
   
@@ -335,7 +329,7 @@ export class TrezaKYCClient {
    */
   async doesCommitmentExist(commitment: string): Promise<boolean> {
     if (!this.contract) {
-      throw new Error('Blockchain not configured');
+      throw new ConfigurationError('Blockchain not configured', { code: 'BLOCKCHAIN_NOT_CONFIGURED' });
     }
     
     try {
@@ -345,7 +339,7 @@ export class TrezaKYCClient {
         
       return await this.contract.doesCommitmentExist(commitmentBytes32);
     } catch (error: any) {
-      throw new Error(`Failed to check commitment: ${error.message}`);
+      throw toTrezaError(error, 'Failed to check commitment');
     }
   }
   
@@ -364,7 +358,7 @@ export class TrezaKYCClient {
         return verification.publicInputs.includes('isAdult:true');
       }
     } catch (error: any) {
-      throw new Error(`Failed to check adult status: ${error.message}`);
+      throw toTrezaError(error, 'Failed to check adult status');
     }
   }
   
@@ -380,7 +374,7 @@ export class TrezaKYCClient {
       const countryInput = publicInputs.find(input => input.startsWith('country:'));
       return countryInput ? countryInput.split(':')[1] : null;
     } catch (error: any) {
-      throw new Error(`Failed to get country: ${error.message}`);
+      throw toTrezaError(error, 'Failed to get country');
     }
   }
   
@@ -395,7 +389,7 @@ export class TrezaKYCClient {
       
       return publicInputs.includes('documentValid:true');
     } catch (error: any) {
-      throw new Error(`Failed to check document validity: ${error.message}`);
+      throw toTrezaError(error, 'Failed to check document validity');
     }
   }
   
@@ -411,7 +405,7 @@ export class TrezaKYCClient {
       const docTypeInput = publicInputs.find(input => input.startsWith('documentType:'));
       return docTypeInput ? docTypeInput.split(':')[1] : null;
     } catch (error: any) {
-      throw new Error(`Failed to get document type: ${error.message}`);
+      throw toTrezaError(error, 'Failed to get document type');
     }
   }
   
@@ -439,7 +433,7 @@ export class TrezaKYCClient {
       
       return claims;
     } catch (error: any) {
-      throw new Error(`Failed to get claims: ${error.message}`);
+      throw toTrezaError(error, 'Failed to get claims');
     }
   }
   
@@ -502,7 +496,7 @@ export class TrezaKYCClient {
         claims
       };
     } catch (error: any) {
-      throw new Error(`Failed to verify requirements: ${error.message}`);
+      throw toTrezaError(error, 'Failed to verify requirements');
     }
   }
   
@@ -533,7 +527,7 @@ export class TrezaKYCClient {
       return new ethers.Wallet(this.config.blockchain.privateKey, this.provider);
     }
 
-    throw new Error(
+    throw new ConfigurationError(
       'No signer available. Configure a signerProvider in your blockchain config:\n' +
       '\n' +
       '  // Production (recommended):\n' +
@@ -542,10 +536,38 @@ export class TrezaKYCClient {
       '\n' +
       '  // Development:\n' +
       '  import { LocalSigner } from \'@treza/sdk/signing\';\n' +
-      '  blockchain: { signerProvider: new LocalSigner(process.env.PRIVATE_KEY) }\n'
+      '  blockchain: { signerProvider: new LocalSigner(process.env.PRIVATE_KEY) }\n',
+      { code: 'SIGNER_NOT_CONFIGURED' }
     );
   }
 
+  // ==================== HTTP ====================
+
+  /**
+   * Send a request to the KYC API, throwing on error statuses
+   */
+  private async http<T>(method: HttpMethod, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers['authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    let response;
+    try {
+      response = await this.transport.send({ method, url: buildUrl(this.config.apiUrl, path), headers, body });
+    } catch (error) {
+      throw new NetworkError('Network error: Unable to reach Treza KYC API', { cause: error });
+    }
+
+    if (response.status >= 400) {
+      throw createHttpError(response.status, response.data?.error || `Request failed with status code ${response.status}`, {
+        details: { response: response.data },
+        requestId: requestIdFrom(response.headers, response.data),
+      });
+    }
+    return response.data as T;
+  }
+
   // ==================== Utility Methods ====================
   
   /**
@@ -553,7 +575,6 @@ export class TrezaKYCClient {
    */
   setAPIKey(apiKey: string): void {
     this.config.apiKey = apiKey;
-    this.httpClient.defaults.headers.common['Authorization'] = `Bearer ${apiKey}`;
   }
   
   /**
@@ -561,7 +582,6 @@ export class TrezaKYCClient {
    */
   clearAPIKey(): void {
     this.config.apiKey = undefined;
-    delete this.httpClient.defaults.headers.common['Authorization'];
   }
   
   /**
@@ -569,8 +589,8 @@ export class TrezaKYCClient {
    */
   async healthCheck(): Promise<boolean> {
     try {
-      const response = await this.httpClient.get('/health');
-      return response.data.status === 'ok';
+      const health = await this.http<{ status: string }>('GET', '/health');
+      return health.status === 'ok';
     } catch {
       return false;
     }
@@ -0,0 +1,81 @@
+/**
+ * Enclave lifecycle state machine
+ *
+ * Describes which status transitions the platform performs, which statuses
+ * are terminal (the platform will not leave them without a user action), and
+ * whether a target status can still be reached from the current one.
+ */
+
+import { EnclaveStatus } from './types';
+
+/**
+ * Legal status transitions. User actions (update, pause, resume, terminate)
+ * are included, so a settled enclave can move on once one is issued.
+ */
+export const ENCLAVE_TRANSITIONS: Readonly<Record<EnclaveStatus, readonly EnclaveStatus[]>> = {
+  PENDING_BUILD: ['BUILDING', 'BUILD_FAILED', 'PENDING_DEPLOY', 'FAILED', 'PENDING_DESTROY'],
+  BUILDING: ['PENDING_DEPLOY', 'BUILD_FAILED', 'FAILED', 'PENDING_DESTROY'],
+  BUILD_FAILED: ['PENDING_BUILD', 'PENDING_DESTROY'],
+  PENDING_DEPLOY: ['DEPLOYING', 'FAILED', 'PENDING_DESTROY'],
+  DEPLOYING: ['DEPLOYED', 'FAILED', 'PENDING_DESTROY'],
+  DEPLOYED: ['PAUSING', 'PENDING_BUILD', 'PENDING_DEPLOY', 'PENDING_DESTROY', 'FAILED'],
+  PAUSING: ['PAUSED', 'FAILED'],
+  PAUSED: ['RESUMING', 'PENDING_DESTROY'],
+  RESUMING: ['DEPLOYED', 'FAILED'],
+  PENDING_DESTROY: ['DESTROYING', 'FAILED'],
+  DESTROYING: ['DESTROYED', 'FAILED'],
+  DESTROYED: [],
+  FAILED: ['PENDING_BUILD', 'PENDING_DEPLOY', 'PENDING_DESTROY'],
+};
+
+/**
+ * Statuses the platform does not leave on its own
+ */
+export const TERMINAL_ENCLAVE_STATUSES: readonly EnclaveStatus[] = [
+  'DEPLOYED',
+  'PAUSED',
+  'BUILD_FAILED',
+  'FAILED',
+  'DESTROYED',
+];
+
+/**
+ * Whether the platform will not move the enclave out of `status` without a user action
+ */
+export function isTerminalStatus(status: EnclaveStatus): boolean {
+  return TERMINAL_ENCLAVE_STATUSES.includes(status);
+}
+
+/**
+ * Whether `from -> to` is a single legal transition
+ */
+export function isLegalTransition(from: EnclaveStatus, to: EnclaveStatus): boolean {
+  return from === to || (ENCLAVE_TRANSITIONS[from]?.includes(to) ?? false);
+}
+
+/**
+ * Whether `to` is reachable from `from` through any sequence of legal transitions.
+ * Used to validate observed jumps between polls, which may skip statuses.
+ *
+ * @param automaticOnly Only follow transitions the platform makes on its own,
+ *   i.e. never leave a terminal status
+ */
+export function canReachStatus(from: EnclaveStatus, to: EnclaveStatus, automaticOnly = false): boolean {
+  const visited = new Set<EnclaveStatus>([from]);
+  const queue: EnclaveStatus[] = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) return true;
+    if (automaticOnly && isTerminalStatus(current)) continue;
+
+    for (const next of ENCLAVE_TRANSITIONS[current] ?? []) {
+      if (!visited.has(next)) {
+        visited.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,89 @@
+/**
+ * Log helpers for the Treza Platform client
+ *
+ * The logs endpoint returns a snapshot grouped by source. These helpers
+ * flatten the groups into a single timestamp-ordered stream and track a
+ * cursor so repeated polls only yield new entries.
+ */
+
+import { LogEntry, LogSource, LogsResponse } from './types';
+
+/**
+ * All log sources returned by the logs endpoint
+ */
+export const LOG_SOURCES: readonly LogSource[] = ['ecs', 'stepfunctions', 'lambda', 'application', 'errors'];
+
+/**
+ * Identity of a log entry, used to drop duplicates. The source is left out
+ * because the `errors` group repeats entries from the other groups.
+ */
+export function logEntryKey(entry: LogEntry): string {
+  return `${entry.timestamp}|${entry.logGroup ?? ''}|${entry.stream ?? ''}|${entry.message}`;
+}
+
+/**
+ * Flatten the per-source groups of a logs response into one array sorted by
+ * timestamp, without duplicates
+ *
+ * @param logs Grouped log entries from `getEnclaveLogs`
+ * @param types Sources to include (defaults to all)
+ */
+export function mergeLogEntries(logs: LogsResponse['logs'], types: readonly LogSource[] = LOG_SOURCES): LogEntry[] {
+  const unique = new Map<string, LogEntry>();
+
+  for (const type of types) {
+    for (const entry of logs[type] || []) {
+      const key = logEntryKey(entry);
+      if (!unique.has(key)) {
+        unique.set(key, entry);
+      }
+    }
+  }
+
+  return [...unique.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Tracks the newest timestamp yielded so far. Entries at exactly the cursor
+ * timestamp are remembered so ties are not yielded twice; entries older than
+ * the cursor are treated as already seen.
+ */
+export class LogCursor {
+  private timestamp: number;
+  private seenAtTimestamp = new Set<string>();
+
+  constructor(since: number = 0) {
+    this.timestamp = since;
+  }
+
+  /**
+   * Timestamp of the newest entry yielded, or the start time before any
+   */
+  get position(): number {
+    return this.timestamp;
+  }
+
+  /**
+   * Return the entries of a sorted batch that have not been yielded yet,
+   * and advance the cursor past them
+   */
+  advance(entries: LogEntry[]): LogEntry[] {
+    const fresh: LogEntry[] = [];
+
+    for (const entry of entries) {
+      if (entry.timestamp < this.timestamp) continue;
+
+      const key = logEntryKey(entry);
+      if (entry.timestamp === this.timestamp && this.seenAtTimestamp.has(key)) continue;
+
+      if (entry.timestamp > this.timestamp) {
+        this.timestamp = entry.timestamp;
+        this.seenAtTimestamp = new Set();
+      }
+      this.seenAtTimestamp.add(key);
+      fresh.push(entry);
+    }
+
+    return fresh;
+  }
+}
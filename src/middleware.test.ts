@@ -0,0 +1,81 @@
+import { MockTrezaPlatform } from './testing';
+import { Middleware } from './types';
+
+const WALLET = '0x1234567890123456789012345678901234567890';
+
+describe('TrezaClient middleware', () => {
+  let platform: MockTrezaPlatform;
+
+  beforeEach(() => {
+    platform = new MockTrezaPlatform({ requireAuth: true, tokens: ['token'] });
+  });
+
+  function recorder(name: string, calls: string[]): Middleware {
+    return async (request, next) => {
+      calls.push(`${name}:${request.attempt}:${request.headers.authorization ?? 'no auth'}`);
+      const response = await next(request);
+      calls.push(`${name}:${response.status}`);
+      return response;
+    };
+  }
+
+  it('runs configured then added middleware on every attempt, outside authentication', async () => {
+    const calls: string[] = [];
+    const client = platform.createClient({ apiKey: 'token', retry: { baseDelayMs: 0 }, middleware: [recorder('first', calls)] });
+    client.use(recorder('second', calls));
+    platform.failNext({ path: '/api/enclaves' }, { status: 503 });
+
+    await client.getEnclaves(WALLET);
+
+    expect(calls).toEqual([
+      'first:0:no auth', 'second:0:no auth', 'second:503', 'first:503',
+      'first:1:no auth', 'second:1:no auth', 'second:200', 'first:200',
+    ]);
+    expect(platform.requests.map(({ headers }) => headers.authorization)).toEqual(['Bearer token', 'Bearer token']);
+  });
+
+  it('lets middleware rewrite requests and responses', async () => {
+    const enclave = platform.seedEnclave({ walletAddress: WALLET, name: 'signer' });
+    const client = platform.createClient({ apiKey: 'token' }).use(async (request, next) => {
+      const response = await next({ ...request, headers: { ...request.headers, 'x-trace-id': 'trace-1' } });
+      return { ...response, data: { enclave: { ...response.data.enclave, name: response.data.enclave.name.toUpperCase() } } };
+    });
+
+    await expect(client.getEnclave(enclave.id)).resolves.toMatchObject({ name: 'SIGNER' });
+    expect(platform.requests[0].headers['x-trace-id']).toBe('trace-1');
+  });
+
+  it('sees error statuses as responses before they become errors', async () => {
+    const enclave = platform.seedEnclave({ walletAddress: WALLET });
+    const client = platform.createClient({ apiKey: 'token', retry: false }).use(async (request, next) => {
+      const response = await next(request);
+      return response.status === 404 ? { ...response, status: 200, data: { enclave: { id: 'fallback' } } } : response;
+    });
+
+    await expect(client.getEnclave('enc_missing')).resolves.toEqual({ id: 'fallback' });
+    await expect(client.getEnclave(enclave.id)).resolves.toMatchObject({ id: enclave.id });
+  });
+
+  it('uses an Authorization header set by middleware instead of the built-in one', async () => {
+    const client = platform.createClient({ apiKey: 'wrong' }).use((request, next) =>
+      next({ ...request, headers: { ...request.headers, authorization: 'Bearer token' } })
+    );
+
+    await client.getEnclaves(WALLET);
+
+    expect(platform.requests[0].headers.authorization).toBe('Bearer token');
+  });
+
+  it('sends custom calls through the pipeline with request()', async () => {
+    const enclave = platform.seedEnclave({ walletAddress: WALLET });
+    const calls: string[] = [];
+    const client = platform.createClient({ apiKey: 'token' }).use(recorder('trace', calls));
+
+    const { signature } = await client.request<{ signature: string }>('POST', `/api/enclaves/${enclave.id}/sign/message`, {
+      message: '0x68656c6c6f',
+    });
+
+    expect(signature).toMatch(/^0x[0-9a-f]{130}$/);
+    expect(calls).toEqual(['trace:0:no auth', 'trace:200']);
+  });
+});
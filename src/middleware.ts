@@ -0,0 +1,109 @@
+/**
+ * Middleware pipeline for the Treza Platform client
+ *
+ * Every request made by TrezaClient, including enclave signing calls,
+ * passes through a chain of middleware before reaching the HTTP transport:
+ *
+ * ```
+ * retry → user middleware (in `use` order) → auth → transport
+ * ```
+ *
+ * Authentication and retries are themselves middleware, so user middleware
+ * sees each attempt with its final headers except `Authorization`, and can
+ * supply its own `Authorization` header to bypass the built-in auth.
+ */
+
+import { Middleware, RequestHandler, RetryPolicy, TrezaRequest } from './types';
+import { NetworkError } from './errors';
+import { IDEMPOTENCY_HEADER, computeRetryDelay, isRetryableRequest, parseRetryAfter, sleep } from './retry';
+
+/**
+ * Chain middleware in front of a handler; the first middleware runs outermost
+ */
+export function composeMiddleware(middleware: Middleware[], handler: RequestHandler): RequestHandler {
+  return middleware.reduceRight<RequestHandler>(
+    (next, current) => (request) => current(request, next),
+    handler
+  );
+}
+
+/**
+ * Whether a request carries a header, ignoring case
+ */
+export function hasHeader(headers: Record<string, string>, name: string): boolean {
+  const lower = name.toLowerCase();
+  return Object.keys(headers).some((key) => key.toLowerCase() === lower);
+}
+
+/**
+ * Built-in authentication: attaches a bearer token and, when the token can
+ * be refreshed, replays the request once with a fresh token on 401.
+ *
+ * @param resolveToken Returns the current token, or a new one when `forceRefresh` is set
+ * @param canRefresh Whether a 401 should trigger a refresh
+ */
+export function createAuthMiddleware(
+  resolveToken: (forceRefresh: boolean) => Promise<string | undefined>,
+  canRefresh: () => boolean
+): Middleware {
+  return async (request, next) => {
+    if (hasHeader(request.headers, 'authorization')) {
+      return next(request);
+    }
+
+    const token = await resolveToken(false);
+    if (!token) {
+      return next(request);
+    }
+
+    const response = await next(withBearer(request, token));
+    if (response.status !== 401 || !canRefresh()) {
+      return response;
+    }
+
+    return next(withBearer(request, (await resolveToken(true)) ?? token));
+  };
+}
+
+/**
+ * Built-in retries: replays retryable requests that fail with a network
+ * error or a status in `retryOnStatus`, backing off between attempts. An
+ * abort during the backoff ends the retries with the last failure.
+ *
+ * @param policy Fully resolved retry policy
+ */
+export function createRetryMiddleware(policy: Required<RetryPolicy>): Middleware {
+  return async (request, next) => {
+    const replayable = isRetryableRequest(request.method, hasHeader(request.headers, IDEMPOTENCY_HEADER), policy);
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = replayable && attempt < policy.maxRetries && !request.signal?.aborted;
+
+      let response;
+      try {
+        response = await next({ ...request, attempt });
+      } catch (error) {
+        if (!canRetry || !policy.retryNetworkErrors || !(error instanceof NetworkError)) {
+          throw error;
+        }
+        await sleep(computeRetryDelay(attempt, policy), request.signal);
+        if (request.signal?.aborted) throw error;
+        continue;
+      }
+
+      if (!canRetry || !policy.retryOnStatus.includes(response.status)) {
+        return response;
+      }
+
+      const retryAfterMs = response.status === 429 || response.status === 503
+        ? parseRetryAfter(response.headers['retry-after'])
+        : undefined;
+      await sleep(computeRetryDelay(attempt, policy, retryAfterMs), request.signal);
+      if (request.signal?.aborted) return response;
+    }
+  };
+}
+
+function withBearer(request: TrezaRequest, token: string): TrezaRequest {
+  return { ...request, headers: { ...request.headers, authorization: `Bearer ${token}` } };
+}
@@ -0,0 +1,125 @@
+import { paginate } from './pagination';
+import { ManualClock, MockTrezaPlatform } from './testing';
+import { Enclave } from './types';
+
+const WALLET = '0x1234567890123456789012345678901234567890';
+const START = Date.UTC(2026, 0, 1);
+
+/** Seed enclaves a minute apart, in order */
+function seed(platform: MockTrezaPlatform, enclaves: Array<Partial<Enclave>>): Enclave[] {
+  return enclaves.map((enclave) => {
+    platform.advance(60_000);
+    return platform.seedEnclave({ walletAddress: WALLET, ...enclave });
+  });
+}
+
+function listQueries(platform: MockTrezaPlatform): Array<Record<string, string>> {
+  return platform.requests.map(({ url }) => Object.fromEntries(new URL(url).searchParams));
+}
+
+describe('enclave pagination', () => {
+  let platform: MockTrezaPlatform;
+
+  beforeEach(() => {
+    platform = new MockTrezaPlatform({ clock: new ManualClock(START) });
+  });
+
+  it('follows cursors across pages, sending the filters with every request', async () => {
+    const [a, , c, d, e] = seed(platform, [
+      { name: 'a', status: 'DEPLOYED' },
+      { name: 'b', status: 'FAILED' },
+      { name: 'c', status: 'PAUSED' },
+      { name: 'd', status: 'DEPLOYED' },
+      { name: 'e', status: 'DEPLOYED', region: 'eu-west-1' },
+    ]);
+    const client = platform.createClient();
+
+    const names: string[] = [];
+    for await (const enclave of client.listEnclaves(WALLET, { status: ['DEPLOYED', 'PAUSED'], region: a.region, limit: 2 })) {
+      names.push(enclave.name);
+    }
+
+    expect(names).toEqual([d.name, c.name, a.name]);
+    expect(names).not.toContain(e.name);
+    expect(listQueries(platform)).toEqual([
+      { wallet: WALLET, limit: '2', status: 'DEPLOYED,PAUSED', region: a.region },
+      { wallet: WALLET, limit: '2', status: 'DEPLOYED,PAUSED', region: a.region, cursor: 'cursor_2' },
+    ]);
+  });
+
+  it('returns one page with its cursor, sorted and filtered by creation time', async () => {
+    const [, b, c, d] = seed(platform, [{ name: 'd' }, { name: 'c' }, { name: 'b' }, { name: 'a' }]);
+    const client = platform.createClient();
+
+    const first = await client.getEnclavesPage(WALLET, { createdAfter: new Date(START + 60_000), sort: 'name', limit: 2 });
+    const second = await client.getEnclavesPage(WALLET, { createdAfter: new Date(START + 60_000), sort: 'name', cursor: first.nextCursor });
+
+    expect(first.items.map(({ id }) => id)).toEqual([d.id, c.id]);
+    expect(second).toEqual({ items: [expect.objectContaining({ id: b.id })], nextCursor: undefined });
+    expect(listQueries(platform)[0].createdAfter).toBe(new Date(START + 60_000).toISOString());
+  });
+
+  it('filters pages itself when the platform ignores the filters', async () => {
+    const [deployed] = seed(platform, [{ status: 'DEPLOYED' }, { status: 'FAILED' }]);
+    const client = platform.createClient().use((request, next) => next({ ...request, query: { wallet: WALLET } }));
+
+    const page = await client.getEnclavesPage(WALLET, { status: 'DEPLOYED' });
+
+    expect(page.items.map(({ id }) => id)).toEqual([deployed.id]);
+  });
+
+  it('stops iterating when the signal aborts', async () => {
+    seed(platform, [{}, {}, {}]);
+    const controller = new AbortController();
+
+    const seen: string[] = [];
+    for await (const enclave of platform.createClient().listEnclaves(WALLET, { limit: 1, signal: controller.signal })) {
+      seen.push(enclave.id);
+      controller.abort();
+    }
+
+    expect(seen).toHaveLength(1);
+    expect(platform.requests).toHaveLength(1);
+  });
+});
+
+describe('task and API key pagination', () => {
+  it('lists a wallet\'s tasks for one enclave and its active API keys', async () => {
+    const platform = new MockTrezaPlatform({ clock: new ManualClock(START) });
+    const [signer, indexer] = seed(platform, [{ name: 'signer' }, { name: 'indexer' }]);
+    const client = platform.createClient();
+    for (const enclave of [signer, indexer, signer]) {
+      await client.createTask({ name: enclave.name, description: '', enclaveId: enclave.id, schedule: '0 * * * *', walletAddress: WALLET });
+    }
+    const [kept, revoked] = await Promise.all(['kept', 'revoked'].map((name) =>
+      client.createApiKey({ name, permissions: ['enclaves:read'], walletAddress: WALLET })
+    ));
+    await client.updateApiKey({ id: revoked.id, walletAddress: WALLET, status: 'inactive' });
+
+    const tasks = [];
+    for await (const task of client.listTasks(WALLET, { enclaveId: signer.id, limit: 1 })) {
+      tasks.push(task);
+    }
+    const keys = [];
+    for await (const key of client.listApiKeys(WALLET, { status: 'active' })) {
+      keys.push(key);
+    }
+
+    expect(tasks.map(({ enclaveId }) => enclaveId)).toEqual([signer.id, signer.id]);
+    expect(keys.map(({ id }) => id)).toEqual([kept.id]);
+  });
+});
+
+describe('paginate', () => {
+  it('stops when the platform returns a cursor it already followed', async () => {
+    const fetchPage = jest.fn(async (cursor: string | undefined) => ({ items: [cursor ?? 'start'], nextCursor: 'again' }));
+
+    const items: string[] = [];
+    for await (const item of paginate(fetchPage)) {
+      items.push(item);
+    }
+
+    expect(items).toEqual(['start', 'again']);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Pagination helpers for the Treza Platform client
+ *
+ * List endpoints accept filters and a cursor, and return a `nextCursor`
+ * until the last page. These helpers build the query string, re-apply the
+ * filters to each page (platform versions without filtering return every
+ * item) and follow cursors for the async-iterator list methods.
+ */
+
+import { ListApiKeysOptions, ListEnclavesOptions, ListTasksOptions, Page, TrezaRequest } from './types';
+
+type ListOptions = ListEnclavesOptions | ListTasksOptions | ListApiKeysOptions;
+
+/** Filter options compared directly against the item field of the same name */
+const FIELD_FILTERS = ['status', 'region', 'providerId', 'enclaveId'] as const;
+
+/**
+ * Query parameters for a list request
+ *
+ * @param walletAddress Wallet that owns the items
+ * @param options Filters and paging options
+ */
+export function toListQuery(walletAddress: string, options: ListOptions): NonNullable<TrezaRequest['query']> {
+  const query: NonNullable<TrezaRequest['query']> = {
+    wallet: walletAddress,
+    limit: options.limit,
+    cursor: options.cursor,
+    sort: options.sort,
+    createdAfter: toIsoString(options.createdAfter),
+  };
+
+  for (const field of FIELD_FILTERS) {
+    const value = (options as Record<string, string | string[] | undefined>)[field];
+    query[field] = Array.isArray(value) ? value.join(',') : value;
+  }
+
+  return query;
+}
+
+/**
+ * Drop items that do not match the filters in `options`
+ */
+export function applyListFilters<T extends { createdAt: string }>(items: T[], options: ListOptions): T[] {
+  const createdAfter = options.createdAfter === undefined ? undefined : Date.parse(toIsoString(options.createdAfter)!);
+
+  return items.filter((item) => {
+    if (createdAfter !== undefined && !(Date.parse(item.createdAt) > createdAfter)) {
+      return false;
+    }
+
+    return FIELD_FILTERS.every((field) => {
+      const expected = (options as Record<string, string | string[] | undefined>)[field];
+      if (expected === undefined) return true;
+      const actual = (item as Record<string, unknown>)[field];
+      return Array.isArray(expected) ? expected.includes(actual as string) : expected === actual;
+    });
+  });
+}
+
+/**
+ * Yield every item across pages, following `nextCursor` until the last page
+ *
+ * @param fetchPage Fetches the page starting at `cursor`
+ * @param cursor Cursor to start from (defaults to the first page)
+ * @param signal Stop iterating; the iterator finishes without throwing
+ */
+export async function* paginate<T>(
+  fetchPage: (cursor: string | undefined) => Promise<Page<T>>,
+  cursor?: string,
+  signal?: AbortSignal
+): AsyncGenerator<T, void, undefined> {
+  const seen = new Set<string>();
+
+  while (!signal?.aborted) {
+    const page = await fetchPage(cursor);
+    for (const item of page.items) {
+      if (signal?.aborted) return;
+      yield item;
+    }
+
+    // Stop on the last page, or if the platform hands back a cursor we already followed
+    if (!page.nextCursor || seen.has(page.nextCursor)) return;
+    seen.add(page.nextCursor);
+    cursor = page.nextCursor;
+  }
+}
+
+function toIsoString(value: string | Date | undefined): string | undefined {
+  return value instanceof Date ? value.toISOString() : value;
+}
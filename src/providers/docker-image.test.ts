@@ -0,0 +1,33 @@
+import { assertPinnedImage, formatDockerImage, isPinnedImage, parseDockerImage } from './docker-image';
+
+const DIGEST = `sha256:${'a'.repeat(64)}`;
+
+describe('parseDockerImage', () => {
+  it.each([
+    ['nginx', { repository: 'nginx' }],
+    ['acme/signer:1.2', { repository: 'acme/signer', tag: '1.2' }],
+    [`nginx:1.27@${DIGEST}`, { repository: 'nginx', tag: '1.27', digest: DIGEST }],
+    ['ghcr.io/acme/signer:1.2', { registry: 'ghcr.io', repository: 'acme/signer', tag: '1.2' }],
+    ['localhost:5000/signer', { registry: 'localhost:5000', repository: 'signer' }],
+  ])('splits %s', (image, reference) => {
+    expect(parseDockerImage(image)).toEqual(reference);
+    expect(formatDockerImage(reference)).toBe(image);
+  });
+});
+
+describe('image pinning', () => {
+  it('counts only sha256 digests as pinned', () => {
+    expect(isPinnedImage(`nginx@${DIGEST}`)).toBe(true);
+    expect(isPinnedImage('nginx:latest')).toBe(false);
+    expect(isPinnedImage('nginx@sha256:abc')).toBe(false);
+  });
+
+  it('rejects an unpinned dockerImage and passes configurations without one', () => {
+    expect(() => assertPinnedImage({ dockerImage: 'nginx:latest' })).toThrow(expect.objectContaining({
+      code: 'UNPINNED_IMAGE',
+      fieldErrors: [expect.objectContaining({ field: 'providerConfig.dockerImage', value: 'nginx:latest' })],
+    }));
+    expect(() => assertPinnedImage({ dockerImage: `nginx@${DIGEST}` })).not.toThrow();
+    expect(() => assertPinnedImage(undefined)).not.toThrow();
+  });
+});
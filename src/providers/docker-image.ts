@@ -0,0 +1,81 @@
+/**
+ * Docker image references
+ *
+ * `providerConfig.dockerImage` names an image by tag or by digest. A tag can
+ * be moved to a different image at any time; a digest can't, so an enclave
+ * created from `repository@sha256:...` keeps running the image it was
+ * created with.
+ */
+
+import { ValidationError } from '../errors';
+import { DockerImageReference, FieldError } from './types';
+
+const DIGEST_PATTERN = /^sha256:[0-9a-f]{64}$/;
+
+/**
+ * Split an image reference into registry, repository, tag and digest
+ *
+ * @example
+ * ```typescript
+ * parseDockerImage('ghcr.io/acme/signer:1.2');
+ * // { registry: 'ghcr.io', repository: 'acme/signer', tag: '1.2' }
+ * ```
+ */
+export function parseDockerImage(image: string): DockerImageReference {
+  const [name, digest] = image.trim().split('@', 2);
+  const slash = name.lastIndexOf('/');
+  const colon = name.lastIndexOf(':');
+  const path = colon > slash ? name.slice(0, colon) : name;
+  const tag = colon > slash ? name.slice(colon + 1) : undefined;
+
+  // As in Docker, a first segment with a dot, a port or `localhost` is a registry host
+  const [first, ...rest] = path.split('/');
+  const registry = rest.length > 0 && (/[.:]/.test(first) || first === 'localhost') ? first : undefined;
+
+  return {
+    ...(registry !== undefined && { registry }),
+    repository: registry !== undefined ? rest.join('/') : path,
+    ...(tag !== undefined && { tag }),
+    ...(digest !== undefined && { digest }),
+  };
+}
+
+/**
+ * Reassemble an image reference from its parts
+ */
+export function formatDockerImage(reference: DockerImageReference): string {
+  const name = reference.registry !== undefined ? `${reference.registry}/${reference.repository}` : reference.repository;
+  return `${name}${reference.tag !== undefined ? `:${reference.tag}` : ''}${reference.digest !== undefined ? `@${reference.digest}` : ''}`;
+}
+
+/**
+ * Whether an image reference names a `sha256` digest rather than only a tag
+ */
+export function isPinnedImage(image: string): boolean {
+  const { digest } = parseDockerImage(image);
+  return digest !== undefined && DIGEST_PATTERN.test(digest);
+}
+
+/**
+ * Reject a provider configuration whose `dockerImage` is not pinned to a digest
+ *
+ * Configurations without a `dockerImage`, such as GitHub-sourced enclaves, pass.
+ *
+ * @throws ValidationError with code `UNPINNED_IMAGE` and a `fieldErrors` entry for `providerConfig.dockerImage`
+ */
+export function assertPinnedImage(providerConfig: Record<string, any> | undefined): void {
+  const image = providerConfig?.dockerImage;
+  if (typeof image !== 'string' || isPinnedImage(image)) {
+    return;
+  }
+  const fieldError: FieldError = {
+    field: 'providerConfig.dockerImage',
+    message: 'must be pinned to a digest, e.g. repository@sha256:...',
+    keyword: 'pattern',
+    value: image,
+  };
+  throw new ValidationError(`Docker image ${image} is not pinned to a digest`, {
+    code: 'UNPINNED_IMAGE',
+    fieldErrors: [fieldError],
+  });
+}
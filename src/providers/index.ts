@@ -0,0 +1,29 @@
+/**
+ * Treza Providers Module
+ *
+ * Client-side checks of enclave configuration against a provider:
+ *
+ * - validateEnclaveConfig: Region and `providerConfig` checks, one error per field
+ * - validateJsonSchema:    The JSON Schema subset used by `Provider.configSchema`
+ * - NITRO_CONFIG_SCHEMA:   Settings of the AWS Nitro Enclaves provider
+ * - parseDockerImage:      Registry, repository, tag and digest of `dockerImage`
+ * - assertPinnedImage:     Rejects a `dockerImage` that is not pinned to a digest
+ *
+ * TrezaClient runs these before `createEnclave` and `updateEnclave` when
+ * `validateProviderConfig` or `requirePinnedImages` is enabled.
+ *
+ * @example
+ * ```typescript
+ * import { validateEnclaveConfig } from '@treza/sdk';
+ *
+ * const provider = await client.getProvider('aws-nitro');
+ * const errors = validateEnclaveConfig(provider, { region: 'us-east-1', providerConfig: { cpuCount: 3 } });
+ * // [{ field: 'providerConfig.cpuCount', keyword: 'enum', message: 'must be one of 2, 4, 8, 16', value: 3 }]
+ * ```
+ */
+
+export { validateEnclaveConfig, assertValidEnclaveConfig } from './validate';
+export { validateJsonSchema } from './schema';
+export { NITRO_CONFIG_SCHEMA } from './nitro';
+export { parseDockerImage, formatDockerImage, isPinnedImage, assertPinnedImage } from './docker-image';
+export type { JsonSchema, JsonSchemaType, FieldError, DockerImageReference } from './types';
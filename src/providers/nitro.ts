@@ -0,0 +1,44 @@
+/**
+ * Configuration schema of the AWS Nitro Enclaves provider
+ *
+ * The platform serves this as `Provider.configSchema`. It is kept here too so
+ * tools can describe the settings without a request; the MCP server's
+ * `treza_create_enclave` tool mirrors it (packages/mcp/src/provider-schema.ts).
+ */
+
+import { JsonSchema } from './types';
+
+export const NITRO_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    dockerImage: {
+      type: 'string',
+      minLength: 1,
+      description: 'Docker image to run inside the enclave',
+    },
+    cpuCount: {
+      type: 'integer',
+      enum: [2, 4, 8, 16],
+      description: 'Number of vCPUs',
+    },
+    memoryMiB: {
+      type: 'integer',
+      enum: [1024, 2048, 4096, 8192, 16384],
+      description: 'Memory in MiB',
+    },
+    workloadType: {
+      type: 'string',
+      enum: ['batch', 'service', 'daemon'],
+      description: 'Workload type',
+    },
+    exposePorts: {
+      type: 'string',
+      pattern: '^\\d{1,5}(\\s*,\\s*\\d{1,5})*$',
+      description: 'Comma-separated ports to expose',
+    },
+    enableDebug: {
+      type: 'boolean',
+      description: 'Enable debug mode',
+    },
+  },
+};
@@ -0,0 +1,155 @@
+/**
+ * JSON Schema validation for provider configuration
+ *
+ * Covers the keywords providers use in their `configSchema` (types, enums,
+ * ranges, string patterns, nested objects and arrays) and reports every
+ * failing field rather than stopping at the first.
+ *
+ * Numeric strings are accepted where a number is expected, since the
+ * platform console submits form values such as `cpuCount: '2'` as strings.
+ */
+
+import { FieldError, JsonSchema, JsonSchemaType } from './types';
+
+/**
+ * Check a value against a schema
+ *
+ * @param schema Schema to check against
+ * @param value Value to check
+ * @param path Dotted path of the value, used as the prefix of reported fields
+ * @returns One entry per failing field; empty when the value is valid
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path = ''): FieldError[] {
+  const errors: FieldError[] = [];
+  const fail = (keyword: string, message: string, field = path) =>
+    errors.push({ field: field || '(root)', message, keyword, value });
+
+  const types = schema.type === undefined ? undefined : ([] as JsonSchemaType[]).concat(schema.type);
+  const actual = types ? coerce(value, types) : value;
+
+  if (types && !types.some((type) => hasType(actual, type))) {
+    fail('type', `must be ${types.map(describeType).join(' or ')}`);
+    return errors;
+  }
+  if (schema.const !== undefined && !isEqual(actual, schema.const)) {
+    fail('const', `must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some((option) => isEqual(actual, option))) {
+    fail('enum', `must be one of ${schema.enum.map(formatOption).join(', ')}`);
+  }
+
+  if (typeof actual === 'number') {
+    if (schema.minimum !== undefined && actual < schema.minimum) {
+      fail('minimum', `must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && actual > schema.maximum) {
+      fail('maximum', `must be at most ${schema.maximum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && actual <= schema.exclusiveMinimum) {
+      fail('exclusiveMinimum', `must be greater than ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && actual >= schema.exclusiveMaximum) {
+      fail('exclusiveMaximum', `must be less than ${schema.exclusiveMaximum}`);
+    }
+    if (schema.multipleOf !== undefined && !Number.isInteger(actual / schema.multipleOf)) {
+      fail('multipleOf', `must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  if (typeof actual === 'string') {
+    if (schema.minLength !== undefined && actual.length < schema.minLength) {
+      fail('minLength', schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && actual.length > schema.maxLength) {
+      fail('maxLength', `must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(actual)) {
+      fail('pattern', `must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(actual)) {
+    if (schema.minItems !== undefined && actual.length < schema.minItems) {
+      fail('minItems', `must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && actual.length > schema.maxItems) {
+      fail('maxItems', `must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      actual.forEach((item, index) => errors.push(...validateJsonSchema(schema.items!, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (isObject(actual)) {
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (actual[key] === undefined) {
+        errors.push({ field: join(path, key), message: 'is required', keyword: 'required' });
+      }
+    }
+    for (const [key, child] of Object.entries(actual)) {
+      if (child === undefined) continue;
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(properties[key], child, join(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: join(path, key), message: 'is not a supported setting', keyword: 'additionalProperties', value: child });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(schema.additionalProperties, child, join(path, key)));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Read numeric strings as numbers where the schema expects a number
+ */
+function coerce(value: unknown, types: JsonSchemaType[]): unknown {
+  if (
+    typeof value === 'string' &&
+    !types.includes('string') &&
+    (types.includes('number') || types.includes('integer')) &&
+    /^\s*-?\d+(\.\d+)?\s*$/.test(value)
+  ) {
+    return Number(value);
+  }
+  return value;
+}
+
+function hasType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(type: JsonSchemaType): string {
+  return type === 'array' || type === 'integer' || type === 'object' ? `an ${type}` : type === 'null' ? 'null' : `a ${type}`;
+}
+
+function formatOption(option: unknown): string {
+  return typeof option === 'string' ? `"${option}"` : JSON.stringify(option);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,65 @@
+/**
+ * Type definitions for provider configuration schemas
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema used by provider `configSchema`s.
+ * Keywords outside this subset are ignored during validation.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  [keyword: string]: unknown;
+}
+
+/**
+ * One rejected field of a request
+ */
+export interface FieldError {
+  /** Dotted path of the field, e.g. `providerConfig.cpuCount` */
+  field: string;
+  /** What is wrong, e.g. `must be one of 2, 4, 8, 16` */
+  message: string;
+  /** Schema keyword that failed, e.g. `enum` or `required` */
+  keyword: string;
+  /** The rejected value */
+  value?: unknown;
+}
+
+/**
+ * Parts of a Docker image reference, `[registry/]repository[:tag][@digest]`
+ */
+export interface DockerImageReference {
+  /** Registry host, when the image is not on Docker Hub */
+  registry?: string;
+  /** Repository, e.g. `nginx` or `treza/signing-enclave` */
+  repository: string;
+  /** Tag, e.g. `1.27` */
+  tag?: string;
+  /** Content digest, e.g. `sha256:3f1c...` */
+  digest?: string;
+}
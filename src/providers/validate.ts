@@ -0,0 +1,57 @@
+/**
+ * Enclave request validation against a provider
+ */
+
+import { ValidationError } from '../errors';
+import { Provider } from '../types';
+import { validateJsonSchema } from './schema';
+import { FieldError } from './types';
+
+/**
+ * Check the region and provider configuration of an enclave request
+ *
+ * `providerConfig` is checked against the provider's `configSchema` as a
+ * whole, since updates replace it rather than merging into it.
+ *
+ * @param provider Provider the enclave runs on
+ * @param request Region and configuration to check; omitted fields are not checked
+ * @returns One entry per rejected field; empty when the request is valid
+ */
+export function validateEnclaveConfig(
+  provider: Provider,
+  request: { region?: string; providerConfig?: Record<string, any> }
+): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (request.region !== undefined && !provider.regions.includes(request.region)) {
+    errors.push({
+      field: 'region',
+      message: `is not available for provider ${provider.id}; use one of ${provider.regions.join(', ')}`,
+      keyword: 'enum',
+      value: request.region,
+    });
+  }
+  if (request.providerConfig !== undefined && provider.configSchema && Object.keys(provider.configSchema).length > 0) {
+    errors.push(...validateJsonSchema(provider.configSchema, request.providerConfig, 'providerConfig'));
+  }
+
+  return errors;
+}
+
+/**
+ * Like `validateEnclaveConfig`, but throws
+ *
+ * @throws ValidationError with code `INVALID_PROVIDER_CONFIG`, listing the rejected fields in `fieldErrors`
+ */
+export function assertValidEnclaveConfig(
+  provider: Provider,
+  request: { region?: string; providerConfig?: Record<string, any> }
+): void {
+  const fieldErrors = validateEnclaveConfig(provider, request);
+  if (fieldErrors.length > 0) {
+    throw new ValidationError(
+      `Invalid configuration for provider ${provider.id}: ${fieldErrors.map(({ field, message }) => `${field} ${message}`).join('; ')}`,
+      { code: 'INVALID_PROVIDER_CONFIG', fieldErrors, details: { providerId: provider.id } }
+    );
+  }
+}
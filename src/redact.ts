@@ -0,0 +1,125 @@
+/**
+ * Secret redaction
+ *
+ * Secrets the platform handles on the caller's behalf (GitHub access
+ * tokens, private registry passwords, API key secrets) must not end up in
+ * logs, error details or tool output. `redactSecrets` replaces them with
+ * `REDACTED` in a copy of any value; the client uses `omitStoredSecrets`
+ * to drop the ones the platform echoes back on enclaves.
+ */
+
+/** Placeholder that replaces redacted secrets */
+export const REDACTED = '[REDACTED]';
+
+/** Fields whose values are always secret, compared case-insensitively */
+const SECRET_FIELDS = new Set([
+  'accesstoken',
+  'access_token',
+  'privateregistrypassword',
+  'authorization',
+  'x-github-token',
+]);
+
+/** Secrets recognisable by their format, wherever they appear in a string */
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  // GitHub OAuth, personal access, app and refresh tokens
+  [/\b(?:gh[opusr]_[A-Za-z0-9]{20,}|github_pat_[A-Za-z0-9_]{20,})/g, REDACTED],
+  // Treza API keys
+  [/\btreza_[A-Za-z0-9]{16,}/g, REDACTED],
+  // Tokens passed in query strings
+  [/([?&](?:token|access_token)=)[^&#\s]+/gi, `$1${REDACTED}`],
+];
+
+/**
+ * Copy a value with every secret replaced by `REDACTED`
+ *
+ * Redacts GitHub access tokens (`accessToken`, `access_token`), private
+ * registry passwords, `authorization` headers, the `key` of an ApiKey, and
+ * GitHub tokens, Treza API keys and `token=` query parameters inside strings.
+ * Errors are copied to plain objects with their name, message and fields.
+ *
+ * @param value Any value, such as an enclave, an error or a log entry
+ * @returns A redacted copy; the input is not modified
+ *
+ * @example
+ * ```typescript
+ * console.log(JSON.stringify(redactSecrets(enclave)));
+ * // {"githubConnection":{"accessToken":"[REDACTED]", ...}, ...}
+ * ```
+ */
+export function redactSecrets<T>(value: T): T {
+  return redact(value, new WeakMap()) as T;
+}
+
+/**
+ * Replace secrets recognisable by their format in a string
+ */
+export function redactString(text: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Drop the secrets the platform echoes back on stored resources: the GitHub
+ * token of a `githubConnection` and private registry passwords. Secrets a
+ * call exists to return, such as a new API key, are left alone.
+ *
+ * Modifies `value` in place, which is fine for freshly parsed responses.
+ */
+export function omitStoredSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    value.forEach(omitStoredSecrets);
+  } else if (isPlainObject(value)) {
+    delete value.privateRegistryPassword;
+    if (isPlainObject(value.githubConnection)) {
+      delete value.githubConnection.accessToken;
+    }
+    Object.values(value).forEach(omitStoredSecrets);
+  }
+  return value;
+}
+
+function redact(value: unknown, seen: WeakMap<object, unknown>): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return seen.get(value);
+  }
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [];
+    seen.set(value, copy);
+    value.forEach((item) => copy.push(redact(item, seen)));
+    return copy;
+  }
+
+  if (!isPlainObject(value) && !(value instanceof Error)) {
+    // Dates, buffers, class instances: nothing a secret field could hide in
+    return value;
+  }
+
+  const copy: Record<string, unknown> = {};
+  seen.set(value, copy);
+  const fields: Record<string, unknown> = value instanceof Error
+    ? { name: value.name, message: value.message, ...(value as object) }
+    : value;
+  // An ApiKey's secret is only returned by createApiKey, next to its hash
+  const isApiKey = typeof fields.keyHash === 'string';
+
+  for (const [field, fieldValue] of Object.entries(fields)) {
+    const secret = SECRET_FIELDS.has(field.toLowerCase()) || (isApiKey && field === 'key');
+    copy[field] = secret && fieldValue !== undefined && fieldValue !== null ? REDACTED : redact(fieldValue, seen);
+  }
+  return copy;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,171 @@
+import { NetworkError, RateLimitError, ServerError, ValidationError } from './errors';
+import { computeRetryDelay, parseRetryAfter, resolveRetryPolicy } from './retry';
+import { MockTrezaPlatform } from './testing';
+import { CreateEnclaveRequest } from './types';
+
+const WALLET = '0x1234567890123456789012345678901234567890';
+
+const createRequest: CreateEnclaveRequest = {
+  name: 'signer',
+  description: 'Signs payments',
+  region: 'us-east-1',
+  walletAddress: WALLET,
+  providerId: 'aws-nitro',
+  providerConfig: { dockerImage: 'nginx:latest' },
+};
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', Date.UTC(2026, 0, 1))).toBe(30_000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:00 GMT', Date.UTC(2026, 0, 2))).toBe(0);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+});
+
+describe('computeRetryDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('caps Retry-After at maxDelayMs', () => {
+    const policy = resolveRetryPolicy({ maxDelayMs: 5000 });
+
+    expect(computeRetryDelay(0, policy, 3_600_000)).toBe(5000);
+    expect(computeRetryDelay(0, policy, 1200)).toBe(1200);
+    expect(computeRetryDelay(0, { ...policy, respectRetryAfter: false }, 1200)).toBeLessThan(500);
+  });
+
+  it('backs off exponentially with full jitter up to maxDelayMs', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999);
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000 });
+
+    expect([0, 1, 2, 3, 4].map((attempt) => computeRetryDelay(attempt, policy))).toEqual([99, 199, 399, 799, 999]);
+  });
+});
+
+describe('retry middleware', () => {
+  let platform: MockTrezaPlatform;
+
+  beforeEach(() => {
+    platform = new MockTrezaPlatform();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function attempts(method: string, path: string | RegExp) {
+    return platform.requests.filter((request) => request.method === method && request.path.match(path));
+  }
+
+  function idempotencyKey(request: { headers: Record<string, string> }): string | undefined {
+    return Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'idempotency-key')?.[1];
+  }
+
+  it('retries safe methods on retryable statuses and network errors', async () => {
+    const client = platform.createClient({ retry: { baseDelayMs: 0 } });
+    const enclave = platform.seedEnclave({ walletAddress: WALLET });
+    const path = `/api/enclaves/${enclave.id}`;
+    platform.failNext({ method: 'GET', path }, { status: 502 });
+    platform.failNext({ method: 'GET', path }, 'network');
+    platform.failNext({ method: 'GET', path }, { status: 504 });
+
+    await expect(client.getEnclave(enclave.id)).resolves.toMatchObject({ id: enclave.id });
+    expect(attempts('GET', path)).toHaveLength(4);
+  });
+
+  it('does not retry client errors', async () => {
+    const client = platform.createClient({ retry: { baseDelayMs: 0 } });
+    platform.failNext({ method: 'GET', path: '/api/enclaves' }, { status: 400 });
+
+    await expect(client.getEnclaves(WALLET)).rejects.toBeInstanceOf(ValidationError);
+    expect(attempts('GET', '/api/enclaves')).toHaveLength(1);
+  });
+
+  it('does not replay a PATCH without an idempotency key', async () => {
+    const client = platform.createClient({ retry: { baseDelayMs: 0 } });
+    const enclave = platform.seedEnclave({ walletAddress: WALLET, status: 'DEPLOYED' });
+    platform.failNext({ method: 'PATCH' }, { status: 503 });
+
+    await expect(client.pauseEnclave(enclave.id, WALLET)).rejects.toBeInstanceOf(ServerError);
+    expect(attempts('PATCH', /^\/api\/enclaves\//)).toHaveLength(1);
+  });
+
+  it('replays a POST with the same idempotency key on every attempt', async () => {
+    const client = platform.createClient({ retry: { baseDelayMs: 0 } });
+    platform.failNext({ method: 'POST', path: '/api/enclaves' }, { status: 503 });
+    platform.failNext({ method: 'POST', path: '/api/enclaves' }, 'network');
+
+    const enclave = await client.createEnclave(createRequest, { idempotencyKey: 'create-signer-1' });
+
+    const keys = attempts('POST', '/api/enclaves').map(idempotencyKey);
+    expect(keys).toEqual(['create-signer-1', 'create-signer-1', 'create-signer-1']);
+    expect(platform.getEnclave(enclave.id)).toBeDefined();
+    expect(await client.getEnclaves(WALLET)).toHaveLength(1);
+  });
+
+  it('generates one idempotency key per call when none is given', async () => {
+    const client = platform.createClient({ retry: { baseDelayMs: 0 } });
+    platform.failNext({ method: 'POST', path: '/api/enclaves' }, { status: 500 });
+
+    await client.createEnclave(createRequest);
+    await client.createEnclave(createRequest);
+
+    const [first, retry, second] = attempts('POST', '/api/enclaves').map(idempotencyKey);
+    expect(first).toMatch(/^[0-9a-f]{32}$/);
+    expect(retry).toBe(first);
+    expect(second).not.toBe(first);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const client = platform.createClient({ retry: { baseDelayMs: 0, maxRetries: 2 } });
+    platform.failNext({ method: 'GET', path: '/api/enclaves' }, 'network', Infinity);
+
+    await expect(client.getEnclaves(WALLET)).rejects.toBeInstanceOf(NetworkError);
+    expect(platform.requests).toHaveLength(3);
+  });
+
+  it('waits for Retry-After, capped at maxDelayMs', async () => {
+    const client = platform.createClient({ retry: { maxDelayMs: 20 } });
+    const timeout = jest.spyOn(global, 'setTimeout');
+    platform.failNext({ path: '/api/enclaves' }, { status: 429, headers: { 'retry-after': '0.005' } });
+    platform.failNext({ path: '/api/enclaves' }, { status: 503, headers: { 'retry-after': '3600' } });
+
+    await client.getEnclaves(WALLET);
+
+    const delays = timeout.mock.calls.map(([, ms]) => ms);
+    expect(delays).toEqual(expect.arrayContaining([5, 20]));
+    expect(delays).not.toContain(3_600_000);
+  });
+
+  it('ends the retries with the last failure when aborted during backoff', async () => {
+    const client = platform.createClient();
+    platform.failNext({ path: '/api/enclaves' }, { status: 429, headers: { 'retry-after': '30' } }, Infinity);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    const startedAt = Date.now();
+
+    const error = await client.request('GET', '/api/enclaves', undefined, {
+      query: { wallet: WALLET },
+      signal: controller.signal,
+    }).catch((caught: unknown) => caught);
+
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(platform.requests).toHaveLength(1);
+  });
+
+  it('ends the retries with the network error when aborted during backoff', async () => {
+    const client = platform.createClient({ retry: { baseDelayMs: 30_000 } });
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    platform.failNext({ path: '/api/enclaves' }, 'network', Infinity);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(client.request('GET', '/api/enclaves', undefined, { query: { wallet: WALLET }, signal: controller.signal }))
+      .rejects.toBeInstanceOf(NetworkError);
+    expect(platform.requests).toHaveLength(1);
+  });
+});
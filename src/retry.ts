@@ -0,0 +1,116 @@
+/**
+ * Retry helpers for the Treza Platform client
+ *
+ * Implements exponential backoff with full jitter, honours `Retry-After`
+ * on 429/503 responses, and generates idempotency keys so that retried
+ * POSTs cannot create duplicate resources.
+ */
+
+import { ethers } from 'ethers';
+import { HttpMethod, RetryPolicy } from './types';
+
+/**
+ * Header carrying the idempotency key for non-idempotent requests
+ */
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Retry policy applied when `TrezaConfig.retry` is not set
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  retryOnStatus: [408, 425, 429, 500, 502, 503, 504],
+  retryNetworkErrors: true,
+  retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  respectRetryAfter: true,
+};
+
+/**
+ * Merge a partial policy with the defaults
+ */
+export function resolveRetryPolicy(policy?: RetryPolicy | false): Required<RetryPolicy> {
+  if (policy === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxRetries: 0 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Whether a request may be replayed: its method is listed as safe, or it
+ * carries an idempotency key the server uses to deduplicate.
+ */
+export function isRetryableRequest(
+  method: string | undefined,
+  hasIdempotencyKey: boolean,
+  policy: Required<RetryPolicy>,
+): boolean {
+  if (hasIdempotencyKey) return true;
+  const normalized = (method || 'GET').toUpperCase() as HttpMethod;
+  return policy.retryableMethods.includes(normalized);
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based), using full jitter.
+ * A server-provided `Retry-After` wins when present, capped at `maxDelayMs`.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: Required<RetryPolicy>,
+  retryAfterMs?: number,
+): number {
+  if (policy.respectRetryAfter && retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Generate a random idempotency key
+ */
+export function createIdempotencyKey(): string {
+  return ethers.hexlify(ethers.randomBytes(16)).slice(2);
+}
+
+/**
+ * Promise-based sleep. Resolves early when `signal` aborts; callers
+ * check `signal.aborted` afterwards.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
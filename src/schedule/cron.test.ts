@@ -0,0 +1,121 @@
+import { ValidationError } from '../errors';
+import { assertValidSchedule, parseCron, validateSchedule } from './cron';
+import { getNextRuns } from './next-run';
+
+function runs(schedule: string, from: string, count = 3, timezone?: string): string[] {
+  return getNextRuns(schedule, { from, count, timezone }).map((run) => run.toISOString());
+}
+
+describe('parseCron', () => {
+  it('expands ranges, steps, lists and names', () => {
+    expect(parseCron('*/15 9-17/4 1,15 jan-mar MON-FRI')).toMatchObject({
+      seconds: [0],
+      minutes: [0, 15, 30, 45],
+      hours: [9, 13, 17],
+      daysOfMonth: [1, 15],
+      months: [1, 2, 3],
+      daysOfWeek: [1, 2, 3, 4, 5],
+      anyDayOfMonth: false,
+      anyDayOfWeek: false,
+    });
+  });
+
+  it('reads a leading seconds field, treats 7 as Sunday and ? as *', () => {
+    expect(parseCron('30 0 12 ? * 5/2')).toMatchObject({
+      seconds: [30],
+      daysOfWeek: [0, 5],
+      anyDayOfMonth: true,
+      anyDayOfWeek: false,
+    });
+  });
+
+  it('expands macros regardless of case', () => {
+    expect(parseCron('@DAILY')).toMatchObject({ source: '@DAILY', minutes: [0], hours: [0], anyDayOfMonth: true, anyDayOfWeek: true });
+    expect(runs('@weekly', '2026-03-04T12:00:00Z', 2)).toEqual(['2026-03-08T00:00:00.000Z', '2026-03-15T00:00:00.000Z']);
+    expect(runs('@hourly', '2026-03-04T12:00:00Z', 2)).toEqual(['2026-03-04T13:00:00.000Z', '2026-03-04T14:00:00.000Z']);
+  });
+
+  it.each([
+    ['* * *', 'must have 5 fields (minute hour day-of-month month day-of-week) or 6 with seconds first, got 3'],
+    ['@often', 'uses unknown macro "@often"'],
+    ['61 * * * *', 'minute value 61 must be between 0 and 59'],
+    ['*/0 * * * *', 'minute step "0" must be a positive whole number'],
+    ['0 17-9 * * *', 'hour range "17-9" runs backwards'],
+    ['0 0 * foo *', 'month value "foo" must be a number or a name such as JAN, FEB, MAR'],
+    ['0 0 1,,2 * *', 'day of month field "1,,2" is malformed'],
+  ])('rejects %s', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(ValidationError);
+    expect(() => parseCron(expression)).toThrow(expect.objectContaining({
+      code: 'INVALID_SCHEDULE',
+      fieldErrors: [expect.objectContaining({ field: 'schedule', value: expression, message: expect.stringContaining(message) })],
+    }));
+  });
+
+  it('rejects dates that never occur', () => {
+    expect(() => parseCron('0 0 31 2 *')).toThrow('never runs: day 31 does not occur in month 2');
+    expect(() => parseCron('0 0 31 apr,jun *')).toThrow('never runs');
+  });
+
+  it('accepts February 29th and runs it in leap years only', () => {
+    expect(runs('0 0 29 2 *', '2026-01-01T00:00:00Z', 2)).toEqual(['2028-02-29T00:00:00.000Z', '2032-02-29T00:00:00.000Z']);
+  });
+});
+
+describe('validateSchedule', () => {
+  it('returns one error per rejected field', () => {
+    expect(validateSchedule({ schedule: '0 0 31 2 *', timezone: 'Mars/Olympus_Mons' })).toEqual([
+      expect.objectContaining({ field: 'schedule', value: '0 0 31 2 *' }),
+      expect.objectContaining({ field: 'timezone', keyword: 'format', value: 'Mars/Olympus_Mons' }),
+    ]);
+    expect(validateSchedule({ schedule: '0 9 * * MON-FRI', timezone: 'Europe/Berlin' })).toEqual([]);
+  });
+
+  it('throws with every rejected field from assertValidSchedule', () => {
+    expect(() => assertValidSchedule({ schedule: '* * *', timezone: 'Nowhere' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_SCHEDULE', fieldErrors: [expect.anything(), expect.anything()] })
+    );
+  });
+});
+
+describe('getNextRuns', () => {
+  it('runs days matching either day field when both are restricted', () => {
+    // 2026-02-15 is a Sunday
+    expect(runs('0 0 15 * MON', '2026-02-08T12:00:00Z', 4)).toEqual([
+      '2026-02-09T00:00:00.000Z',
+      '2026-02-15T00:00:00.000Z',
+      '2026-02-16T00:00:00.000Z',
+      '2026-02-23T00:00:00.000Z',
+    ]);
+  });
+
+  it('uses only the restricted day field when the other is * or ?', () => {
+    expect(runs('0 0 * * MON', '2026-02-08T12:00:00Z', 2)).toEqual(['2026-02-09T00:00:00.000Z', '2026-02-16T00:00:00.000Z']);
+    expect(runs('0 0 15 * ?', '2026-02-08T12:00:00Z', 2)).toEqual(['2026-02-15T00:00:00.000Z', '2026-03-15T00:00:00.000Z']);
+  });
+
+  it('skips a time that daylight saving jumps over', () => {
+    // Clocks in New York go from 02:00 to 03:00 on 2026-03-08
+    expect(runs('30 2 * * *', '2026-03-07T00:00:00Z', 3, 'America/New_York')).toEqual([
+      '2026-03-07T07:30:00.000Z',
+      '2026-03-09T06:30:00.000Z',
+      '2026-03-10T06:30:00.000Z',
+    ]);
+  });
+
+  it('runs a repeated time once, at its first occurrence', () => {
+    // Clocks in New York go from 02:00 back to 01:00 on 2026-11-01
+    expect(runs('30 1 * * *', '2026-10-31T00:00:00Z', 3, 'America/New_York')).toEqual([
+      '2026-10-31T05:30:00.000Z',
+      '2026-11-01T05:30:00.000Z',
+      '2026-11-02T06:30:00.000Z',
+    ]);
+  });
+
+  it('returns runs strictly after the start time, to the second', () => {
+    expect(runs('*/20 * * * * *', '2026-01-01T00:00:20Z', 3)).toEqual([
+      '2026-01-01T00:00:40.000Z',
+      '2026-01-01T00:01:00.000Z',
+      '2026-01-01T00:01:20.000Z',
+    ]);
+  });
+});
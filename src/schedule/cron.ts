@@ -0,0 +1,237 @@
+/**
+ * Cron expression parsing and schedule validation
+ *
+ * Accepts five fields (minute, hour, day of month, month, day of week), six
+ * with a leading seconds field, and the `@yearly`, `@annually`, `@monthly`,
+ * `@weekly`, `@daily`, `@midnight` and `@hourly` macros. Fields take `*`,
+ * values, ranges (`1-5`), steps (`*\/15`, `10-40/10`), lists (`1,15`), and
+ * month and weekday names (`JAN`, `mon-fri`); `?` means `*` in the day
+ * fields and 7 is Sunday.
+ */
+
+import { ValidationError } from '../errors';
+import { FieldError } from '../providers/types';
+import { isValidTimezone } from './timezone';
+import { CronExpression } from './types';
+
+export const CRON_MACROS: Readonly<Record<string, string>> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const SECOND: FieldSpec = { name: 'second', min: 0, max: 59 };
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+/** Longest month, by month number; February counts leap years */
+const MONTH_DAYS = [0, 31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Parse a cron expression
+ *
+ * @param expression Five- or six-field expression, or a macro such as `@daily`
+ * @returns The values each field matches
+ * @throws ValidationError with code `INVALID_SCHEDULE` when the expression can't be parsed or never runs
+ */
+export function parseCron(expression: string): CronExpression {
+  const { cron, errors } = tryParseCron(expression);
+  if (!cron) {
+    throw scheduleError(errors);
+  }
+  return cron;
+}
+
+/**
+ * Check a task's schedule and time zone
+ *
+ * @param request Schedule and time zone to check; omitted fields are not checked
+ * @returns One entry per rejected field; empty when both are valid
+ */
+export function validateSchedule(request: { schedule?: string; timezone?: string }): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (request.schedule !== undefined) {
+    errors.push(...tryParseCron(request.schedule).errors);
+  }
+  if (request.timezone !== undefined && !isValidTimezone(request.timezone)) {
+    errors.push({
+      field: 'timezone',
+      message: 'is not a known IANA time zone, such as "UTC" or "America/New_York"',
+      keyword: 'format',
+      value: request.timezone,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Like `validateSchedule`, but throws
+ *
+ * @throws ValidationError with code `INVALID_SCHEDULE`, listing the rejected fields in `fieldErrors`
+ */
+export function assertValidSchedule(request: { schedule?: string; timezone?: string }): void {
+  const fieldErrors = validateSchedule(request);
+  if (fieldErrors.length > 0) {
+    throw scheduleError(fieldErrors);
+  }
+}
+
+function scheduleError(fieldErrors: FieldError[]): ValidationError {
+  return new ValidationError(
+    `Invalid task schedule: ${fieldErrors.map(({ field, message }) => `${field} ${message}`).join('; ')}`,
+    { code: 'INVALID_SCHEDULE', fieldErrors }
+  );
+}
+
+function tryParseCron(expression: string): { cron?: CronExpression; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const fail = (message: string) =>
+    errors.push({ field: 'schedule', message, keyword: 'format', value: expression });
+
+  const source = typeof expression === 'string' ? expression.trim() : '';
+  const expanded = source.startsWith('@') ? CRON_MACROS[source.toLowerCase()] : source;
+  if (expanded === undefined) {
+    fail(`uses unknown macro "${source}"; use one of ${Object.keys(CRON_MACROS).join(', ')}`);
+    return { errors };
+  }
+
+  const texts = expanded.split(/\s+/).filter(Boolean);
+  if (texts.length !== 5 && texts.length !== 6) {
+    fail(`must have 5 fields (minute hour day-of-month month day-of-week) or 6 with seconds first, got ${texts.length}`);
+    return { errors };
+  }
+  if (texts.length === 5) {
+    texts.unshift('0');
+  }
+
+  const specs = [SECOND, ...FIELDS];
+  const values = texts.map((text, index) => {
+    const parsed = parseField(text, specs[index]);
+    if (typeof parsed === 'string') {
+      fail(parsed);
+      return [];
+    }
+    return parsed;
+  });
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const [seconds, minutes, hours, daysOfMonth, months, weekdays] = values;
+  const cron: CronExpression = {
+    source,
+    seconds,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    // 7 and 0 are both Sunday
+    daysOfWeek: [...new Set(weekdays.map((day) => day % 7))].sort((a, b) => a - b),
+    anyDayOfMonth: /^[*?]/.test(texts[3]),
+    anyDayOfWeek: /^[*?]/.test(texts[5]),
+  };
+
+  // With the day of week unrestricted, the day of month alone decides, so
+  // "30 of February" never runs
+  if (cron.anyDayOfWeek && !cron.months.some((month) => cron.daysOfMonth.some((day) => day <= MONTH_DAYS[month]))) {
+    fail(`never runs: day ${texts[3]} does not occur in month ${texts[4]}`);
+    return { errors };
+  }
+
+  return { cron, errors };
+}
+
+/**
+ * Expand one field into the values it matches, or describe why it can't be
+ */
+function parseField(text: string, spec: FieldSpec): number[] | string {
+  if (text === '?' && (spec.name === 'day of month' || spec.name === 'day of week')) {
+    text = '*';
+  }
+
+  const matched = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText, ...extra] = part.split('/');
+    if (extra.length > 0 || range === '') {
+      return `${spec.name} field "${text}" is malformed`;
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      step = /^\d+$/.test(stepText) ? Number(stepText) : NaN;
+      if (!(step > 0)) {
+        return `${spec.name} step "${stepText}" must be a positive whole number`;
+      }
+    }
+
+    let low: number;
+    let high: number;
+    if (range === '*') {
+      low = spec.min;
+      // `*` in the day of week stops at Saturday so Sunday isn't counted twice
+      high = spec.name === 'day of week' ? 6 : spec.max;
+    } else {
+      const bounds = range.split('-');
+      if (bounds.length > 2) {
+        return `${spec.name} range "${range}" is malformed`;
+      }
+      const parsed = bounds.map((bound) => parseValue(bound, spec));
+      const invalid = parsed.find((value): value is string => typeof value === 'string');
+      if (invalid) {
+        return invalid;
+      }
+      [low, high] = parsed as number[];
+      if (high === undefined) {
+        // `5/15` means from 5 to the end of the range, every 15
+        high = stepText === undefined ? low : spec.max;
+      }
+      if (low > high) {
+        return `${spec.name} range "${range}" runs backwards`;
+      }
+    }
+
+    for (let value = low; value <= high; value += step) {
+      matched.add(value);
+    }
+  }
+
+  return [...matched].sort((a, b) => a - b);
+}
+
+function parseValue(text: string, spec: FieldSpec): number | string {
+  const named = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (named >= 0) {
+    return spec.name === 'month' ? named + 1 : named;
+  }
+  if (!/^\d+$/.test(text)) {
+    return spec.names
+      ? `${spec.name} value "${text}" must be a number or a name such as ${spec.names.slice(0, 3).map((name) => name.toUpperCase()).join(', ')}`
+      : `${spec.name} value "${text}" must be a number`;
+  }
+  const value = Number(text);
+  if (value < spec.min || value > spec.max) {
+    return `${spec.name} value ${value} must be between ${spec.min} and ${spec.max}`;
+  }
+  return value;
+}
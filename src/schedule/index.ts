@@ -0,0 +1,24 @@
+/**
+ * Treza Schedule Module
+ *
+ * Cron schedules of scheduled tasks:
+ *
+ * - parseCron:        Five- and six-field expressions and macros such as `@hourly`
+ * - validateSchedule: Schedule and time zone checks, one error per field
+ * - getNextRuns:      Upcoming run times in the task's time zone
+ *
+ * TrezaClient validates schedules before `createTask` and `updateTask`, and
+ * fills in `Task.nextRun` on the tasks it returns.
+ *
+ * @example
+ * ```typescript
+ * import { getNextRuns } from '@treza/sdk';
+ *
+ * getNextRuns('0 9 * * MON-FRI', { count: 3, timezone: 'America/New_York', from: '2026-03-06T00:00:00Z' });
+ * // [2026-03-06T14:00:00.000Z, 2026-03-09T13:00:00.000Z, 2026-03-10T13:00:00.000Z]
+ * ```
+ */
+
+export { parseCron, validateSchedule, assertValidSchedule, CRON_MACROS } from './cron';
+export { getNextRuns, getNextRun } from './next-run';
+export type { CronExpression, NextRunsOptions } from './types';
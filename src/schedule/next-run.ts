@@ -0,0 +1,122 @@
+/**
+ * Upcoming run times of a cron schedule
+ *
+ * Schedules are evaluated in local time of the task's time zone. A time that
+ * clocks skip over when daylight saving starts doesn't run that day, and a
+ * time shown twice when it ends runs once, at its first occurrence.
+ */
+
+import { Task } from '../types';
+import { assertValidSchedule, parseCron } from './cron';
+import { fromWallTime, toWallTime } from './timezone';
+import { CronExpression, NextRunsOptions } from './types';
+
+/** How far ahead to look before deciding a schedule has no further runs */
+const SEARCH_YEARS = 10;
+
+/**
+ * Compute the next times a schedule runs
+ *
+ * @param schedule Cron expression, or one already parsed with `parseCron`
+ * @param options Number of runs, start time and time zone
+ * @returns Run times in ascending order
+ * @throws ValidationError with code `INVALID_SCHEDULE` for an invalid expression or time zone
+ */
+export function getNextRuns(schedule: string | CronExpression, options: NextRunsOptions = {}): Date[] {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const timeZone = options.timezone ?? 'UTC';
+  assertValidSchedule({ timezone: timeZone });
+
+  const runs: Date[] = [];
+  let from = new Date(options.from ?? Date.now()).getTime();
+  while (runs.length < (options.count ?? 5)) {
+    const next = nextRunAfter(cron, from, timeZone);
+    if (next === undefined) break;
+    runs.push(new Date(next));
+    from = next;
+  }
+  return runs;
+}
+
+/**
+ * Compute the next time a schedule runs
+ *
+ * @returns The run time, or undefined when the schedule has no further runs
+ */
+export function getNextRun(
+  schedule: string | CronExpression,
+  options: Omit<NextRunsOptions, 'count'> = {}
+): Date | undefined {
+  return getNextRuns(schedule, { ...options, count: 1 })[0];
+}
+
+/**
+ * Fill in `Task.nextRun` for tasks that are still scheduled
+ */
+export function withNextRun(task: Task, from: number = Date.now()): Task {
+  if (task.status === 'stopped' || task.status === 'failed') {
+    return task;
+  }
+  try {
+    const next = getNextRun(task.schedule, { from, timezone: task.timezone });
+    return next ? { ...task, nextRun: next.toISOString() } : task;
+  } catch {
+    // Schedules the SDK can't parse are left for the platform to interpret
+    return task;
+  }
+}
+
+function nextRunAfter(cron: CronExpression, from: number, timeZone: string): number | undefined {
+  const start = toWallTime(from, timeZone);
+  let wallTime = start - (start % 1000) + 1000;
+  const limit = Date.UTC(new Date(start).getUTCFullYear() + SEARCH_YEARS, 0, 1);
+
+  for (;;) {
+    const match = nextMatch(cron, wallTime, limit);
+    if (match === undefined) {
+      return undefined;
+    }
+    // Skipped by daylight saving, or already passed when the hour repeats
+    const [first] = fromWallTime(match, timeZone);
+    if (first !== undefined && first > from) {
+      return first;
+    }
+    wallTime = match + 1000;
+  }
+}
+
+/**
+ * Earliest local time at or after `wallTime` that the expression matches
+ */
+function nextMatch(cron: CronExpression, wallTime: number, limit: number): number | undefined {
+  let time = wallTime;
+  while (time < limit) {
+    const date = new Date(time);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+    const minute = date.getUTCMinutes();
+
+    if (!cron.months.includes(month + 1)) {
+      time = Date.UTC(year, month + 1, 1);
+    } else if (!matchesDay(cron, day, date.getUTCDay())) {
+      time = Date.UTC(year, month, day + 1);
+    } else if (!cron.hours.includes(hour)) {
+      time = Date.UTC(year, month, day, hour + 1);
+    } else if (!cron.minutes.includes(minute)) {
+      time = Date.UTC(year, month, day, hour, minute + 1);
+    } else if (!cron.seconds.includes(date.getUTCSeconds())) {
+      time = Date.UTC(year, month, day, hour, minute, date.getUTCSeconds() + 1);
+    } else {
+      return time;
+    }
+  }
+  return undefined;
+}
+
+function matchesDay(cron: CronExpression, dayOfMonth: number, dayOfWeek: number): boolean {
+  const byMonth = cron.daysOfMonth.includes(dayOfMonth);
+  const byWeek = cron.daysOfWeek.includes(dayOfWeek);
+  return cron.anyDayOfMonth || cron.anyDayOfWeek ? byMonth && byWeek : byMonth || byWeek;
+}
@@ -0,0 +1,68 @@
+/**
+ * Time zone conversions using the platform's Intl data
+ *
+ * Wall-clock times are carried as millisecond timestamps whose UTC fields
+ * hold the local date and time, so ordinary `Date.UTC` arithmetic steps
+ * through them.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+/**
+ * Whether the runtime knows an IANA time zone
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local date and time of an instant in a time zone
+ */
+export function toWallTime(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatter(timeZone).formatToParts(new Date(instant))) {
+    parts[type] = Number(value);
+  }
+  const milliseconds = ((instant % 1000) + 1000) % 1000;
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, milliseconds);
+}
+
+/**
+ * Instants at which a time zone shows a local date and time, earliest first
+ *
+ * Empty when clocks skip over the time, and two entries when they go back
+ * and show it twice.
+ */
+export function fromWallTime(wallTime: number, timeZone: string): number[] {
+  // Offsets either side of the time cover a single daylight-saving change
+  const offsets = new Set([wallTime - DAY_MS, wallTime + DAY_MS].map((probe) => toWallTime(probe, timeZone) - probe));
+  return [...offsets]
+    .map((offset) => wallTime - offset)
+    .filter((instant) => toWallTime(instant, timeZone) === wallTime)
+    .sort((a, b) => a - b);
+}
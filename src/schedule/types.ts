@@ -0,0 +1,41 @@
+/**
+ * Type definitions for task schedules
+ */
+
+/**
+ * A parsed cron expression
+ *
+ * Each field lists the values it matches, in ascending order. Five-field
+ * expressions run at second 0; days of the week run from 0 (Sunday) to 6.
+ */
+export interface CronExpression {
+  /** Expression as written, before macros are expanded */
+  source: string;
+  seconds: number[];
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  /** 1 (January) to 12 */
+  months: number[];
+  daysOfWeek: number[];
+  /**
+   * Day of month starts with `*` or `?`. When neither day field does, a day
+   * matching either one runs (standard cron behaviour); otherwise a day must
+   * match both.
+   */
+  anyDayOfMonth: boolean;
+  /** Day of week starts with `*` or `?` */
+  anyDayOfWeek: boolean;
+}
+
+/**
+ * Options for computing upcoming runs
+ */
+export interface NextRunsOptions {
+  /** Number of runs to return (default: 5) */
+  count?: number;
+  /** Runs strictly after this time are returned (default: now) */
+  from?: Date | string | number;
+  /** IANA time zone the schedule is evaluated in (default: UTC) */
+  timezone?: string;
+}
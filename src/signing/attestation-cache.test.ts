@@ -0,0 +1,78 @@
+import { AttestationCache } from './attestation-cache';
+import { EnclaveSigner } from './enclave-signer';
+import { MockTrezaPlatform } from '../testing';
+
+const WALLET = '0x1234567890123456789012345678901234567890';
+const ENCLAVE_ID = 'enc_shared_id';
+
+function verifyCount(platform: MockTrezaPlatform): number {
+  return platform.requests.filter(
+    (request) => request.method === 'POST' && request.path.endsWith('/attestation/verify')
+  ).length;
+}
+
+async function signOnce(platform: MockTrezaPlatform, client = platform.createClient()): Promise<void> {
+  const signer = new EnclaveSigner(client, { enclaveId: ENCLAVE_ID, verifyAttestation: true });
+  await (await signer.getSigner()).signMessage('hello');
+}
+
+describe('AttestationCache', () => {
+  it('gives every client its own cache by default', () => {
+    const platform = new MockTrezaPlatform();
+
+    expect(platform.createClient().getAttestationCache())
+      .not.toBe(platform.createClient().getAttestationCache());
+  });
+
+  it('reuses a verification for later signatures through the same client', async () => {
+    const platform = new MockTrezaPlatform();
+    platform.seedEnclave({ id: ENCLAVE_ID, walletAddress: WALLET });
+    const client = platform.createClient();
+
+    await signOnce(platform, client);
+    await signOnce(platform, client);
+
+    expect(verifyCount(platform)).toBe(1);
+    expect(client.getAttestationCache().getMetrics()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('does not trust a verification made against another platform', async () => {
+    const first = new MockTrezaPlatform();
+    const second = new MockTrezaPlatform();
+    first.seedEnclave({ id: ENCLAVE_ID, walletAddress: WALLET });
+    second.seedEnclave({ id: ENCLAVE_ID, walletAddress: WALLET });
+
+    await signOnce(first);
+    await signOnce(second);
+
+    expect(verifyCount(first)).toBe(1);
+    expect(verifyCount(second)).toBe(1);
+  });
+
+  it('drops cached results when the enclave leaves DEPLOYED', async () => {
+    const platform = new MockTrezaPlatform();
+    platform.seedEnclave({ id: ENCLAVE_ID, walletAddress: WALLET });
+    const cache = new AttestationCache();
+    const client = platform.createClient({ attestationCache: cache });
+
+    await signOnce(platform, client);
+    platform.setEnclaveStatus(ENCLAVE_ID, 'PAUSED');
+    await client.getEnclave(ENCLAVE_ID);
+
+    expect(cache.getMetrics().invalidations).toBe(1);
+    expect(cache.has(ENCLAVE_ID, JSON.stringify({ policy: null }))).toBe(false);
+  });
+
+  it('expires results after the TTL', () => {
+    const cache = new AttestationCache({ ttlMs: 1000 });
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+
+    cache.set(ENCLAVE_ID, 'settings');
+    expect(cache.has(ENCLAVE_ID, 'settings')).toBe(true);
+
+    now.mockReturnValue(1000);
+    expect(cache.has(ENCLAVE_ID, 'settings')).toBe(false);
+    expect(cache.getMetrics()).toEqual({ hits: 1, misses: 1, invalidations: 0, expirations: 1 });
+    now.mockRestore();
+  });
+});
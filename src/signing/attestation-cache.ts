@@ -0,0 +1,162 @@
+/**
+ * AttestationCache - Reuse Verified Attestations Across Signatures
+ *
+ * Without a cache, every signature made through an EnclaveSigner or an
+ * enclave-backed x402 account first performs a full attestation
+ * verification round-trip. The cache remembers successful verifications
+ * for a TTL and drops them as soon as the enclave's status or PCRs are
+ * seen to change.
+ *
+ * Each TrezaClient owns a cache unless one is passed in its config, so
+ * results never leak between clients talking to different platforms. The
+ * client reports every enclave and attestation it fetches to its cache, so a status change picked up by `getEnclave`, `getEnclaves`,
+ * `waitForEnclave` or `getAttestation` invalidates cached results.
+ *
+ * @example
+ * ```typescript
+ * import { TrezaClient, AttestationCache } from '@treza/sdk';
+ *
+ * const cache = new AttestationCache({ ttlMs: 120_000 });
+ * const client = new TrezaClient({ attestationCache: cache });
+ *
+ * // ... sign with EnclaveSigner / createEnclaveAccount ...
+ * console.log(cache.getMetrics()); // { hits, misses, invalidations, expirations }
+ * ```
+ */
+
+import { AttestationDocument, Enclave, EnclaveStatus } from '../types';
+
+/**
+ * Options for an AttestationCache
+ */
+export interface AttestationCacheOptions {
+  /** How long a successful verification is reused, in milliseconds (defaults to 300000) */
+  ttlMs?: number;
+}
+
+/**
+ * Cache counters
+ */
+export interface AttestationCacheMetrics {
+  /** Lookups answered from the cache */
+  hits: number;
+  /** Lookups that required a fresh verification */
+  misses: number;
+  /** Entries dropped because the enclave's status or PCRs changed */
+  invalidations: number;
+  /** Entries dropped because their TTL elapsed */
+  expirations: number;
+}
+
+interface EnclaveEntry {
+  /** Last status observed for the enclave */
+  status?: EnclaveStatus;
+  /** Last PCR set observed for the enclave */
+  pcrs?: string;
+  /** Verification results by settings key, with their expiry time */
+  results: Map<string, number>;
+}
+
+export class AttestationCache {
+  private readonly ttlMs: number;
+  private readonly entries = new Map<string, EnclaveEntry>();
+  private metrics: AttestationCacheMetrics = { hits: 0, misses: 0, invalidations: 0, expirations: 0 };
+
+  constructor(options: AttestationCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Whether a verification with the given settings is cached and unexpired.
+   * Counts a hit or a miss.
+   *
+   * @param enclaveId - Enclave being verified
+   * @param settingsKey - Identifies the verification settings (policy etc.)
+   */
+  has(enclaveId: string, settingsKey: string): boolean {
+    const expiresAt = this.entries.get(enclaveId)?.results.get(settingsKey);
+
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.entries.get(enclaveId)!.results.delete(settingsKey);
+      this.metrics.expirations++;
+    } else if (expiresAt !== undefined) {
+      this.metrics.hits++;
+      return true;
+    }
+
+    this.metrics.misses++;
+    return false;
+  }
+
+  /**
+   * Record a successful verification
+   */
+  set(enclaveId: string, settingsKey: string): void {
+    this.entry(enclaveId).results.set(settingsKey, Date.now() + this.ttlMs);
+  }
+
+  /**
+   * Report an enclave snapshot. Cached results are dropped when the status
+   * changed since the last observation or the enclave is no longer DEPLOYED.
+   */
+  observeEnclave(enclave: Enclave): void {
+    const entry = this.entry(enclave.id);
+    const changed = entry.status !== undefined && entry.status !== enclave.status;
+
+    if (changed || enclave.status !== 'DEPLOYED') {
+      this.invalidate(enclave.id);
+    }
+    entry.status = enclave.status;
+  }
+
+  /**
+   * Report an attestation document. Cached results are dropped when any PCR
+   * differs from the last observed document.
+   */
+  observeAttestation(enclaveId: string, document: AttestationDocument): void {
+    const entry = this.entry(enclaveId);
+    const pcrs = JSON.stringify(document.pcrs);
+
+    if (entry.pcrs !== undefined && entry.pcrs !== pcrs) {
+      this.invalidate(enclaveId);
+    }
+    entry.pcrs = pcrs;
+  }
+
+  /**
+   * Drop cached results for one enclave, or for every enclave
+   */
+  invalidate(enclaveId?: string): void {
+    const targets = enclaveId ? [this.entries.get(enclaveId)] : [...this.entries.values()];
+
+    for (const entry of targets) {
+      if (entry && entry.results.size > 0) {
+        this.metrics.invalidations += entry.results.size;
+        entry.results.clear();
+      }
+    }
+  }
+
+  /**
+   * Current counters
+   */
+  getMetrics(): AttestationCacheMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Reset all counters to zero
+   */
+  resetMetrics(): void {
+    this.metrics = { hits: 0, misses: 0, invalidations: 0, expirations: 0 };
+  }
+
+  private entry(enclaveId: string): EnclaveEntry {
+    let entry = this.entries.get(enclaveId);
+    if (!entry) {
+      entry = { results: new Map() };
+      this.entries.set(enclaveId, entry);
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Attestation checks run before an enclave signs anything.
+ *
+ * Shared by EnclaveSigner (ethers.js) and createEnclaveAccount (viem) so
+ * both signing paths enforce the same verification and policy rules.
+ */
+
+import { TrezaClient } from '../client';
+import { AttestationDocument } from '../types';
+import { AttestationFailedError, AttestationPolicyError } from '../errors';
+import { evaluateAttestationPolicy } from '../attestation/policy';
+import { EnclaveSignerConfig } from './types';
+import { AttestationCache } from './attestation-cache';
+import { nextAttestationNonce } from './nonce';
+
+/**
+ * Throw unless the enclave passes attestation verification and, when
+ * configured, the attestation policy.
+ *
+ * Every verification carries a fresh nonce from the signer's nonce source,
+ * and the result is rejected unless the enclave echoed it back.
+ *
+ * When the platform returns the raw Nitro document, the PCRs checked
+ * against the policy are taken from the locally verified document rather
+ * than from the platform's parsed copy. Successful checks are cached (see
+ * AttestationCache) so consecutive signatures skip the round-trip.
+ *
+ * @param platformClient - Client used to reach the enclave
+ * @param config - Signer configuration carrying the verification settings
+ */
+export async function assertEnclaveTrusted(
+  platformClient: TrezaClient,
+  config: EnclaveSignerConfig,
+): Promise<void> {
+  const { enclaveId, attestationPolicy } = config;
+  if (!config.verifyAttestation && !attestationPolicy) return;
+
+  const cache = resolveCache(platformClient, config);
+  const settingsKey = JSON.stringify({ policy: attestationPolicy ?? null });
+  if (cache?.has(enclaveId, settingsKey)) return;
+
+  const nonce = await nextAttestationNonce(config);
+  const verification = await platformClient.verifyAttestation(enclaveId, { nonce });
+
+  if (!verification.isValid) {
+    throw new AttestationFailedError(
+      enclaveId,
+      `Enclave ${enclaveId} failed attestation verification. ` +
+      'Signing request rejected for security reasons. ' +
+      `Details: ${JSON.stringify(verification.verificationDetails)}`,
+      { details: { verification } }
+    );
+  }
+
+  if (verification.verificationDetails?.nonceMatches !== true) {
+    throw new AttestationFailedError(
+      enclaveId,
+      `Enclave ${enclaveId} returned an attestation that does not echo the request nonce. ` +
+      'Signing request rejected: the document may be replayed.',
+      { code: 'ATTESTATION_NONCE_MISMATCH', details: { verification } }
+    );
+  }
+
+  if (!attestationPolicy) {
+    cache?.set(enclaveId, settingsKey);
+    return;
+  }
+
+  const attestation = await platformClient.getAttestation(enclaveId, { nonce });
+  let document: AttestationDocument = attestation.attestationDocument;
+
+  if (attestation.rawDocument) {
+    // Loaded on demand: the verifier needs Node's crypto module
+    const { verifyNitroAttestation } = await import('../attestation/nitro-verifier');
+    // Age is enforced by the policy itself
+    const local = verifyNitroAttestation(attestation.rawDocument, { nonce, maxAgeMs: Number.POSITIVE_INFINITY });
+    if (
+      !local.document ||
+      !local.verificationDetails.certificateChain ||
+      !local.verificationDetails.signatureValid ||
+      !local.verificationDetails.nonceMatches
+    ) {
+      throw new AttestationFailedError(
+        enclaveId,
+        `Enclave ${enclaveId} returned an attestation document that failed local verification: ` +
+        local.errors.join('; '),
+        { details: { errors: local.errors } }
+      );
+    }
+    document = local.document;
+  }
+
+  const evaluation = evaluateAttestationPolicy(attestationPolicy, {
+    document,
+    trustLevel: verification.trustLevel,
+  });
+
+  if (!evaluation.passed) {
+    throw new AttestationPolicyError(enclaveId, evaluation);
+  }
+
+  cache?.set(enclaveId, settingsKey);
+}
+
+/**
+ * Inspect the attestation summary returned with a signature. If the enclave
+ * reports itself as no longer valid, cached verifications are dropped so the
+ * next signature is fully re-verified.
+ */
+export function recordSigningAttestation(
+  platformClient: TrezaClient,
+  config: EnclaveSignerConfig,
+  attestation?: { isValid: boolean },
+): void {
+  if (attestation && !attestation.isValid) {
+    invalidateCachedAttestation(platformClient, config);
+  }
+}
+
+/**
+ * Drop cached verifications for the signer's enclave, e.g. after a failed
+ * signing request, which may mean the enclave was redeployed or stopped.
+ */
+export function invalidateCachedAttestation(platformClient: TrezaClient, config: EnclaveSignerConfig): void {
+  resolveCache(platformClient, config)?.invalidate(config.enclaveId);
+}
+
+function resolveCache(platformClient: TrezaClient, config: EnclaveSignerConfig): AttestationCache | undefined {
+  if (config.attestationCache === false) return undefined;
+  return config.attestationCache ?? platformClient.getAttestationCache();
+}
@@ -32,6 +32,7 @@
 
 import { ethers } from 'ethers';
 import { SignerProvider } from './types';
+import { ConfigurationError } from '../errors';
 
 // Type declaration for window.ethereum
 declare global {
@@ -78,7 +79,7 @@ export class BrowserWalletSigner implements SignerProvider {
     if (this.cachedSigner) return;
 
     if (typeof window === 'undefined' || !window.ethereum) {
-      throw new Error(
+      throw new ConfigurationError(
         'BrowserWalletSigner requires a Web3 wallet (e.g., MetaMask). ' +
         'No injected provider found at window.ethereum. ' +
         'If running server-side, use EnclaveSigner or LocalSigner instead.'
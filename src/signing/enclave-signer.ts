@@ -17,11 +17,14 @@
  *
  * const platformClient = new TrezaClient({
  *   baseUrl: 'https://app.trezalabs.com',
+ *   apiKey: process.env.TREZA_API_KEY,
  * });
  *
  * const signer = new EnclaveSigner(platformClient, {
  *   enclaveId: 'enc_abc123',
  *   verifyAttestation: true,
+ *   // Refuse to sign unless the enclave runs the image we built
+ *   attestationPolicy: { pcrs: { 0: process.env.EXPECTED_PCR0! } },
  * });
  *
  * const client = new TrezaKYCClient({
@@ -38,6 +41,8 @@
 import { ethers } from 'ethers';
 import { SignerProvider, EnclaveSignerConfig, EnclaveSignResponse, EnclaveSignMessageResponse } from './types';
 import { TrezaClient } from '../client';
+import { ConfigurationError, SigningError, toTrezaError } from '../errors';
+import { assertEnclaveTrusted, invalidateCachedAttestation, recordSigningAttestation } from './attestation-guard';
 
 /**
  * Custom ethers.js Signer that delegates all signing to a Treza Enclave.
@@ -69,9 +74,10 @@ class EnclaveEthersSigner extends ethers.AbstractSigner {
     // The signing address is stored in the enclave's provider config
     const address = enclave.providerConfig?.signingAddress;
     if (!address) {
-      throw new Error(
+      throw new ConfigurationError(
         `Enclave ${this.config.enclaveId} does not have a signing address configured. ` +
-        'Ensure the enclave was created with the blockchain signing provider.'
+        'Ensure the enclave was created with the blockchain signing provider.',
+        { code: 'SIGNING_ADDRESS_MISSING', details: { enclaveId: this.config.enclaveId } }
       );
     }
 
@@ -84,10 +90,8 @@ class EnclaveEthersSigner extends ethers.AbstractSigner {
   }
 
   async signTransaction(tx: ethers.TransactionLike): Promise<string> {
-    // Optionally verify attestation before signing
-    if (this.config.verifyAttestation) {
-      await this.verifyEnclaveIntegrity();
-    }
+    // Verify attestation (and policy, if configured) before signing
+    await assertEnclaveTrusted(this.platformClient, this.config);
 
     // Serialize the unsigned transaction for the enclave
     const unsignedTx = ethers.Transaction.from(tx).unsignedSerialized;
@@ -102,10 +106,8 @@ class EnclaveEthersSigner extends ethers.AbstractSigner {
   }
 
   async signMessage(message: string | Uint8Array): Promise<string> {
-    // Optionally verify attestation before signing
-    if (this.config.verifyAttestation) {
-      await this.verifyEnclaveIntegrity();
-    }
+    // Verify attestation (and policy, if configured) before signing
+    await assertEnclaveTrusted(this.platformClient, this.config);
 
     // Convert message to hex if it's bytes
     const messageHex = typeof message === 'string'
@@ -125,10 +127,8 @@ class EnclaveEthersSigner extends ethers.AbstractSigner {
     types: Record<string, ethers.TypedDataField[]>,
     value: Record<string, any>,
   ): Promise<string> {
-    // Optionally verify attestation before signing
-    if (this.config.verifyAttestation) {
-      await this.verifyEnclaveIntegrity();
-    }
+    // Verify attestation (and policy, if configured) before signing
+    await assertEnclaveTrusted(this.platformClient, this.config);
 
     const response = await this.requestEnclaveSigning<EnclaveSignMessageResponse>(
       '/sign/typed-data',
@@ -138,27 +138,6 @@ class EnclaveEthersSigner extends ethers.AbstractSigner {
     return response.signature;
   }
 
-  /**
-   * Verify enclave attestation before performing a signing operation.
-   * Throws if the enclave is not verified or has a low trust level.
-   */
-  private async verifyEnclaveIntegrity(): Promise<void> {
-    const verification = await this.platformClient.verifyAttestation(
-      this.config.enclaveId,
-      this.config.attestationNonce
-        ? { nonce: this.config.attestationNonce }
-        : undefined,
-    );
-
-    if (!verification.isValid) {
-      throw new Error(
-        `Enclave ${this.config.enclaveId} failed attestation verification. ` +
-        'Signing request rejected for security reasons. ' +
-        `Details: ${JSON.stringify(verification.verificationDetails)}`
-      );
-    }
-  }
-
   /**
    * Send a signing request to the enclave via the platform API.
    */
@@ -166,24 +145,27 @@ class EnclaveEthersSigner extends ethers.AbstractSigner {
     signingPath: string,
     payload: Record<string, any>,
   ): Promise<T> {
-    // The platform client uses its internal HTTP client. We access the
-    // enclave signing endpoint through the platform's REST API.
-    // This endpoint forwards the request to the enclave's signing service.
     const enclaveId = this.config.enclaveId;
 
     try {
-      // Use the platform client's internal mechanism to call the signing endpoint.
       // The signing API is: POST /api/enclaves/{enclaveId}/sign/{operation}
-      const response = await (this.platformClient as any).client.post(
+      // The platform forwards the request to the enclave's signing service.
+      const response = await this.platformClient.request<T & { attestation?: { isValid: boolean } }>(
+        'POST',
         `/api/enclaves/${enclaveId}${signingPath}`,
         payload,
       );
-      return response.data as T;
+      recordSigningAttestation(this.platformClient, this.config, response.attestation);
+      return response;
     } catch (error: any) {
-      const message = error.response?.data?.error || error.message;
-      throw new Error(
-        `Enclave signing request failed: ${message}. ` +
-        `Enclave: ${enclaveId}, Operation: ${signingPath}`
+      invalidateCachedAttestation(this.platformClient, this.config);
+      const cause = toTrezaError(error);
+      throw new SigningError(
+        enclaveId,
+        signingPath,
+        `Enclave signing request failed: ${cause.message}. ` +
+        `Enclave: ${enclaveId}, Operation: ${signingPath}`,
+        { statusCode: cause.statusCode, requestId: cause.requestId, cause }
       );
     }
   }
@@ -205,12 +187,15 @@ export class EnclaveSigner implements SignerProvider {
   /**
    * Create an EnclaveSigner.
    *
+   * Signing requests are sent through `platformClient`, so they carry the
+   * client's API key or access token.
+   *
    * @param platformClient - An authenticated TrezaClient instance
    * @param config - Enclave signing configuration
    */
   constructor(platformClient: TrezaClient, config: EnclaveSignerConfig) {
     if (!config.enclaveId) {
-      throw new Error('EnclaveSigner requires an enclaveId');
+      throw new ConfigurationError('EnclaveSigner requires an enclaveId');
     }
 
     this.platformClient = platformClient;
@@ -10,9 +10,16 @@
  */
 
 // Core interface
-export type { SignerProvider, EnclaveSignerConfig, EnclaveSignResponse, EnclaveSignMessageResponse } from './types';
+export type { SignerProvider, EnclaveSignerConfig, NonceSource, EnclaveSignResponse, EnclaveSignMessageResponse } from './types';
 
 // Signer implementations
 export { EnclaveSigner } from './enclave-signer';
 export { LocalSigner } from './local-signer';
 export { BrowserWalletSigner } from './browser-signer';
+
+// Attestation nonces
+export { randomNonceSource } from './nonce';
+
+// Attestation caching
+export { AttestationCache } from './attestation-cache';
+export type { AttestationCacheOptions, AttestationCacheMetrics } from './attestation-cache';
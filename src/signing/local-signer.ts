@@ -31,6 +31,7 @@
 
 import { ethers } from 'ethers';
 import { SignerProvider } from './types';
+import { ConfigurationError } from '../errors';
 
 export class LocalSigner implements SignerProvider {
   readonly type = 'local';
@@ -46,7 +47,7 @@ export class LocalSigner implements SignerProvider {
    */
   constructor(privateKey: string) {
     if (!privateKey) {
-      throw new Error('LocalSigner requires a private key. Did you forget to set PRIVATE_KEY in your .env?');
+      throw new ConfigurationError('LocalSigner requires a private key. Did you forget to set PRIVATE_KEY in your .env?');
     }
 
     this.privateKey = privateKey;
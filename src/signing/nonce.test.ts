@@ -0,0 +1,64 @@
+import { EnclaveSigner } from './enclave-signer';
+import { nextAttestationNonce, randomNonceSource } from './nonce';
+import { ConfigurationError } from '../errors';
+import { MockTrezaPlatform } from '../testing';
+import { EnclaveSignerConfig } from './types';
+
+const WALLET = '0x1234567890123456789012345678901234567890';
+
+function sentNonces(platform: MockTrezaPlatform): string[] {
+  return platform.requests
+    .filter((request) => request.method === 'POST' && request.path.endsWith('/attestation/verify'))
+    .map((request) => (request.body as { nonce: string }).nonce);
+}
+
+describe('attestation nonces', () => {
+  it('generates 32 random bytes by default', () => {
+    const nonce = randomNonceSource() as string;
+
+    expect(nonce).toMatch(/^[0-9a-f]{64}$/);
+    expect(randomNonceSource()).not.toBe(nonce);
+  });
+
+  it('sends the nonces from a deterministic nonce source', async () => {
+    const platform = new MockTrezaPlatform();
+    const enclave = platform.seedEnclave({ walletAddress: WALLET });
+    let counter = 0;
+    const signer = new EnclaveSigner(platform.createClient(), {
+      enclaveId: enclave.id,
+      verifyAttestation: true,
+      attestationCache: false,
+      nonceSource: () => `test-nonce-${counter++}`,
+    });
+
+    const ethersSigner = await signer.getSigner();
+    await ethersSigner.signMessage('first');
+    await ethersSigner.signMessage('second');
+
+    expect(sentNonces(platform)).toEqual(['test-nonce-0', 'test-nonce-1']);
+  });
+
+  it('combines a static attestationNonce with a fresh nonce without writing to the console', async () => {
+    const warn = jest.spyOn(console, 'warn');
+    let counter = 0;
+    const config: EnclaveSignerConfig = {
+      enclaveId: 'enc_test',
+      attestationNonce: 'static',
+      nonceSource: () => `fresh-${counter++}`,
+    };
+
+    expect(await nextAttestationNonce(config)).toBe('static-fresh-0');
+    expect(await nextAttestationNonce(config)).toBe('static-fresh-1');
+    expect(await nextAttestationNonce({ enclaveId: 'enc_test', attestationNonce: 'static' }))
+      .toMatch(/^static-[0-9a-f]{64}$/);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('rejects an empty nonce from the nonce source', async () => {
+    const config: EnclaveSignerConfig = { enclaveId: 'enc_test', attestationNonce: 'static', nonceSource: () => '' };
+
+    await expect(nextAttestationNonce(config)).rejects.toThrow(ConfigurationError);
+    await expect(nextAttestationNonce(config)).rejects.toMatchObject({ code: 'INVALID_NONCE' });
+  });
+});
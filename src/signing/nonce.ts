@@ -0,0 +1,33 @@
+/**
+ * Attestation nonces for replay protection.
+ *
+ * Each verification before a signature is bound to a fresh random nonce
+ * that the enclave must echo back in its attestation document, so a
+ * previously captured "valid" document cannot be replayed.
+ */
+
+import { ethers } from 'ethers';
+import { ConfigurationError } from '../errors';
+import { EnclaveSignerConfig, NonceSource } from './types';
+
+/**
+ * Default nonce source: 32 bytes from a cryptographically secure RNG,
+ * hex encoded without the `0x` prefix.
+ */
+export const randomNonceSource: NonceSource = () => ethers.hexlify(ethers.randomBytes(32)).slice(2);
+
+/**
+ * Produce the nonce for the next verification. The deprecated static
+ * `attestationNonce` is never sent on its own: it prefixes a fresh value
+ * from the nonce source, so every verification still gets its own nonce.
+ *
+ * @throws ConfigurationError if the nonce source returns an empty nonce
+ */
+export async function nextAttestationNonce(config: EnclaveSignerConfig): Promise<string> {
+  const fresh = await (config.nonceSource ?? randomNonceSource)();
+  if (typeof fresh !== 'string' || fresh === '') {
+    throw new ConfigurationError('nonceSource must return a non-empty string', { code: 'INVALID_NONCE' });
+  }
+
+  return config.attestationNonce ? `${config.attestationNonce}-${fresh}` : fresh;
+}
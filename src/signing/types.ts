@@ -11,6 +11,14 @@
  */
 
 import { ethers } from 'ethers';
+import { AttestationPolicy } from '../attestation/policy';
+import { AttestationCache } from './attestation-cache';
+
+/**
+ * Produces the nonce sent with each attestation verification. Must return a
+ * value that is never reused; swap in a deterministic source for tests.
+ */
+export type NonceSource = () => string | Promise<string>;
 
 /**
  * Configuration for the EnclaveSigner
@@ -20,8 +28,27 @@ export interface EnclaveSignerConfig {
   enclaveId: string;
   /** Optional: verify enclave attestation before each signing request */
   verifyAttestation?: boolean;
-  /** Optional: nonce for attestation replay protection */
+  /**
+   * Optional: source of the per-verification nonce the enclave must echo back.
+   * Defaults to 32 random bytes per verification.
+   */
+  nonceSource?: NonceSource;
+  /**
+   * Optional: static prefix combined with a fresh nonce for every verification
+   * @deprecated A nonce reused for the signer's lifetime does not prevent replay; use `nonceSource`
+   */
   attestationNonce?: string;
+  /**
+   * Optional: pin the enclave to expected PCR values, document age and trust level.
+   * Signing is refused with an AttestationPolicyError when the policy fails.
+   * Setting a policy enables verification even if `verifyAttestation` is false.
+   */
+  attestationPolicy?: AttestationPolicy;
+  /**
+   * Optional: cache for verified attestations. Defaults to the platform client's
+   * cache; pass `false` to verify before every signature.
+   */
+  attestationCache?: AttestationCache | false;
 }
 
 /**
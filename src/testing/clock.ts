@@ -0,0 +1,55 @@
+/**
+ * Clocks for the mock platform
+ *
+ * The mock platform reads time only through a Clock, so tests decide when
+ * enclaves move between statuses instead of waiting in real time.
+ */
+
+/**
+ * Source of the current time in epoch milliseconds
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  /**
+   * @param start Initial time in epoch milliseconds (defaults to the current time)
+   */
+  constructor(start: number = Date.now()) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * Move the clock forward
+   * @param ms Milliseconds to advance by
+   */
+  advance(ms: number): void {
+    if (ms < 0) {
+      throw new RangeError('A ManualClock cannot move backwards');
+    }
+    this.time += ms;
+  }
+
+  /**
+   * Jump to a point in time, which must not be in the clock's past
+   * @param time Epoch milliseconds or Date
+   */
+  set(time: number | Date): void {
+    this.advance((typeof time === 'number' ? time : time.getTime()) - this.time);
+  }
+}
+
+/**
+ * Clock backed by real time
+ */
+export const systemClock: Clock = { now: () => Date.now() };
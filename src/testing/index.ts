@@ -0,0 +1,24 @@
+/**
+ * Treza Testing Module
+ *
+ * In-memory fakes for testing code built on the SDK:
+ *
+ * - MockTrezaPlatform: Stateful fake of the platform API, in-process or on a local port
+ * - ManualClock:       Clock the tests advance, driving enclave status transitions and task runs
+ * - createNitroAttestationDocument: Nitro attestation documents signed by the mock Nitro PKI
+ */
+
+export { MockTrezaPlatform } from './mock-platform';
+export { ManualClock, systemClock } from './clock';
+export { createNitroAttestationDocument } from './nitro-document';
+export { MOCK_NITRO_ROOT_CERTIFICATE } from './fixtures';
+export type { NitroDocumentFields } from './nitro-document';
+export type { Clock } from './clock';
+export type {
+  MockPlatformOptions,
+  FailureMatcher,
+  InjectedFailure,
+  FailEnclaveOptions,
+  FailTaskRunOptions,
+  MockPlatformServer,
+} from './types';
@@ -0,0 +1,99 @@
+import { ethers } from 'ethers';
+import { AuthError, EnclaveSigner, NetworkError, ServerError, TrezaClient } from '../index';
+import { ManualClock, MockTrezaPlatform } from './index';
+
+const WALLET = '0x742d35Cc6634C0532925a3b8D598C4C0532925a3';
+
+const createRequest = {
+  name: 'test-enclave',
+  description: '',
+  region: 'us-east-1',
+  walletAddress: WALLET,
+  providerId: 'aws-nitro',
+  providerConfig: { dockerImage: 'nginx:latest' },
+};
+
+describe('MockTrezaPlatform', () => {
+  it('moves enclaves through their lifecycle as the clock advances', async () => {
+    const platform = new MockTrezaPlatform({ clock: new ManualClock(0) });
+    const client = platform.createClient();
+
+    const enclave = await client.createEnclave(createRequest);
+    expect(enclave.status).toBe('PENDING_DEPLOY');
+
+    platform.advance(1000);
+    expect((await client.getEnclave(enclave.id)).status).toBe('DEPLOYING');
+
+    platform.advance(1000);
+    expect((await client.getEnclave(enclave.id)).status).toBe('DEPLOYED');
+  });
+
+  it('completes waitForEnclave on its own with autoAdvanceMs', async () => {
+    const platform = new MockTrezaPlatform({ autoAdvanceMs: 1000 });
+    const client = platform.createClient();
+
+    const enclave = await client.createEnclave(createRequest);
+    const deployed = await client.waitForEnclave(enclave.id, { pollInterval: 0 });
+
+    expect(deployed.status).toBe('DEPLOYED');
+  });
+
+  it('signs with a key that matches the enclave signing address', async () => {
+    const platform = new MockTrezaPlatform();
+    const client = platform.createClient();
+    const enclave = platform.seedEnclave({ walletAddress: WALLET });
+
+    const signer = await new EnclaveSigner(client, { enclaveId: enclave.id }).getSigner();
+    const signature = await signer.signMessage('hello');
+
+    expect(ethers.verifyMessage('hello', signature)).toBe(await signer.getAddress());
+  });
+
+  it('injects HTTP and network failures for matching requests', async () => {
+    const platform = new MockTrezaPlatform();
+    const client = platform.createClient({ retry: false });
+    const enclave = platform.seedEnclave({ walletAddress: WALLET });
+    const path = `/api/enclaves/${enclave.id}`;
+
+    platform.failNext({ method: 'GET', path }, { status: 503 });
+    platform.failNext({ method: 'GET', path }, 'network');
+
+    await expect(client.getEnclave(enclave.id)).rejects.toBeInstanceOf(ServerError);
+    await expect(client.getEnclave(enclave.id)).rejects.toBeInstanceOf(NetworkError);
+    await expect(client.getEnclave(enclave.id)).resolves.toMatchObject({ id: enclave.id });
+  });
+
+  it('fails a deployment with failEnclave', async () => {
+    const platform = new MockTrezaPlatform();
+    const client = platform.createClient();
+
+    const enclave = await client.createEnclave(createRequest);
+    platform.failEnclave(enclave.id, { during: 'DEPLOYING', message: 'Image pull failed' });
+    platform.advance(2000);
+
+    expect(await client.getEnclave(enclave.id)).toMatchObject({
+      status: 'FAILED',
+      error_message: 'Image pull failed',
+    });
+  });
+
+  it('rejects unauthenticated requests with requireAuth', async () => {
+    const platform = new MockTrezaPlatform({ requireAuth: true, tokens: ['test-token'] });
+
+    await expect(platform.createClient({ retry: false }).getEnclaves(WALLET)).rejects.toBeInstanceOf(AuthError);
+    await expect(platform.createClient({ apiKey: 'test-token' }).getEnclaves(WALLET)).resolves.toEqual([]);
+  });
+
+  it('serves the same fake over HTTP', async () => {
+    const platform = new MockTrezaPlatform();
+    const enclave = platform.seedEnclave({ walletAddress: WALLET });
+    const server = await platform.listen();
+
+    try {
+      const client = new TrezaClient({ baseUrl: server.url });
+      expect(await client.getEnclave(enclave.id)).toMatchObject({ id: enclave.id, status: 'DEPLOYED' });
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Nitro attestation documents signed by the mock Nitro PKI
+ *
+ * Builds the same COSE_Sign1 structure the Nitro Secure Module returns, so
+ * `verifyNitroAttestation` and `verifyAttestationLocally` run every check
+ * against it. Pass `rootCertificate: MOCK_NITRO_ROOT_CERTIFICATE` when verifying.
+ */
+
+import { createPrivateKey, sign, X509Certificate } from 'crypto';
+import { CborTag, encodeCbor } from '../attestation/cbor';
+import {
+  MOCK_NITRO_INTERMEDIATE_CERTIFICATE,
+  MOCK_NITRO_ROOT_CERTIFICATE,
+  MOCK_NITRO_SIGNING_CERTIFICATE,
+  MOCK_NITRO_SIGNING_KEY,
+} from './fixtures';
+
+/**
+ * Contents of a mock attestation document
+ */
+export interface NitroDocumentFields {
+  /** Enclave module ID (defaults to `i-mock-enc01234567890`) */
+  moduleId?: string;
+  /** Epoch milliseconds (defaults to the current time) */
+  timestamp?: number;
+  /** PCR values as hex, by index; PCR0-2 default to non-zero values */
+  pcrs?: Record<number, string>;
+  /** Nonce echoed back, encoded as UTF-8 */
+  nonce?: string;
+  /** Enclave public key as hex */
+  publicKey?: string;
+  /** User data as hex */
+  userData?: string;
+}
+
+/**
+ * Create a base64 attestation document signed by the mock Nitro signing certificate
+ *
+ * @example
+ * ```typescript
+ * import { MOCK_NITRO_ROOT_CERTIFICATE, createNitroAttestationDocument } from '@treza/sdk/testing';
+ *
+ * const document = createNitroAttestationDocument({ nonce: 'n-1' });
+ * verifyNitroAttestation(document, { nonce: 'n-1', rootCertificate: MOCK_NITRO_ROOT_CERTIFICATE }).isValid; // true
+ * ```
+ */
+export function createNitroAttestationDocument(fields: NitroDocumentFields = {}): string {
+  const pcrs = new Map<number, Uint8Array>();
+  const values: Record<number, string> = {
+    0: 'a0'.repeat(48),
+    1: 'a1'.repeat(48),
+    2: 'a2'.repeat(48),
+    ...fields.pcrs,
+  };
+  for (const [index, value] of Object.entries(values)) {
+    pcrs.set(Number(index), fromHex(value));
+  }
+
+  const payload = encodeCbor(new Map<string, any>([
+    ['module_id', fields.moduleId ?? 'i-mock-enc01234567890'],
+    ['digest', 'SHA384'],
+    ['timestamp', fields.timestamp ?? Date.now()],
+    ['pcrs', pcrs],
+    ['certificate', toDer(MOCK_NITRO_SIGNING_CERTIFICATE)],
+    ['cabundle', [toDer(MOCK_NITRO_ROOT_CERTIFICATE), toDer(MOCK_NITRO_INTERMEDIATE_CERTIFICATE)]],
+    ['public_key', fields.publicKey === undefined ? null : fromHex(fields.publicKey)],
+    ['user_data', fields.userData === undefined ? null : fromHex(fields.userData)],
+    ['nonce', fields.nonce === undefined ? null : new TextEncoder().encode(fields.nonce)],
+  ]));
+
+  // Protected header { 1 (alg): -35 (ES384) }
+  const protectedHeader = encodeCbor(new Map([[1, -35]]));
+  const sigStructure = encodeCbor(['Signature1', protectedHeader, new Uint8Array(0), payload]);
+  const signature = sign('sha384', sigStructure, {
+    key: createPrivateKey(MOCK_NITRO_SIGNING_KEY),
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  const document = encodeCbor(new CborTag(18, [protectedHeader, new Map(), payload, new Uint8Array(signature)]));
+  return Buffer.from(document).toString('base64');
+}
+
+function toDer(pem: string): Uint8Array {
+  return new Uint8Array(new X509Certificate(pem).raw);
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(Buffer.from(hex.startsWith('0x') ? hex.slice(2) : hex, 'hex'));
+}
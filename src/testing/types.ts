@@ -0,0 +1,93 @@
+/**
+ * Type definitions for the Treza testing module
+ */
+
+import { EnclaveStatus, HttpMethod, Provider } from '../types';
+import { Clock } from './clock';
+
+/**
+ * Options for a MockTrezaPlatform
+ */
+export interface MockPlatformOptions {
+  /** Clock driving enclave status transitions (defaults to a ManualClock at the current time) */
+  clock?: Clock;
+  /**
+   * Milliseconds an enclave stays in each in-progress status before moving on
+   * (defaults to 1000 for every status)
+   */
+  transitionDelays?: Partial<Record<EnclaveStatus, number>>;
+  /** Advance a ManualClock by this many milliseconds on every request (defaults to 0) */
+  autoAdvanceMs?: number;
+  /**
+   * Reject requests without a valid bearer token. API keys created through
+   * the platform are accepted with their permissions, and `tokens` and
+   * wallet sessions with every permission (defaults to false)
+   */
+  requireAuth?: boolean;
+  /** Bearer tokens accepted with every permission */
+  tokens?: string[];
+  /** Providers served by `/api/providers` (defaults to a single `aws-nitro` provider) */
+  providers?: Provider[];
+  /**
+   * Return a `rawDocument` with each attestation, signed by the mock Nitro
+   * PKI; verify it with `rootCertificate: MOCK_NITRO_ROOT_CERTIFICATE`
+   * (defaults to false, since the documents don't verify against the AWS root)
+   */
+  signAttestations?: boolean;
+}
+
+/**
+ * Which requests an injected failure applies to
+ */
+export interface FailureMatcher {
+  /** HTTP method (defaults to any) */
+  method?: HttpMethod;
+  /** Exact path, or a pattern tested against the path (defaults to any) */
+  path?: string | RegExp;
+}
+
+/**
+ * Injected failure: an HTTP error response, or `'network'` for a request that never gets a response
+ */
+export type InjectedFailure =
+  | 'network'
+  | {
+    status: number;
+    /** Response body (defaults to `{ error: 'Injected failure' }`) */
+    data?: unknown;
+    headers?: Record<string, string>;
+  };
+
+/**
+ * Options for failing an enclave
+ */
+export interface FailEnclaveOptions {
+  /**
+   * In-progress status the enclave fails when leaving
+   * (defaults to the next in-progress status it is in)
+   */
+  during?: EnclaveStatus;
+  /** Error message recorded on the enclave and in its logs */
+  message?: string;
+}
+
+/**
+ * Options for failing a task run
+ */
+export interface FailTaskRunOptions {
+  /** Exit code recorded on the run (defaults to 1) */
+  exitCode?: number;
+  /** Error recorded on the run and in its logs */
+  message?: string;
+}
+
+/**
+ * Local HTTP server started by `MockTrezaPlatform.listen`
+ */
+export interface MockPlatformServer {
+  /** Base URL to pass as `baseUrl`, e.g. `http://127.0.0.1:51234` */
+  url: string;
+  port: number;
+  /** Stop the server */
+  close(): Promise<void>;
+}
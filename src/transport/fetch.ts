@@ -0,0 +1,87 @@
+/**
+ * Fetch Transport
+ *
+ * Default transport built on the standard `fetch` API, available in
+ * Node.js 18+, browsers, Deno, Bun and Cloudflare Workers.
+ *
+ * @example
+ * ```typescript
+ * import { TrezaClient, FetchTransport } from '@treza/sdk';
+ *
+ * // Use a custom fetch, e.g. one bound to a Worker's service binding
+ * const client = new TrezaClient({
+ *   transport: new FetchTransport({ fetch: env.TREZA.fetch.bind(env.TREZA) }),
+ * });
+ * ```
+ */
+
+import { Transport, TransportRequest, TransportResponse } from './types';
+import { ConfigurationError } from '../errors';
+
+export interface FetchTransportOptions {
+  /** fetch implementation (defaults to the global `fetch`) */
+  fetch?: typeof fetch;
+}
+
+export class FetchTransport implements Transport {
+  private readonly fetchImpl?: typeof fetch;
+
+  constructor(options: FetchTransportOptions = {}) {
+    this.fetchImpl = options.fetch;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const fetchImpl = this.fetchImpl ?? globalThis.fetch;
+    if (!fetchImpl) {
+      throw new ConfigurationError('No fetch implementation available. Pass one with new FetchTransport({ fetch })');
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort);
+    if (request.signal?.aborted) controller.abort();
+    const timer = request.timeout ? setTimeout(onAbort, request.timeout) : undefined;
+
+    const headers = { ...request.headers };
+    let body: string | undefined;
+    if (request.body !== undefined) {
+      body = JSON.stringify(request.body);
+      headers['content-type'] ??= 'application/json';
+    }
+
+    try {
+      const response = await fetchImpl(request.url, {
+        method: request.method,
+        headers,
+        body,
+        signal: controller.signal,
+      });
+
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name.toLowerCase()] = value;
+      });
+
+      return {
+        status: response.status,
+        headers: responseHeaders,
+        data: parseBody(await response.text(), responseHeaders['content-type']),
+      };
+    } finally {
+      if (timer) clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+function parseBody(text: string, contentType: string | undefined): any {
+  if (!text) return undefined;
+  if (!contentType || contentType.includes('json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Not JSON after all; fall through to the raw text
+    }
+  }
+  return text;
+}
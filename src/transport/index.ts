@@ -0,0 +1,15 @@
+/**
+ * Treza Transport Module
+ *
+ * HTTP transports used by TrezaClient and TrezaKYCClient:
+ *
+ * - FetchTransport:  Default — standard `fetch` (Node.js 18+, browsers, Deno, Bun, Workers)
+ * - MemoryTransport: Tests — answers requests from in-process route handlers
+ */
+
+export { FetchTransport } from './fetch';
+export { MemoryTransport } from './memory';
+export { buildUrl } from './url';
+export type { Transport, TransportRequest, TransportResponse } from './types';
+export type { FetchTransportOptions } from './fetch';
+export type { MemoryRequest, MemoryResponse, MemoryHandler } from './memory';
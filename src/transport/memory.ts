@@ -0,0 +1,139 @@
+/**
+ * In-Memory Transport
+ *
+ * Answers requests from registered route handlers without touching the
+ * network, and records every request it receives. Intended for tests.
+ *
+ * @example
+ * ```typescript
+ * import { TrezaClient, MemoryTransport } from '@treza/sdk';
+ *
+ * const transport = new MemoryTransport()
+ *   .route('GET', '/api/enclaves/:id', ({ params }) => ({
+ *     data: { enclave: { id: params.id, status: 'DEPLOYED' } },
+ *   }));
+ *
+ * const client = new TrezaClient({ transport });
+ * await client.getEnclave('enc_123');
+ *
+ * expect(transport.requests[0].path).toBe('/api/enclaves/enc_123');
+ * ```
+ */
+
+import { HttpMethod } from '../types';
+import { Transport, TransportRequest, TransportResponse } from './types';
+
+/**
+ * Request as seen by a route handler
+ */
+export interface MemoryRequest extends TransportRequest {
+  /** URL path without the query string */
+  path: string;
+  query: Record<string, string>;
+  /** Values captured by `:name` segments of the route path */
+  params: Record<string, string>;
+}
+
+/**
+ * Route handler result; `status` defaults to 200
+ */
+export interface MemoryResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  data?: unknown;
+}
+
+export type MemoryHandler = (request: MemoryRequest) => MemoryResponse | Promise<MemoryResponse>;
+
+interface Route {
+  method: HttpMethod | '*';
+  pattern: RegExp;
+  names: string[];
+  handler: MemoryHandler;
+}
+
+export class MemoryTransport implements Transport {
+  /** Every request received, in order */
+  readonly requests: MemoryRequest[] = [];
+  private readonly routes: Route[] = [];
+  private readonly fallback?: MemoryHandler;
+
+  /**
+   * @param fallback Handler for requests matching no route (defaults to a 404)
+   */
+  constructor(fallback?: MemoryHandler) {
+    this.fallback = fallback;
+  }
+
+  /**
+   * Register a handler. Later routes take precedence over earlier ones.
+   *
+   * @param method HTTP method, or `*` for any
+   * @param path Path with optional `:name` segments, e.g. `/api/enclaves/:id`
+   * @param handler Produces the response
+   */
+  route(method: HttpMethod | '*', path: string, handler: MemoryHandler): this {
+    const names: string[] = [];
+    const source = path
+      .split('/')
+      .map((segment) => {
+        if (!segment.startsWith(':')) return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        names.push(segment.slice(1));
+        return '([^/]+)';
+      })
+      .join('/');
+
+    this.routes.unshift({ method, pattern: new RegExp(`^${source}$`), names, handler });
+    return this;
+  }
+
+  /**
+   * Forget recorded requests
+   */
+  reset(): void {
+    this.requests.length = 0;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    if (request.signal?.aborted) {
+      throw new Error('The request was aborted');
+    }
+
+    const url = new URL(request.url);
+    const memoryRequest: MemoryRequest = {
+      ...request,
+      // Round-trip through JSON, as a real transport would
+      body: request.body === undefined ? undefined : JSON.parse(JSON.stringify(request.body)),
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      params: {},
+    };
+    this.requests.push(memoryRequest);
+
+    let handler = this.fallback;
+    for (const route of this.routes) {
+      if (route.method !== '*' && route.method !== request.method) continue;
+      const match = route.pattern.exec(memoryRequest.path);
+      if (!match) continue;
+
+      route.names.forEach((name, index) => {
+        memoryRequest.params[name] = decodeURIComponent(match[index + 1]);
+      });
+      handler = route.handler;
+      break;
+    }
+
+    if (!handler) {
+      return { status: 404, headers: {}, data: { error: `No route for ${request.method} ${memoryRequest.path}` } };
+    }
+
+    const response = await handler(memoryRequest);
+    return {
+      status: response.status ?? 200,
+      headers: Object.fromEntries(
+        Object.entries(response.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value])
+      ),
+      data: response.data === undefined ? undefined : JSON.parse(JSON.stringify(response.data)),
+    };
+  }
+}
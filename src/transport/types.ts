@@ -0,0 +1,44 @@
+/**
+ * Transport Types
+ *
+ * A transport sends one HTTP request and returns the response. TrezaClient
+ * and TrezaKYCClient only talk to the network through a transport, so the
+ * SDK runs on any runtime with `fetch` and tests can swap in a fake.
+ */
+
+import { HttpMethod } from '../types';
+
+/**
+ * Request handed to a transport
+ */
+export interface TransportRequest {
+  method: HttpMethod;
+  /** Absolute URL, including the query string */
+  url: string;
+  /** Header names are lower-case */
+  headers: Record<string, string>;
+  /** JSON-serialisable body; transports encode it */
+  body?: unknown;
+  signal?: AbortSignal;
+  /** Abort the request after this many milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Response returned by a transport. Error statuses are returned, not thrown.
+ */
+export interface TransportResponse<T = any> {
+  status: number;
+  /** Header names are lower-case */
+  headers: Record<string, string>;
+  /** Parsed JSON body, the raw text for non-JSON bodies, or undefined when empty */
+  data: T;
+}
+
+/**
+ * Sends HTTP requests. Implementations reject only when no response was
+ * received (network failure, timeout, abort).
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
@@ -1,3 +1,7 @@
+import type { WalletAuthConfig } from './auth/types';
+import type { AttestationCache } from './signing/attestation-cache';
+import type { Transport } from './transport/types';
+
 /**
  * Configuration options for the Treza SDK client
  */
@@ -6,8 +10,267 @@ export interface TrezaConfig {
   baseUrl?: string;
   /** Request timeout in milliseconds (defaults to 30000) */
   timeout?: number;
+  /**
+   * HTTP transport (defaults to a FetchTransport using the global `fetch`).
+   * Pass a MemoryTransport in tests.
+   */
+  transport?: Transport;
+  /** Scoped API key sent as a bearer token on every request */
+  apiKey?: string;
+  /**
+   * Callback returning a bearer token for every request. Takes precedence over
+   * `apiKey`. Called again with `forceRefresh: true` when the API answers 401.
+   */
+  getAccessToken?: AccessTokenProvider;
+  /**
+   * Authenticate by signing an EIP-4361 challenge with a wallet instead of
+   * using an API key. Ignored when `getAccessToken` is set.
+   */
+  walletAuth?: WalletAuthConfig;
+  /** Retry policy for failed requests, or `false` to disable retries */
+  retry?: RetryPolicy | false;
+  /**
+   * Cache of verified attestations used by enclave signers built on this client
+   * (defaults to a new cache owned by this client). The client reports every
+   * enclave and attestation it fetches so the cache can drop stale results.
+   * Only share a cache between clients that talk to the same platform.
+   */
+  attestationCache?: AttestationCache;
+  /**
+   * Middleware run on every request, in order (see `TrezaClient.use`).
+   * Runs inside the retry loop, so each attempt passes through it.
+   */
+  middleware?: Middleware[];
+  /**
+   * Check `region` and `providerConfig` against the provider's regions and
+   * `configSchema` before `createEnclave` and `updateEnclave`, so bad settings
+   * fail with a ValidationError instead of a failed deployment (defaults to false).
+   * Provider definitions are fetched once per client.
+   */
+  validateProviderConfig?: boolean;
+  /**
+   * Before each request made with `apiKey`, check that the key grants the
+   * permission the endpoint needs and throw a PermissionError without calling
+   * the API when it doesn't (defaults to false). The key's permissions are
+   * fetched once with `whoAmI` and refetched after `setApiKey`.
+   */
+  checkScopes?: boolean;
+  /**
+   * Resolve the Docker Hub tag in `providerConfig.dockerImage` to the digest it
+   * points at before `createEnclave` and `updateEnclave`, so the enclave runs
+   * `repository@sha256:...` and keeps running it when the tag moves. The tag
+   * is recorded as `providerConfig.dockerImageTag` (defaults to false).
+   */
+  pinDockerImages?: boolean;
+  /**
+   * Reject `createEnclave` and `updateEnclave` with a ValidationError when
+   * `providerConfig.dockerImage` is not pinned to a digest, after
+   * `pinDockerImages` has run (defaults to false)
+   */
+  requirePinnedImages?: boolean;
+}
+
+/**
+ * HTTP methods used by the Treza API
+ */
+export type HttpMethod = 'GET' | 'HEAD' | 'OPTIONS' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Retry policy for transient failures
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt (defaults to 3) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff in milliseconds (defaults to 500) */
+  baseDelayMs?: number;
+  /** Upper bound for any single delay in milliseconds (defaults to 30000) */
+  maxDelayMs?: number;
+  /** HTTP status codes that trigger a retry (defaults to 408, 425, 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Whether to retry when the API cannot be reached (defaults to true) */
+  retryNetworkErrors?: boolean;
+  /**
+   * Methods that are safe to replay (defaults to GET, HEAD, OPTIONS, PUT, DELETE).
+   * Requests carrying an idempotency key are retried regardless of method.
+   */
+  retryableMethods?: HttpMethod[];
+  /** Wait for the server's `Retry-After` on 429/503 instead of backing off (defaults to true) */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * A request travelling through the client's middleware pipeline
+ */
+export interface TrezaRequest {
+  method: HttpMethod;
+  /** Path relative to `baseUrl`, e.g. `/api/enclaves` */
+  path: string;
+  /** Query parameters; `undefined` values are dropped */
+  query?: Record<string, string | number | boolean | undefined>;
+  /** Header names are lower-case */
+  headers: Record<string, string>;
+  /** JSON request body */
+  body?: unknown;
+  signal?: AbortSignal;
+  /** 0 for the first attempt, incremented on each retry */
+  attempt: number;
+}
+
+/**
+ * A response returned through the middleware pipeline. Error statuses are
+ * returned like any other and only turned into errors once the pipeline
+ * completes, so middleware can inspect or rewrite them.
+ */
+export interface TrezaResponse<T = any> {
+  status: number;
+  /** Header names are lower-case */
+  headers: Record<string, string>;
+  data: T;
+  /** Request as sent by the innermost middleware */
+  request: TrezaRequest;
+}
+
+/**
+ * Sends a request and resolves with its response
+ */
+export type RequestHandler = (request: TrezaRequest) => Promise<TrezaResponse>;
+
+/**
+ * Request/response middleware. Call `next` with the (possibly modified)
+ * request and return its (possibly modified) response.
+ *
+ * @example
+ * ```typescript
+ * const timing: Middleware = async (request, next) => {
+ *   const started = Date.now();
+ *   const response = await next(request);
+ *   console.log(`${request.method} ${request.path} ${response.status} ${Date.now() - started}ms`);
+ *   return response;
+ * };
+ * ```
+ */
+export type Middleware = (request: TrezaRequest, next: RequestHandler) => Promise<TrezaResponse>;
+
+/**
+ * Per-call options for `TrezaClient.request`
+ */
+export interface RequestOptions {
+  query?: TrezaRequest['query'];
+  /** Extra headers, merged over the client defaults */
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Per-call options for requests that create resources
+ */
+export interface MutationOptions {
+  /**
+   * Idempotency key sent with the request. Generated automatically when omitted;
+   * pass your own to deduplicate across process restarts.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Per-call options for requests that create or change enclaves
+ */
+export interface ValidateOptions {
+  /**
+   * Check `region` and `providerConfig` against the provider before sending
+   * the request (defaults to the client's `validateProviderConfig`)
+   */
+  validate?: boolean;
+}
+
+/**
+ * Docker image pinning of an enclave mutation
+ */
+export interface PinImageOptions {
+  /**
+   * Resolve a Docker Hub tag in `providerConfig.dockerImage` to its digest
+   * (defaults to the client's `pinDockerImages`)
+   */
+  pinImage?: boolean;
 }
 
+/**
+ * Sort order for list endpoints; prefix the field with `-` for descending
+ */
+export type ListSort = 'createdAt' | '-createdAt' | 'updatedAt' | '-updatedAt' | 'name' | '-name';
+
+/**
+ * Paging options shared by list endpoints
+ */
+export interface PageOptions {
+  /** Maximum items per page (the platform caps this at 100) */
+  limit?: number;
+  /** Cursor from a previous page's `nextCursor` */
+  cursor?: string;
+  /** Sort order (defaults to '-createdAt') */
+  sort?: ListSort;
+  /** Only include items created after this time (ISO timestamp or Date) */
+  createdAfter?: string | Date;
+  /** Abort the request, or stop iterating */
+  signal?: AbortSignal;
+}
+
+/**
+ * One page of a list endpoint
+ */
+export interface Page<T> {
+  items: T[];
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * Filters and paging for listing enclaves
+ */
+export interface ListEnclavesOptions extends PageOptions {
+  status?: EnclaveStatus | EnclaveStatus[];
+  region?: string;
+  providerId?: string;
+}
+
+/**
+ * Filters and paging for listing tasks
+ */
+export interface ListTasksOptions extends PageOptions {
+  status?: Task['status'] | Task['status'][];
+  enclaveId?: string;
+}
+
+/**
+ * Filters and paging for listing API keys
+ */
+export interface ListApiKeysOptions extends PageOptions {
+  status?: ApiKey['status'];
+}
+
+/**
+ * Supplies a (possibly short-lived) bearer token for Treza API requests
+ */
+export type AccessTokenProvider = (options: { forceRefresh: boolean }) => string | Promise<string>;
+
+/**
+ * Enclave lifecycle status
+ */
+export type EnclaveStatus =
+  | 'PENDING_BUILD'
+  | 'BUILDING'
+  | 'BUILD_FAILED'
+  | 'PENDING_DEPLOY'
+  | 'DEPLOYING'
+  | 'DEPLOYED'
+  | 'PAUSING'
+  | 'PAUSED'
+  | 'RESUMING'
+  | 'PENDING_DESTROY'
+  | 'DESTROYING'
+  | 'DESTROYED'
+  | 'FAILED';
+
 /**
  * Enclave object as defined in the API
  */
@@ -19,7 +282,7 @@ export interface Enclave {
   /** Enclave description */
   description: string;
   /** Current enclave status */
-  status: 'PENDING_BUILD' | 'BUILDING' | 'BUILD_FAILED' | 'PENDING_DEPLOY' | 'DEPLOYING' | 'DEPLOYED' | 'PAUSING' | 'PAUSED' | 'RESUMING' | 'PENDING_DESTROY' | 'DESTROYING' | 'DESTROYED' | 'FAILED';
+  status: EnclaveStatus;
   /** Deployment source type */
   sourceType?: 'registry' | 'github' | 'private-registry';
   /** AWS region where enclave is deployed */
@@ -74,7 +337,9 @@ export interface GitHubConnection {
   selectedRepo?: string;
   /** Selected branch name */
   selectedBranch?: string;
-  /** GitHub access token */
+  /** Commit SHA to build (defaults to the head of `selectedBranch` when the build starts) */
+  selectedCommit?: string;
+  /** GitHub access token; sent when creating or updating, never returned by the client */
   accessToken?: string;
 }
 
@@ -142,6 +407,8 @@ export interface EnclaveResponse {
  */
 export interface EnclavesResponse {
   enclaves: Enclave[];
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
 }
 
 /**
@@ -174,6 +441,8 @@ export interface Task {
   status: 'running' | 'stopped' | 'failed' | 'pending';
   /** Cron-style schedule expression */
   schedule: string;
+  /** IANA time zone the schedule is evaluated in (UTC when absent) */
+  timezone?: string;
   /** Associated wallet address */
   walletAddress: string;
   /** Creation timestamp */
@@ -182,6 +451,12 @@ export interface Task {
   updatedAt: string;
   /** Last execution timestamp */
   lastRun?: string;
+  /**
+   * Next execution timestamp, computed by the SDK from `schedule` and
+   * `timezone`. Absent for stopped or failed tasks and schedules the SDK
+   * can't parse.
+   */
+  nextRun?: string;
 }
 
 /**
@@ -194,8 +469,10 @@ export interface CreateTaskRequest {
   description: string;
   /** Associated enclave ID */
   enclaveId: string;
-  /** Cron-style schedule expression */
+  /** Cron expression: five or six fields, or a macro such as `@daily` */
   schedule: string;
+  /** IANA time zone the schedule is evaluated in (default: UTC) */
+  timezone?: string;
   /** Wallet address for authorization */
   walletAddress: string;
 }
@@ -214,6 +491,8 @@ export interface UpdateTaskRequest {
   description?: string;
   /** Optional updated schedule */
   schedule?: string;
+  /** Optional updated time zone */
+  timezone?: string;
   /** Optional updated status */
   status?: 'running' | 'stopped' | 'failed' | 'pending';
 }
@@ -230,8 +509,81 @@ export interface TaskResponse {
  */
 export interface TasksResponse {
   tasks: Task[];
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
 }
 
+/**
+ * Status of a task run. `succeeded`, `failed` and `cancelled` are final.
+ */
+export type TaskRunStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * One execution of a task
+ */
+export interface TaskRun {
+  /** Unique run identifier */
+  id: string;
+  /** Task that ran */
+  taskId: string;
+  /** Enclave the run executed in */
+  enclaveId: string;
+  /** Current run status */
+  status: TaskRunStatus;
+  /** Whether the schedule or a `triggerTask` call started the run */
+  trigger: 'schedule' | 'manual';
+  /** Input passed to `triggerTask` */
+  input?: Record<string, unknown>;
+  /** Output of the finished run */
+  output?: string;
+  /** Exit code of the finished run */
+  exitCode?: number;
+  /** Why the run failed or was cancelled */
+  error?: string;
+  /**
+   * Log stream the run writes to in its enclave's logs; the run's entries
+   * have this `LogEntry.stream`
+   */
+  logStream: string;
+  /** When the run was queued */
+  createdAt: string;
+  /** When the run started executing */
+  startedAt?: string;
+  /** When the run reached a final status */
+  finishedAt?: string;
+}
+
+/**
+ * Options for listing a task's runs
+ */
+export interface GetTaskRunsOptions {
+  /** Only include runs queued at or after this time (ISO timestamp or Date) */
+  since?: string | Date;
+  /** Maximum runs to return, newest first (the platform defaults to 20) */
+  limit?: number;
+  /** Abort the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Response for task run operations
+ */
+export interface TaskRunResponse {
+  run: TaskRun;
+}
+
+/**
+ * Response for listing task runs
+ */
+export interface TaskRunsResponse {
+  runs: TaskRun[];
+}
+
+/**
+ * Permission scope that can be granted to an API key
+ */
+export type ApiKeyPermission = 'enclaves:read' | 'enclaves:write' | 'tasks:read' | 'tasks:write' | 'logs:read';
+
 /**
  * API Key object for authentication
  */
@@ -245,7 +597,7 @@ export interface ApiKey {
   /** SHA256 hash of the API key */
   keyHash: string;
   /** Array of permissions granted to this API key */
-  permissions: ('enclaves:read' | 'enclaves:write' | 'tasks:read' | 'tasks:write' | 'logs:read')[];
+  permissions: ApiKeyPermission[];
   /** Current API key status */
   status: 'active' | 'inactive';
   /** Associated wallet address */
@@ -258,6 +610,60 @@ export interface ApiKey {
   lastUsed?: string;
 }
 
+/**
+ * Options for rotating an API key
+ */
+export interface RotateApiKeyOptions {
+  /** Seconds both keys stay active before the old one is revoked (defaults to 300) */
+  overlapSeconds?: number;
+  /** Name of the replacement (defaults to the old key's name) */
+  name?: string;
+  /**
+   * Called with the replacement, its secret in `key`, before the overlap
+   * window starts. Push the secret to your secret store here; if this throws,
+   * the replacement is deleted and the old key is left as it was.
+   */
+  onNewSecret?: (newKey: ApiKey & { key: string }, oldKey: ApiKey) => void | Promise<void>;
+  /** Called after the old key has been deactivated and deleted */
+  onOldKeyRevoked?: (oldKey: ApiKey) => void | Promise<void>;
+  /** Stop waiting out the overlap window; the old key stays active */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of a completed API key rotation
+ */
+export interface ApiKeyRotation {
+  /** Replacement key; `key` holds its secret, which is not returned again */
+  newKey: ApiKey;
+  /** Key that was revoked, as it was before rotation */
+  oldKey: ApiKey;
+}
+
+/**
+ * Options for finding unused API keys
+ */
+export interface StaleApiKeysOptions {
+  /** Keys unused for at least this many days are reported (defaults to 90) */
+  unusedForDays?: number;
+  /** Report inactive keys too (defaults to false) */
+  includeInactive?: boolean;
+  /** Abort listing the keys */
+  signal?: AbortSignal;
+}
+
+/**
+ * An API key that has not been used recently
+ */
+export interface StaleApiKey {
+  apiKey: ApiKey;
+  /** `lastUsed`, or `createdAt` for keys that were never used */
+  lastActivity: string;
+  /** Whole days since `lastActivity` */
+  idleDays: number;
+  neverUsed: boolean;
+}
+
 /**
  * Request body for creating a new API key
  */
@@ -265,7 +671,7 @@ export interface CreateApiKeyRequest {
   /** API key name */
   name: string;
   /** Array of permissions to grant */
-  permissions: ('enclaves:read' | 'enclaves:write' | 'tasks:read' | 'tasks:write' | 'logs:read')[];
+  permissions: ApiKeyPermission[];
   /** Wallet address for authorization */
   walletAddress: string;
 }
@@ -281,7 +687,7 @@ export interface UpdateApiKeyRequest {
   /** Optional updated name */
   name?: string;
   /** Optional updated permissions */
-  permissions?: ('enclaves:read' | 'enclaves:write' | 'tasks:read' | 'tasks:write' | 'logs:read')[];
+  permissions?: ApiKeyPermission[];
   /** Optional updated status */
   status?: 'active' | 'inactive';
 }
@@ -293,11 +699,36 @@ export interface ApiKeyResponse {
   apiKey: ApiKey;
 }
 
+/**
+ * The caller behind the credential a client is using
+ */
+export interface Identity {
+  /** How the caller authenticated */
+  authMethod: 'api-key' | 'wallet' | 'token';
+  /** Wallet that owns the credential; absent for service tokens */
+  walletAddress?: string;
+  /** ID of the API key, for `api-key` callers */
+  apiKeyId?: string;
+  /** Name of the API key, for `api-key` callers */
+  apiKeyName?: string;
+  /** Scopes the credential grants; every scope for wallet sessions and service tokens */
+  permissions: ApiKeyPermission[];
+}
+
+/**
+ * Response for the current caller's identity
+ */
+export interface IdentityResponse {
+  identity: Identity;
+}
+
 /**
  * Response for listing API keys
  */
 export interface ApiKeysResponse {
   apiKeys: ApiKey[];
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
 }
 
 /**
@@ -407,12 +838,137 @@ export interface GitHubTokenRequest {
   state?: string;
 }
 
+/**
+ * Request for deploying an enclave built from a GitHub repository
+ */
+export interface DeployFromGitHubRequest
+  extends Omit<
+    CreateEnclaveRequest,
+    'name' | 'description' | 'sourceType' | 'githubConnection' | 'privateRegistryUrl' | 'privateRegistryUsername' | 'privateRegistryPassword'
+  > {
+  /** Repository in format "owner/repo" */
+  repo: string;
+  /** Branch to build */
+  branch: string;
+  /** Commit to build: a full SHA, or a prefix of the branch head (defaults to the branch head) */
+  commitSha?: string;
+  /** GitHub access token, used to look up the branch and by the build to clone the repository */
+  accessToken: string;
+  /** Enclave name (defaults to the repository name) */
+  name?: string;
+  /** Enclave description (defaults to "Built from owner/repo@branch") */
+  description?: string;
+}
+
+/**
+ * Progress of a GitHub build and deployment, reported after every poll
+ */
+export interface GitHubBuildProgressEvent extends EnclaveProgressEvent {
+  /** CodeBuild build ID, once the build has started */
+  buildId?: string;
+  /** CodeBuild status, such as IN_PROGRESS, SUCCEEDED or FAILED */
+  buildStatus?: string;
+  /** Whether the build ID or status changed since the previous poll */
+  buildChanged: boolean;
+}
+
+/**
+ * Options for deploying an enclave from GitHub
+ */
+export interface DeployFromGitHubOptions extends MutationOptions, ValidateOptions {
+  /** Maximum time to wait for the build and deployment in milliseconds (defaults to 900000) */
+  timeout?: number;
+  /** Delay between polls in milliseconds (defaults to 5000) */
+  pollInterval?: number;
+  /** Stop waiting; the build and deployment carry on */
+  signal?: AbortSignal;
+  /** Called after every poll */
+  onProgress?: (event: GitHubBuildProgressEvent) => void;
+}
+
+/**
+ * A deployed enclave and the commit it was built from
+ */
+export interface GitHubDeployment {
+  /** Enclave, in status DEPLOYED */
+  enclave: Enclave;
+  /** Repository in format "owner/repo" */
+  repo: string;
+  branch: string;
+  /** Full SHA of the commit that was built */
+  commitSha: string;
+  /** CodeBuild build ID */
+  buildId?: string;
+  /** CloudWatch log group of the build */
+  buildLogGroup?: string;
+}
+
+/**
+ * Options for comparing a GitHub-sourced enclave with its branch
+ */
+export interface CheckEnclaveDriftOptions {
+  /** GitHub access token used to look up the branch; enclaves returned by the client don't carry one */
+  accessToken?: string;
+  /**
+   * When the branch has moved on, rebuild the enclave from its head and wait
+   * until it is deployed with new attestation PCRs (defaults to false)
+   */
+  redeploy?: boolean;
+  /** Maximum time to wait for the redeployment in milliseconds (defaults to 900000) */
+  timeout?: number;
+  /** Delay between polls in milliseconds (defaults to 5000) */
+  pollInterval?: number;
+  /** Stop waiting; the redeployment carries on */
+  signal?: AbortSignal;
+  /** Called after every poll while redeploying */
+  onProgress?: (event: GitHubBuildProgressEvent) => void;
+}
+
+/**
+ * How a GitHub-sourced enclave compares with the head of its branch
+ */
+export interface EnclaveDrift {
+  /** Enclave as checked, or as redeployed */
+  enclave: Enclave;
+  /** Repository in format "owner/repo" */
+  repo: string;
+  branch: string;
+  /** Commit the enclave was built from, when the platform recorded it */
+  deployedCommit?: string;
+  /** Current head of the branch */
+  headCommit: string;
+  /** Whether the branch head differs from the deployed commit; true when the deployed commit is unknown */
+  drifted: boolean;
+  /** CodeBuild build ID of the deployed commit */
+  buildId?: string;
+  /** The rebuild, when `redeploy` was set and the enclave had drifted */
+  redeployment?: EnclaveRedeployment;
+}
+
+/**
+ * A rebuild of an enclave from the head of its branch
+ */
+export interface EnclaveRedeployment {
+  /** Commit that was built */
+  commitSha: string;
+  /** CodeBuild build ID */
+  buildId?: string;
+  /** PCRs attested before the rebuild; absent when the enclave wasn't running */
+  previousPcrs?: AttestationDocument['pcrs'];
+  /** PCRs attested by the rebuilt enclave */
+  pcrs: AttestationDocument['pcrs'];
+}
+
 /**
  * API Error response
  */
 export interface ApiError {
   error: string;
   details?: string[];
+  /** Permission scope the request needed (403 responses) */
+  requiredScope?: ApiKeyPermission;
+  /** Platform request ID, also sent as the `x-request-id` header */
+  requestId?: string;
 }
 
 /**
@@ -461,6 +1017,29 @@ export interface LogEntry {
   stateMachine?: string;
 }
 
+/**
+ * Log source group returned by the logs endpoint
+ */
+export type LogSource = 'ecs' | 'stepfunctions' | 'lambda' | 'application' | 'errors';
+
+/**
+ * Options for tailing enclave logs
+ */
+export interface TailLogsOptions {
+  /** Sources to include (defaults to all) */
+  types?: LogSource[];
+  /** Only yield entries at or after this time (epoch milliseconds or Date) */
+  since?: number | Date;
+  /** Keep polling for new entries instead of stopping after the first batch (defaults to false) */
+  follow?: boolean;
+  /** Delay between polls in milliseconds when following (defaults to 2000) */
+  pollInterval?: number;
+  /** Maximum entries requested per source on each poll (defaults to 100) */
+  limit?: number;
+  /** Stop tailing; the iterator finishes without throwing */
+  signal?: AbortSignal;
+}
+
 /**
  * Logs response from the API
  */
@@ -518,6 +1097,37 @@ export interface DockerTag {
   digest: string;
 }
 
+/**
+ * A Docker Hub tag resolved to the image it currently points at
+ */
+export interface ResolvedDockerImage {
+  /** Pinned reference, `repository@sha256:...` */
+  image: string;
+  /** Tag that was resolved, `repository:tag` */
+  tag: string;
+  /** Digest the tag points at */
+  digest: string;
+  /** When the tag was last pushed */
+  lastUpdated: string;
+}
+
+/**
+ * How an enclave's pinned Docker image compares with its tag on Docker Hub
+ */
+export interface ImageDrift {
+  enclave: Enclave;
+  /** Image the enclave runs, from `providerConfig.dockerImage` */
+  image: string;
+  /** Tag the image was pinned from, when the SDK pinned it */
+  tag?: string;
+  /** Digest the enclave runs; undefined when the image is not pinned */
+  pinnedDigest?: string;
+  /** Digest the tag points at now; undefined when there is no tag to look up */
+  currentDigest?: string;
+  /** Whether the tag now points at a different image than the enclave runs */
+  moved: boolean;
+}
+
 /**
  * Docker search response
  */
@@ -597,6 +1207,8 @@ export interface AttestationResponse {
   attestationDocument: AttestationDocument;
   /** Verification details */
   verification: AttestationVerification;
+  /** Raw base64 COSE_Sign1 document from the Nitro Secure Module, for local verification */
+  rawDocument?: string;
   /** API endpoints for integration */
   endpoints: {
     /** URL for third-party verification */
@@ -660,6 +1272,47 @@ export interface VerificationResult {
   verifiedAt: string;
 }
 
+/**
+ * Progress event emitted while waiting for an enclave status
+ */
+export interface EnclaveProgressEvent {
+  /** Latest enclave snapshot */
+  enclave: Enclave;
+  /** Current status */
+  status: EnclaveStatus;
+  /** Status seen on the previous poll (undefined on the first poll) */
+  previousStatus?: EnclaveStatus;
+  /** Whether the observed change is a legal lifecycle transition */
+  expectedTransition: boolean;
+  /** Milliseconds since waiting started */
+  elapsedMs: number;
+}
+
+/**
+ * Options for waiting until an enclave reaches a status
+ */
+export interface WaitForEnclaveOptions {
+  /** Status (or statuses) to wait for (defaults to 'DEPLOYED') */
+  until?: EnclaveStatus | EnclaveStatus[];
+  /** Statuses that end the wait with an error (defaults to BUILD_FAILED and FAILED) */
+  failOn?: EnclaveStatus[];
+  /** Maximum time to wait in milliseconds (defaults to 900000) */
+  timeout?: number;
+  /** Delay between polls in milliseconds (defaults to 5000) */
+  pollInterval?: number;
+  /**
+   * `updatedAt` of the enclave returned by the action being waited on. The
+   * first polls after an action may still show the old status, so target and
+   * `failOn` statuses only count once the enclave has been seen in another
+   * status or was updated after this time.
+   */
+  updatedAfter?: string | number | Date;
+  /** Abort the wait early */
+  signal?: AbortSignal;
+  /** Called after every poll */
+  onProgress?: (event: EnclaveProgressEvent) => void;
+}
+
 /**
  * Quick verification status response
  */
@@ -676,19 +1329,5 @@ export interface VerificationStatus {
   trustLevel: 'HIGH' | 'MEDIUM' | 'LOW' | 'UNKNOWN';
 }
 
-/**
- * Custom error class for Treza SDK
- */
-export class TrezaSdkError extends Error {
-  public readonly code?: string;
-  public readonly details?: Record<string, any>;
-  public readonly statusCode?: number;
-
-  constructor(message: string, code?: string, details?: Record<string, any>, statusCode?: number) {
-    super(message);
-    this.name = 'TrezaSdkError';
-    this.code = code;
-    this.details = details;
-    this.statusCode = statusCode;
-  }
-} 
\ No newline at end of file
+// Error classes live in ./errors; re-exported here for existing imports
+export { TrezaSdkError, EnclaveWaitError, AttestationPolicyError } from './errors';
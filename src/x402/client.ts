@@ -1,3 +1,5 @@
+/// <reference path="./x402-modules.d.ts" />
+
 /**
  * x402 Client Factory for Treza Enclaves
  *
@@ -39,6 +41,7 @@
 import { TrezaClient } from '../client';
 import { createEnclaveAccount, ViemAccount } from './enclave-account';
 import { EnclaveX402Config } from './types';
+import { ConfigurationError, createHttpError } from '../errors';
 
 /**
  * Result of creating an x402 client backed by an enclave.
@@ -70,7 +73,10 @@ export async function createEnclaveX402Client(
   const account = await createEnclaveAccount(platformClient, {
     enclaveId: config.enclaveId,
     verifyAttestation: config.verifyAttestation,
+    nonceSource: config.nonceSource,
     attestationNonce: config.attestationNonce,
+    attestationPolicy: config.attestationPolicy,
+    attestationCache: config.attestationCache,
   });
 
   // Dynamically import x402 to keep it as an optional peer dependency
@@ -81,8 +87,9 @@ export async function createEnclaveX402Client(
     const core = await import('@x402/core/client');
     x402Client = core.x402Client;
   } catch {
-    throw new Error(
-      'Missing dependency: @x402/core. Install it with: npm install @x402/core'
+    throw new ConfigurationError(
+      'Missing dependency: @x402/core. Install it with: npm install @x402/core',
+      { code: 'MISSING_DEPENDENCY' }
     );
   }
 
@@ -90,8 +97,9 @@ export async function createEnclaveX402Client(
     const evm = await import('@x402/evm/exact/client');
     registerExactEvmScheme = evm.registerExactEvmScheme;
   } catch {
-    throw new Error(
-      'Missing dependency: @x402/evm. Install it with: npm install @x402/evm'
+    throw new ConfigurationError(
+      'Missing dependency: @x402/evm. Install it with: npm install @x402/evm',
+      { code: 'MISSING_DEPENDENCY' }
     );
   }
 
@@ -130,8 +138,9 @@ export async function createEnclaveFetch(
     const fetchModule = await import('@x402/fetch');
     wrapFetchWithPayment = fetchModule.wrapFetchWithPayment;
   } catch {
-    throw new Error(
-      'Missing dependency: @x402/fetch. Install it with: npm install @x402/fetch'
+    throw new ConfigurationError(
+      'Missing dependency: @x402/fetch. Install it with: npm install @x402/fetch',
+      { code: 'MISSING_DEPENDENCY' }
     );
   }
 
@@ -157,7 +166,7 @@ export async function discoverPayableServices(filters?: {
 
   const response = await fetch(url.toString());
   if (!response.ok) {
-    throw new Error(`Bazaar discovery failed: ${response.status} ${response.statusText}`);
+    throw createHttpError(response.status, `Bazaar discovery failed: ${response.status} ${response.statusText}`);
   }
 
   const data = await response.json();
@@ -30,7 +30,13 @@
 
 import { ethers } from 'ethers';
 import { TrezaClient } from '../client';
+import { ConfigurationError, SigningError, toTrezaError } from '../errors';
 import { EnclaveSignerConfig } from '../signing/types';
+import {
+  assertEnclaveTrusted,
+  invalidateCachedAttestation,
+  recordSigningAttestation,
+} from '../signing/attestation-guard';
 
 /**
  * Minimal viem Account interface required by x402.
@@ -53,6 +59,9 @@ export interface ViemAccount {
 /**
  * Creates a viem-compatible Account that delegates all signing to a Treza Enclave.
  *
+ * Attestation results are cached in the same AttestationCache as EnclaveSigner,
+ * so an ethers signer and a viem account for one enclave share verifications.
+ *
  * This is the bridge between Treza's EnclaveSigner and the x402 payment protocol.
  * The returned account can be passed directly to `registerExactEvmScheme()`.
  *
@@ -71,40 +80,32 @@ export async function createEnclaveAccount(
   const signingAddress = enclave.providerConfig?.signingAddress;
 
   if (!signingAddress) {
-    throw new Error(
+    throw new ConfigurationError(
       `Enclave ${enclaveId} does not have a signing address. ` +
-      'Ensure it was created with the blockchain signing provider.'
+      'Ensure it was created with the blockchain signing provider.',
+      { code: 'SIGNING_ADDRESS_MISSING', details: { enclaveId } }
     );
   }
 
   const address = signingAddress as `0x${string}`;
 
-  async function verifyIfNeeded(): Promise<void> {
-    if (!config.verifyAttestation) return;
-
-    const verification = await platformClient.verifyAttestation(
-      enclaveId,
-      config.attestationNonce ? { nonce: config.attestationNonce } : undefined,
-    );
-
-    if (!verification.isValid) {
-      throw new Error(
-        `Enclave ${enclaveId} failed attestation — signing rejected. ` +
-        `Details: ${JSON.stringify(verification.verificationDetails)}`
-      );
-    }
-  }
-
   async function requestSigning<T>(path: string, payload: Record<string, unknown>): Promise<T> {
     try {
-      const response = await (platformClient as any).client.post(
+      const response = await platformClient.request<T & { attestation?: { isValid: boolean } }>(
+        'POST',
         `/api/enclaves/${enclaveId}${path}`,
         payload,
       );
-      return response.data as T;
+      recordSigningAttestation(platformClient, config, response.attestation);
+      return response;
     } catch (error: any) {
-      const message = error.response?.data?.error || error.message;
-      throw new Error(`Enclave signing failed: ${message} (${enclaveId}, ${path})`);
+      invalidateCachedAttestation(platformClient, config);
+      const cause = toTrezaError(error);
+      throw new SigningError(enclaveId, path, `Enclave signing failed: ${cause.message} (${enclaveId}, ${path})`, {
+        statusCode: cause.statusCode,
+        requestId: cause.requestId,
+        cause,
+      });
     }
   }
 
@@ -114,7 +115,7 @@ export async function createEnclaveAccount(
     source: 'custom' as const,
 
     async signMessage({ message }: { message: string | Uint8Array }): Promise<`0x${string}`> {
-      await verifyIfNeeded();
+      await assertEnclaveTrusted(platformClient, config);
 
       const messageHex = typeof message === 'string'
         ? ethers.hexlify(ethers.toUtf8Bytes(message))
@@ -128,7 +129,7 @@ export async function createEnclaveAccount(
     },
 
     async signTransaction(transaction: Record<string, unknown>): Promise<`0x${string}`> {
-      await verifyIfNeeded();
+      await assertEnclaveTrusted(platformClient, config);
 
       const tx = ethers.Transaction.from(transaction as ethers.TransactionLike);
       const unsignedTx = tx.unsignedSerialized;
@@ -146,7 +147,7 @@ export async function createEnclaveAccount(
       primaryType: string;
       message: Record<string, unknown>;
     }): Promise<`0x${string}`> {
-      await verifyIfNeeded();
+      await assertEnclaveTrusted(platformClient, config);
 
       const result = await requestSigning<{ signature: string }>(
         '/sign/typed-data',
@@ -6,6 +6,10 @@
  * so private keys never leave the hardware boundary.
  */
 
+import { AttestationPolicy } from '../attestation/policy';
+import { AttestationCache } from '../signing/attestation-cache';
+import { NonceSource } from '../signing/types';
+
 export interface EnclaveX402Config {
   /** The Treza enclave ID that holds the signing key */
   enclaveId: string;
@@ -16,9 +20,27 @@ export interface EnclaveX402Config {
   /** Optional: verify enclave attestation before each payment signing */
   verifyAttestation?: boolean;
 
-  /** Optional: nonce for attestation replay protection */
+  /** Optional: source of the fresh nonce sent with each attestation verification */
+  nonceSource?: NonceSource;
+
+  /**
+   * Optional: static prefix combined with a fresh nonce for every verification
+   * @deprecated Use `nonceSource`; a static nonce does not prevent replay
+   */
   attestationNonce?: string;
 
+  /**
+   * Optional: expected PCR values, document age and trust level.
+   * Payments are not signed when the enclave fails the policy.
+   */
+  attestationPolicy?: AttestationPolicy;
+
+  /**
+   * Optional: cache for verified attestations (defaults to the platform
+   * client's cache); `false` verifies before every payment
+   */
+  attestationCache?: AttestationCache | false;
+
   /**
    * x402 network identifier (e.g. 'eip155:84532' for Base Sepolia,
    * 'eip155:8453' for Base mainnet)